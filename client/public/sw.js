@@ -0,0 +1,139 @@
+// Service worker: keeps the app shell, API reads and images available offline.
+// Writes are never cached here; the page queues them (client/src/lib/offlineQueue.ts).
+
+const SHELL_CACHE = "shell-v1";
+const API_CACHE = "api-v1";
+const MEDIA_CACHE = "media-v1";
+const CACHES = [SHELL_CACHE, API_CACHE, MEDIA_CACHE];
+const SYNC_TAG = "replay-offline-queue";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(["/", "/manifest.webmanifest", "/icon.svg"]))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(names.filter((name) => !CACHES.includes(name)).map((name) => caches.delete(name))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+// Partial (206) responses to Range requests cannot be stored by the Cache API
+const isCacheable = (response) => (response.ok && response.status !== 206) || response.type === "opaque";
+
+// A failed write only means the response is not available offline
+const store = (cache, request, response) => cache.put(request, response).catch(() => {});
+
+// Network first so online users always see fresh data; the cache only answers when offline
+async function networkFirst(request, cacheName, fallback) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (isCacheable(response)) {
+      store(cache, request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    if (fallback) return fallback();
+    throw error;
+  }
+}
+
+// Hashed build assets and images do not change under the same URL
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (isCacheable(response)) {
+    store(cache, request, response.clone());
+  }
+  return response;
+}
+
+const offlineJson = () => new Response(JSON.stringify({ message: "You are offline and this data was not saved on the device" }), {
+  status: 503,
+  headers: { "Content-Type": "application/json" },
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, SHELL_CACHE, () => caches.match("/")));
+    return;
+  }
+
+  // Uploaded media never changes under its URL, and route photos are precached here for offline use.
+  // Range requests (video seeking) go to the network; upload sessions are API data like any other.
+  if (url.origin === self.location.origin && url.pathname.startsWith("/api/media/") && !url.pathname.startsWith("/api/media/uploads")) {
+    if (request.headers.has("range")) return;
+    event.respondWith(cacheFirst(request, MEDIA_CACHE));
+    return;
+  }
+
+  if (url.origin === self.location.origin && url.pathname.startsWith("/api/")) {
+    // Event streams never end, so they cannot be cached
+    if ((request.headers.get("accept") || "").includes("text/event-stream")) return;
+    event.respondWith(networkFirst(request, API_CACHE, offlineJson));
+    return;
+  }
+
+  if (request.destination === "image") {
+    event.respondWith(cacheFirst(request, MEDIA_CACHE));
+    return;
+  }
+
+  if (url.origin === self.location.origin && url.pathname.startsWith("/assets/")) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+    return;
+  }
+
+  if (url.hostname === "fonts.googleapis.com" || url.hostname === "fonts.gstatic.com") {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  }
+});
+
+self.addEventListener("message", (event) => {
+  const { type, urls } = event.data || {};
+
+  // Images and QR codes of a driver's route, fetched ahead of time
+  if (type === "precache" && Array.isArray(urls)) {
+    event.waitUntil(
+      caches.open(MEDIA_CACHE).then((cache) => Promise.all(urls.map(async (url) => {
+        if (await cache.match(url)) return;
+        const sameOrigin = new URL(url, self.location.origin).origin === self.location.origin;
+        try {
+          const response = await fetch(url, sameOrigin ? {} : { mode: "no-cors" });
+          if (isCacheable(response)) await store(cache, url, response);
+        } catch {
+          // Unreachable images are simply not available offline
+        }
+      }))),
+    );
+  }
+
+  // Another user may sign in on this device next
+  if (type === "clear-api-cache") {
+    event.waitUntil(caches.delete(API_CACHE));
+  }
+});
+
+// Writes live in the page's IndexedDB queue, so the page does the replay
+self.addEventListener("sync", (event) => {
+  if (event.tag !== SYNC_TAG) return;
+  event.waitUntil(
+    self.clients.matchAll({ type: "window" }).then((clients) => {
+      clients.forEach((client) => client.postMessage({ type: SYNC_TAG }));
+    }),
+  );
+});
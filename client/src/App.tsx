@@ -4,17 +4,27 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/theme-provider";
+import { AuthProvider } from "@/hooks/use-auth";
+import { OfflineStatus } from "@/components/offline-status";
+import { useRealtimeUpdates } from "@/hooks/use-realtime-updates";
 import TablePage from "@/pages/table";
 import SharedTablePage from "@/pages/shared-table";
+import DriverPage from "@/pages/driver";
 import NotFound from "@/pages/not-found";
 
 function Router() {
+  // Patch cached rows and columns as other browsers change them
+  useRealtimeUpdates();
+
   return (
     <div className="min-h-screen pb-16 text-sm">
       <Switch>
         <Route path="/">
           {() => <TablePage />}
         </Route>
+        <Route path="/driver">
+          {() => <DriverPage />}
+        </Route>
         <Route path="/share/:shareId">
           {() => <SharedTablePage />}
         </Route>
@@ -27,12 +37,15 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <ThemeProvider>
-        <TooltipProvider>
-          <Toaster />
-          <Router />
-        </TooltipProvider>
-      </ThemeProvider>
+      <AuthProvider>
+        <ThemeProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Router />
+            <OfflineStatus />
+          </TooltipProvider>
+        </ThemeProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -4,7 +4,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
-import { GripVertical, RotateCcw, X, CheckCheck, Columns3 } from "lucide-react";
+import { GripVertical, RotateCcw, X, CheckCheck, Columns3, Users, Undo2 } from "lucide-react";
 import { TableColumn } from "@shared/schema";
 
 interface ColumnCustomizationModalProps {
@@ -13,6 +13,10 @@ interface ColumnCustomizationModalProps {
   columns: TableColumn[];
   visibleColumns: string[];
   onApplyChanges: (visibleColumns: string[], columnOrder: string[]) => void;
+  // Admin only: store the current selection as the layout new users inherit
+  onSaveAsTeamDefault?: (visibleColumns: string[], columnOrder: string[]) => void;
+  // Drop the user's own layout and follow the team default again
+  onResetToTeamDefault?: () => void;
   editMode?: boolean;
 }
 
@@ -30,6 +34,8 @@ export function ColumnCustomizationModal({
   columns,
   visibleColumns,
   onApplyChanges,
+  onSaveAsTeamDefault,
+  onResetToTeamDefault,
   editMode = false,
 }: ColumnCustomizationModalProps) {
   const [localColumns, setLocalColumns] = useState<ColumnItem[]>([]);
@@ -84,6 +90,17 @@ export function ColumnCustomizationModal({
     onOpenChange(false);
   };
 
+  const handleSaveAsTeamDefault = () => {
+    const visibleIds = localColumns.filter(col => col.visible).map(col => col.id);
+    const columnOrder = localColumns.map(col => col.id);
+    onSaveAsTeamDefault?.(visibleIds, columnOrder);
+  };
+
+  const handleResetToTeamDefault = () => {
+    onResetToTeamDefault?.();
+    onOpenChange(false);
+  };
+
   const handleReset = () => {
     const columnsToHide = editMode 
       ? ['longitude', 'latitude', 'tollPrice'] // In edit mode, hide longitude, latitude, and tollPrice
@@ -222,6 +239,30 @@ export function ColumnCustomizationModal({
             >
               <RotateCcw className="w-4 h-4" />
             </Button>
+            {onResetToTeamDefault && (
+              <Button
+                variant="outline"
+                onClick={handleResetToTeamDefault}
+                size="sm"
+                className="w-8 h-8 p-0"
+                data-testid="button-reset-team-layout"
+                title="Use team default layout"
+              >
+                <Undo2 className="w-4 h-4" />
+              </Button>
+            )}
+            {onSaveAsTeamDefault && (
+              <Button
+                variant="outline"
+                onClick={handleSaveAsTeamDefault}
+                size="sm"
+                className="w-8 h-8 p-0"
+                data-testid="button-save-team-layout"
+                title="Save as team default"
+              >
+                <Users className="w-4 h-4" />
+              </Button>
+            )}
             <Button
               variant="outline"
               onClick={() => onOpenChange(false)}
@@ -60,14 +60,22 @@ import {
   Share2,
   Power,
   Bookmark,
+  Download,
+  FileSpreadsheet,
+  Printer,
+  Globe,
+  CalendarDays,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import {
   SkeletonLoader,
   LoadingOverlay,
   InlineLoading,
 } from "./skeleton-loader";
-import { TableRow as TableRowType, TableColumn } from "@shared/schema";
+import { TableRow as TableRowType, TableColumn, type MediaWithCaption, type TableSorting, type ExportFormat } from "@shared/schema";
+import { isCustomColumn, getCustomFieldValue } from "@shared/customFields";
+import { sortTableRows, compareCustomField, columnTotal, isActiveRow, type DisplayRow } from "@shared/tableView";
 import { UseMutationResult } from "@tanstack/react-query";
 import { useState, useEffect } from "react";
 import { Input } from "@/components/ui/input";
@@ -78,6 +86,13 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 
 // Simple mobile-friendly tooltip component
 interface MobileTooltipProps {
@@ -146,7 +161,7 @@ function MobileTooltip({ content, children, showBelow = false }: MobileTooltipPr
 }
 
 interface DataTableProps {
-  rows: TableRowType[];
+  rows: DisplayRow[];
   columns: TableColumn[];
   editMode: boolean;
   onUpdateRow: UseMutationResult<
@@ -164,6 +179,8 @@ interface DataTableProps {
   onOptimizeRoute?: () => void;
   onShareTable?: () => void;
   onSavedLinks?: () => void;
+  onSortStateChange?: (sorting: TableSorting | null) => void;
+  onExport?: (format: ExportFormat) => void;
   isAuthenticated?: boolean;
   isLoading?: boolean;
   isFiltered?: boolean;
@@ -174,6 +191,11 @@ interface DataTableProps {
   onFilterValueChange?: (filters: string[]) => void;
   deliveryFilterValue?: string[];
   onDeliveryFilterValueChange?: (filters: string[]) => void;
+  inactiveOnly?: boolean;
+  onInactiveOnlyChange?: (inactiveOnly: boolean) => void;
+  inactiveRowsCount?: number;
+  dueDate?: string; // "YYYY-MM-DD" the table is filtered to, or "" for every day
+  onDueDateChange?: (date: string) => void;
   routeOptions?: string[];
   deliveryOptions?: string[];
   onClearAllFilters?: () => void;
@@ -195,6 +217,8 @@ export function DataTable({
   onOptimizeRoute,
   onShareTable,
   onSavedLinks,
+  onSortStateChange,
+  onExport,
   isAuthenticated = false,
   isLoading = false,
   isFiltered = false,
@@ -205,6 +229,11 @@ export function DataTable({
   onFilterValueChange,
   deliveryFilterValue = [],
   onDeliveryFilterValueChange,
+  inactiveOnly = false,
+  onInactiveOnlyChange,
+  inactiveRowsCount = 0,
+  dueDate = '',
+  onDueDateChange,
   routeOptions = [],
   deliveryOptions = [],
   onClearAllFilters,
@@ -217,12 +246,18 @@ export function DataTable({
   const [selectedRowForDelete, setSelectedRowForDelete] = useState<
     string | null
   >(null);
-  const [sortState, setSortState] = useState<{column: string; direction: 'asc' | 'desc'} | null>(null);
+  const [sortState, setSortState] = useState<TableSorting | null>(null);
   const { toast } = useToast();
+  const { can, canEditRow } = useAuth();
+  const canToggleActive = editMode && can("rows:edit");
 
   // Filter columns to hide "info" column when not in edit mode
   const visibleColumns = editMode ? columns : columns.filter(col => col.dataKey !== 'info');
 
+  // User-defined columns keep their values in row.customFields
+  const customColumns = columns.filter(isCustomColumn);
+  const sortableCustomColumns = customColumns.filter(column => column.type !== "images");
+
   // Reset to page 1 when rows change (due to filtering)
   useEffect(() => {
     if (currentPage > 1) {
@@ -233,69 +268,7 @@ export function DataTable({
   // Use rows as provided (already filtered by parent with distances calculated)
   
   // Apply sorting based on sortState
-  const sortedRows = sortState ? (() => {
-    const sorted = [...rows].sort((a, b) => {
-      // Always put inactive rows at the bottom
-      const activeA = a.active !== false;
-      const activeB = b.active !== false;
-      if (activeA !== activeB) {
-        return activeA ? -1 : 1;
-      }
-      
-      const direction = sortState.direction === 'asc' ? 1 : -1;
-      
-      switch (sortState.column) {
-        case 'code': {
-          const codeA = a.code || "";
-          const codeB = b.code || "";
-          const numA = parseInt(codeA) || 0;
-          const numB = parseInt(codeB) || 0;
-          return (numA - numB) * direction;
-        }
-        case 'route': {
-          const routeA = a.route || "";
-          const routeB = b.route || "";
-          return routeA.localeCompare(routeB) * direction;
-        }
-        case 'location': {
-          const locationA = a.location || "";
-          const locationB = b.location || "";
-          return locationA.localeCompare(locationB) * direction;
-        }
-        case 'delivery': {
-          const deliveryA = a.delivery || "";
-          const deliveryB = b.delivery || "";
-          return deliveryA.localeCompare(deliveryB) * direction;
-        }
-        case 'kilometer': {
-          const kmA = parseFloat((a as any).kilometer) || 0;
-          const kmB = parseFloat((b as any).kilometer) || 0;
-          return (kmA - kmB) * direction;
-        }
-        case 'order': {
-          const noA = a.no || 0;
-          const noB = b.no || 0;
-          return (noA - noB) * direction;
-        }
-        default:
-          return 0;
-      }
-    });
-    
-    // Keep QL Kitchen at top if it exists and is active
-    const qlKitchenIndex = sorted.findIndex(row => row.location === "QL Kitchen" && row.active !== false);
-    if (qlKitchenIndex > 0) {
-      const qlKitchenRow = sorted.splice(qlKitchenIndex, 1)[0];
-      sorted.unshift(qlKitchenRow);
-    }
-    
-    return sorted;
-  })() : (() => {
-    // Even without sorting, put inactive rows at the bottom
-    const activeRows = rows.filter(row => row.active !== false);
-    const inactiveRows = rows.filter(row => row.active === false);
-    return [...activeRows, ...inactiveRows];
-  })();
+  const sortedRows = sortTableRows(rows, sortState, columns);
 
   // Calculate pagination
   const totalRows = sortedRows.length;
@@ -321,6 +294,7 @@ export function DataTable({
     const { source, destination, type } = result;
 
     if (type === "column") {
+      if (!can("columns:manage")) return;
       const newColumnOrder = Array.from(columns);
       const [reorderedColumn] = newColumnOrder.splice(source.index, 1);
       newColumnOrder.splice(destination.index, 0, reorderedColumn);
@@ -328,6 +302,7 @@ export function DataTable({
       const columnIds = newColumnOrder.map((col) => col.id);
       onReorderColumns.mutate(columnIds);
     } else if (type === "row") {
+      if (!can("rows:reorder")) return;
       const newRowOrder = Array.from(rows);
       const [reorderedRow] = newRowOrder.splice(source.index, 1);
       newRowOrder.splice(destination.index, 0, reorderedRow);
@@ -354,7 +329,7 @@ export function DataTable({
   };
 
   const getCellValue = (
-    row: TableRowType,
+    row: DisplayRow,
     column: TableColumn,
     rowIndex?: number,
   ) => {
@@ -362,15 +337,10 @@ export function DataTable({
       case "id":
         return row.id.slice(0, 8).toUpperCase();
       case "no":
-        // Show infinity icon for QL Kitchen row
-        if (row.location === "QL Kitchen") {
-          return "∞";
-        }
         // Display sequential numbers (1, 2, 3...) based on position in table
         // This shows sequential numbers even if code has gaps
         if (rowIndex !== undefined) {
-          const hasQLKitchenAtTop = paginatedRows[0]?.location === "QL Kitchen";
-          return hasQLKitchenAtTop ? rowIndex : rowIndex + 1;
+          return rowIndex + 1;
         }
         return row.no || 0;
       case "route":
@@ -411,7 +381,7 @@ export function DataTable({
         );
       case "kilometer":
         // Use the kilometer value already calculated by parent component
-        const kmValue = (row as any).kilometer;
+        const kmValue = row.displayKilometer;
         if (kmValue === "—" || kmValue === undefined || kmValue === null) {
           return "—";
         }
@@ -422,9 +392,19 @@ export function DataTable({
           return `${kmValue.toFixed(2)} km`;
         }
         return "—";
-      default:
-        // Handle dynamic columns - return empty value for new columns
-        return (row as any)[column.dataKey] || "";
+      default: {
+        // User-defined columns read from customFields; empty until a value is saved
+        const value = isCustomColumn(column)
+          ? getCustomFieldValue(row, column.dataKey)
+          : (row as any)[column.dataKey];
+        if (value === undefined || value === null || value === "") {
+          return "";
+        }
+        if (column.type === "currency") {
+          return formatCurrency(Number(value));
+        }
+        return value;
+      }
     }
   };
 
@@ -443,30 +423,13 @@ export function DataTable({
   };
 
   // Calculate totals based on currently visible filtered/searched data
-  // The 'rows' prop already contains only the filtered data from the parent component
+  // The 'rows' prop already contains only the filtered data from the parent component;
+  // inactive sites never count towards the totals
   const calculateColumnSum = (dataKey: string, columnType: string) => {
     if (dataKey === "no") {
-      return rows.reduce((sum, row) => sum + (row.no || 0), 0);
-    }
-    if (columnType === "currency" && dataKey === "tngRoute") {
-      return rows.reduce((sum, row) => {
-        const value = parseFloat(row.tngRoute || "0") || 0;
-        return sum + value;
-      }, 0);
-    }
-    if (columnType === "currency" && dataKey === "destination") {
-      return rows.reduce((sum, row) => {
-        const value = parseFloat(row.destination || "0") || 0;
-        return sum + value;
-      }, 0);
+      return rows.filter(isActiveRow).reduce((sum, row) => sum + (row.no || 0), 0);
     }
-    if (columnType === "currency" && dataKey === "tollPrice") {
-      return rows.reduce((sum, row) => {
-        const value = parseFloat(row.tollPrice || "0") || 0;
-        return sum + value;
-      }, 0);
-    }
-    return 0;
+    return columnTotal(rows, { dataKey, type: columnType }) ?? 0;
   };
 
   const handleSortByCode = (direction: 'asc' | 'desc') => {
@@ -548,8 +511,8 @@ export function DataTable({
   const handleSortByKilometer = (direction: 'asc' | 'desc') => {
     // Sort rows by kilometer column (0-9 or 9-0)
     const sortedRows = [...rows].sort((a, b) => {
-      const kmA = parseFloat((a as any).kilometer) || 0;
-      const kmB = parseFloat((b as any).kilometer) || 0;
+      const kmA = Number(a.displayKilometer) || 0;
+      const kmB = Number(b.displayKilometer) || 0;
       return direction === 'asc' ? kmA - kmB : kmB - kmA;
     });
 
@@ -558,6 +521,17 @@ export function DataTable({
     onReorderRows.mutate(sortedRowIds);
   };
 
+  const handleSortByCustomField = (column: TableColumn, direction: 'asc' | 'desc') => {
+    // Sort rows by a user-defined column (numeric for number/currency, A-Z otherwise)
+    const sortedRows = [...rows].sort((a, b) =>
+      direction === 'asc' ? compareCustomField(a, b, column) : compareCustomField(b, a, column)
+    );
+
+    // Reorder rows using the mutation
+    const sortedRowIds = sortedRows.map((row) => row.id);
+    onReorderRows.mutate(sortedRowIds);
+  };
+
   const handleSortToggle = (column: string) => {
     // Cycle through: null → asc → desc → null
     let newDirection: 'asc' | 'desc' | null = null;
@@ -575,11 +549,13 @@ export function DataTable({
     
     if (newDirection === null) {
       setSortState(null);
+      onSortStateChange?.(null);
       // No need to reorder, just clear the state
       return;
     }
     
     setSortState({ column, direction: newDirection });
+    onSortStateChange?.({ column, direction: newDirection });
     
     // Apply the sort
     switch (column) {
@@ -601,8 +577,13 @@ export function DataTable({
       case "order":
         handleSortBySortOrder(newDirection);
         break;
-      default:
+      default: {
+        const customColumn = sortableCustomColumns.find(col => col.dataKey === column);
+        if (customColumn) {
+          handleSortByCustomField(customColumn, newDirection);
+        }
         break;
+      }
     }
   };
 
@@ -708,6 +689,44 @@ export function DataTable({
             >
               <Share2 className="w-3 h-3 text-green-500 dark:text-green-400" />
             </Button>
+            {onExport && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-8 h-8 p-0 pagination-button"
+                    data-testid="button-export-table"
+                    title="Export current table view"
+                  >
+                    <Download className="w-3 h-3 text-blue-600 dark:text-blue-400" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => onExport("csv")} data-testid="menu-export-csv">
+                    <FileText className="w-4 h-4 mr-2" />
+                    <span style={{ fontSize: "10px" }}>CSV</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => onExport("xlsx")} data-testid="menu-export-xlsx">
+                    <FileSpreadsheet className="w-4 h-4 mr-2" />
+                    <span style={{ fontSize: "10px" }}>Excel (XLSX)</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => onExport("pdf")} data-testid="menu-export-pdf">
+                    <Printer className="w-4 h-4 mr-2" />
+                    <span style={{ fontSize: "10px" }}>Run Sheet (PDF)</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => onExport("geojson")} data-testid="menu-export-geojson">
+                    <MapPin className="w-4 h-4 mr-2" />
+                    <span style={{ fontSize: "10px" }}>GeoJSON</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => onExport("kml")} data-testid="menu-export-kml">
+                    <Globe className="w-4 h-4 mr-2" />
+                    <span style={{ fontSize: "10px" }}>KML (Google Earth)</span>
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
           </div>
         </div>
         
@@ -733,6 +752,7 @@ export function DataTable({
                       {sortState.column === 'delivery' && 'Delivery'}
                       {sortState.column === 'kilometer' && 'Km'}
                       {sortState.column === 'order' && 'No'}
+                      {sortableCustomColumns.find(column => column.dataKey === sortState.column)?.name}
                     </span>
                     <span className="sm:hidden">Sort</span>
                   </>
@@ -827,6 +847,24 @@ export function DataTable({
                     )}
                     {sortState?.column !== 'kilometer' && <ArrowUpDown className="w-3 h-3 opacity-30" />}
                   </Button>
+                  {sortableCustomColumns.map((column) => (
+                    <Button
+                      key={column.id}
+                      variant={sortState?.column === column.dataKey ? 'default' : 'ghost'}
+                      size="sm"
+                      className={`w-full justify-between text-xs ${
+                        sortState?.column === column.dataKey ? 'bg-blue-500 hover:bg-blue-600 text-white' : ''
+                      }`}
+                      onClick={() => handleSortToggle(column.dataKey)}
+                      data-testid={`button-sort-${column.dataKey}`}
+                    >
+                      <span>{column.name}</span>
+                      {sortState?.column === column.dataKey && (
+                        sortState.direction === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />
+                      )}
+                      {sortState?.column !== column.dataKey && <ArrowUpDown className="w-3 h-3 opacity-30" />}
+                    </Button>
+                  ))}
                   {isFiltered && (
                     <Button
                       variant={sortState?.column === 'order' ? 'default' : 'ghost'}
@@ -855,14 +893,14 @@ export function DataTable({
               <PopoverTrigger asChild>
                 <Button variant="outline" className="h-6 px-2 pagination-button text-xs justify-start" data-testid="combined-filter-trigger">
                   <span className="hidden sm:inline">
-                    {filterValue.length === 0 && deliveryFilterValue.length === 0 
+                    {filterValue.length === 0 && deliveryFilterValue.length === 0 && !inactiveOnly
                       ? "🔍 Filters" 
-                      : `📍 ${filterValue.length} • 🚫 ${deliveryFilterValue.length}`}
+                      : `📍 ${filterValue.length} • 🚫 ${deliveryFilterValue.length}${inactiveOnly ? " • ⏻" : ""}`}
                   </span>
                   <span className="sm:hidden">
-                    {filterValue.length === 0 && deliveryFilterValue.length === 0 
+                    {filterValue.length === 0 && deliveryFilterValue.length === 0 && !inactiveOnly
                       ? "🔍" 
-                      : `📍${filterValue.length} 🚫${deliveryFilterValue.length}`}
+                      : `📍${filterValue.length} 🚫${deliveryFilterValue.length}${inactiveOnly ? " ⏻" : ""}`}
                   </span>
                 </Button>
               </PopoverTrigger>
@@ -930,13 +968,45 @@ export function DataTable({
                     ))}
                   </div>
                 </div>
+
+                {/* Separator */}
+                <div className="border-t border-border/20"></div>
+
+                {/* Inactive Sites Section */}
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="inactive-sites"
+                    checked={inactiveOnly}
+                    onCheckedChange={(checked) => onInactiveOnlyChange?.(checked === true)}
+                    data-testid="checkbox-inactive-sites"
+                  />
+                  <Label htmlFor="inactive-sites" className="text-xs cursor-pointer font-medium flex items-center gap-1">
+                    <Power className="w-3 h-3 text-red-500" />
+                    Inactive sites only ({inactiveRowsCount})
+                  </Label>
+                </div>
               </div>
             </PopoverContent>
           </Popover>
           </div>
+
+          {/* Due Date Picker */}
+          {onDueDateChange && (
+            <div className="relative flex items-center" title="Show the stops due on a day">
+              <CalendarDays className="absolute left-2 w-3 h-3 text-muted-foreground pointer-events-none" />
+              <Input
+                type="date"
+                value={dueDate}
+                onChange={(e) => onDueDateChange(e.target.value)}
+                className="h-6 pl-6 pr-1 w-[130px] text-xs pagination-button"
+                data-testid="input-due-date"
+                aria-label="Due date"
+              />
+            </div>
+          )}
           
           {/* Clear All Section */}
-          {(searchTerm || filterValue.length > 0 || deliveryFilterValue.length > 0) && (
+          {(searchTerm || filterValue.length > 0 || deliveryFilterValue.length > 0 || inactiveOnly || dueDate) && (
             <Button
               onClick={onClearAllFilters}
               variant="outline"
@@ -975,7 +1045,7 @@ export function DataTable({
         </div>
       </div>
       {/* Active Filters Display */}
-      {(searchTerm || filterValue.length > 0 || deliveryFilterValue.length > 0) && (
+      {(searchTerm || filterValue.length > 0 || deliveryFilterValue.length > 0 || inactiveOnly || dueDate) && (
         <div className="px-6 py-2 border-b border-border/20 bg-gradient-to-r from-blue-500/5 via-transparent to-blue-500/5 dark:from-blue-500/5 dark:via-transparent dark:to-blue-500/5">
           <div className="flex flex-wrap items-center gap-1">
             <span className="text-muted-foreground font-medium text-xs">Active:</span>
@@ -997,6 +1067,24 @@ export function DataTable({
                 </button>
               </div>
             ))}
+            {dueDate && (
+              <div className="flex items-center gap-0.5 px-2 py-0.5 bg-transparent border border-transparent rounded-full text-gray-400 text-xs">
+                <CalendarDays className="w-2.5 h-2.5" />
+                <span>Due {new Date(`${dueDate}T00:00:00`).toLocaleDateString("en-MY", { weekday: "short", day: "numeric", month: "short" })}</span>
+                <button onClick={() => onDueDateChange?.('')} className="ml-0.5 p-0.5 hover:text-red-600 flex items-center justify-center rounded-full hover:bg-red-500/10" aria-label="Remove due date filter">
+                  <X className="w-2.5 h-2.5 text-red-500" />
+                </button>
+              </div>
+            )}
+            {inactiveOnly && (
+              <div className="flex items-center gap-0.5 px-2 py-0.5 bg-transparent border border-transparent rounded-full text-gray-400 text-xs">
+                <Power className="w-2.5 h-2.5" />
+                <span>Inactive sites</span>
+                <button onClick={() => onInactiveOnlyChange?.(false)} className="ml-0.5 p-0.5 hover:text-red-600 flex items-center justify-center rounded-full hover:bg-red-500/10" aria-label="Remove inactive sites filter">
+                  <X className="w-2.5 h-2.5 text-red-500" />
+                </button>
+              </div>
+            )}
             {deliveryFilterValue.map(delivery => (
               <div key={delivery} className="flex items-center gap-0.5 px-2 py-0.5 bg-transparent border border-transparent rounded-full text-gray-400 text-xs">
                 <Filter className="w-2.5 h-2.5" />
@@ -1053,7 +1141,7 @@ export function DataTable({
                               dragHandleProps={provided.dragHandleProps}
                               onDelete={() => onDeleteColumn.mutate(column.id)}
                               isAuthenticated={isAuthenticated}
-                              editMode={editMode}
+                              editMode={editMode && can("columns:manage")}
                             />
                           </TableHead>
                         )}
@@ -1137,9 +1225,7 @@ export function DataTable({
                               className={`table-row-glass group ${
                                 row.active === false
                                   ? "bg-gray-100/60 dark:bg-gray-800/40 opacity-50"
-                                  : row.location === "QL Kitchen" 
-                                    ? "bg-gradient-to-r from-gray-100/80 to-slate-100/80 dark:from-gray-800/60 dark:to-slate-800/60" 
-                                    : "odd:bg-white dark:odd:bg-gray-900/50 even:bg-blue-50/50 dark:even:bg-blue-900/20"
+                                  : "odd:bg-white dark:odd:bg-gray-900/50 even:bg-blue-50/50 dark:even:bg-blue-900/20"
                               } hover:bg-blue-100/60 dark:hover:bg-blue-800/30 table-cell-unique-transition ${
                                 snapshot.isDragging ? "drag-elevate" : ""
                               }`}
@@ -1201,7 +1287,7 @@ export function DataTable({
                                       onAddImage={() =>
                                         onSelectRowForImage(row.id)
                                       }
-                                      editMode={editMode}
+                                      editMode={editMode && canEditRow(row, ["images"])}
                                       onAccessDenied={() =>
                                         onSelectRowForImage("access-denied")
                                       }
@@ -1232,7 +1318,7 @@ export function DataTable({
                                       <span className="text-muted-foreground">—</span>
                                     )
                                   ) : column.dataKey === "delivery" ? (
-                                    editMode && column.isEditable === "true" ? (
+                                    editMode && column.isEditable === "true" && canEditRow(row, [column.dataKey]) ? (
                                       <EditableCell
                                         value={getCellValue(row, column, index)}
                                         type="text"
@@ -1255,7 +1341,7 @@ export function DataTable({
                                     <span className="font-mono text-slate-600 dark:text-slate-300" style={{ fontSize: '10px' }}>
                                       {getCellValue(row, column, index)}
                                     </span>
-                                  ) : column.dataKey === "no" && editMode && row.location !== "QL Kitchen" ? (
+                                  ) : column.dataKey === "no" && editMode && canEditRow(row, ["no"]) ? (
                                     <EditableCell
                                       value={String(row.no || 0)}
                                       type="number"
@@ -1267,8 +1353,17 @@ export function DataTable({
                                         })
                                       }
                                     />
+                                  ) : column.type === "images" && isCustomColumn(column) ? (
+                                    <ImagePreview
+                                      images={(getCustomFieldValue(row, column.dataKey) as MediaWithCaption[] | undefined) ?? []}
+                                      rowId={row.id}
+                                      onAddImage={() => {}}
+                                      editMode={false}
+                                      onAccessDenied={() => {}}
+                                    />
                                   ) : editMode &&
-                                    column.isEditable === "true" ? (
+                                    column.isEditable === "true" &&
+                                    canEditRow(row, [isCustomColumn(column) ? "customFields" : column.dataKey]) ? (
                                     <EditableCell
                                       value={getCellValue(row, column, index)}
                                       type={column.type}
@@ -1277,7 +1372,9 @@ export function DataTable({
                                       onSave={(value) =>
                                         onUpdateRow.mutate({
                                           id: row.id,
-                                          updates: { [column.dataKey]: value },
+                                          updates: isCustomColumn(column)
+                                            ? { customFields: { [column.dataKey]: value } }
+                                            : { [column.dataKey]: value },
                                         })
                                       }
                                     />
@@ -1286,8 +1383,18 @@ export function DataTable({
                                       {column.dataKey === "kilometer" ? (
                                         <MobileTooltip
                                           content={(() => {
-                                            const segmentDistance = (row as any).segmentDistance;
-                                            if (segmentDistance && typeof segmentDistance === "number" && segmentDistance > 0) {
+                                            if (row.isRoadDistance) {
+                                              const calculatedAt = row.distanceCalculatedAt
+                                                ? new Date(row.distanceCalculatedAt).toLocaleDateString()
+                                                : null;
+                                              return [
+                                                "Road distance",
+                                                row.driveMinutes !== null ? `${row.driveMinutes} min drive` : null,
+                                                calculatedAt ? `calculated ${calculatedAt}` : null,
+                                              ].filter(Boolean).join(" · ");
+                                            }
+                                            const segmentDistance = row.segmentDistance;
+                                            if (segmentDistance && segmentDistance > 0) {
                                               return `${segmentDistance.toFixed(2)} km`;
                                             }
                                             return "Starting point";
@@ -1330,6 +1437,7 @@ export function DataTable({
                                     <div className="flex items-center gap-3 opacity-60 group-hover:opacity-100 transition-opacity">
                                     {editMode && (
                                       <>
+                                        {canEditRow(row, ["images"]) && (
                                         <Button
                                           size="sm"
                                           variant="ghost"
@@ -1362,6 +1470,8 @@ export function DataTable({
                                             <PlusCircle className="w-4 h-4" />
                                           )}
                                         </Button>
+                                        )}
+                                      {can("rows:edit") && (
                                       <Button
                                         size="sm"
                                         variant="ghost"
@@ -1394,6 +1504,7 @@ export function DataTable({
                                           <Trash className="w-4 h-4" />
                                         )}
                                       </Button>
+                                      )}
                                       </>
                                     )}
                                     <InfoModal
@@ -1405,14 +1516,20 @@ export function DataTable({
                                       latitude={row.latitude ? String(row.latitude) : undefined}
                                       longitude={row.longitude ? String(row.longitude) : undefined}
                                       qrCode={row.qrCode || undefined}
+                                      windowStart={row.windowStart || undefined}
+                                      windowEnd={row.windowEnd || undefined}
+                                      serviceMinutes={row.serviceMinutes}
+                                      demand={row.demand}
                                       no={row.no}
+                                      images={row.images}
                                       onUpdateRow={(updates) =>
                                         onUpdateRow.mutate({
                                           id: row.id,
                                           updates,
                                         })
                                       }
-                                      editMode={editMode}
+                                      editMode={editMode && canEditRow(row, ["info"])}
+                                      canEditCoordinates={can("rows:edit")}
                                       allRows={rows}
                                       iconType={editMode ? "filetext" : "info"}
                                     />
@@ -1428,9 +1545,9 @@ export function DataTable({
                                         onUpdateRow.variables?.id === row.id
                                           ? "mutation-loading"
                                           : ""
-                                      } ${!editMode ? "opacity-50 cursor-not-allowed" : ""}`}
+                                      } ${!canToggleActive ? "opacity-50 cursor-not-allowed" : ""}`}
                                       onClick={() => {
-                                        if (editMode) {
+                                        if (canToggleActive) {
                                           onUpdateRow.mutate({
                                             id: row.id,
                                             updates: { active: row.active === false ? true : false },
@@ -1438,14 +1555,14 @@ export function DataTable({
                                         }
                                       }}
                                       disabled={
-                                        !editMode ||
+                                        !canToggleActive ||
                                         (onUpdateRow.isPending &&
                                         onUpdateRow.variables?.id === row.id)
                                       }
                                       data-testid={`button-toggle-active-${row.id}`}
                                       title={
-                                        !editMode
-                                          ? "Enable edit mode to toggle row status"
+                                        !canToggleActive
+                                          ? "Enable edit mode as a dispatcher to toggle row status"
                                           : row.active !== false
                                           ? "Deactivate row"
                                           : "Activate row"
@@ -1495,6 +1612,13 @@ export function DataTable({
                           calculateColumnSum("tollPrice", column.type),
                         )}
                       </span>
+                    ) : isCustomColumn(column) &&
+                      (column.type === "currency" || column.type === "number") ? (
+                      <span className="font-semibold bg-gradient-to-r from-blue-600 to-cyan-600 dark:from-blue-400 dark:to-cyan-400 bg-clip-text text-transparent">
+                        {column.type === "currency"
+                          ? formatCurrency(calculateColumnSum(column.dataKey, column.type))
+                          : calculateColumnSum(column.dataKey, column.type).toLocaleString()}
+                      </span>
                     ) : (
                       <span className="font-semibold bg-gradient-to-r from-blue-600 to-cyan-600 dark:from-blue-400 dark:to-cyan-400 bg-clip-text text-transparent">—</span>
                     )}
@@ -1588,8 +1712,8 @@ export function DataTable({
           <DialogHeader>
             <DialogTitle>Confirm Deletion</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete this row? This action cannot be
-              undone.
+              Are you sure you want to delete this row? It moves to the trash
+              and can be restored from the Edit menu.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
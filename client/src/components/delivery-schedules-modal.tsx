@@ -0,0 +1,388 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarDays, Pencil, Trash2, Plus, X, Check } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useDeliverySchedules } from "@/hooks/use-delivery-schedules";
+import { WEEKDAY_NAMES, describeSchedule, nextDeliveryDates, todayIsoDate } from "@shared/deliverySchedule";
+import type { DeliverySchedule } from "@shared/schema";
+
+interface DeliverySchedulesModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  deliveries: string[]; // Delivery labels used by rows, offered even before they have a schedule
+}
+
+interface ScheduleForm {
+  delivery: string;
+  weekdays: number[];
+  intervalWeeks: number;
+  anchorDate: string;
+  skipHolidays: boolean;
+}
+
+const emptyForm: ScheduleForm = { delivery: "", weekdays: [1, 2, 3, 4, 5], intervalWeeks: 1, anchorDate: "", skipHolidays: true };
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-MY", { weekday: "short", day: "numeric", month: "short" });
+
+export function DeliverySchedulesModal({ open, onOpenChange, deliveries }: DeliverySchedulesModalProps) {
+  const [editing, setEditing] = useState<string | "new" | null>(null);
+  const [form, setForm] = useState<ScheduleForm>(emptyForm);
+  const [holidayDate, setHolidayDate] = useState("");
+  const [holidayName, setHolidayName] = useState("");
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const { schedules, holidays, saveSchedule, deleteSchedule, addHoliday, removeHoliday } = useDeliverySchedules();
+
+  const canManage = can("schedules:manage");
+  const today = todayIsoDate();
+  const labels = Array.from(new Set([...schedules.map(schedule => schedule.delivery), ...deliveries])).sort();
+
+  const showError = (description: string) => {
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const startEdit = (delivery: string, schedule?: DeliverySchedule) => {
+    setEditing(delivery);
+    setForm(schedule
+      ? {
+          delivery,
+          weekdays: schedule.weekdays,
+          intervalWeeks: schedule.intervalWeeks,
+          anchorDate: schedule.anchorDate ?? "",
+          skipHolidays: schedule.skipHolidays,
+        }
+      : { ...emptyForm, delivery });
+  };
+
+  const startCreate = () => {
+    setEditing("new");
+    setForm(emptyForm);
+  };
+
+  const cancelEdit = () => {
+    setEditing(null);
+    setForm(emptyForm);
+  };
+
+  const toggleWeekday = (day: number) => {
+    setForm(prev => ({
+      ...prev,
+      weekdays: prev.weekdays.includes(day) ? prev.weekdays.filter(d => d !== day) : [...prev.weekdays, day],
+    }));
+  };
+
+  const handleSave = async () => {
+    const delivery = form.delivery.trim();
+    if (!delivery || form.weekdays.length === 0) {
+      showError("A schedule needs a delivery label and at least one day.");
+      return;
+    }
+    if (form.intervalWeeks > 1 && !form.anchorDate) {
+      showError("Choose a date in a delivery week to anchor the alternating weeks.");
+      return;
+    }
+
+    try {
+      await saveSchedule.mutateAsync({
+        delivery,
+        schedule: {
+          weekdays: form.weekdays,
+          intervalWeeks: form.intervalWeeks,
+          anchorDate: form.intervalWeeks > 1 ? form.anchorDate : null,
+          skipHolidays: form.skipHolidays,
+        },
+      });
+      toast({ title: "Schedule Saved", description: `"${delivery}" stops now follow the new schedule.` });
+      cancelEdit();
+    } catch (error) {
+      showError("Failed to save the schedule.");
+    }
+  };
+
+  const handleDelete = async (delivery: string) => {
+    try {
+      await deleteSchedule.mutateAsync(delivery);
+      toast({ title: "Schedule Deleted", description: `"${delivery}" stops are no longer due on any day.` });
+    } catch (error) {
+      showError("Failed to delete the schedule.");
+    }
+  };
+
+  const handleAddHoliday = async () => {
+    if (!holidayDate) {
+      showError("Choose the date of the holiday.");
+      return;
+    }
+    try {
+      await addHoliday.mutateAsync({ date: holidayDate, name: holidayName.trim() });
+      setHolidayDate("");
+      setHolidayName("");
+    } catch (error) {
+      showError("Failed to add the holiday.");
+    }
+  };
+
+  const handleRemoveHoliday = async (date: string) => {
+    try {
+      await removeHoliday.mutateAsync(date);
+    } catch (error) {
+      showError("Failed to remove the holiday.");
+    }
+  };
+
+  const renderForm = () => (
+    <div className="space-y-2 p-3 rounded-xl border border-blue-200/50 dark:border-blue-500/20">
+      {editing === "new" && (
+        <div>
+          <Label htmlFor="schedule-delivery" style={{ fontSize: "10px" }}>Delivery label</Label>
+          <Input
+            id="schedule-delivery"
+            value={form.delivery}
+            onChange={(e) => setForm(prev => ({ ...prev, delivery: e.target.value }))}
+            className="h-8 text-xs"
+            data-testid="input-schedule-delivery"
+          />
+        </div>
+      )}
+      <div>
+        <Label style={{ fontSize: "10px" }}>Days</Label>
+        <div className="flex gap-1 mt-1">
+          {WEEKDAY_NAMES.map((name, day) => (
+            <Button
+              key={name}
+              type="button"
+              size="sm"
+              variant={form.weekdays.includes(day) ? "default" : "outline"}
+              className="h-7 px-2"
+              onClick={() => toggleWeekday(day)}
+              data-testid={`button-schedule-day-${day}`}
+            >
+              <span style={{ fontSize: "10px" }}>{name}</span>
+            </Button>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label style={{ fontSize: "10px" }}>Repeats</Label>
+          <Select
+            value={String(form.intervalWeeks)}
+            onValueChange={(value) => setForm(prev => ({ ...prev, intervalWeeks: Number(value) }))}
+          >
+            <SelectTrigger className="h-8 text-xs" data-testid="select-schedule-interval">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="1" className="text-xs">Every week</SelectItem>
+              <SelectItem value="2" className="text-xs">Every 2 weeks</SelectItem>
+              <SelectItem value="3" className="text-xs">Every 3 weeks</SelectItem>
+              <SelectItem value="4" className="text-xs">Every 4 weeks</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {form.intervalWeeks > 1 && (
+          <div>
+            <Label htmlFor="schedule-anchor" style={{ fontSize: "10px" }}>A date in a delivery week</Label>
+            <Input
+              id="schedule-anchor"
+              type="date"
+              value={form.anchorDate}
+              onChange={(e) => setForm(prev => ({ ...prev, anchorDate: e.target.value }))}
+              className="h-8 text-xs"
+              data-testid="input-schedule-anchor"
+            />
+          </div>
+        )}
+      </div>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="schedule-skip-holidays"
+            checked={form.skipHolidays}
+            onCheckedChange={(checked) => setForm(prev => ({ ...prev, skipHolidays: checked }))}
+            data-testid="switch-schedule-skip-holidays"
+          />
+          <Label htmlFor="schedule-skip-holidays" style={{ fontSize: "10px" }}>Skip public holidays</Label>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" className="w-8 h-8 p-0" onClick={cancelEdit} title="Cancel">
+            <X className="w-4 h-4" />
+          </Button>
+          <Button
+            size="sm"
+            className="w-8 h-8 p-0"
+            onClick={handleSave}
+            disabled={saveSchedule.isPending}
+            data-testid="button-save-schedule"
+            title="Save schedule"
+          >
+            <Check className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] bg-white/70 dark:bg-black/30 backdrop-blur-2xl border-2 border-gray-200/60 dark:border-white/10 shadow-[0_20px_60px_0_rgba(0,0,0,0.25)] rounded-3xl">
+        {/* iOS Frosted Glass Layer */}
+        <div className="absolute inset-0 -z-10 rounded-3xl bg-gradient-to-br from-white/60 via-white/40 to-white/50 dark:from-black/40 dark:via-black/20 dark:to-black/30 backdrop-blur-3xl border-0 shadow-inner" />
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarDays className="w-5 h-5 text-blue-500" />
+            Delivery Schedules
+          </DialogTitle>
+          <DialogDescription>
+            Each delivery label repeats on its own days. Rows whose label has no schedule are never due.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[460px] overflow-y-auto pr-2 space-y-4">
+          <div className="space-y-2">
+            {labels.map((delivery) => {
+              const schedule = schedules.find(entry => entry.delivery === delivery);
+              if (editing === delivery) {
+                return <div key={delivery}>{renderForm()}</div>;
+              }
+              return (
+                <div
+                  key={delivery}
+                  className="flex items-center justify-between gap-2 p-3 rounded-xl border border-white/20 dark:border-white/10 bg-white/20 dark:bg-black/20"
+                  data-testid={`schedule-${delivery}`}
+                >
+                  <div className="min-w-0">
+                    <span className="text-sm font-medium">{delivery}</span>
+                    <p className="text-muted-foreground truncate" style={{ fontSize: "10px" }}>
+                      {schedule ? describeSchedule(schedule) : "No schedule"}
+                    </p>
+                    {schedule && (
+                      <p className="text-muted-foreground truncate" style={{ fontSize: "10px" }}>
+                        Next: {nextDeliveryDates(schedule, today, 3, holidays).map(formatDate).join(", ") || "none within a year"}
+                      </p>
+                    )}
+                  </div>
+                  {canManage && (
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 w-7 p-0"
+                        onClick={() => startEdit(delivery, schedule)}
+                        data-testid={`button-edit-schedule-${delivery}`}
+                        title={schedule ? "Edit schedule" : "Set schedule"}
+                      >
+                        {schedule
+                          ? <Pencil className="h-3 w-3 text-blue-500 dark:text-blue-400" />
+                          : <Plus className="h-3 w-3 text-blue-500 dark:text-blue-400" />}
+                      </Button>
+                      {schedule && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 w-7 p-0"
+                          onClick={() => handleDelete(delivery)}
+                          disabled={deleteSchedule.isPending}
+                          data-testid={`button-delete-schedule-${delivery}`}
+                          title="Delete schedule"
+                        >
+                          <Trash2 className="h-3 w-3 text-red-500 dark:text-red-400" />
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            {canManage && (editing === "new" ? (
+              renderForm()
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={startCreate}
+                data-testid="button-add-schedule"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Schedule
+              </Button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="font-semibold text-blue-600 dark:text-blue-400" style={{ fontSize: "10px" }}>
+              Public Holidays
+            </h4>
+            {holidays.length === 0 && (
+              <p className="text-muted-foreground" style={{ fontSize: "10px" }}>No public holidays added.</p>
+            )}
+            {holidays.map((holiday) => (
+              <div key={holiday.date} className="flex items-center justify-between gap-3" data-testid={`holiday-${holiday.date}`}>
+                <span className="text-xs">
+                  <span className="font-medium">{formatDate(holiday.date)} {holiday.date.slice(0, 4)}</span>
+                  {holiday.name && <span className="text-muted-foreground"> · {holiday.name}</span>}
+                </span>
+                {canManage && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 w-7 p-0"
+                    onClick={() => handleRemoveHoliday(holiday.date)}
+                    disabled={removeHoliday.isPending}
+                    data-testid={`button-remove-holiday-${holiday.date}`}
+                    title="Remove holiday"
+                  >
+                    <Trash2 className="h-3 w-3 text-red-500 dark:text-red-400" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {canManage && (
+              <div className="flex items-center gap-2">
+                <Input
+                  type="date"
+                  value={holidayDate}
+                  onChange={(e) => setHolidayDate(e.target.value)}
+                  className="h-8 text-xs w-40"
+                  data-testid="input-holiday-date"
+                />
+                <Input
+                  placeholder="Name (optional)"
+                  value={holidayName}
+                  onChange={(e) => setHolidayName(e.target.value)}
+                  className="h-8 text-xs flex-1"
+                  data-testid="input-holiday-name"
+                />
+                <Button
+                  size="sm"
+                  className="w-8 h-8 p-0"
+                  onClick={handleAddHoliday}
+                  disabled={addHoliday.isPending}
+                  data-testid="button-add-holiday"
+                  title="Add holiday"
+                >
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,324 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Warehouse, Pencil, Trash2, Star, Plus, X, Check } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useDepots } from "@/hooks/use-depots";
+import type { Depot } from "@shared/schema";
+
+interface DepotsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  routes: string[];
+}
+
+interface DepotForm {
+  name: string;
+  address: string;
+  latitude: string;
+  longitude: string;
+}
+
+const emptyForm: DepotForm = { name: "", address: "", latitude: "", longitude: "" };
+
+// Select value for routes that follow the default depot
+const DEFAULT_DEPOT_VALUE = "__default__";
+
+export function DepotsModal({ open, onOpenChange, routes }: DepotsModalProps) {
+  const [editingId, setEditingId] = useState<string | "new" | null>(null);
+  const [form, setForm] = useState<DepotForm>(emptyForm);
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const { depots, routeDepots, createDepot, updateDepot, deleteDepot, assignRouteDepot } = useDepots();
+
+  const canManageDepots = can("depots:manage");
+  const canAssignDepots = can("routes:assign-depot");
+  const defaultDepot = depots.find(depot => depot.isDefault);
+
+  const showError = (description: string) => {
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const startEdit = (depot: Depot) => {
+    setEditingId(depot.id);
+    setForm({
+      name: depot.name,
+      address: depot.address,
+      latitude: depot.latitude,
+      longitude: depot.longitude,
+    });
+  };
+
+  const startCreate = () => {
+    setEditingId("new");
+    setForm(emptyForm);
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const handleSave = async () => {
+    const latitude = parseFloat(form.latitude);
+    const longitude = parseFloat(form.longitude);
+    if (!form.name.trim() || !Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+      showError("A depot needs a name and valid latitude and longitude.");
+      return;
+    }
+
+    const data = {
+      name: form.name.trim(),
+      address: form.address.trim(),
+      latitude: String(latitude),
+      longitude: String(longitude),
+    };
+
+    try {
+      if (editingId === "new") {
+        await createDepot.mutateAsync(data);
+        toast({ title: "Depot Added", description: `"${data.name}" can now be assigned to routes.` });
+      } else if (editingId) {
+        await updateDepot.mutateAsync({ id: editingId, updates: data });
+        toast({ title: "Depot Updated", description: `"${data.name}" has been saved.` });
+      }
+      cancelEdit();
+    } catch (error) {
+      showError("Failed to save depot.");
+    }
+  };
+
+  const handleMakeDefault = async (depot: Depot) => {
+    try {
+      await updateDepot.mutateAsync({ id: depot.id, updates: { isDefault: true } });
+      toast({ title: "Default Depot Changed", description: `Unassigned routes now start from "${depot.name}".` });
+    } catch (error) {
+      showError("Failed to change the default depot.");
+    }
+  };
+
+  const handleDelete = async (depot: Depot) => {
+    try {
+      await deleteDepot.mutateAsync(depot.id);
+      toast({ title: "Depot Deleted", description: `Routes from "${depot.name}" now use the default depot.` });
+    } catch (error) {
+      showError("Failed to delete depot.");
+    }
+  };
+
+  const handleAssign = async (route: string, value: string) => {
+    try {
+      await assignRouteDepot.mutateAsync({
+        route,
+        depotId: value === DEFAULT_DEPOT_VALUE ? null : value,
+      });
+    } catch (error) {
+      showError(`Failed to assign a depot to ${route}.`);
+    }
+  };
+
+  const renderForm = () => (
+    <div className="grid grid-cols-2 gap-2 p-3 rounded-xl border border-blue-200/50 dark:border-blue-500/20">
+      <div className="col-span-2">
+        <Label htmlFor="depot-name" style={{ fontSize: "10px" }}>Name</Label>
+        <Input
+          id="depot-name"
+          value={form.name}
+          onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+          className="h-8 text-xs"
+          data-testid="input-depot-name"
+        />
+      </div>
+      <div className="col-span-2">
+        <Label htmlFor="depot-address" style={{ fontSize: "10px" }}>Address</Label>
+        <Input
+          id="depot-address"
+          value={form.address}
+          onChange={(e) => setForm(prev => ({ ...prev, address: e.target.value }))}
+          className="h-8 text-xs"
+          data-testid="input-depot-address"
+        />
+      </div>
+      <div>
+        <Label htmlFor="depot-latitude" style={{ fontSize: "10px" }}>Latitude</Label>
+        <Input
+          id="depot-latitude"
+          value={form.latitude}
+          onChange={(e) => setForm(prev => ({ ...prev, latitude: e.target.value }))}
+          className="h-8 text-xs"
+          data-testid="input-depot-latitude"
+        />
+      </div>
+      <div>
+        <Label htmlFor="depot-longitude" style={{ fontSize: "10px" }}>Longitude</Label>
+        <Input
+          id="depot-longitude"
+          value={form.longitude}
+          onChange={(e) => setForm(prev => ({ ...prev, longitude: e.target.value }))}
+          className="h-8 text-xs"
+          data-testid="input-depot-longitude"
+        />
+      </div>
+      <div className="col-span-2 flex justify-end gap-2">
+        <Button variant="outline" size="sm" className="w-8 h-8 p-0" onClick={cancelEdit} title="Cancel">
+          <X className="w-4 h-4" />
+        </Button>
+        <Button
+          size="sm"
+          className="w-8 h-8 p-0"
+          onClick={handleSave}
+          disabled={createDepot.isPending || updateDepot.isPending}
+          data-testid="button-save-depot"
+          title="Save depot"
+        >
+          <Check className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] bg-white/70 dark:bg-black/30 backdrop-blur-2xl border-2 border-gray-200/60 dark:border-white/10 shadow-[0_20px_60px_0_rgba(0,0,0,0.25)] rounded-3xl">
+        {/* iOS Frosted Glass Layer */}
+        <div className="absolute inset-0 -z-10 rounded-3xl bg-gradient-to-br from-white/60 via-white/40 to-white/50 dark:from-black/40 dark:via-black/20 dark:to-black/30 backdrop-blur-3xl border-0 shadow-inner" />
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Warehouse className="w-5 h-5 text-blue-500" />
+            Depots
+          </DialogTitle>
+          <DialogDescription>
+            Routes start from their assigned depot. Routes without one start from the default depot.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[460px] overflow-y-auto pr-2 space-y-4">
+          <div className="space-y-2">
+            {depots.map((depot) =>
+              editingId === depot.id ? (
+                <div key={depot.id}>{renderForm()}</div>
+              ) : (
+                <div
+                  key={depot.id}
+                  className="flex items-center justify-between gap-2 p-3 rounded-xl border border-white/20 dark:border-white/10 bg-white/20 dark:bg-black/20"
+                  data-testid={`depot-${depot.id}`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium truncate">{depot.name}</span>
+                      {depot.isDefault && <Badge variant="secondary" style={{ fontSize: "9px" }}>Default</Badge>}
+                    </div>
+                    <p className="text-muted-foreground truncate" style={{ fontSize: "10px" }}>
+                      {depot.address ? `${depot.address} · ` : ""}
+                      {parseFloat(depot.latitude).toFixed(5)}, {parseFloat(depot.longitude).toFixed(5)}
+                    </p>
+                  </div>
+                  {canManageDepots && (
+                    <div className="flex items-center gap-1 shrink-0">
+                      {!depot.isDefault && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 w-7 p-0"
+                          onClick={() => handleMakeDefault(depot)}
+                          data-testid={`button-default-depot-${depot.id}`}
+                          title="Make default depot"
+                        >
+                          <Star className="h-3 w-3" />
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 w-7 p-0"
+                        onClick={() => startEdit(depot)}
+                        data-testid={`button-edit-depot-${depot.id}`}
+                        title="Edit depot"
+                      >
+                        <Pencil className="h-3 w-3 text-blue-500 dark:text-blue-400" />
+                      </Button>
+                      {!depot.isDefault && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 w-7 p-0"
+                          onClick={() => handleDelete(depot)}
+                          disabled={deleteDepot.isPending}
+                          data-testid={`button-delete-depot-${depot.id}`}
+                          title="Delete depot"
+                        >
+                          <Trash2 className="h-3 w-3 text-red-500 dark:text-red-400" />
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ),
+            )}
+
+            {canManageDepots && (editingId === "new" ? (
+              renderForm()
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={startCreate}
+                data-testid="button-add-depot"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Depot
+              </Button>
+            ))}
+          </div>
+
+          {routes.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="font-semibold text-blue-600 dark:text-blue-400" style={{ fontSize: "10px" }}>
+                Route Assignments
+              </h4>
+              {routes.map((route) => {
+                const assignment = routeDepots.find(entry => entry.route === route);
+                return (
+                  <div key={route} className="flex items-center justify-between gap-3">
+                    <span className="text-xs font-medium">{route}</span>
+                    <Select
+                      value={assignment?.depotId ?? DEFAULT_DEPOT_VALUE}
+                      onValueChange={(value) => handleAssign(route, value)}
+                      disabled={!canAssignDepots || assignRouteDepot.isPending}
+                    >
+                      <SelectTrigger className="w-56 h-8 text-xs" data-testid={`select-route-depot-${route}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={DEFAULT_DEPOT_VALUE} className="text-xs">
+                          Default{defaultDepot ? ` (${defaultDepot.name})` : ""}
+                        </SelectItem>
+                        {depots.map((depot) => (
+                          <SelectItem key={depot.id} value={depot.id} className="text-xs">
+                            {depot.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
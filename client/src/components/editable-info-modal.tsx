@@ -3,9 +3,14 @@ import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
-import { Save, X, MapPin, QrCode, Upload, ExternalLink, Globe } from "lucide-react";
+import { Save, X, MapPin, QrCode, Upload, ExternalLink, Globe, Search, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { uploadMedia } from "@/lib/media";
+import { geocodeAddress, reverseGeocode } from "@/lib/geocoding";
 import { MiniMap } from "@/components/mini-map";
+import { RowHistory } from "@/components/row-history";
+import { PhotoLocationSuggestion } from "@/components/photo-location-suggestion";
+import type { MediaWithCaption } from "@shared/schema";
 
 interface EditableInfoModalProps {
   info: string;
@@ -15,9 +20,10 @@ interface EditableInfoModalProps {
   latitude?: string;
   longitude?: string;
   qrCode?: string;
+  images?: MediaWithCaption[]; // Geotagged photos among them suggest coordinates
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSave: (rowId: string, updates: { info?: string; latitude?: string; longitude?: string; qrCode?: string }) => void;
+  onSave: (rowId: string, updates: { info?: string; latitude?: string; longitude?: string; qrCode?: string; images?: MediaWithCaption[] }) => void;
 }
 
 export function EditableInfoModal({ 
@@ -28,6 +34,7 @@ export function EditableInfoModal({
   latitude,
   longitude,
   qrCode,
+  images = [],
   open, 
   onOpenChange,
   onSave 
@@ -75,8 +82,55 @@ export function EditableInfoModal({
   const [editedLongitude, setEditedLongitude] = useState(longitude || "");
   const [editedQrCode, setEditedQrCode] = useState(qrCode || "");
   const [isUploading, setIsUploading] = useState(false);
+  const [geocoding, setGeocoding] = useState<'address' | 'coordinates' | null>(null);
   const { toast } = useToast();
 
+  const handleGeocodeAddress = async () => {
+    const address = editedAddress.trim() || location.trim();
+    if (!address) {
+      toast({ title: "No address", description: "Enter an address or location name first", variant: "destructive" });
+      return;
+    }
+    setGeocoding('address');
+    try {
+      const result = await geocodeAddress(address);
+      if (!result) {
+        toast({ title: "Address not found", description: address, variant: "destructive" });
+        return;
+      }
+      setEditedLatitude(result.latitude.toFixed(6));
+      setEditedLongitude(result.longitude.toFixed(6));
+      toast({ title: "Coordinates found", description: result.address });
+    } catch (error) {
+      toast({ title: "Geocoding failed", description: error instanceof Error ? error.message : String(error), variant: "destructive" });
+    } finally {
+      setGeocoding(null);
+    }
+  };
+
+  const handleReverseGeocode = async () => {
+    const lat = parseFloat(editedLatitude);
+    const lng = parseFloat(editedLongitude);
+    if (isNaN(lat) || isNaN(lng)) {
+      toast({ title: "No coordinates", description: "Enter a latitude and longitude first", variant: "destructive" });
+      return;
+    }
+    setGeocoding('coordinates');
+    try {
+      const result = await reverseGeocode(lat, lng);
+      if (!result) {
+        toast({ title: "No address at these coordinates", variant: "destructive" });
+        return;
+      }
+      setEditedAddress(result.address);
+      toast({ title: "Address updated", description: result.address });
+    } catch (error) {
+      toast({ title: "Address lookup failed", description: error instanceof Error ? error.message : String(error), variant: "destructive" });
+    } finally {
+      setGeocoding(null);
+    }
+  };
+
   // Helper to extract short location name from full address
   const getShortLocationName = (fullLocation: string): string => {
     if (!fullLocation) return 'Location';
@@ -157,33 +211,20 @@ export function EditableInfoModal({
     setIsUploading(true);
 
     try {
-      // Convert file to data URL
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const dataUrl = e.target?.result as string;
-        setEditedQrCode(dataUrl);
-        setIsUploading(false);
-        toast({
-          title: "QR Code Uploaded",
-          description: "QR code image has been uploaded successfully.",
-        });
-      };
-      reader.onerror = () => {
-        setIsUploading(false);
-        toast({
-          variant: "destructive",
-          title: "Upload Failed",
-          description: "Failed to upload the QR code image.",
-        });
-      };
-      reader.readAsDataURL(file);
+      const [media] = await uploadMedia([file]);
+      setEditedQrCode(media.url);
+      toast({
+        title: "QR Code Uploaded",
+        description: "QR code image has been uploaded successfully.",
+      });
     } catch (error) {
-      setIsUploading(false);
       toast({
         variant: "destructive",
-        title: "Upload Error",
-        description: "An error occurred while uploading the image.",
+        title: "Upload Failed",
+        description: error instanceof Error ? error.message : "Failed to upload the QR code image.",
       });
+    } finally {
+      setIsUploading(false);
     }
 
     // Clear the input
@@ -337,6 +378,47 @@ export function EditableInfoModal({
               </div>
             </div>
 
+            <div className="flex gap-2 mt-3">
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={handleGeocodeAddress}
+                disabled={geocoding !== null}
+                data-testid={`button-geocode-address-${rowId}`}
+              >
+                {geocoding === 'address' ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Search className="w-3 h-3 mr-1" />}
+                From address
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={handleReverseGeocode}
+                disabled={geocoding !== null}
+                data-testid={`button-reverse-geocode-${rowId}`}
+              >
+                {geocoding === 'coordinates' ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <MapPin className="w-3 h-3 mr-1" />}
+                Address from coordinates
+              </Button>
+            </div>
+
+            <div className="mt-3">
+              <PhotoLocationSuggestion
+                images={images}
+                latitude={editedLatitude}
+                longitude={editedLongitude}
+                onAccept={(coordinates) => {
+                  setEditedLatitude(coordinates.latitude);
+                  setEditedLongitude(coordinates.longitude);
+                }}
+                onReject={(imageIndex) =>
+                  // Remembered on the photo so the suggestion does not come back
+                  onSave(rowId, { images: images.map((image, index) => index === imageIndex ? { ...image, gpsDismissed: true } : image) })
+                }
+              />
+            </div>
+
             <p className="text-xs text-muted-foreground mt-3">
               🗺️ Enter coordinates in decimal degrees format for accurate location mapping.
             </p>
@@ -436,6 +518,9 @@ export function EditableInfoModal({
               </p>
             </div>
           )}
+
+          {/* Change history, for users who may read the audit log */}
+          <RowHistory rowId={rowId} />
         </div>
 
         <DialogFooter className="space-x-3 flex-shrink-0 mt-6 border-t border-white/20 dark:border-white/15 pt-4 bg-black/30 dark:bg-black/50 backdrop-blur-sm rounded-b-xl -mx-6 -mb-6 px-6 py-4">
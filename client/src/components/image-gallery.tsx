@@ -2,6 +2,7 @@ import { useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { PlusCircle, Video } from "lucide-react";
 import { MediaWithCaption } from "@shared/schema";
+import { imageSrcSet, imageUrlForWidth } from "@/lib/media";
 
 interface ImageGalleryProps {
   images: MediaWithCaption[];
@@ -163,11 +164,15 @@ export function ImageGallery({
           } 
         }) : undefined;
         
+        const srcSet = isVideo ? undefined : imageSrcSet(media);
+
         return (
           <a
             key={index}
             href={media.url}
             data-src={media.url}
+            data-srcset={srcSet}
+            data-sizes={srcSet && "100vw"}
             data-sub-html={media.caption}
             data-video={videoData}
             data-poster={isVideo && media.thumbnail ? media.thumbnail : undefined}
@@ -192,7 +197,11 @@ export function ImageGallery({
               </div>
             ) : (
               <img
-                src={media.url.startsWith('data:') ? media.url : `${media.url}?w=60&h=40&fit=crop`}
+                src={media.variants
+                  ? imageUrlForWidth(media, 40)
+                  : media.url.startsWith('data:') ? media.url : `${media.url}?w=60&h=40&fit=crop`}
+                srcSet={srcSet}
+                sizes={srcSet && "40px"}
                 alt={media.caption || `Image ${index + 1}`}
                 className="w-10 h-8 object-cover border border-border"
               />
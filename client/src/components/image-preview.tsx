@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { PlusCircle, Images, Edit, ImageOff, Video } from "lucide-react";
 import { MediaWithCaption } from "@shared/schema";
+import { imageSrcSet, imageUrlForWidth } from "@/lib/media";
 
 interface ImagePreviewProps {
   images: MediaWithCaption[];
@@ -123,6 +124,10 @@ export function ImagePreview({ images, rowId, onAddImage, editMode, onAccessDeni
     );
   }
 
+  // Variants for the lightbox; the browser picks the one that fits the screen
+  const srcSetFor = (media: MediaWithCaption) => media.type === 'video' ? undefined : imageSrcSet(media);
+  const firstSrcSet = srcSetFor(images[0]);
+
   return (
     <div className="flex items-center justify-center gap-2" data-testid={`image-preview-${rowId}`}>
       <div id={`lightgallery-preview-${rowId}`} className="flex items-center gap-1">
@@ -131,6 +136,8 @@ export function ImagePreview({ images, rowId, onAddImage, editMode, onAccessDeni
           <a
             href={images[0].url}
             data-src={images[0].url}
+            data-srcset={firstSrcSet}
+            data-sizes={firstSrcSet && "100vw"}
             data-sub-html={images[0].caption}
             data-video={images[0].type === 'video' ? JSON.stringify({ source: [{ src: images[0].url, type: 'video/mp4' }], attributes: { preload: false, controls: true } }) : undefined}
             data-poster={images[0].type === 'video' ? images[0].thumbnail : undefined}
@@ -158,7 +165,9 @@ export function ImagePreview({ images, rowId, onAddImage, editMode, onAccessDeni
               </div>
             ) : (
               <img
-                src={images[0].url}
+                src={imageUrlForWidth(images[0], 40)}
+                srcSet={firstSrcSet}
+                sizes={firstSrcSet && "40px"}
                 alt={images[0].caption || "Image preview"}
                 className="w-10 h-8 object-cover border border-border"
                 onError={(e) => {
@@ -183,13 +192,16 @@ export function ImagePreview({ images, rowId, onAddImage, editMode, onAccessDeni
             key={index + 1}
             href={media.url}
             data-src={media.url}
+            data-srcset={srcSetFor(media)}
+            data-sizes={srcSetFor(media) && "100vw"}
             data-sub-html={media.caption}
             data-video={media.type === 'video' ? JSON.stringify({ source: [{ src: media.url, type: 'video/mp4' }], attributes: { preload: false, controls: true } }) : undefined}
             data-poster={media.type === 'video' ? media.thumbnail : undefined}
             style={{ display: 'none' }}
             data-testid={`image-hidden-${rowId}-${index + 1}`}
           >
-            <img src={media.url} alt={media.caption || `Hidden media ${index + 2}`} />
+            {/* Hidden images still load; the lightbox strip only needs the thumbnail */}
+            <img src={imageUrlForWidth(media, 100)} alt={media.caption || `Hidden media ${index + 2}`} />
           </a>
         ))}
       </div>
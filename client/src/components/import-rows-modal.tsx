@@ -0,0 +1,318 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileSpreadsheet, ArrowLeft, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useTableData } from "@/hooks/use-table-data";
+import { readSpreadsheet, SPREADSHEET_ACCEPT, type SpreadsheetData } from "@/lib/spreadsheet";
+import { nonImportableKeys, type ImportPreview, type ImportRowAction, type TableColumn } from "@shared/schema";
+
+interface ImportRowsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  columns: TableColumn[];
+}
+
+// Select value for spreadsheet headers that are not imported
+const SKIP_VALUE = "__skip__";
+
+const actionLabels: Record<ImportRowAction, string> = {
+  insert: "New",
+  update: "Update",
+  unchanged: "Unchanged",
+  error: "Error",
+};
+
+const actionColors: Record<ImportRowAction, string> = {
+  insert: "text-green-600 dark:text-green-400",
+  update: "text-blue-600 dark:text-blue-400",
+  unchanged: "text-muted-foreground",
+  error: "text-red-600 dark:text-red-400",
+};
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Match headers to columns by name or data key, ignoring case and punctuation
+function guessMapping(headers: string[], columns: TableColumn[]): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  const used = new Set<string>();
+  for (const header of headers) {
+    const key = normalizeHeader(header);
+    const column = columns.find(col =>
+      !used.has(col.dataKey) &&
+      (normalizeHeader(col.name) === key || normalizeHeader(col.dataKey) === key)
+    );
+    mapping[header] = column ? column.dataKey : SKIP_VALUE;
+    if (column) used.add(column.dataKey);
+  }
+  return mapping;
+}
+
+export function ImportRowsModal({ open, onOpenChange, columns }: ImportRowsModalProps) {
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const { toast } = useToast();
+  const { importRows } = useTableData();
+
+  const importableColumns = columns.filter(column => !nonImportableKeys.includes(column.dataKey));
+  const mappedKeys = Object.values(mapping).filter(key => key !== SKIP_VALUE);
+  const hasCodeMapping = mappedKeys.includes("code");
+
+  const reset = () => {
+    setSheet(null);
+    setFileName("");
+    setMapping({});
+    setPreview(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const showError = (description: string) => {
+    toast({ title: "Import Failed", description, variant: "destructive" });
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsReading(true);
+    try {
+      const data = await readSpreadsheet(file);
+      if (data.records.length === 0) {
+        showError("The file has no rows below its header.");
+        return;
+      }
+      setSheet(data);
+      setFileName(file.name);
+      setMapping(guessMapping(data.headers, importableColumns));
+      setPreview(null);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : "Could not read the file.");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  // Spreadsheet records re-keyed by the mapped column data keys
+  const buildRecords = () =>
+    (sheet?.records ?? []).map(record => {
+      const values: Record<string, string> = {};
+      for (const [header, dataKey] of Object.entries(mapping)) {
+        if (dataKey !== SKIP_VALUE) values[dataKey] = record.values[header] ?? "";
+      }
+      return values;
+    });
+
+  const handlePreview = async () => {
+    try {
+      setPreview(await importRows.mutateAsync({ rows: buildRecords(), dryRun: true }));
+    } catch (error) {
+      showError("Could not check the rows. Please try again.");
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      const result = await importRows.mutateAsync({ rows: buildRecords() });
+      toast({
+        title: "Import Complete",
+        description: `${result.inserts} row(s) added and ${result.updates} updated from ${fileName}.`,
+      });
+      handleOpenChange(false);
+    } catch (error) {
+      showError("No rows were changed. Please check the file and try again.");
+    }
+  };
+
+  const renderUpload = () => (
+    <div className="space-y-2">
+      <Label htmlFor="import-file" style={{ fontSize: "10px" }}>Spreadsheet or map layer (.csv, .xlsx, .geojson, .kml)</Label>
+      <Input
+        id="import-file"
+        type="file"
+        accept={SPREADSHEET_ACCEPT}
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        disabled={isReading}
+        className="h-9 text-xs"
+        data-testid="input-import-file"
+      />
+      <p className="text-muted-foreground" style={{ fontSize: "10px" }}>
+        The first row must hold column headers. Map layers import their points with the feature properties as headers. Rows are matched to the table on their Code.
+      </p>
+      {isReading && (
+        <p className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="w-3 h-3 animate-spin" /> Reading file...
+        </p>
+      )}
+    </div>
+  );
+
+  const renderMapping = () => (
+    <div className="space-y-2">
+      <h4 className="font-semibold text-blue-600 dark:text-blue-400" style={{ fontSize: "10px" }}>
+        {fileName} · {sheet!.records.length} row(s)
+      </h4>
+      {sheet!.headers.map((header) => (
+        <div key={header} className="flex items-center justify-between gap-3">
+          <span className="text-xs font-medium truncate">{header}</span>
+          <Select
+            value={mapping[header] ?? SKIP_VALUE}
+            onValueChange={(value) => {
+              setMapping(prev => ({ ...prev, [header]: value }));
+              setPreview(null);
+            }}
+          >
+            <SelectTrigger className="w-48 h-8 text-xs shrink-0" data-testid={`select-import-mapping-${header}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={SKIP_VALUE} className="text-xs">Don't import</SelectItem>
+              {importableColumns.map((column) => (
+                <SelectItem
+                  key={column.id}
+                  value={column.dataKey}
+                  disabled={mapping[header] !== column.dataKey && mappedKeys.includes(column.dataKey)}
+                  className="text-xs"
+                >
+                  {column.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+      {!hasCodeMapping && (
+        <p className="text-red-600 dark:text-red-400" style={{ fontSize: "10px" }}>
+          Map a header to Code so rows can be matched.
+        </p>
+      )}
+    </div>
+  );
+
+  const renderPreview = (result: ImportPreview) => {
+    const sheetRows = sheet!.records.map(record => record.sheetRow);
+    return (
+      <div className="space-y-2">
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="secondary" style={{ fontSize: "10px" }}>{result.inserts} new</Badge>
+          <Badge variant="secondary" style={{ fontSize: "10px" }}>{result.updates} updated</Badge>
+          <Badge variant="secondary" style={{ fontSize: "10px" }}>{result.unchanged} unchanged</Badge>
+          {result.errors > 0 && (
+            <Badge variant="destructive" style={{ fontSize: "10px" }}>{result.errors} with errors</Badge>
+          )}
+        </div>
+        <p className="text-muted-foreground" style={{ fontSize: "10px" }}>
+          Empty cells leave existing values unchanged.
+        </p>
+        <div className="space-y-1">
+          {result.results
+            .filter(row => row.action !== "unchanged")
+            .map((row) => (
+              <div
+                key={row.index}
+                className="p-2 rounded-lg border border-white/20 dark:border-white/10 bg-white/20 dark:bg-black/20"
+                data-testid={`import-result-${row.index}`}
+              >
+                <div className="flex items-center justify-between gap-2 text-xs">
+                  <span className="font-medium">
+                    Row {sheetRows[row.index]}{row.code ? ` · ${row.code}` : ""}
+                  </span>
+                  <span className={`font-semibold ${actionColors[row.action]}`} style={{ fontSize: "10px" }}>
+                    {actionLabels[row.action]}
+                  </span>
+                </div>
+                {row.errors.length > 0 ? (
+                  <ul className="text-red-600 dark:text-red-400" style={{ fontSize: "10px" }}>
+                    {row.errors.map((error) => <li key={error}>{error}</li>)}
+                  </ul>
+                ) : (
+                  <p className="text-muted-foreground truncate" style={{ fontSize: "10px" }}>
+                    {row.changes
+                      .map(key => columns.find(column => column.dataKey === key)?.name ?? key)
+                      .join(", ")}
+                  </p>
+                )}
+              </div>
+            ))}
+        </div>
+      </div>
+    );
+  };
+
+  const hasChanges = !!preview && preview.inserts + preview.updates > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[560px] bg-white/70 dark:bg-black/30 backdrop-blur-2xl border-2 border-gray-200/60 dark:border-white/10 shadow-[0_20px_60px_0_rgba(0,0,0,0.25)] rounded-3xl">
+        {/* iOS Frosted Glass Layer */}
+        <div className="absolute inset-0 -z-10 rounded-3xl bg-gradient-to-br from-white/60 via-white/40 to-white/50 dark:from-black/40 dark:via-black/20 dark:to-black/30 backdrop-blur-3xl border-0 shadow-inner" />
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5 text-blue-500" />
+            Import Rows
+          </DialogTitle>
+          <DialogDescription>
+            {!sheet
+              ? "Add or update rows from a CSV, Excel, GeoJSON or KML file."
+              : !preview
+                ? "Choose which table column each spreadsheet header fills."
+                : "Check the changes below. Nothing is saved until you import."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[460px] overflow-y-auto pr-2">
+          {!sheet ? renderUpload() : !preview ? renderMapping() : renderPreview(preview)}
+        </div>
+
+        {sheet && (
+          <div className="flex justify-between gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => (preview ? setPreview(null) : reset())}
+              data-testid="button-import-back"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+            {!preview ? (
+              <Button
+                size="sm"
+                onClick={handlePreview}
+                disabled={!hasCodeMapping || importRows.isPending}
+                data-testid="button-import-preview"
+              >
+                {importRows.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Preview
+              </Button>
+            ) : (
+              <Button
+                size="sm"
+                onClick={handleImport}
+                disabled={preview.errors > 0 || !hasChanges || importRows.isPending}
+                data-testid="button-import-apply"
+              >
+                {importRows.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Import {preview.inserts + preview.updates} Row(s)
+              </Button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,11 +4,16 @@ import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Info, ListChecks, QrCode, ExternalLink, CheckCircle, Save, X, FileText } from "lucide-react";
+import { Info, ListChecks, QrCode, ExternalLink, CheckCircle, Save, X, FileText, MapPin, Search, Loader2 } from "lucide-react";
 import { SiGooglemaps, SiWaze } from "react-icons/si";
 import { MiniMap } from "@/components/mini-map";
+import { RowHistory } from "@/components/row-history";
 import { SlidingDescription } from "@/components/sliding-description";
 import { EditableDescriptionList } from "@/components/editable-description-list";
+import { PhotoLocationSuggestion } from "@/components/photo-location-suggestion";
+import { useToast } from "@/hooks/use-toast";
+import { geocodeAddress, reverseGeocode } from "@/lib/geocoding";
+import type { MediaWithCaption } from "@shared/schema";
 import QrScanner from "qr-scanner";
 
 interface InfoModalProps {
@@ -20,14 +25,21 @@ interface InfoModalProps {
   latitude?: string;
   longitude?: string;
   qrCode?: string;
+  windowStart?: string;
+  windowEnd?: string;
+  serviceMinutes?: number;
+  demand?: string;
   no?: number;
+  images?: MediaWithCaption[]; // Geotagged photos among them suggest coordinates
   onUpdateRow?: (updates: any) => void;
   editMode?: boolean;
+  // Drivers may edit info and QR code but not coordinates or the delivery window
+  canEditCoordinates?: boolean;
   allRows?: any[];
   iconType?: 'info' | 'filetext';
 }
 
-export function InfoModal({ info, rowId, code, route, location, latitude, longitude, qrCode, no, onUpdateRow, editMode = false, allRows = [], iconType = 'info' }: InfoModalProps) {
+export function InfoModal({ info, rowId, code, route, location, latitude, longitude, qrCode, windowStart, windowEnd, serviceMinutes, demand, no, images = [], onUpdateRow, editMode = false, canEditCoordinates = true, allRows = [], iconType = 'info' }: InfoModalProps) {
   const [open, setOpen] = useState(false);
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
   const [scannedResult, setScannedResult] = useState<string>("");
@@ -37,10 +49,13 @@ export function InfoModal({ info, rowId, code, route, location, latitude, longit
   const [navigationType, setNavigationType] = useState<'google' | 'waze'>('google');
   const [showUrlConfirm, setShowUrlConfirm] = useState(false);
   const [urlToOpen, setUrlToOpen] = useState<string>("");
+  const [geocoding, setGeocoding] = useState<'address' | 'coordinates' | null>(null);
+  const { toast } = useToast();
   
   // State for tracking edits
-  const [originalData, setOriginalData] = useState({ info: "", qrCode: "", latitude: "", longitude: "" });
-  const [currentData, setCurrentData] = useState({ info: "", qrCode: "", latitude: "", longitude: "" });
+  const emptyData = { info: "", qrCode: "", latitude: "", longitude: "", windowStart: "", windowEnd: "", serviceMinutes: "", demand: "" };
+  const [originalData, setOriginalData] = useState(emptyData);
+  const [currentData, setCurrentData] = useState(emptyData);
   
   // Initialize data when modal opens
   useEffect(() => {
@@ -49,12 +64,16 @@ export function InfoModal({ info, rowId, code, route, location, latitude, longit
         info: info || "",
         qrCode: qrCode || "",
         latitude: latitude || "",
-        longitude: longitude || ""
+        longitude: longitude || "",
+        windowStart: windowStart || "",
+        windowEnd: windowEnd || "",
+        serviceMinutes: serviceMinutes ? String(serviceMinutes) : "",
+        demand: demand && parseFloat(demand) !== 0 ? demand : ""
       };
       setOriginalData(data);
       setCurrentData(data);
     }
-  }, [open, info, qrCode, latitude, longitude]);
+  }, [open, info, qrCode, latitude, longitude, windowStart, windowEnd, serviceMinutes, demand]);
   
   // Check if there are any changes
   const hasChanges = () => {
@@ -62,7 +81,11 @@ export function InfoModal({ info, rowId, code, route, location, latitude, longit
       currentData.info !== originalData.info ||
       currentData.qrCode !== originalData.qrCode ||
       currentData.latitude !== originalData.latitude ||
-      currentData.longitude !== originalData.longitude
+      currentData.longitude !== originalData.longitude ||
+      currentData.windowStart !== originalData.windowStart ||
+      currentData.windowEnd !== originalData.windowEnd ||
+      currentData.serviceMinutes !== originalData.serviceMinutes ||
+      currentData.demand !== originalData.demand
     );
   };
 
@@ -73,6 +96,58 @@ export function InfoModal({ info, rowId, code, route, location, latitude, longit
     return numericCode.toString().padStart(4, '0');
   };
 
+  // The address part of the info text, before its description and URL
+  const addressPart = (infoValue: string) => infoValue.split("|||DESCRIPTION|||")[0].trim();
+
+  const handleGeocodeAddress = async () => {
+    const address = addressPart(currentData.info) || (location ?? "").trim();
+    if (!address) {
+      toast({ title: "No address", description: "Enter an address or location name first", variant: "destructive" });
+      return;
+    }
+    setGeocoding('address');
+    try {
+      const result = await geocodeAddress(address);
+      if (!result) {
+        toast({ title: "Address not found", description: address, variant: "destructive" });
+        return;
+      }
+      setCurrentData(prev => ({ ...prev, latitude: result.latitude.toFixed(6), longitude: result.longitude.toFixed(6) }));
+      toast({ title: "Coordinates found", description: result.address });
+    } catch (error) {
+      toast({ title: "Geocoding failed", description: error instanceof Error ? error.message : String(error), variant: "destructive" });
+    } finally {
+      setGeocoding(null);
+    }
+  };
+
+  const handleReverseGeocode = async () => {
+    const lat = parseFloat(currentData.latitude);
+    const lng = parseFloat(currentData.longitude);
+    if (isNaN(lat) || isNaN(lng)) {
+      toast({ title: "No coordinates", description: "Enter a latitude and longitude first", variant: "destructive" });
+      return;
+    }
+    setGeocoding('coordinates');
+    try {
+      const result = await reverseGeocode(lat, lng);
+      if (!result) {
+        toast({ title: "No address at these coordinates", variant: "destructive" });
+        return;
+      }
+      // Replace only the address; the description and URL stay as they are
+      setCurrentData(prev => {
+        const separator = prev.info.indexOf("|||DESCRIPTION|||");
+        return { ...prev, info: result.address + (separator >= 0 ? prev.info.slice(separator) : "") };
+      });
+      toast({ title: "Address updated", description: result.address });
+    } catch (error) {
+      toast({ title: "Address lookup failed", description: error instanceof Error ? error.message : String(error), variant: "destructive" });
+    } finally {
+      setGeocoding(null);
+    }
+  };
+
   const handleEditClick = () => {
     setShowChecklistConfirm(true);
   };
@@ -200,6 +275,18 @@ export function InfoModal({ info, rowId, code, route, location, latitude, longit
       if (currentData.longitude !== originalData.longitude) {
         updates.longitude = currentData.longitude ? parseFloat(currentData.longitude) : null;
       }
+      if (currentData.windowStart !== originalData.windowStart) {
+        updates.windowStart = currentData.windowStart || null;
+      }
+      if (currentData.windowEnd !== originalData.windowEnd) {
+        updates.windowEnd = currentData.windowEnd || null;
+      }
+      if (currentData.serviceMinutes !== originalData.serviceMinutes) {
+        updates.serviceMinutes = parseInt(currentData.serviceMinutes, 10) || 0;
+      }
+      if (currentData.demand !== originalData.demand) {
+        updates.demand = parseFloat(currentData.demand) || 0;
+      }
       
       onUpdateRow(updates);
       
@@ -432,7 +519,7 @@ export function InfoModal({ info, rowId, code, route, location, latitude, longit
           )}
 
           {/* Location Coordinates Section - Only show in edit mode */}
-          {editMode && (
+          {editMode && canEditCoordinates && (
             <div className="bg-transparent backdrop-blur-sm rounded-xl p-4 space-y-3 shadow-sm">
               <div className="flex items-center gap-2">
                 <div className="w-2 h-2 bg-green-500 dark:bg-green-400 rounded-full"></div>
@@ -466,27 +553,140 @@ export function InfoModal({ info, rowId, code, route, location, latitude, longit
                   />
                 </div>
               </div>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  className="h-7 px-2"
+                  style={{fontSize: '10px'}}
+                  onClick={handleGeocodeAddress}
+                  disabled={geocoding !== null}
+                  data-testid="button-geocode-address"
+                >
+                  {geocoding === 'address' ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Search className="w-3 h-3 mr-1" />}
+                  From address
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  className="h-7 px-2"
+                  style={{fontSize: '10px'}}
+                  onClick={handleReverseGeocode}
+                  disabled={geocoding !== null}
+                  data-testid="button-reverse-geocode"
+                >
+                  {geocoding === 'coordinates' ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <MapPin className="w-3 h-3 mr-1" />}
+                  Address from coordinates
+                </Button>
+              </div>
+              <PhotoLocationSuggestion
+                images={images}
+                latitude={currentData.latitude}
+                longitude={currentData.longitude}
+                onAccept={(coordinates) => setCurrentData(prev => ({ ...prev, ...coordinates }))}
+                onReject={(imageIndex) =>
+                  // Remembered on the photo so the suggestion does not come back
+                  onUpdateRow?.({ images: images.map((image, index) => index === imageIndex ? { ...image, gpsDismissed: true } : image) })
+                }
+              />
               <p className="text-muted-foreground" style={{fontSize: '10px'}}>GPS coordinates for map location</p>
             </div>
           )}
 
+          {/* Delivery Window Section - Only show in edit mode */}
+          {editMode && canEditCoordinates && (
+            <div className="bg-transparent backdrop-blur-sm rounded-xl p-4 space-y-3 shadow-sm">
+              <div className="flex items-center gap-2">
+                <div className="w-2 h-2 bg-purple-500 dark:bg-purple-400 rounded-full"></div>
+                <h4 className="font-semibold text-purple-600 dark:text-purple-400" style={{fontSize: '10px'}}>🕒 Delivery Window</h4>
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="window-start" style={{fontSize: '10px'}}>Opens</Label>
+                  <Input
+                    id="window-start"
+                    type="time"
+                    value={currentData.windowStart}
+                    onChange={(e) => setCurrentData(prev => ({ ...prev, windowStart: e.target.value }))}
+                    style={{fontSize: '10px'}}
+                    data-testid="input-window-start"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="window-end" style={{fontSize: '10px'}}>Closes</Label>
+                  <Input
+                    id="window-end"
+                    type="time"
+                    value={currentData.windowEnd}
+                    onChange={(e) => setCurrentData(prev => ({ ...prev, windowEnd: e.target.value }))}
+                    style={{fontSize: '10px'}}
+                    data-testid="input-window-end"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="service-minutes" style={{fontSize: '10px'}}>Service (min)</Label>
+                  <Input
+                    id="service-minutes"
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={currentData.serviceMinutes}
+                    onChange={(e) => setCurrentData(prev => ({ ...prev, serviceMinutes: e.target.value }))}
+                    placeholder="0"
+                    style={{fontSize: '10px'}}
+                    data-testid="input-service-minutes"
+                  />
+                </div>
+              </div>
+              <p className="text-muted-foreground" style={{fontSize: '10px'}}>Used by the Time Windows optimizer. Leave blank if the site accepts deliveries any time.</p>
+            </div>
+          )}
+
+          {/* Load Section - Only show in edit mode */}
+          {editMode && canEditCoordinates && (
+            <div className="bg-transparent backdrop-blur-sm rounded-xl p-4 space-y-3 shadow-sm">
+              <div className="flex items-center gap-2">
+                <div className="w-2 h-2 bg-orange-500 dark:bg-orange-400 rounded-full"></div>
+                <h4 className="font-semibold text-orange-600 dark:text-orange-400" style={{fontSize: '10px'}}>📦 Load</h4>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="demand" style={{fontSize: '10px'}}>Delivery load</Label>
+                <Input
+                  id="demand"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={currentData.demand}
+                  onChange={(e) => setCurrentData(prev => ({ ...prev, demand: e.target.value }))}
+                  placeholder="0"
+                  style={{fontSize: '10px'}}
+                  data-testid="input-demand"
+                />
+              </div>
+              <p className="text-muted-foreground" style={{fontSize: '10px'}}>Counted against vehicle capacity when splitting a route across vehicles</p>
+            </div>
+          )}
+
+          {/* History Section - Only show in edit mode */}
+          {editMode && <RowHistory rowId={rowId} />}
+
         </div>
         <DialogFooter className="pt-6 mt-2 border-t border-blue-900 dark:border-cyan-400/50 bg-blue-50/50 dark:bg-black/30 backdrop-blur-sm rounded-b-2xl -mx-6 -mb-6 px-6 py-4">
           <div className="flex flex-col gap-4 w-full">
             {/* Action Buttons Row */}
             <div className="flex justify-between items-center w-full">
               <div className="flex gap-2 flex-wrap">
-              {location !== "QL Kitchen" && (
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={handleEditClick}
-                  className="pagination-button"
-                  data-testid={`button-edit-${rowId}`}
-                >
-                  <ListChecks className="w-4 h-4 text-green-600" />
-                </Button>
-              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleEditClick}
+                className="pagination-button"
+                data-testid={`button-edit-${rowId}`}
+              >
+                <ListChecks className="w-4 h-4 text-green-600" />
+              </Button>
               {qrCode && (
                 <Button
                   variant="outline"
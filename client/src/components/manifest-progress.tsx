@@ -0,0 +1,48 @@
+import { Link } from "wouter";
+import { Truck } from "lucide-react";
+import { useManifestProgress } from "@/hooks/use-manifests";
+
+interface ManifestProgressStripProps {
+  date: string;
+}
+
+/**
+ * One chip per open manifest showing how far its driver has got, kept live by polling
+ */
+export function ManifestProgressStrip({ date }: ManifestProgressStripProps) {
+  const progress = useManifestProgress(date);
+
+  if (progress.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-2" data-testid="manifest-progress">
+      <Link href="/driver">
+        <span className="flex items-center gap-1 text-muted-foreground cursor-pointer hover:text-foreground" style={{ fontSize: "10px" }}>
+          <Truck className="w-3 h-3" /> Routes {date}
+        </span>
+      </Link>
+      {progress.map((entry) => {
+        const done = entry.completed + entry.skipped;
+        const percent = entry.total > 0 ? Math.round((done / entry.total) * 100) : 0;
+        return (
+          <div
+            key={entry.manifestId}
+            className="relative overflow-hidden rounded-full border border-gray-200/60 dark:border-white/10 px-3 py-1"
+            title={entry.lastCheckInAt ? `Last check-in ${new Date(entry.lastCheckInAt).toLocaleTimeString("en-MY")}` : "No check-ins yet"}
+            data-testid={`manifest-progress-${entry.route}`}
+          >
+            <div
+              className="absolute inset-y-0 left-0 bg-green-500/15"
+              style={{ width: `${percent}%` }}
+            />
+            <span className="relative" style={{ fontSize: "10px" }}>
+              <span className="font-medium">{entry.route}</span> {entry.completed}/{entry.total}
+              {entry.skipped > 0 && <span className="text-amber-600 dark:text-amber-400"> · {entry.skipped} skipped</span>}
+              {entry.status === "draft" && <span className="text-muted-foreground"> · draft</span>}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
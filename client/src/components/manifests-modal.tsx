@@ -0,0 +1,271 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ClipboardList, Printer, Send, CheckCircle2, XCircle, ChevronDown, ChevronUp, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useManifests } from "@/hooks/use-manifests";
+import { apiRequest } from "@/lib/queryClient";
+import { downloadResponse } from "@/lib/download";
+import { nextManifestStatuses } from "@shared/manifests";
+import { todayIsoDate } from "@shared/deliverySchedule";
+import type { Manifest, ManifestStatus, RouteOptimizationResult } from "@shared/schema";
+
+interface ManifestsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  routes: string[];
+  initialDate?: string; // Day picked in the table, if any
+}
+
+// Select value for "keep the table's order"
+const TABLE_ORDER_VALUE = "__table__";
+
+const STATUS_ACTIONS: Record<ManifestStatus, { label: string; icon: typeof Send }> = {
+  draft: { label: "Draft", icon: ClipboardList },
+  dispatched: { label: "Dispatch", icon: Send },
+  completed: { label: "Complete", icon: CheckCircle2 },
+  cancelled: { label: "Cancel", icon: XCircle },
+};
+
+const STATUS_BADGES: Record<ManifestStatus, string> = {
+  draft: "bg-gray-500/15 text-gray-600 dark:text-gray-300",
+  dispatched: "bg-blue-500/15 text-blue-600 dark:text-blue-400",
+  completed: "bg-green-500/15 text-green-600 dark:text-green-400",
+  cancelled: "bg-red-500/15 text-red-600 dark:text-red-400",
+};
+
+export function ManifestsModal({ open, onOpenChange, routes, initialDate }: ManifestsModalProps) {
+  const [date, setDate] = useState(initialDate || todayIsoDate());
+  const [route, setRoute] = useState("");
+  const [order, setOrder] = useState(TABLE_ORDER_VALUE);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const { manifests, isLoading, generateManifest, updateManifestStatus } = useManifests(date, open);
+
+  const { data: savedRoutes = [] } = useQuery<RouteOptimizationResult[]>({
+    queryKey: ["/api/saved-routes"],
+    enabled: open,
+  });
+
+  const canManage = can("manifests:manage");
+
+  // Follow the table's date picker each time the modal opens
+  useEffect(() => {
+    if (open) setDate(initialDate || todayIsoDate());
+  }, [open, initialDate]);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({ title: "Error", description: error instanceof Error ? error.message : fallback, variant: "destructive" });
+  };
+
+  const handleGenerate = async () => {
+    if (!date || !route) {
+      showError(null, "Choose a date and a route.");
+      return;
+    }
+    try {
+      const manifest = await generateManifest.mutateAsync({
+        date,
+        route,
+        ...(order !== TABLE_ORDER_VALUE ? { optimizationId: order } : {}),
+      });
+      setExpandedId(manifest.id);
+      toast({ title: "Manifest Generated", description: `${manifest.stops.length} stops on ${route} for ${date}.` });
+    } catch (error) {
+      showError(error, "Failed to generate the manifest.");
+    }
+  };
+
+  const handleStatus = async (manifest: Manifest, status: ManifestStatus) => {
+    try {
+      await updateManifestStatus.mutateAsync({ id: manifest.id, status });
+    } catch (error) {
+      showError(error, "Failed to update the manifest.");
+    }
+  };
+
+  const handlePrint = async (manifest: Manifest) => {
+    try {
+      const response = await apiRequest("GET", `/api/manifests/${manifest.id}/pdf`);
+      await downloadResponse(response, `manifest-${manifest.date}.pdf`);
+    } catch (error) {
+      showError(error, "Failed to print the manifest.");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] bg-white/70 dark:bg-black/30 backdrop-blur-2xl border-2 border-gray-200/60 dark:border-white/10 shadow-[0_20px_60px_0_rgba(0,0,0,0.25)] rounded-3xl">
+        {/* iOS Frosted Glass Layer */}
+        <div className="absolute inset-0 -z-10 rounded-3xl bg-gradient-to-br from-white/60 via-white/40 to-white/50 dark:from-black/40 dark:via-black/20 dark:to-black/30 backdrop-blur-3xl border-0 shadow-inner" />
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardList className="w-5 h-5 text-blue-500" />
+            Dispatch Manifests
+          </DialogTitle>
+          <DialogDescription>
+            A manifest freezes the stops of a route that are due on a day, so the plan stays as it was sent out.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[480px] overflow-y-auto pr-2 space-y-4">
+          <div className="grid grid-cols-2 gap-2 p-3 rounded-xl border border-blue-200/50 dark:border-blue-500/20">
+            <div>
+              <Label htmlFor="manifest-date" style={{ fontSize: "10px" }}>Date</Label>
+              <Input
+                id="manifest-date"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="h-8 text-xs"
+                data-testid="input-manifest-date"
+              />
+            </div>
+            {canManage && (
+              <>
+                <div>
+                  <Label style={{ fontSize: "10px" }}>Route</Label>
+                  <Select value={route} onValueChange={setRoute}>
+                    <SelectTrigger className="h-8 text-xs" data-testid="select-manifest-route">
+                      <SelectValue placeholder="Choose a route" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {routes.map((name) => (
+                        <SelectItem key={name} value={name} className="text-xs">{name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="col-span-2">
+                  <Label style={{ fontSize: "10px" }}>Stop order</Label>
+                  <Select value={order} onValueChange={setOrder}>
+                    <SelectTrigger className="h-8 text-xs" data-testid="select-manifest-order">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={TABLE_ORDER_VALUE} className="text-xs">Current table order</SelectItem>
+                      {savedRoutes.map((saved) => (
+                        <SelectItem key={saved.id} value={saved.id} className="text-xs">
+                          Optimized {new Date(saved.createdAt).toLocaleString("en-MY")} · {saved.optimizedDistance} km
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="col-span-2 flex justify-end">
+                  <Button
+                    size="sm"
+                    onClick={handleGenerate}
+                    disabled={generateManifest.isPending || !route || !date}
+                    data-testid="button-generate-manifest"
+                  >
+                    {generateManifest.isPending
+                      ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      : <ClipboardList className="w-4 h-4 mr-2" />}
+                    Generate Manifest
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            {isLoading ? (
+              <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Loader2 className="w-3 h-3 animate-spin" /> Loading...
+              </p>
+            ) : manifests.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No manifests for this day.</p>
+            ) : (
+              manifests.map((manifest) => (
+                <div
+                  key={manifest.id}
+                  className="p-3 rounded-xl border border-white/20 dark:border-white/10 bg-white/20 dark:bg-black/20"
+                  data-testid={`manifest-${manifest.id}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <button
+                      className="min-w-0 text-left"
+                      onClick={() => setExpandedId(expandedId === manifest.id ? null : manifest.id)}
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium">{manifest.route}</span>
+                        <Badge variant="secondary" className={STATUS_BADGES[manifest.status]} style={{ fontSize: "9px" }}>
+                          {manifest.status}
+                        </Badge>
+                        {expandedId === manifest.id ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                      </div>
+                      <p className="text-muted-foreground" style={{ fontSize: "10px" }}>
+                        {manifest.id.slice(0, 8).toUpperCase()} · {manifest.stops.length} stops ·{" "}
+                        {manifest.orderSource === "optimization" ? "optimized order" : "table order"}
+                        {manifest.userName && ` · by ${manifest.userName}`}
+                      </p>
+                    </button>
+                    <div className="flex gap-1 shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => handlePrint(manifest)}
+                        title="Print manifest"
+                        data-testid={`button-print-manifest-${manifest.id}`}
+                      >
+                        <Printer className="w-3 h-3" />
+                      </Button>
+                      {canManage && nextManifestStatuses(manifest.status).map((status) => {
+                        const { label, icon: Icon } = STATUS_ACTIONS[status];
+                        return (
+                          <Button
+                            key={status}
+                            variant="outline"
+                            size="sm"
+                            className="h-7 px-2"
+                            onClick={() => handleStatus(manifest, status)}
+                            disabled={updateManifestStatus.isPending}
+                            data-testid={`button-manifest-${status}-${manifest.id}`}
+                          >
+                            <Icon className="w-3 h-3 mr-1" />
+                            <span style={{ fontSize: "10px" }}>{label}</span>
+                          </Button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                  {expandedId === manifest.id && (
+                    <ol className="mt-2 space-y-1 border-t border-border/20 pt-2">
+                      {manifest.stops.map((stop) => (
+                        <li key={stop.rowId} className="flex gap-2" style={{ fontSize: "10px" }}>
+                          <span className="w-5 text-right text-muted-foreground">{stop.sequence}.</span>
+                          <span className="font-medium">{stop.code || "—"}</span>
+                          <span className="truncate">{stop.location}</span>
+                          {(stop.windowStart || stop.windowEnd) && (
+                            <span className="ml-auto text-muted-foreground shrink-0">
+                              {stop.windowStart ?? "—"}–{stop.windowEnd ?? "—"}
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
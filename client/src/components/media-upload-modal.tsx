@@ -1,8 +1,9 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
@@ -13,9 +14,20 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { Image, Video, Upload, Plus, X, PlayCircle, FileImage, List, FolderOpen } from "lucide-react";
-import { MediaWithCaption } from "@shared/schema";
+import { Image, Video, Upload, Plus, X, PlayCircle, FileImage, List, FolderOpen, RotateCw } from "lucide-react";
+import { MediaWithCaption, type UploadedMedia } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import { uploadMedia, uploadMediaInChunks, needsChunkedUpload, abortChunkedUpload, isUploadCancelled } from "@/lib/media";
+
+// A large file going up in parts; paused when the connection dropped
+interface ChunkedUploadState {
+  fileName: string;
+  position: number;
+  count: number;
+  uploadedBytes: number;
+  totalBytes: number;
+  paused: boolean;
+}
 
 interface MediaUploadModalProps {
   open: boolean;
@@ -34,6 +46,10 @@ export function MediaUploadModal({ open, onOpenChange, onSave, onSaveMultiple }:
   const [albumItems, setAlbumItems] = useState<MediaWithCaption[]>([]);
   const [bulkUrls, setBulkUrls] = useState("");
   const [isProcessing, setIsProcessing] = useState(false);
+  const [uploaded, setUploaded] = useState<UploadedMedia | null>(null);
+  const [chunkedUpload, setChunkedUpload] = useState<ChunkedUploadState | null>(null);
+  const pendingFilesRef = useRef<File[]>([]); // Large files not uploaded yet, for resuming
+  const abortRef = useRef<AbortController | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
@@ -44,12 +60,62 @@ export function MediaUploadModal({ open, onOpenChange, onSave, onSaveMultiple }:
     return 'unknown';
   };
 
-  const fileToDataURL = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
+  const applyUploaded = (uploadedItems: UploadedMedia[]) => {
+    if (uploadedItems.length === 0) return;
+    if (mode === "single") {
+      const [media] = uploadedItems;
+      setUrl(media.url);
+      setUploaded(media);
+      setMediaType(media.type);
+    } else {
+      const newItems: MediaWithCaption[] = uploadedItems.map(media => ({
+        url: media.url,
+        caption: media.originalName,
+        type: media.type,
+        mimeType: media.mimeType // Store MIME type for later use
+      }));
+      setAlbumItems(items => [...items, ...newItems]);
+    }
+  };
+
+  // Large files go up one at a time in resumable parts
+  const uploadLargeFiles = async (files: File[]) => {
+    pendingFilesRef.current = files;
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    for (let position = 0; position < files.length; position++) {
+      const file = files[position];
+      setChunkedUpload({ fileName: file.name, position: position + 1, count: files.length, uploadedBytes: 0, totalBytes: file.size, paused: false });
+      const media = await uploadMediaInChunks(file, {
+        signal: controller.signal,
+        onProgress: ({ uploadedBytes, totalBytes }) =>
+          setChunkedUpload(current => current && { ...current, uploadedBytes, totalBytes }),
+      });
+      pendingFilesRef.current = files.slice(position + 1);
+      applyUploaded([media]);
+    }
+    setChunkedUpload(null);
+  };
+
+  const handleUploadError = (error: unknown) => {
+    if (isUploadCancelled(error)) return;
+    if (pendingFilesRef.current.length > 0) {
+      // The parts sent so far are kept; resuming sends only the rest
+      setChunkedUpload(current => current && { ...current, paused: true });
+      toast({
+        title: "Upload Paused",
+        description: navigator.onLine
+          ? `${error instanceof Error ? error.message : "The upload was interrupted"}. Resume to continue where it stopped.`
+          : "The connection dropped. The upload resumes when you are back online.",
+        variant: "destructive"
+      });
+      return;
+    }
+    toast({
+      title: "Upload Failed",
+      description: error instanceof Error ? error.message : "Failed to upload file(s)",
+      variant: "destructive"
     });
   };
 
@@ -57,64 +123,23 @@ export function MediaUploadModal({ open, onOpenChange, onSave, onSaveMultiple }:
     const files = event.target.files;
     if (!files || files.length === 0) return;
 
+    const selected = mode === "single" ? [files[0]] : Array.from(files);
     setIsProcessing(true);
     
     try {
-      if (mode === "single") {
-        const file = files[0];
-        const dataURL = await fileToDataURL(file);
-        
-        // Store the actual MIME type with the data URL
-        const urlWithType = dataURL.includes('data:') 
-          ? dataURL.replace(/^data:([^;]+)/, `data:${file.type}`) 
-          : dataURL;
-        
-        setUrl(urlWithType);
-        
-        if (file.type.startsWith('video/')) {
-          setMediaType('video');
-        } else {
-          setMediaType('image');
-        }
-        
-        toast({
-          title: "File Loaded",
-          description: `${file.name} (${(file.size / 1024 / 1024).toFixed(2)} MB)`,
-        });
-      } else {
-        // Album mode - process multiple files
-        const newItems: MediaWithCaption[] = [];
-        
-        for (const file of Array.from(files)) {
-          const dataURL = await fileToDataURL(file);
-          const type = file.type.startsWith('video/') ? 'video' : 'image';
-          
-          // Store the actual MIME type with the data URL
-          const urlWithType = dataURL.includes('data:') 
-            ? dataURL.replace(/^data:([^;]+)/, `data:${file.type}`) 
-            : dataURL;
-          
-          newItems.push({
-            url: urlWithType,
-            caption: file.name,
-            type: type,
-            mimeType: file.type // Store MIME type for later use
-          });
-        }
-        
-        setAlbumItems([...albumItems, ...newItems]);
-        
-        toast({
-          title: "Files Loaded",
-          description: `${files.length} file(s) added to album`,
-        });
-      }
-    } catch (error) {
+      // Small files share one multipart request
+      const small = selected.filter(file => !needsChunkedUpload(file));
+      if (small.length > 0) applyUploaded(await uploadMedia(small));
+      await uploadLargeFiles(selected.filter(needsChunkedUpload));
+
       toast({
-        title: "Error",
-        description: "Failed to load file(s)",
-        variant: "destructive"
+        title: selected.length === 1 ? "File Uploaded" : "Files Uploaded",
+        description: mode === "single"
+          ? `${selected[0].name} (${(selected[0].size / 1024 / 1024).toFixed(2)} MB)`
+          : `${selected.length} file(s) added to album`,
       });
+    } catch (error) {
+      handleUploadError(error);
     } finally {
       setIsProcessing(false);
       if (fileInputRef.current) {
@@ -123,25 +148,48 @@ export function MediaUploadModal({ open, onOpenChange, onSave, onSaveMultiple }:
     }
   };
 
+  const handleResumeUpload = async () => {
+    if (pendingFilesRef.current.length === 0) return;
+    setIsProcessing(true);
+    try {
+      await uploadLargeFiles(pendingFilesRef.current);
+      toast({ title: "Upload Complete", description: "The remaining file(s) were uploaded." });
+    } catch (error) {
+      handleUploadError(error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleCancelUpload = async () => {
+    abortRef.current?.abort();
+    const files = pendingFilesRef.current;
+    pendingFilesRef.current = [];
+    setChunkedUpload(null);
+    await Promise.all(files.map(abortChunkedUpload));
+  };
+
+  // Pick up a paused upload as soon as the connection is back
+  useEffect(() => {
+    if (!chunkedUpload?.paused) return;
+    const resume = () => handleResumeUpload();
+    window.addEventListener("online", resume);
+    return () => window.removeEventListener("online", resume);
+  }, [chunkedUpload?.paused]);
+
   const handleSave = () => {
     if (mode === "single") {
       if (!url.trim()) return;
 
-      // Extract MIME type from data URL if available
-      const getMimeTypeFromDataURL = (dataUrl: string) => {
-        if (dataUrl.startsWith('data:')) {
-          const match = dataUrl.match(/^data:([^;]+)/);
-          return match ? match[1] : undefined;
-        }
-        return undefined;
-      };
+      // Uploaded files know their MIME type; pasted URLs don't
+      const mimeType = uploaded?.url === url.trim() ? uploaded.mimeType : undefined;
 
       const media: MediaWithCaption = {
         url: url.trim(),
         caption: caption.trim(),
         type: mediaType,
         ...(mediaType === "video" && thumbnail.trim() && { thumbnail: thumbnail.trim() }),
-        ...(getMimeTypeFromDataURL(url) && { mimeType: getMimeTypeFromDataURL(url) })
+        ...(mimeType && { mimeType })
       };
 
       onSave(media);
@@ -185,7 +233,12 @@ export function MediaUploadModal({ open, onOpenChange, onSave, onSaveMultiple }:
   };
 
   const handleReset = () => {
+    // An unfinished upload stays on the server; picking the same file again resumes it
+    abortRef.current?.abort();
+    pendingFilesRef.current = [];
+    setChunkedUpload(null);
     setUrl("");
+    setUploaded(null);
     setCaption("");
     setThumbnail("");
     setMediaType("image");
@@ -310,6 +363,9 @@ export function MediaUploadModal({ open, onOpenChange, onSave, onSaveMultiple }:
                         <FolderOpen className="w-4 h-4 mr-2" />
                         {isProcessing ? "Processing..." : "Choose from Gallery"}
                       </Button>
+                      {chunkedUpload && (
+                        <ChunkedUploadProgress upload={chunkedUpload} onResume={handleResumeUpload} onCancel={handleCancelUpload} />
+                      )}
                       {url && (
                         <div className="mt-3 p-3 bg-green-50 dark:bg-green-950/20 border border-green-200 dark:border-green-500/30 rounded-lg">
                           <p className="text-xs text-green-700 dark:text-green-300">
@@ -398,6 +454,9 @@ export function MediaUploadModal({ open, onOpenChange, onSave, onSaveMultiple }:
                       <FolderOpen className="w-4 h-4 mr-2" />
                       {isProcessing ? "Processing..." : "Select Multiple Files"}
                     </Button>
+                    {chunkedUpload && (
+                      <ChunkedUploadProgress upload={chunkedUpload} onResume={handleResumeUpload} onCancel={handleCancelUpload} />
+                    )}
                   </div>
 
                   {/* Album Builder */}
@@ -539,4 +598,46 @@ export function MediaUploadModal({ open, onOpenChange, onSave, onSaveMultiple }:
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
+
+interface ChunkedUploadProgressProps {
+  upload: ChunkedUploadState;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+function ChunkedUploadProgress({ upload, onResume, onCancel }: ChunkedUploadProgressProps) {
+  const percent = upload.totalBytes > 0 ? Math.floor((upload.uploadedBytes / upload.totalBytes) * 100) : 0;
+  const megabytes = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+
+  return (
+    <div className="mt-3 space-y-2 rounded-lg border border-gray-200 dark:border-white/15 p-3" data-testid="chunked-upload-progress">
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className="truncate font-medium text-foreground/90">
+          {upload.count > 1 && `${upload.position}/${upload.count} · `}{upload.fileName}
+        </span>
+        <span className="shrink-0 text-muted-foreground">
+          {megabytes(upload.uploadedBytes)} / {megabytes(upload.totalBytes)} MB · {percent}%
+        </span>
+      </div>
+      <Progress value={percent} className="h-2" />
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-muted-foreground">
+          {upload.paused ? "Paused — the parts sent so far are kept" : "Uploading in parts…"}
+        </span>
+        <div className="flex gap-2">
+          {upload.paused && (
+            <Button type="button" size="sm" variant="outline" onClick={onResume} data-testid="button-resume-upload">
+              <RotateCw className="w-3 h-3 mr-1" />
+              Resume
+            </Button>
+          )}
+          <Button type="button" size="sm" variant="ghost" onClick={onCancel} data-testid="button-cancel-upload">
+            <X className="w-3 h-3 mr-1" />
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
-import { Database, Settings, Save, DoorOpen, Rows, Receipt, Layout, Sun, Moon, Bookmark, Plus, ChevronDown } from "lucide-react";
+import { Database, Settings, Save, DoorOpen, Rows, Receipt, Layout, Sun, Moon, Bookmark, Plus, ChevronDown, Warehouse, FileSpreadsheet, Trash2, Undo2, CalendarDays, ClipboardList, Truck } from "lucide-react";
 import { AddColumnModal } from "./add-column-modal";
 import {
   DropdownMenu,
@@ -22,12 +22,20 @@ interface NavigationProps {
   onCalculateTolls?: () => void;
   onSaveLayout?: () => void;
   onSavedLinks?: () => void;
+  onManageDepots?: () => void;
+  onManageSchedules?: () => void;
+  onShowManifests?: () => void;
+  onOpenDriverMode?: () => void;
+  onImportRows?: () => void;
+  onUndoReorder?: () => void;
+  undoReorderLabel?: string; // The reorder that would be undone, e.g. "Route optimization"
+  onShowTrash?: () => void;
   isAuthenticated?: boolean;
   theme?: string;
   onToggleTheme?: () => void;
 }
 
-export function Navigation({ editMode, onEditModeRequest, onShowCustomization, onAddRow, onSaveData, onGenerateTng, onAddColumn, onOptimizeRoute, onCalculateTolls, onSaveLayout, onSavedLinks, isAuthenticated, theme, onToggleTheme }: NavigationProps) {
+export function Navigation({ editMode, onEditModeRequest, onShowCustomization, onAddRow, onSaveData, onGenerateTng, onAddColumn, onOptimizeRoute, onCalculateTolls, onSaveLayout, onSavedLinks, onManageDepots, onManageSchedules, onShowManifests, onOpenDriverMode, onImportRows, onUndoReorder, undoReorderLabel, onShowTrash, isAuthenticated, theme, onToggleTheme }: NavigationProps) {
   const [currentTime, setCurrentTime] = useState(new Date());
 
   useEffect(() => {
@@ -122,14 +130,26 @@ export function Navigation({ editMode, onEditModeRequest, onShowCustomization, o
                   align="end" 
                   className="w-48 bg-white/70 dark:bg-black/70 backdrop-blur-2xl border-2 border-gray-200/60 dark:border-white/10 shadow-[0_20px_60px_0_rgba(0,0,0,0.25)] rounded-2xl"
                 >
-                  <DropdownMenuItem 
-                    onClick={onAddRow}
-                    className="cursor-pointer"
-                    data-testid="menu-add-row"
-                  >
-                    <Rows className="w-4 h-4 mr-2" />
-                    <span style={{fontSize: '10px'}}>Add Row</span>
-                  </DropdownMenuItem>
+                  {onAddRow && (
+                    <DropdownMenuItem 
+                      onClick={onAddRow}
+                      className="cursor-pointer"
+                      data-testid="menu-add-row"
+                    >
+                      <Rows className="w-4 h-4 mr-2" />
+                      <span style={{fontSize: '10px'}}>Add Row</span>
+                    </DropdownMenuItem>
+                  )}
+                  {onImportRows && (
+                    <DropdownMenuItem 
+                      onClick={onImportRows}
+                      className="cursor-pointer"
+                      data-testid="menu-import-rows"
+                    >
+                      <FileSpreadsheet className="w-4 h-4 mr-2" />
+                      <span style={{fontSize: '10px'}}>Import Rows</span>
+                    </DropdownMenuItem>
+                  )}
                   {onAddColumn && (
                     <DropdownMenuItem 
                       onClick={() => {
@@ -144,6 +164,67 @@ export function Navigation({ editMode, onEditModeRequest, onShowCustomization, o
                       <span style={{fontSize: '10px'}}>Add Column</span>
                     </DropdownMenuItem>
                   )}
+                  {onUndoReorder && (
+                    <DropdownMenuItem 
+                      onClick={onUndoReorder}
+                      className="cursor-pointer"
+                      title={undoReorderLabel ? `Undo: ${undoReorderLabel}` : undefined}
+                      data-testid="menu-undo-reorder"
+                    >
+                      <Undo2 className="w-4 h-4 mr-2" />
+                      <span style={{fontSize: '10px'}}>Undo Reorder</span>
+                    </DropdownMenuItem>
+                  )}
+                  {onShowTrash && (
+                    <DropdownMenuItem 
+                      onClick={onShowTrash}
+                      className="cursor-pointer"
+                      data-testid="menu-trash"
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      <span style={{fontSize: '10px'}}>Trash</span>
+                    </DropdownMenuItem>
+                  )}
+                  {onManageDepots && (
+                    <DropdownMenuItem 
+                      onClick={onManageDepots}
+                      className="cursor-pointer"
+                      data-testid="menu-depots"
+                    >
+                      <Warehouse className="w-4 h-4 mr-2" />
+                      <span style={{fontSize: '10px'}}>Depots</span>
+                    </DropdownMenuItem>
+                  )}
+                  {onManageSchedules && (
+                    <DropdownMenuItem 
+                      onClick={onManageSchedules}
+                      className="cursor-pointer"
+                      data-testid="menu-delivery-schedules"
+                    >
+                      <CalendarDays className="w-4 h-4 mr-2" />
+                      <span style={{fontSize: '10px'}}>Delivery Schedules</span>
+                    </DropdownMenuItem>
+                  )}
+                  {onShowManifests && (
+                    <DropdownMenuItem 
+                      onClick={onShowManifests}
+                      className="cursor-pointer"
+                      data-testid="menu-manifests"
+                    >
+                      <ClipboardList className="w-4 h-4 mr-2" />
+                      <span style={{fontSize: '10px'}}>Manifests</span>
+                    </DropdownMenuItem>
+                  )}
+                  {onOpenDriverMode && (
+                    <DropdownMenuItem 
+                      onClick={onOpenDriverMode}
+                      className="cursor-pointer"
+                      data-testid="menu-driver-mode"
+                    >
+                      <Truck className="w-4 h-4 mr-2" />
+                      <span style={{fontSize: '10px'}}>Driver Mode</span>
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuSeparator className="bg-gray-200/50 dark:bg-gray-700/50" />
                   <DropdownMenuItem 
                     onClick={onEditModeRequest}
@@ -0,0 +1,67 @@
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, CloudOff, RefreshCw } from "lucide-react";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+
+/**
+ * Floating pill shown while offline, while queued changes wait to be sent,
+ * or when some of them conflict with the server
+ */
+export function OfflineStatus() {
+  const { isOnline, pending, conflicts, replay, resolve } = useOfflineQueue();
+
+  if (isOnline && pending.length === 0 && conflicts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-20 left-3 z-50 flex flex-col items-start gap-2" data-testid="offline-status">
+      {(!isOnline || pending.length > 0) && (
+        <button
+          className="flex items-center gap-2 rounded-full bg-gray-900/85 text-white px-3 py-1.5 shadow-lg backdrop-blur"
+          onClick={() => isOnline && replay()}
+          title={isOnline ? "Send queued changes now" : "Changes are saved on this device until the connection returns"}
+        >
+          {isOnline ? <RefreshCw className="w-3 h-3" /> : <CloudOff className="w-3 h-3" />}
+          <span style={{ fontSize: "10px" }}>
+            {isOnline ? "Syncing" : "Offline"}
+            {pending.length > 0 && ` · ${pending.length} queued`}
+          </span>
+        </button>
+      )}
+
+      {conflicts.length > 0 && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <button
+              className="flex items-center gap-2 rounded-full bg-red-600/90 text-white px-3 py-1.5 shadow-lg backdrop-blur"
+              data-testid="button-sync-conflicts"
+            >
+              <AlertTriangle className="w-3 h-3" />
+              <span style={{ fontSize: "10px" }}>{conflicts.length} sync conflict{conflicts.length === 1 ? "" : "s"}</span>
+            </button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-80 space-y-2">
+            <p className="text-xs font-medium">Offline changes that could not be applied</p>
+            {conflicts.map((entry) => (
+              <div key={entry.id} className="rounded-lg border p-2 space-y-1" data-testid={`sync-conflict-${entry.id}`}>
+                <p className="text-xs font-medium">{entry.label}</p>
+                <p className="text-muted-foreground" style={{ fontSize: "10px" }}>
+                  {entry.conflict} · made {new Date(entry.createdAt).toLocaleString("en-MY")}
+                </p>
+                <div className="flex justify-end gap-1">
+                  <Button variant="outline" size="sm" className="h-6 px-2" onClick={() => resolve(entry.id, "theirs")}>
+                    <span style={{ fontSize: "10px" }}>Discard Mine</span>
+                  </Button>
+                  {entry.kind === "row-update" && (
+                    <Button size="sm" className="h-6 px-2" onClick={() => resolve(entry.id, "mine")}>
+                      <span style={{ fontSize: "10px" }}>Keep Mine</span>
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+}
@@ -4,37 +4,41 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Lock, Eye, EyeOff } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import type { PublicUser } from "@shared/schema";
 
 interface PasswordPromptProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSuccess: () => void;
+  onSuccess: (user: PublicUser) => void;
   title: string;
   description: string;
 }
 
 export function PasswordPrompt({ open, onOpenChange, onSuccess, title, description }: PasswordPromptProps) {
+  const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
   const { toast } = useToast();
+  const { loginMutation } = useAuth();
 
-  const correctPassword = "Acun97";
-
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (password === correctPassword) {
-      onSuccess();
+
+    try {
+      // Credentials are checked server-side; the session cookie authorizes later writes
+      const user = await loginMutation.mutateAsync({ email: email.trim(), password });
+      onSuccess(user);
       onOpenChange(false);
       setPassword("");
       toast({
         title: "Access Granted",
         description: "You now have access to restricted features.",
       });
-    } else {
+    } catch (error) {
       toast({
         title: "Access Denied",
-        description: "Incorrect password. Please try again.",
+        description: "Incorrect email or password. Please try again.",
         variant: "destructive",
       });
       setPassword("");
@@ -63,6 +67,16 @@ export function PasswordPrompt({ open, onOpenChange, onSuccess, title, descripti
         </DialogHeader>
         <div className="space-y-4 relative z-10">
           <form onSubmit={handleSubmit} className="space-y-4">
+            <Input
+              type="email"
+              placeholder="Email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="bg-white/10 dark:bg-black/10 backdrop-blur-sm border-transparent"
+              autoComplete="username"
+              data-testid="email-input"
+              autoFocus
+            />
             <div className="relative">
               <Input
                 type={showPassword ? "text" : "password"}
@@ -70,8 +84,8 @@ export function PasswordPrompt({ open, onOpenChange, onSuccess, title, descripti
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
                 className="pr-10 bg-white/10 dark:bg-black/10 backdrop-blur-sm border-transparent"
+                autoComplete="current-password"
                 data-testid="password-input"
-                autoFocus
               />
               <Button
                 type="button"
@@ -100,11 +114,11 @@ export function PasswordPrompt({ open, onOpenChange, onSuccess, title, descripti
               </Button>
               <Button
                 type="submit"
-                disabled={!password.trim()}
+                disabled={!email.trim() || !password.trim() || loginMutation.isPending}
                 className="transition-all duration-200 backdrop-blur-sm border-transparent bg-transparent text-green-500 hover:bg-green-500/10 disabled:text-muted-foreground disabled:hover:bg-transparent"
                 data-testid="submit-password"
               >
-                Unlock
+                {loginMutation.isPending ? "Signing in..." : "Unlock"}
               </Button>
             </div>
           </form>
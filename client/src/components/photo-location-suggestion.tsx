@@ -0,0 +1,113 @@
+import { Button } from "@/components/ui/button";
+import { Camera, Check, X } from "lucide-react";
+import type { MediaWithCaption } from "@shared/schema";
+import { calculateDistance } from "@/utils/distance";
+import { imageUrlForWidth } from "@/lib/media";
+
+// A photo taken this close to the stored position confirms it
+const AGREEMENT_METERS = 50;
+
+export interface PhotoLocation {
+  imageIndex: number;
+  image: MediaWithCaption;
+  latitude: number;
+  longitude: number;
+  distanceMeters: number | null; // From the stored position; null when the row has none
+}
+
+// Empty, unparsable and 0,0 coordinates count as missing
+function storedPosition(latitude?: string, longitude?: string) {
+  const lat = parseFloat(latitude ?? "");
+  const lng = parseFloat(longitude ?? "");
+  if (isNaN(lat) || isNaN(lng) || (lat === 0 && lng === 0)) return null;
+  return { lat, lng };
+}
+
+/**
+ * The position of the row's newest geotagged photo, if it is worth suggesting:
+ * the row has no coordinates, or the photo was taken more than 50 m from them
+ */
+export function photoLocationSuggestion(images: MediaWithCaption[], latitude?: string, longitude?: string): PhotoLocation | null {
+  for (let imageIndex = images.length - 1; imageIndex >= 0; imageIndex--) {
+    const image = images[imageIndex];
+    if (!image.gps || image.gpsDismissed) continue;
+
+    const stored = storedPosition(latitude, longitude);
+    const distanceMeters = stored
+      ? calculateDistance(stored.lat, stored.lng, image.gps.latitude, image.gps.longitude) * 1000
+      : null;
+    if (distanceMeters !== null && distanceMeters <= AGREEMENT_METERS) return null;
+    return { imageIndex, image, ...image.gps, distanceMeters };
+  }
+  return null;
+}
+
+const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+
+interface PhotoLocationSuggestionProps {
+  images: MediaWithCaption[];
+  latitude?: string;
+  longitude?: string;
+  onAccept: (coordinates: { latitude: string; longitude: string }) => void;
+  onReject: (imageIndex: number) => void;
+}
+
+/**
+ * Offers the GPS position from a row photo's EXIF as the row's coordinates
+ */
+export function PhotoLocationSuggestion({ images, latitude, longitude, onAccept, onReject }: PhotoLocationSuggestionProps) {
+  const suggestion = photoLocationSuggestion(images, latitude, longitude);
+  if (!suggestion) return null;
+
+  const { image, distanceMeters } = suggestion;
+  return (
+    <div
+      className="flex items-start gap-3 rounded-lg border border-amber-300 dark:border-amber-500/40 bg-amber-50/80 dark:bg-amber-950/20 p-3"
+      data-testid="photo-location-suggestion"
+    >
+      <img
+        src={imageUrlForWidth(image, 48)}
+        alt={image.caption || "Site photo"}
+        className="w-12 h-12 rounded object-cover border border-border shrink-0"
+      />
+      <div className="flex-1 min-w-0 space-y-1" style={{ fontSize: '10px' }}>
+        <p className="font-medium text-amber-800 dark:text-amber-300 flex items-center gap-1">
+          <Camera className="w-3 h-3" />
+          Photo taken at {suggestion.latitude.toFixed(6)}, {suggestion.longitude.toFixed(6)}
+        </p>
+        <p className="text-muted-foreground">
+          {distanceMeters === null
+            ? "This row has no coordinates yet."
+            : `${formatDistance(distanceMeters)} from the stored position.`}
+        </p>
+        <div className="flex gap-2 pt-1">
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            className="h-6 px-2"
+            style={{ fontSize: '10px' }}
+            onClick={() => onAccept({ latitude: suggestion.latitude.toFixed(6), longitude: suggestion.longitude.toFixed(6) })}
+            data-testid="button-accept-photo-location"
+          >
+            <Check className="w-3 h-3 mr-1" />
+            Use these coordinates
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="h-6 px-2"
+            style={{ fontSize: '10px' }}
+            onClick={() => onReject(suggestion.imageIndex)}
+            data-testid="button-reject-photo-location"
+          >
+            <X className="w-3 h-3 mr-1" />
+            Dismiss
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 import { useState } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import type { RouteOptimizationRequest, RouteOptimizationResponse, TableRow } from "@shared/schema";
+import { downloadResponse } from "@/lib/download";
+import type { RouteOptimizationRequest, RouteOptimizationResponse, RouteOptimizationResult, TableRow, Vehicle, DistanceProviderName } from "@shared/schema";
+import { isActiveRow } from "@shared/tableView";
 import {
   Dialog,
   DialogContent,
@@ -10,13 +12,44 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Switch } from "@/components/ui/switch";
-import { Loader2, TrendingDown, Clock, Droplets, Route, Zap, CheckCircle2 } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, TrendingDown, Clock, Droplets, Route, Zap, CheckCircle2, AlarmClock, AlertTriangle, Truck, Plus, Trash2, Save, Download } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useDepots } from "@/hooks/use-depots";
 import { Tutorial } from "./tutorial";
 
+// Select value for "start from the depot assigned to the rows' route"
+const ROUTE_DEPOT_VALUE = "__route__";
+
+interface VehicleForm {
+  name: string;
+  capacity: string;
+  maxShiftHours: string;
+}
+
+const newVehicle = (index: number): VehicleForm => ({
+  name: `Lorry ${index + 1}`,
+  capacity: "1000",
+  maxShiftHours: "8",
+});
+
+// Select value for "use the server's configured distance provider"
+const SERVER_PROVIDER_VALUE = "__server__";
+
+const distanceProviderLabels: Record<DistanceProviderName, string> = {
+  haversine: "Straight line",
+  google: "Google Routes",
+  osrm: "OSRM road network",
+};
+
+const formatDuration = (minutes: number) =>
+  `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60).toString().padStart(2, "0")}m`;
+
 interface RouteOptimizationModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -30,9 +63,17 @@ export function RouteOptimizationModal({
   rows,
   selectedRowIds,
 }: RouteOptimizationModalProps) {
-  const [algorithm, setAlgorithm] = useState<'nearest_neighbor' | 'genetic' | 'simulated_annealing'>('nearest_neighbor');
+  const [algorithm, setAlgorithm] = useState<NonNullable<RouteOptimizationRequest['algorithm']>>('nearest_neighbor');
+  const [departureTime, setDepartureTime] = useState("08:00");
+  const [distanceProvider, setDistanceProvider] = useState<string>(SERVER_PROVIDER_VALUE);
+  const [splitVehicles, setSplitVehicles] = useState(false);
+  const [vehicleForms, setVehicleForms] = useState<VehicleForm[]>([newVehicle(0), newVehicle(1)]);
   const [prioritizeDelivery, setPrioritizeDelivery] = useState(false);
+  const [depotChoice, setDepotChoice] = useState(ROUTE_DEPOT_VALUE);
+  const { depots } = useDepots();
   const [optimizationResult, setOptimizationResult] = useState<RouteOptimizationResponse | null>(null);
+  const { can } = useAuth();
+  const canOptimize = can("routes:optimize");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -40,8 +81,12 @@ export function RouteOptimizationModal({
     mutationFn: async () => {
       const requestData: RouteOptimizationRequest = {
         ...(selectedRowIds && selectedRowIds.length > 0 ? { rowIds: selectedRowIds } : {}),
+        ...(depotChoice !== ROUTE_DEPOT_VALUE ? { depotId: depotChoice } : {}),
         algorithm,
         prioritizeDelivery,
+        ...(algorithm === 'time_windows' && departureTime ? { departureTime } : {}),
+        ...(splitVehicles ? { vehicles: vehicleForms.map(toVehicle) } : {}),
+        ...(distanceProvider !== SERVER_PROVIDER_VALUE ? { distanceProvider: distanceProvider as DistanceProviderName } : {}),
         vehicleSpecs: {
           type: "lorry refrigerator 1 ton",
           fuelType: "diesel",
@@ -87,11 +132,12 @@ export function RouteOptimizationModal({
       const fullOrderedIds = [...optimizationResult.optimizedOrder, ...remainingRows];
       
       // Reorder rows with full list
-      const response = await apiRequest("POST", "/api/table-rows/reorder", { rowIds: fullOrderedIds });
+      const response = await apiRequest("POST", "/api/table-rows/reorder", { rowIds: fullOrderedIds, label: "Route optimization" });
       return await response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/table-rows"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/table-rows/reorder-history"] });
       toast({
         title: "Route Applied",
         description: "The optimized route has been applied successfully!",
@@ -107,8 +153,69 @@ export function RouteOptimizationModal({
     },
   });
 
+  const saveRouteMutation = useMutation({
+    mutationFn: async () => {
+      if (!optimizationResult) return;
+      const response = await apiRequest("POST", "/api/save-route", {
+        originalOrder: optimizationResult.originalOrder,
+        optimizedOrder: optimizationResult.optimizedOrder,
+        originalDistance: String(optimizationResult.originalDistance),
+        optimizedDistance: String(optimizationResult.optimizedDistance),
+        timeSaved: String(optimizationResult.timeSaved),
+        fuelSaved: String(optimizationResult.fuelSaved),
+        algorithm: optimizationResult.algorithm,
+        vehicleRoutes: optimizationResult.vehicleRoutes ?? null,
+        unassignedStops: optimizationResult.unassignedStops ?? null,
+      });
+      return await response.json() as RouteOptimizationResult;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-routes"] });
+      toast({
+        title: "Route Saved",
+        description: "The optimization result has been saved.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to Save Route",
+        description: error.message || "Failed to save the optimized route. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDownloadGpx = async () => {
+    const savedRoute = saveRouteMutation.data;
+    if (!savedRoute) return;
+    try {
+      const response = await apiRequest("GET", `/api/saved-routes/${savedRoute.id}/gpx`);
+      await downloadResponse(response, "route.gpx");
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: "Could not download the GPX file. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toVehicle = (form: VehicleForm, index: number): Vehicle => {
+    const maxShiftHours = parseFloat(form.maxShiftHours);
+    return {
+      name: form.name.trim() || `Vehicle ${index + 1}`,
+      capacity: parseFloat(form.capacity) || 0,
+      ...(maxShiftHours > 0 ? { maxShiftMinutes: Math.round(maxShiftHours * 60) } : {}),
+    };
+  };
+
+  const updateVehicleForm = (index: number, updates: Partial<VehicleForm>) => {
+    setVehicleForms(prev => prev.map((form, i) => (i === index ? { ...form, ...updates } : form)));
+  };
+
   const handleOptimize = () => {
     setOptimizationResult(null);
+    saveRouteMutation.reset();
     optimizationMutation.mutate();
   };
 
@@ -129,14 +236,19 @@ export function RouteOptimizationModal({
         return 'AI-powered evolution. Best for complex routes with many stops.';
       case 'simulated_annealing':
         return 'Balanced approach. Good for medium-sized routes with obstacles.';
+      case 'time_windows':
+        return 'Respects each stop\'s delivery window and service time. Shows ETAs and stops that cannot be reached on time.';
       default:
         return '';
     }
   };
 
+  // Inactive sites are skipped by the optimizer
   const rowsToOptimize = selectedRowIds && selectedRowIds.length > 0
-    ? rows.filter(row => selectedRowIds.includes(row.id) && row.sortOrder !== -1)
-    : rows.filter(row => row.sortOrder !== -1);
+    ? rows.filter(row => selectedRowIds.includes(row.id) && isActiveRow(row))
+    : rows.filter(isActiveRow);
+
+  const rowsById = new Map(rows.map(row => [row.id, row]));
 
   const validRows = rowsToOptimize.filter(
     row => row.latitude && row.longitude && parseFloat(row.latitude) !== 0 && parseFloat(row.longitude) !== 0
@@ -213,9 +325,86 @@ export function RouteOptimizationModal({
                       </p>
                     </div>
                   </div>
+
+                  <div className="flex items-start space-x-3 p-3 rounded-lg border hover:bg-accent transition-colors" data-testid="radio-algorithm-time-windows">
+                    <RadioGroupItem value="time_windows" id="time_windows" />
+                    <div className="flex-1">
+                      <Label htmlFor="time_windows" className="font-medium cursor-pointer">
+                        Time Windows
+                      </Label>
+                      <p className="text-sm text-muted-foreground mt-1">
+                        {getAlgorithmDescription('time_windows')}
+                      </p>
+                    </div>
+                  </div>
                 </RadioGroup>
               </div>
 
+              {algorithm === 'time_windows' && (
+                <div className="flex items-center justify-between gap-3 p-4 bg-muted/50 rounded-lg border">
+                  <div className="flex-1">
+                    <Label htmlFor="departure-time" className="font-medium">Departure Time</Label>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      When the vehicle leaves the depot
+                    </p>
+                  </div>
+                  <Input
+                    id="departure-time"
+                    type="time"
+                    value={departureTime}
+                    onChange={(e) => setDepartureTime(e.target.value)}
+                    className="w-32"
+                    data-testid="input-departure-time"
+                  />
+                </div>
+              )}
+
+              <div className="flex items-center justify-between gap-3 p-4 bg-muted/50 rounded-lg border">
+                <div className="flex-1">
+                  <Label className="font-medium">Distances</Label>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Road distances are cached, so re-optimizing the same stops is fast
+                  </p>
+                </div>
+                <Select value={distanceProvider} onValueChange={setDistanceProvider}>
+                  <SelectTrigger className="w-48" data-testid="select-distance-provider">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SERVER_PROVIDER_VALUE}>Server default</SelectItem>
+                    {(Object.keys(distanceProviderLabels) as DistanceProviderName[]).map((provider) => (
+                      <SelectItem key={provider} value={provider}>
+                        {distanceProviderLabels[provider]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {depots.length > 1 && (
+                <div className="flex items-center justify-between gap-3 p-4 bg-muted/50 rounded-lg border">
+                  <div className="flex-1">
+                    <Label className="font-medium">Start Depot</Label>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Required when the rows belong to routes served by different depots
+                    </p>
+                  </div>
+                  <Select value={depotChoice} onValueChange={setDepotChoice}>
+                    <SelectTrigger className="w-48" data-testid="select-start-depot">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ROUTE_DEPOT_VALUE}>Route's depot</SelectItem>
+                      {depots.map((depot) => (
+                        <SelectItem key={depot.id} value={depot.id}>
+                          {depot.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               <div className="flex items-center justify-between p-4 bg-muted/50 rounded-lg border">
                 <div className="flex-1">
                   <Label htmlFor="prioritize-delivery" className="font-medium cursor-pointer">
@@ -232,12 +421,96 @@ export function RouteOptimizationModal({
                   data-testid="switch-prioritize-delivery"
                 />
               </div>
+
+              <div className="p-4 bg-muted/50 rounded-lg border space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex-1">
+                    <Label htmlFor="split-vehicles" className="font-medium cursor-pointer">
+                      Split Across Vehicles
+                    </Label>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      One route per vehicle within its capacity and shift length
+                    </p>
+                  </div>
+                  <Switch
+                    id="split-vehicles"
+                    checked={splitVehicles}
+                    onCheckedChange={setSplitVehicles}
+                    data-testid="switch-split-vehicles"
+                  />
+                </div>
+
+                {splitVehicles && (
+                  <div className="space-y-2">
+                    <div className="grid grid-cols-[1fr_90px_90px_32px] gap-2 text-xs text-muted-foreground">
+                      <span>Vehicle</span>
+                      <span>Capacity</span>
+                      <span>Shift (h)</span>
+                      <span />
+                    </div>
+                    {vehicleForms.map((form, index) => (
+                      <div key={index} className="grid grid-cols-[1fr_90px_90px_32px] gap-2" data-testid={`vehicle-${index}`}>
+                        <Input
+                          value={form.name}
+                          onChange={(e) => updateVehicleForm(index, { name: e.target.value })}
+                          className="h-8 text-xs"
+                          data-testid={`input-vehicle-name-${index}`}
+                        />
+                        <Input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={form.capacity}
+                          onChange={(e) => updateVehicleForm(index, { capacity: e.target.value })}
+                          className="h-8 text-xs"
+                          data-testid={`input-vehicle-capacity-${index}`}
+                        />
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          value={form.maxShiftHours}
+                          onChange={(e) => updateVehicleForm(index, { maxShiftHours: e.target.value })}
+                          placeholder="No limit"
+                          className="h-8 text-xs"
+                          data-testid={`input-vehicle-shift-${index}`}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={() => setVehicleForms(prev => prev.filter((_, i) => i !== index))}
+                          disabled={vehicleForms.length === 1}
+                          title="Remove vehicle"
+                          data-testid={`button-remove-vehicle-${index}`}
+                        >
+                          <Trash2 className="h-3 w-3 text-red-500 dark:text-red-400" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full"
+                      onClick={() => setVehicleForms(prev => [...prev, newVehicle(prev.length)])}
+                      data-testid="button-add-vehicle"
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Vehicle
+                    </Button>
+                    <p className="text-xs text-muted-foreground">
+                      Capacity uses the same unit as each stop's load. Leave the shift blank for no limit.
+                    </p>
+                  </div>
+                )}
+              </div>
             </div>
 
             <div className="flex gap-3 pt-4">
               <Button
                 onClick={handleOptimize}
-                disabled={optimizationMutation.isPending || validRows.length < 2}
+                disabled={!canOptimize || optimizationMutation.isPending || validRows.length < 2}
+                title={canOptimize ? undefined : "Route optimization requires dispatcher access"}
                 variant="outline"
                 className="flex-1"
                 size="lg"
@@ -335,13 +608,119 @@ export function RouteOptimizationModal({
                 {optimizationResult.algorithm === 'nearest_neighbor' && 'Nearest Neighbor with 2-Opt optimization'}
                 {optimizationResult.algorithm === 'genetic' && 'Genetic Algorithm with population-based evolution'}
                 {optimizationResult.algorithm === 'simulated_annealing' && 'Simulated Annealing with probabilistic search'}
+                {optimizationResult.algorithm === 'time_windows' && `Time Windows scheduling, departing at ${departureTime}`}
               </p>
+              {optimizationResult.distanceProvider && (
+                <p className="text-xs text-muted-foreground mt-1" data-testid="text-distance-provider">
+                  Distances: {distanceProviderLabels[optimizationResult.distanceProvider]}
+                </p>
+              )}
             </div>
 
+            {optimizationResult.vehicleRoutes && (
+              <div className="bg-muted/30 p-4 rounded-lg border" data-testid="optimization-vehicle-routes">
+                <h4 className="font-semibold mb-3 flex items-center gap-2">
+                  <Truck className="w-4 h-4" />
+                  Vehicle Routes
+                </h4>
+                {optimizationResult.unassignedStops && optimizationResult.unassignedStops.length > 0 && (
+                  <div className="flex items-start gap-2 mb-3 p-2 rounded-md bg-red-50 dark:bg-red-950/30 text-red-700 dark:text-red-400 text-sm" data-testid="optimization-unassigned-stops">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    <span>
+                      {optimizationResult.unassignedStops.length} stop{optimizationResult.unassignedStops.length === 1 ? '' : 's'} did not fit any vehicle:{' '}
+                      {optimizationResult.unassignedStops.map(id => rowsById.get(id)?.location || id).join(', ')}
+                    </span>
+                  </div>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                  {optimizationResult.vehicleRoutes.map((vehicleRoute, vehicleIndex) => {
+                    const etas = new Map((vehicleRoute.schedule ?? []).map(stop => [stop.rowId, stop]));
+                    return (
+                      <div
+                        key={vehicleIndex}
+                        className="bg-white/60 dark:bg-black/40 p-3 rounded-lg border"
+                        data-testid={`vehicle-route-${vehicleIndex}`}
+                      >
+                        <div className="flex items-center justify-between mb-1">
+                          <span className="font-semibold text-sm">{vehicleRoute.vehicle}</span>
+                          <span className="text-xs text-muted-foreground">
+                            {vehicleRoute.stops.length} stop{vehicleRoute.stops.length === 1 ? '' : 's'}
+                          </span>
+                        </div>
+                        <p className="text-xs text-muted-foreground mb-2">
+                          Load {vehicleRoute.load}/{vehicleRoute.capacity} · {vehicleRoute.distance.toFixed(1)} km · {formatDuration(vehicleRoute.durationMinutes)}
+                        </p>
+                        {vehicleRoute.stops.length === 0 ? (
+                          <p className="text-xs text-muted-foreground italic">Not needed</p>
+                        ) : (
+                          <ol className="space-y-0.5 text-xs">
+                            {vehicleRoute.stops.map((rowId, index) => {
+                              const eta = etas.get(rowId);
+                              return (
+                                <li
+                                  key={rowId}
+                                  className={`flex justify-between gap-2 ${eta && eta.lateMinutes > 0 ? 'text-red-600 dark:text-red-400' : ''}`}
+                                >
+                                  <span className="truncate">{index + 1}. {rowsById.get(rowId)?.location || rowId}</span>
+                                  {eta && <span className="flex-shrink-0 tabular-nums">{eta.serviceStart}</span>}
+                                </li>
+                              );
+                            })}
+                          </ol>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {optimizationResult.schedule && !optimizationResult.vehicleRoutes && (
+              <div className="bg-muted/30 p-4 rounded-lg border" data-testid="optimization-schedule">
+                <h4 className="font-semibold mb-2 flex items-center gap-2">
+                  <AlarmClock className="w-4 h-4" />
+                  Stop ETAs
+                </h4>
+                {optimizationResult.lateStops && optimizationResult.lateStops.length > 0 && (
+                  <div className="flex items-start gap-2 mb-3 p-2 rounded-md bg-red-50 dark:bg-red-950/30 text-red-700 dark:text-red-400 text-sm" data-testid="optimization-late-stops">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    <span>
+                      {optimizationResult.lateStops.length} stop{optimizationResult.lateStops.length === 1 ? '' : 's'} cannot be served on time:{' '}
+                      {optimizationResult.lateStops.map(id => rowsById.get(id)?.location || id).join(', ')}
+                    </span>
+                  </div>
+                )}
+                <div className="space-y-1">
+                  {optimizationResult.schedule.map((stop, index) => {
+                    const row = rowsById.get(stop.rowId);
+                    return (
+                      <div
+                        key={stop.rowId}
+                        className={`flex items-center justify-between gap-3 text-sm py-1 ${stop.lateMinutes > 0 ? 'text-red-600 dark:text-red-400' : ''}`}
+                        data-testid={`eta-${stop.rowId}`}
+                      >
+                        <span className="truncate">
+                          {index + 1}. {row?.location || stop.rowId}
+                          {row?.windowStart || row?.windowEnd ? (
+                            <span className="text-muted-foreground"> ({row.windowStart || '--:--'}–{row.windowEnd || '--:--'})</span>
+                          ) : null}
+                        </span>
+                        <span className="flex-shrink-0 tabular-nums">
+                          {stop.serviceStart}
+                          {stop.waitMinutes > 0 && <span className="text-muted-foreground"> · wait {stop.waitMinutes} min</span>}
+                          {stop.lateMinutes > 0 && <span> · {stop.lateMinutes} min late</span>}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             <div className="flex gap-3 pt-4">
               <Button
                 onClick={handleApply}
-                disabled={applyOptimizationMutation.isPending}
+                disabled={!canOptimize || applyOptimizationMutation.isPending}
                 className="flex-1 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
                 size="lg"
                 data-testid="button-apply-optimization"
@@ -358,6 +737,30 @@ export function RouteOptimizationModal({
                   </>
                 )}
               </Button>
+              <Button
+                variant="outline"
+                onClick={() => saveRouteMutation.mutate()}
+                disabled={!canOptimize || saveRouteMutation.isPending || saveRouteMutation.isSuccess}
+                data-testid="button-save-route"
+              >
+                {saveRouteMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="w-4 h-4 mr-2" />
+                )}
+                {saveRouteMutation.isSuccess ? 'Saved' : 'Save'}
+              </Button>
+              {saveRouteMutation.data && (
+                <Button
+                  variant="outline"
+                  onClick={handleDownloadGpx}
+                  title="Download the saved route as GPX for navigation apps"
+                  data-testid="button-download-gpx"
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  GPX
+                </Button>
+              )}
               <Button
                 variant="outline"
                 onClick={handleClose}
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { History, Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useAuditLog } from "@/hooks/use-audit-log";
+import type { AuditEntry, TableColumn } from "@shared/schema";
+
+interface RowHistoryProps {
+  rowId: string;
+}
+
+// Row fields without a table column of their own
+const fieldLabels: Record<string, string> = {
+  latitude: "Latitude",
+  longitude: "Longitude",
+  qrCode: "QR Code",
+  active: "Active",
+  windowStart: "Window start",
+  windowEnd: "Window end",
+  serviceMinutes: "Service minutes",
+  demand: "Load",
+};
+
+const MAX_VALUE_LENGTH = 60;
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "empty";
+  if (Array.isArray(value)) return `${value.length} item(s)`;
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+}
+
+function describeEntry(entry: AuditEntry, fieldName: (field: string) => string): string {
+  switch (entry.action) {
+    case "create":
+      return "Created the row";
+    case "delete":
+      return "Moved the row to the trash";
+    case "restore":
+      return "Restored the row from the trash";
+    case "purge":
+      return "Deleted the row permanently";
+    case "reorder":
+      return `Moved from position ${Number(entry.oldValue) + 1} to ${Number(entry.newValue) + 1}`;
+    default:
+      return `${fieldName(entry.field ?? "")}: ${formatValue(entry.oldValue)} → ${formatValue(entry.newValue)}`;
+  }
+}
+
+/**
+ * Timeline of changes to a row, for users allowed to read the audit log.
+ * Loaded only once expanded.
+ */
+export function RowHistory({ rowId }: RowHistoryProps) {
+  const [expanded, setExpanded] = useState(false);
+  const { can } = useAuth();
+  const allowed = can("audit:view");
+  const { data: entries = [], isLoading } = useAuditLog("row", rowId, expanded && allowed);
+  const { data: columns = [] } = useQuery<TableColumn[]>({
+    queryKey: ["/api/table-columns"],
+    enabled: expanded && allowed,
+  });
+
+  if (!allowed) return null;
+
+  const fieldName = (field: string) =>
+    columns.find(column => column.dataKey === field)?.name ?? fieldLabels[field] ?? field;
+
+  return (
+    <div className="bg-transparent backdrop-blur-sm rounded-xl p-4 space-y-3 shadow-sm">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <History className="w-4 h-4 text-slate-600 dark:text-slate-400" />
+          <h4 className="font-semibold text-slate-700 dark:text-slate-300" style={{ fontSize: "10px" }}>History</h4>
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2"
+          style={{ fontSize: "10px" }}
+          onClick={() => setExpanded(prev => !prev)}
+          data-testid={`button-row-history-${rowId}`}
+        >
+          {expanded ? "Hide" : "Show"}
+        </Button>
+      </div>
+
+      {expanded && (
+        isLoading ? (
+          <p className="flex items-center gap-2 text-muted-foreground" style={{ fontSize: "10px" }}>
+            <Loader2 className="w-3 h-3 animate-spin" /> Loading history...
+          </p>
+        ) : entries.length === 0 ? (
+          <p className="text-muted-foreground" style={{ fontSize: "10px" }}>No changes recorded yet.</p>
+        ) : (
+          <ol className="space-y-2 border-l border-slate-300 dark:border-white/20 pl-3 max-h-64 overflow-y-auto">
+            {entries.map((entry) => (
+              <li key={entry.id} data-testid={`history-entry-${entry.id}`}>
+                <p className="font-medium break-words" style={{ fontSize: "10px" }}>
+                  {describeEntry(entry, fieldName)}
+                </p>
+                <p className="text-muted-foreground" style={{ fontSize: "9px" }}>
+                  {new Date(entry.createdAt).toLocaleString("en-MY")} · {entry.userName ?? "Unknown user"}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )
+      )}
+    </div>
+  );
+}
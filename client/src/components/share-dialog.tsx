@@ -21,6 +21,8 @@ interface ShareDialogProps {
       searchTerm: string;
       routeFilters: string[];
       deliveryFilters: string[];
+      inactiveOnly?: boolean;
+      dueDate?: string;
     };
     sorting: {
       column: string;
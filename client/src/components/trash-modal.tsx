@@ -0,0 +1,156 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Trash2, RotateCcw, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useRowRecovery } from "@/hooks/use-row-recovery";
+import type { TableRow } from "@shared/schema";
+
+interface TrashModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const rowLabel = (row: TableRow) => [row.code, row.location].filter(Boolean).join(" · ") || "Untitled row";
+
+export function TrashModal({ open, onOpenChange }: TrashModalProps) {
+  const [purgeTarget, setPurgeTarget] = useState<TableRow | null>(null);
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const { deletedRows, deletedRowsLoading, restoreRow, purgeRow } = useRowRecovery({ trash: open });
+
+  const canPurge = can("rows:purge");
+
+  const handleRestore = async (row: TableRow) => {
+    try {
+      await restoreRow.mutateAsync(row.id);
+      toast({ title: "Row Restored", description: `${rowLabel(row)} is back in the table.` });
+    } catch (error) {
+      toast({ title: "Error", description: "Could not restore the row. Please try again.", variant: "destructive" });
+    }
+  };
+
+  const confirmPurge = async () => {
+    if (!purgeTarget) return;
+    try {
+      await purgeRow.mutateAsync(purgeTarget.id);
+      toast({ title: "Row Deleted", description: `${rowLabel(purgeTarget)} was permanently deleted.` });
+    } catch (error) {
+      toast({ title: "Error", description: "Could not delete the row. Please try again.", variant: "destructive" });
+    } finally {
+      setPurgeTarget(null);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[520px] bg-white/70 dark:bg-black/30 backdrop-blur-2xl border-2 border-gray-200/60 dark:border-white/10 shadow-[0_20px_60px_0_rgba(0,0,0,0.25)] rounded-3xl">
+          {/* iOS Frosted Glass Layer */}
+          <div className="absolute inset-0 -z-10 rounded-3xl bg-gradient-to-br from-white/60 via-white/40 to-white/50 dark:from-black/40 dark:via-black/20 dark:to-black/30 backdrop-blur-3xl border-0 shadow-inner" />
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Trash2 className="w-5 h-5 text-red-500" />
+              Trash
+            </DialogTitle>
+            <DialogDescription>
+              Deleted rows stay here, with their images, until they are restored or deleted permanently.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-[420px] overflow-y-auto pr-2 space-y-2">
+            {deletedRowsLoading ? (
+              <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Loader2 className="w-3 h-3 animate-spin" /> Loading...
+              </p>
+            ) : deletedRows.length === 0 ? (
+              <p className="text-xs text-muted-foreground">The trash is empty.</p>
+            ) : (
+              deletedRows.map((row) => (
+                <div
+                  key={row.id}
+                  className="flex items-center justify-between gap-3 p-3 rounded-xl border border-white/20 dark:border-white/10 bg-white/20 dark:bg-black/20"
+                  data-testid={`trash-row-${row.id}`}
+                >
+                  <div className="min-w-0">
+                    <p className="text-xs font-medium truncate">{rowLabel(row)}</p>
+                    <p className="text-muted-foreground" style={{ fontSize: "10px" }}>
+                      {row.route || "No route"}
+                      {row.images.length > 0 && ` · ${row.images.length} image(s)`}
+                      {row.deletedAt && ` · deleted ${new Date(row.deletedAt).toLocaleString("en-MY")}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 px-2"
+                      onClick={() => handleRestore(row)}
+                      disabled={restoreRow.isPending}
+                      data-testid={`button-restore-row-${row.id}`}
+                    >
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      <span style={{ fontSize: "10px" }}>Restore</span>
+                    </Button>
+                    {canPurge && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-red-600 dark:text-red-400"
+                        onClick={() => setPurgeTarget(row)}
+                        title="Delete permanently"
+                        data-testid={`button-purge-row-${row.id}`}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={purgeTarget !== null} onOpenChange={(nextOpen) => !nextOpen && setPurgeTarget(null)}>
+        <AlertDialogContent className="bg-white/70 dark:bg-black/30 backdrop-blur-2xl border-2 border-gray-200/60 dark:border-white/10 shadow-[0_20px_60px_0_rgba(0,0,0,0.25)] rounded-3xl">
+          {/* iOS Frosted Glass Layer */}
+          <div className="absolute inset-0 -z-10 rounded-3xl bg-gradient-to-br from-white/60 via-white/40 to-white/50 dark:from-black/40 dark:via-black/20 dark:to-black/30 backdrop-blur-3xl border-0 shadow-inner" />
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Permanently</AlertDialogTitle>
+            <AlertDialogDescription>
+              {purgeTarget ? rowLabel(purgeTarget) : ""} and its images will be removed for good. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmPurge}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={purgeRow.isPending}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
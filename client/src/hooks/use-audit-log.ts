@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { AuditEntityType, AuditEntry } from "@shared/schema";
+
+// History of one row or column, newest first; fetched fresh each time it is shown
+export function useAuditLog(entityType: AuditEntityType, entityId: string, enabled = true) {
+  return useQuery<AuditEntry[]>({
+    queryKey: ["/api/audit-log", entityType, entityId],
+    queryFn: async () => {
+      const params = new URLSearchParams({ entityType, entityId });
+      const response = await apiRequest("GET", `/api/audit-log?${params}`);
+      return response.json();
+    },
+    enabled,
+    staleTime: 0,
+  });
+}
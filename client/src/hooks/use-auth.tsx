@@ -0,0 +1,67 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { clearOfflineCache } from "@/lib/serviceWorker";
+import { hasPermission, canEditRowFields, type Permission } from "@shared/permissions";
+import type { PublicUser, LoginCredentials, TableRow } from "@shared/schema";
+
+type AuthContextType = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, LoginCredentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+  can: (permission: Permission) => boolean;
+  canEditRow: (row: Pick<TableRow, "route">, fields: string[]) => boolean;
+};
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginCredentials) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: (loggedInUser) => {
+      queryClient.setQueryData(["/api/user"], loggedInUser);
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/user"], null);
+      clearOfflineCache();
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        loginMutation,
+        logoutMutation,
+        can: (permission) => hasPermission(user, permission),
+        canEditRow: (row, fields) => canEditRowFields(user, row, fields),
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,77 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { rowsDueOn } from "@shared/deliverySchedule";
+import type { DeliverySchedule, InsertDeliverySchedule, InsertPublicHoliday, PublicHoliday, TableRow } from "@shared/schema";
+
+export function useDeliverySchedules() {
+  const queryClient = useQueryClient();
+
+  // Fetch delivery schedules
+  const {
+    data: schedules = [],
+    isLoading: schedulesLoading,
+  } = useQuery<DeliverySchedule[]>({
+    queryKey: ["/api/delivery-schedules"],
+  });
+
+  // Fetch public holidays
+  const {
+    data: holidays = [],
+    isLoading: holidaysLoading,
+  } = useQuery<PublicHoliday[]>({
+    queryKey: ["/api/public-holidays"],
+  });
+
+  // Create or replace the schedule for a delivery label
+  const saveSchedule = useMutation({
+    mutationFn: async ({ delivery, schedule }: { delivery: string; schedule: InsertDeliverySchedule }) => {
+      const response = await apiRequest("PUT", `/api/delivery-schedules/${encodeURIComponent(delivery)}`, schedule);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/delivery-schedules"] });
+    },
+  });
+
+  // Delete schedule mutation
+  const deleteSchedule = useMutation({
+    mutationFn: async (delivery: string) => {
+      await apiRequest("DELETE", `/api/delivery-schedules/${encodeURIComponent(delivery)}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/delivery-schedules"] });
+    },
+  });
+
+  // Add (or rename) public holiday mutation
+  const addHoliday = useMutation({
+    mutationFn: async (holiday: InsertPublicHoliday) => {
+      const response = await apiRequest("POST", "/api/public-holidays", holiday);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/public-holidays"] });
+    },
+  });
+
+  // Remove public holiday mutation
+  const removeHoliday = useMutation({
+    mutationFn: async (date: string) => {
+      await apiRequest("DELETE", `/api/public-holidays/${date}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/public-holidays"] });
+    },
+  });
+
+  return {
+    schedules,
+    holidays,
+    isLoading: schedulesLoading || holidaysLoading,
+    getRowsDueOn: <T extends TableRow>(rows: T[], date: string) => rowsDueOn(rows, date, schedules, holidays),
+    saveSchedule,
+    deleteSchedule,
+    addHoliday,
+    removeHoliday,
+  };
+}
@@ -0,0 +1,79 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { resolveDepotForRoute } from "@shared/depots";
+import type { Depot, InsertDepot, RouteDepot } from "@shared/schema";
+
+export function useDepots() {
+  const queryClient = useQueryClient();
+
+  // Fetch depots
+  const {
+    data: depots = [],
+    isLoading: depotsLoading,
+  } = useQuery<Depot[]>({
+    queryKey: ["/api/depots"],
+  });
+
+  // Fetch route to depot assignments
+  const {
+    data: routeDepots = [],
+    isLoading: routeDepotsLoading,
+  } = useQuery<RouteDepot[]>({
+    queryKey: ["/api/route-depots"],
+  });
+
+  // Create depot mutation
+  const createDepot = useMutation({
+    mutationFn: async (data: InsertDepot) => {
+      const response = await apiRequest("POST", "/api/depots", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/depots"] });
+    },
+  });
+
+  // Update depot mutation
+  const updateDepot = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<InsertDepot> }) => {
+      const response = await apiRequest("PATCH", `/api/depots/${id}`, updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/depots"] });
+    },
+  });
+
+  // Delete depot mutation
+  const deleteDepot = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/depots/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/depots"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/route-depots"] });
+    },
+  });
+
+  // Assign route to depot mutation (null depotId returns the route to the default depot)
+  const assignRouteDepot = useMutation({
+    mutationFn: async ({ route, depotId }: { route: string; depotId: string | null }) => {
+      const response = await apiRequest("PUT", `/api/route-depots/${encodeURIComponent(route)}`, { depotId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/route-depots"] });
+    },
+  });
+
+  return {
+    depots,
+    routeDepots,
+    isLoading: depotsLoading || routeDepotsLoading,
+    getDepotForRoute: (route: string) => resolveDepotForRoute(route, depots, routeDepots),
+    createDepot,
+    updateDepot,
+    deleteDepot,
+    assignRouteDepot,
+  };
+}
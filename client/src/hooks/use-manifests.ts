@@ -0,0 +1,141 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { enqueue, isNetworkError, markQueued, wasQueued } from "@/lib/offlineQueue";
+import type { CreateStopCheckInRequest, GenerateManifestRequest, Manifest, ManifestProgress, ManifestStatus, StopCheckIn, TableRow } from "@shared/schema";
+
+// How often dispatchers' progress view polls for new check-ins
+const PROGRESS_REFRESH_MS = 15000;
+
+/**
+ * Manifests generated for one day, across all routes
+ */
+export function useManifests(date: string, enabled = true) {
+  const queryClient = useQueryClient();
+
+  const {
+    data: manifests = [],
+    isLoading,
+  } = useQuery<Manifest[]>({
+    queryKey: ["/api/manifests", { date }],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/manifests?${new URLSearchParams({ date })}`);
+      return response.json();
+    },
+    enabled: enabled && date !== "",
+    staleTime: 0,
+  });
+
+  // Generate manifest mutation
+  const generateManifest = useMutation({
+    mutationFn: async (request: GenerateManifestRequest): Promise<Manifest> => {
+      const response = await apiRequest("POST", "/api/manifests", request);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/manifests"] });
+    },
+  });
+
+  // Change manifest status mutation
+  const updateManifestStatus = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: ManifestStatus }): Promise<Manifest> => {
+      const response = await apiRequest("PATCH", `/api/manifests/${id}/status`, { status });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/manifests"] });
+    },
+  });
+
+  return {
+    manifests,
+    isLoading,
+    generateManifest,
+    updateManifestStatus,
+  };
+}
+
+/**
+ * Check-in progress of the day's open manifests, refreshed while the table is open
+ */
+export function useManifestProgress(date: string, enabled = true) {
+  const { data: progress = [] } = useQuery<ManifestProgress[]>({
+    queryKey: ["/api/manifests/progress", { date }],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/manifests/progress?${new URLSearchParams({ date })}`);
+      return response.json();
+    },
+    enabled: enabled && date !== "",
+    staleTime: 0,
+    refetchInterval: PROGRESS_REFRESH_MS,
+  });
+  return progress;
+}
+
+/**
+ * Check-ins recorded on one manifest, and the mutation drivers use to add one
+ */
+export function useStopCheckIns(manifestId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const {
+    data: checkIns = [],
+    isLoading,
+  } = useQuery<StopCheckIn[]>({
+    queryKey: ["/api/manifests", manifestId, "check-ins"],
+    enabled: Boolean(manifestId),
+    staleTime: 0,
+  });
+
+  // Without a connection the check-in is queued and shown as recorded until it syncs
+  const checkIn = useMutation({
+    mutationFn: async (request: CreateStopCheckInRequest): Promise<StopCheckIn> => {
+      try {
+        const response = await apiRequest("POST", `/api/manifests/${manifestId}/check-ins`, request);
+        return response.json();
+      } catch (error) {
+        if (!isNetworkError(error) || !manifestId) throw error;
+
+        const row = queryClient.getQueryData<TableRow[]>(["/api/table-rows"])?.find(candidate => candidate.id === request.rowId);
+        const queued = await enqueue({
+          kind: "check-in",
+          method: "POST",
+          url: `/api/manifests/${manifestId}/check-ins`,
+          body: request,
+          rowId: request.rowId,
+          label: `Check-in at ${row?.code || row?.location || "stop"}: ${request.status}`,
+        });
+        const pending: StopCheckIn = {
+          id: queued.id,
+          manifestId,
+          rowId: request.rowId,
+          status: request.status,
+          latitude: request.latitude != null ? String(request.latitude) : null,
+          longitude: request.longitude != null ? String(request.longitude) : null,
+          accuracyMeters: request.accuracyMeters != null ? Math.round(request.accuracyMeters) : null,
+          note: request.note ?? "",
+          photo: request.photo ? { caption: "", type: "image", ...request.photo } : null,
+          userId: null,
+          userName: "",
+          recordedAt: new Date(request.recordedAt ?? Date.now()),
+          createdAt: new Date(),
+        };
+        queryClient.setQueryData<StopCheckIn[]>(["/api/manifests", manifestId, "check-ins"], checkIns =>
+          [...(checkIns ?? []), pending],
+        );
+        return markQueued(pending);
+      }
+    },
+    onSuccess: (result) => {
+      if (wasQueued(result)) return;
+      queryClient.invalidateQueries({ queryKey: ["/api/manifests", manifestId, "check-ins"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/manifests/progress"] });
+    },
+  });
+
+  return {
+    checkIns,
+    isLoading,
+    checkIn,
+  };
+}
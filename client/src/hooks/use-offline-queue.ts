@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { listQueued, replayQueue, resolveConflict, subscribeToQueue, type QueuedMutation } from "@/lib/offlineQueue";
+import { REPLAY_MESSAGE } from "@/lib/serviceWorker";
+
+/**
+ * Connection state and the queue of offline writes. Replays the queue when the
+ * browser comes back online, on start-up, and when Background Sync fires.
+ */
+export function useOfflineQueue() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [entries, setEntries] = useState<QueuedMutation[]>([]);
+
+  const refresh = useCallback(() => {
+    listQueued().then(setEntries).catch((error) => console.error("Offline queue error:", error));
+  }, []);
+
+  const replay = useCallback(async () => {
+    try {
+      const result = await replayQueue();
+      if (result.replayed > 0) {
+        queryClient.invalidateQueries({ queryKey: ["/api/table-rows"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/manifests"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/manifests/progress"] });
+        toast({ title: "Synced", description: `${result.replayed} offline change(s) sent.` });
+      }
+      if (result.conflicts > 0) {
+        toast({
+          title: "Sync Conflicts",
+          description: `${result.conflicts} offline change(s) need your decision.`,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Offline replay error:", error);
+    }
+  }, [queryClient, toast]);
+
+  useEffect(() => {
+    refresh();
+    const unsubscribe = subscribeToQueue(refresh);
+    if (navigator.onLine) replay();
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      replay();
+    };
+    const handleOffline = () => setIsOnline(false);
+    const handleWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === REPLAY_MESSAGE) replay();
+    };
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    navigator.serviceWorker?.addEventListener("message", handleWorkerMessage);
+    return () => {
+      unsubscribe();
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      navigator.serviceWorker?.removeEventListener("message", handleWorkerMessage);
+    };
+  }, [refresh, replay]);
+
+  const resolve = useCallback(async (id: string, keep: "mine" | "theirs") => {
+    await resolveConflict(id, keep);
+    if (keep === "theirs") {
+      queryClient.invalidateQueries({ queryKey: ["/api/table-rows"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/manifests"] });
+    }
+    // Sends the kept edit, or the row's later entries that were held behind the discarded one
+    await replay();
+  }, [queryClient, replay]);
+
+  return {
+    isOnline,
+    pending: entries.filter(entry => entry.status === "pending"),
+    conflicts: entries.filter(entry => entry.status === "conflict"),
+    replay,
+    resolve,
+  };
+}
@@ -0,0 +1,52 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { applyColumnEvent, applyRowEvent, type RealtimeEvent } from "@shared/realtime";
+import type { TableColumn, TableRow } from "@shared/schema";
+
+/**
+ * Listens to the server's change stream and patches the cached rows and columns
+ * in place, so every open table shows edits from other browsers without a refetch
+ */
+export function useRealtimeUpdates() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (typeof EventSource === "undefined") return;
+    // EventSource reconnects by itself after a drop
+    const source = new EventSource("/api/events", { withCredentials: true });
+
+    source.onmessage = (message) => {
+      let event: RealtimeEvent;
+      try {
+        event = JSON.parse(message.data);
+      } catch {
+        return;
+      }
+
+      switch (event.type) {
+        case "rows:upserted":
+        case "rows:deleted":
+        case "rows:reordered": {
+          const rowEvent = event;
+          queryClient.setQueryData<TableRow[]>(["/api/table-rows"], rows => rows && applyRowEvent(rows, rowEvent));
+          // The trash and the reorder history are small; refetch them when they are next shown
+          queryClient.invalidateQueries({ queryKey: ["/api/table-rows/trash"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/table-rows/reorder-history"] });
+          break;
+        }
+        case "columns:upserted":
+        case "columns:deleted":
+        case "columns:reordered": {
+          const columnEvent = event;
+          queryClient.setQueryData<TableColumn[]>(["/api/table-columns"], columns => columns && applyColumnEvent(columns, columnEvent));
+          break;
+        }
+        case "invalidate":
+          queryClient.invalidateQueries({ queryKey: event.queryKey });
+          break;
+      }
+    };
+
+    return () => source.close();
+  }, [queryClient]);
+}
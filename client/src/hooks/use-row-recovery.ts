@@ -0,0 +1,70 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { RowOrderSnapshotSummary, TableRow } from "@shared/schema";
+
+interface RowRecoveryOptions {
+  trash?: boolean; // Load the rows in the trash
+  reorderHistory?: boolean; // Load the reorders that can be undone
+}
+
+export function useRowRecovery({ trash = false, reorderHistory = false }: RowRecoveryOptions = {}) {
+  const queryClient = useQueryClient();
+
+  // Fetch rows in the trash
+  const {
+    data: deletedRows = [],
+    isLoading: deletedRowsLoading,
+  } = useQuery<TableRow[]>({
+    queryKey: ["/api/table-rows/trash"],
+    enabled: trash,
+  });
+
+  // Fetch reorders that can be undone, newest first
+  const { data: reorders = [] } = useQuery<RowOrderSnapshotSummary[]>({
+    queryKey: ["/api/table-rows/reorder-history"],
+    enabled: reorderHistory,
+  });
+
+  // Restore row mutation
+  const restoreRow = useMutation({
+    mutationFn: async (id: string): Promise<TableRow> => {
+      const response = await apiRequest("POST", `/api/table-rows/${id}/restore`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/table-rows"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/table-rows/trash"] });
+    },
+  });
+
+  // Permanently delete row mutation
+  const purgeRow = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/table-rows/${id}/purge`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/table-rows/trash"] });
+    },
+  });
+
+  // Undo the most recent reorder mutation
+  const undoReorder = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/table-rows/reorder/undo");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/table-rows"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/table-rows/reorder-history"] });
+    },
+  });
+
+  return {
+    deletedRows,
+    deletedRowsLoading,
+    reorders,
+    restoreRow,
+    purgeRow,
+    undoReorder,
+  };
+}
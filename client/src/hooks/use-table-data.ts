@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { TableRow, TableColumn, InsertTableRow, InsertTableColumn } from "@shared/schema";
+import { enqueue, isNetworkError, markQueued, wasQueued } from "@/lib/offlineQueue";
+import { TableRow, TableColumn, InsertTableRow, InsertTableColumn, ImportRowsRequest, ImportPreview } from "@shared/schema";
 
 export function useTableData() {
   const queryClient = useQueryClient();
@@ -32,13 +33,36 @@ export function useTableData() {
     },
   });
 
-  // Update row mutation
+  // Update row mutation; without a connection the edit is queued and shown straight away
   const updateRow = useMutation({
-    mutationFn: async ({ id, updates }: { id: string; updates: Partial<InsertTableRow> }) => {
-      const response = await apiRequest("PATCH", `/api/table-rows/${id}`, updates);
-      return response.json();
-    },
-    onSuccess: () => {
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<InsertTableRow> }): Promise<TableRow> => {
+      try {
+        const response = await apiRequest("PATCH", `/api/table-rows/${id}`, updates);
+        return response.json();
+      } catch (error) {
+        const row = queryClient.getQueryData<TableRow[]>(["/api/table-rows"])?.find(candidate => candidate.id === id);
+        if (!isNetworkError(error) || !row) throw error;
+
+        const base = Object.fromEntries(Object.keys(updates).map(field => [field, row[field as keyof TableRow]]));
+        await enqueue({
+          kind: "row-update",
+          method: "PATCH",
+          url: `/api/table-rows/${id}`,
+          body: updates,
+          base,
+          rowId: id,
+          label: `Edit ${row.code || row.location} (${Object.keys(updates).join(", ")})`,
+        });
+        const updated = { ...row, ...updates } as TableRow;
+        queryClient.setQueryData<TableRow[]>(["/api/table-rows"], rows =>
+          rows?.map(candidate => candidate.id === id ? updated : candidate),
+        );
+        return markQueued(updated);
+      }
+    },
+    onSuccess: (row) => {
+      // A refetch would only bring back the cached copy without the queued edit
+      if (wasQueued(row)) return;
       queryClient.invalidateQueries({ queryKey: ["/api/table-rows"] });
     },
   });
@@ -50,17 +74,32 @@ export function useTableData() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/table-rows"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/table-rows/trash"] });
     },
   });
 
   // Reorder rows mutation
   const reorderRows = useMutation({
     mutationFn: async (rowIds: string[]) => {
-      const response = await apiRequest("POST", "/api/table-rows/reorder", { rowIds });
+      const response = await apiRequest("POST", "/api/table-rows/reorder", { rowIds, label: "Drag and drop" });
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/table-rows"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/table-rows/reorder-history"] });
+    },
+  });
+
+  // Import spreadsheet rows mutation (dryRun only previews the changes)
+  const importRows = useMutation({
+    mutationFn: async (data: ImportRowsRequest): Promise<ImportPreview> => {
+      const response = await apiRequest("POST", "/api/table-rows/import", data);
+      return response.json();
+    },
+    onSuccess: (_preview, data) => {
+      if (!data.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ["/api/table-rows"] });
+      }
     },
   });
 
@@ -140,6 +179,7 @@ export function useTableData() {
     updateRow,
     deleteRow,
     reorderRows,
+    importRows,
     createColumn,
     deleteColumn,
     reorderColumns,
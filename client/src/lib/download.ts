@@ -0,0 +1,12 @@
+/**
+ * Save a file response through the browser, named from its Content-Disposition header
+ */
+export async function downloadResponse(response: Response, fallbackName: string): Promise<void> {
+  const fileName = response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? fallbackName;
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,105 @@
+import type { SpreadsheetData, SpreadsheetRecord } from "./spreadsheet";
+
+// Coordinate headers lead so they line up with the table's latitude/longitude columns
+const COORDINATE_HEADERS = ["latitude", "longitude"];
+
+interface GeoPointFeature {
+  latitude: number;
+  longitude: number;
+  properties: Record<string, string>;
+}
+
+const propertyText = (value: unknown) =>
+  value === null || value === undefined ? "" : typeof value === "object" ? JSON.stringify(value) : String(value);
+
+/**
+ * Read the point features of a GeoJSON or KML layer as spreadsheet-style records,
+ * one per point with latitude, longitude and the feature's properties as columns.
+ * Lines and polygons are skipped; records are numbered by feature, starting at 1.
+ */
+export async function readGeoFile(file: File): Promise<SpreadsheetData> {
+  const text = await file.text();
+  const points = file.name.toLowerCase().endsWith(".kml") ? parseKml(text) : parseGeoJson(text);
+  if (points.length === 0) {
+    throw new Error("The file has no point features");
+  }
+
+  const headers = [...COORDINATE_HEADERS];
+  for (const point of points) {
+    for (const key of Object.keys(point.properties)) {
+      if (!headers.includes(key)) headers.push(key);
+    }
+  }
+
+  const records: SpreadsheetRecord[] = points.map((point, index) => ({
+    sheetRow: index + 1,
+    values: {
+      ...point.properties,
+      latitude: String(point.latitude),
+      longitude: String(point.longitude),
+    },
+  }));
+  return { headers, records };
+}
+
+function parseGeoJson(text: string): GeoPointFeature[] {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error("The file is not valid GeoJSON");
+  }
+
+  const features: any[] =
+    data?.type === "FeatureCollection" ? data.features ?? [] :
+    data?.type === "Feature" ? [data] :
+    data?.type ? [{ type: "Feature", geometry: data, properties: {} }] :
+    [];
+
+  const points: GeoPointFeature[] = [];
+  for (const feature of features) {
+    if (feature?.geometry?.type !== "Point") continue;
+    const [longitude, latitude] = feature.geometry.coordinates ?? [];
+    if (typeof latitude !== "number" || typeof longitude !== "number") continue;
+    const properties: Record<string, string> = {};
+    for (const [key, value] of Object.entries(feature.properties ?? {})) {
+      properties[key] = propertyText(value);
+    }
+    points.push({ latitude, longitude, properties });
+  }
+  return points;
+}
+
+function parseKml(text: string): GeoPointFeature[] {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("The file is not valid KML");
+  }
+
+  const points: GeoPointFeature[] = [];
+  for (const placemark of Array.from(doc.getElementsByTagName("Placemark"))) {
+    const point = placemark.getElementsByTagName("Point")[0];
+    const coordinates = point?.getElementsByTagName("coordinates")[0]?.textContent?.trim();
+    if (!coordinates) continue;
+    // KML coordinates are "longitude,latitude[,altitude]"
+    const [longitude, latitude] = coordinates.split(",").map(Number);
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) continue;
+
+    const properties: Record<string, string> = {};
+    for (const tag of ["name", "description"]) {
+      const element = Array.from(placemark.children).find(child => child.localName === tag);
+      if (element?.textContent) properties[tag] = element.textContent.trim();
+    }
+    // <Data name="..."><value> and schema-typed <SimpleData name="...">
+    for (const data of Array.from(placemark.getElementsByTagName("Data"))) {
+      const name = data.getAttribute("name");
+      if (name) properties[name] = data.getElementsByTagName("value")[0]?.textContent?.trim() ?? "";
+    }
+    for (const data of Array.from(placemark.getElementsByTagName("SimpleData"))) {
+      const name = data.getAttribute("name");
+      if (name) properties[name] = data.textContent?.trim() ?? "";
+    }
+    points.push({ latitude, longitude, properties });
+  }
+  return points;
+}
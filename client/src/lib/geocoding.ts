@@ -0,0 +1,27 @@
+import type { GeocodeResult } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+// A 404 from the geocoding routes means nothing was found, not that the request failed
+async function lookup(url: string): Promise<GeocodeResult | null> {
+  try {
+    const response = await apiRequest("GET", url);
+    return response.json();
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith("404:")) return null;
+    throw error;
+  }
+}
+
+/**
+ * Coordinates for an address, from the server's geocoding provider
+ * @returns null when the address could not be found
+ */
+export const geocodeAddress = (address: string) =>
+  lookup(`/api/geocode?${new URLSearchParams({ address })}`);
+
+/**
+ * The address at a pair of coordinates
+ * @returns null when the provider has no address there
+ */
+export const reverseGeocode = (latitude: number, longitude: number) =>
+  lookup(`/api/reverse-geocode?${new URLSearchParams({ latitude: String(latitude), longitude: String(longitude) })}`);
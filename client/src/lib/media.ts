@@ -0,0 +1,231 @@
+import {
+  MAX_CHUNKED_MEDIA_BYTES,
+  MAX_MEDIA_BYTES,
+  MEDIA_UPLOAD_CHUNK_BYTES,
+  type MediaUploadStatus,
+  type MediaWithCaption,
+  type UploadedMedia,
+} from "@shared/schema";
+
+// An error response from the media routes, with the server's message
+export class UploadError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+function errorMessage(text: string, fallback: string): string {
+  try {
+    return JSON.parse(text).message ?? fallback;
+  } catch {
+    // Not JSON; keep the raw text
+    return text || fallback;
+  }
+}
+
+async function throwIfUploadFailed(res: Response) {
+  if (!res.ok) {
+    throw new UploadError(res.status, errorMessage(await res.text(), res.statusText));
+  }
+}
+
+/**
+ * Uploads photos and videos to the media store as multipart form data
+ * @returns One entry per file, in order, with the URL to keep in the row
+ */
+export async function uploadMedia(files: File[]): Promise<UploadedMedia[]> {
+  const tooLarge = files.find(file => file.size > MAX_MEDIA_BYTES);
+  if (tooLarge) {
+    throw new Error(`${tooLarge.name} is larger than ${MAX_MEDIA_BYTES / 1024 / 1024} MB`);
+  }
+
+  const form = new FormData();
+  files.forEach(file => form.append("files", file, file.name));
+  // No Content-Type header: the browser adds the multipart boundary
+  const res = await fetch("/api/media", {
+    method: "POST",
+    body: form,
+    credentials: "include",
+  });
+
+  await throwIfUploadFailed(res);
+  return res.json();
+}
+
+// Files larger than one part go through the resumable chunked upload
+export const needsChunkedUpload = (file: File) => file.size > MEDIA_UPLOAD_CHUNK_BYTES;
+
+export interface ChunkedUploadOptions {
+  concurrency?: number;
+  maxRetries?: number;
+  backoffBaseMs?: number;
+  onProgress?: (progress: { uploadedBytes: number; totalBytes: number }) => void;
+  signal?: AbortSignal;
+}
+
+// The same file picked again resumes its upload, even after a reload
+const resumeKey = (file: File) => `media-upload:${file.name}:${file.size}:${file.lastModified}`;
+
+// True for the error a cancelled upload rejects with
+export const isUploadCancelled = (error: unknown) => error instanceof DOMException && error.name === "AbortError";
+
+// Dropped connections, server errors and rate limits are worth retrying; other refusals are final
+const isRetryable = (error: unknown) =>
+  !isUploadCancelled(error) && (!(error instanceof UploadError) || error.status >= 500 || error.status === 429);
+
+// PUT through XMLHttpRequest, since fetch reports no upload progress
+function putPart(url: string, body: Blob, signal: AbortSignal | undefined, onLoaded: (bytes: number) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException("Upload cancelled", "AbortError"));
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+    xhr.open("PUT", url);
+    xhr.withCredentials = true;
+    xhr.setRequestHeader("Content-Type", "application/octet-stream");
+    xhr.upload.onprogress = (event) => onLoaded(event.loaded);
+    xhr.onload = () => {
+      signal?.removeEventListener("abort", onAbort);
+      if (xhr.status < 300) resolve();
+      else reject(new UploadError(xhr.status, errorMessage(xhr.responseText, xhr.statusText)));
+    };
+    xhr.onerror = () => {
+      signal?.removeEventListener("abort", onAbort);
+      reject(new TypeError("Network error while uploading"));
+    };
+    xhr.onabort = () => reject(new DOMException("Upload cancelled", "AbortError"));
+    signal?.addEventListener("abort", onAbort, { once: true });
+    xhr.send(body);
+  });
+}
+
+// The server's record of this file's upload: the one being resumed, or a new one
+async function startOrResume(file: File): Promise<MediaUploadStatus> {
+  const savedId = localStorage.getItem(resumeKey(file));
+  if (savedId) {
+    const res = await fetch(`/api/media/uploads/${savedId}`, { credentials: "include" });
+    if (res.ok) return res.json();
+    // Expired or aborted elsewhere; start over
+    if (res.status !== 404) await throwIfUploadFailed(res);
+    localStorage.removeItem(resumeKey(file));
+  }
+
+  const res = await fetch("/api/media/uploads", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ originalName: file.name, mimeType: file.type, sizeBytes: file.size }),
+    credentials: "include",
+  });
+  await throwIfUploadFailed(res);
+  const status: MediaUploadStatus = await res.json();
+  localStorage.setItem(resumeKey(file), status.id);
+  return status;
+}
+
+/**
+ * Uploads a large file in parts with concurrency, retries with backoff and byte-level progress.
+ * A Blob port of `uploadFileInChunks` in src/utils/chunking.js, which reads from a file path with fs.
+ * If it fails or is cancelled, calling it again with the same file sends only the missing parts.
+ */
+export async function uploadMediaInChunks(file: File, {
+  concurrency = 3,
+  maxRetries = 3,
+  backoffBaseMs = 300,
+  onProgress = () => {},
+  signal,
+}: ChunkedUploadOptions = {}): Promise<UploadedMedia> {
+  if (file.size > MAX_CHUNKED_MEDIA_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_CHUNKED_MEDIA_BYTES / 1024 / 1024} MB`);
+  }
+
+  const upload = await startOrResume(file);
+  const received = new Set(upload.receivedParts);
+  const partSize = (index: number) => Math.min(upload.chunkSize, file.size - index * upload.chunkSize);
+  const pending = Array.from({ length: upload.totalChunks }, (_, index) => index).filter(index => !received.has(index));
+
+  let uploadedBytes = upload.receivedParts.reduce((sum, index) => sum + partSize(index), 0);
+  const inFlight = new Map<number, number>();
+  const report = () => {
+    const sending = Array.from(inFlight.values()).reduce((sum, bytes) => sum + bytes, 0);
+    onProgress({ uploadedBytes: uploadedBytes + sending, totalBytes: file.size });
+  };
+  report();
+
+  let next = 0;
+  let failed: unknown = null;
+  const worker = async () => {
+    while (!failed) {
+      const index = pending[next++];
+      if (index === undefined) return;
+      const start = index * upload.chunkSize;
+      const part = file.slice(start, start + partSize(index));
+
+      for (let attempt = 1; ; attempt++) {
+        try {
+          await putPart(`/api/media/uploads/${upload.id}/parts/${index}`, part, signal, (bytes) => {
+            inFlight.set(index, bytes);
+            report();
+          });
+          inFlight.delete(index);
+          uploadedBytes += part.size;
+          report();
+          break;
+        } catch (error) {
+          inFlight.delete(index);
+          report();
+          if (attempt > maxRetries || !isRetryable(error)) {
+            failed = failed ?? error;
+            return;
+          }
+          // exponential backoff with jitter
+          const backoff = Math.round(backoffBaseMs * (2 ** (attempt - 1)) * (0.8 + Math.random() * 0.4));
+          await new Promise(resolve => setTimeout(resolve, backoff));
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, () => worker()));
+  if (failed) {
+    // The upload expired or was aborted; the next attempt starts a new one
+    if (failed instanceof UploadError && failed.status === 404) localStorage.removeItem(resumeKey(file));
+    throw failed;
+  }
+
+  const res = await fetch(`/api/media/uploads/${upload.id}/complete`, {
+    method: "POST",
+    credentials: "include",
+    signal,
+  });
+  await throwIfUploadFailed(res);
+  localStorage.removeItem(resumeKey(file));
+  return res.json();
+}
+
+/**
+ * Discards the server's parts of an interrupted upload so it is not resumed
+ */
+export async function abortChunkedUpload(file: File): Promise<void> {
+  const savedId = localStorage.getItem(resumeKey(file));
+  localStorage.removeItem(resumeKey(file));
+  if (!savedId) return;
+  await fetch(`/api/media/uploads/${savedId}`, { method: "DELETE", credentials: "include" }).catch(() => {});
+}
+
+/**
+ * A srcset listing an image's server-made variants and the original, for the browser to pick from
+ * @returns undefined for images without variants (external URLs, videos, older rows)
+ */
+export function imageSrcSet(media: MediaWithCaption): string | undefined {
+  if (!media.variants?.length || !media.width) return undefined;
+  return [...media.variants.map(variant => `${variant.url} ${variant.width}w`), `${media.url} ${media.width}w`].join(", ");
+}
+
+/**
+ * The smallest copy of an image at least `minWidth` CSS pixels wide on this screen,
+ * for places that take a single URL (lightbox thumbnails, fallbacks)
+ */
+export function imageUrlForWidth(media: MediaWithCaption, minWidth: number): string {
+  const needed = minWidth * (typeof window !== "undefined" ? window.devicePixelRatio || 1 : 1);
+  return media.variants?.find(variant => variant.width >= needed)?.url ?? media.url;
+}
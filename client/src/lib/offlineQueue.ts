@@ -0,0 +1,227 @@
+// Writes made without a connection, kept in IndexedDB until they can be replayed.
+// Photos on check-ins are data URLs, which would quickly outgrow localStorage.
+
+const DB_NAME = "route-table-offline";
+const STORE = "mutations";
+
+export type QueuedMutationKind = "row-update" | "check-in";
+
+export interface QueuedMutation {
+  id: string;
+  kind: QueuedMutationKind;
+  method: "PATCH" | "POST";
+  url: string;
+  body: Record<string, unknown>;
+  label: string; // Shown to the user, e.g. "Check-in at KL-001"
+  rowId: string;
+  base?: Record<string, unknown>; // Row values the edit started from, for conflict detection
+  status: "pending" | "conflict";
+  conflict?: string; // Why replay stopped on this entry
+  force?: boolean; // The user chose to overwrite the server's values
+  createdAt: string;
+}
+
+export interface ReplayResult {
+  replayed: number;
+  conflicts: number;
+  remaining: number;
+}
+
+const listeners = new Set<() => void>();
+// Results that were queued instead of sent, so callers can skip refetching stale data
+const queuedResults = new WeakSet<object>();
+let replaying: Promise<ReplayResult> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = run(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+export function subscribeToQueue(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * fetch rejects with a TypeError when the request never reached the server
+ */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError;
+}
+
+export function wasQueued(result: unknown): boolean {
+  return typeof result === "object" && result !== null && queuedResults.has(result);
+}
+
+/**
+ * Marks an optimistic result as standing in for a queued request
+ */
+export function markQueued<T extends object>(result: T): T {
+  queuedResults.add(result);
+  return result;
+}
+
+export async function listQueued(): Promise<QueuedMutation[]> {
+  const entries = await withStore<QueuedMutation[]>("readonly", store => store.getAll());
+  return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function enqueue(entry: Omit<QueuedMutation, "id" | "status" | "createdAt">): Promise<QueuedMutation> {
+  const queued: QueuedMutation = {
+    ...entry,
+    id: crypto.randomUUID(),
+    status: "pending",
+    createdAt: new Date().toISOString(),
+  };
+  await withStore("readwrite", store => store.put(queued));
+  notify();
+  requestBackgroundSync();
+  return queued;
+}
+
+async function saveEntry(entry: QueuedMutation) {
+  await withStore("readwrite", store => store.put(entry));
+}
+
+async function removeEntry(id: string) {
+  await withStore("readwrite", store => store.delete(id));
+}
+
+/**
+ * Resolves a conflict by overwriting the server ("mine") or dropping the offline edit ("theirs")
+ */
+export async function resolveConflict(id: string, keep: "mine" | "theirs"): Promise<void> {
+  const entry = (await listQueued()).find(candidate => candidate.id === id);
+  if (!entry) return;
+  if (keep === "theirs") {
+    await removeEntry(id);
+  } else {
+    await saveEntry({ ...entry, status: "pending", conflict: undefined, force: true });
+  }
+  notify();
+}
+
+/**
+ * Asks the service worker to wake the app up when connectivity returns.
+ * Browsers without Background Sync fall back on the page's "online" event.
+ */
+function requestBackgroundSync() {
+  if (!("serviceWorker" in navigator)) return;
+  navigator.serviceWorker.ready
+    .then(registration => {
+      const sync = (registration as ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } }).sync;
+      return sync?.register("replay-offline-queue");
+    })
+    .catch(() => {});
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Fields someone else changed on the server since the offline edit was made
+ */
+async function conflictingFields(entry: QueuedMutation): Promise<string[] | "deleted"> {
+  const response = await fetch(`/api/table-rows/${entry.rowId}`, { credentials: "include", cache: "no-store" });
+  if (response.status === 404) return "deleted";
+  if (!response.ok) throw new Error(`${response.status}: ${response.statusText}`);
+  const current = await response.json() as Record<string, unknown>;
+  return Object.keys(entry.base ?? {}).filter(field =>
+    !sameValue(current[field], entry.base?.[field]) && !sameValue(current[field], entry.body[field]),
+  );
+}
+
+async function replayEntry(entry: QueuedMutation): Promise<"sent" | "conflict" | "stop"> {
+  if (entry.kind === "row-update" && entry.base && !entry.force) {
+    const fields = await conflictingFields(entry);
+    if (fields === "deleted" || fields.length > 0) {
+      await saveEntry({
+        ...entry,
+        status: "conflict",
+        conflict: fields === "deleted" ? "The row was deleted" : `Changed by someone else: ${fields.join(", ")}`,
+      });
+      return "conflict";
+    }
+  }
+
+  const response = await fetch(entry.url, {
+    method: entry.method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(entry.body),
+    credentials: "include",
+  });
+  if (response.ok) {
+    await removeEntry(entry.id);
+    return "sent";
+  }
+  // Signed out or a server hiccup: keep the entry and try again later
+  if (response.status === 401 || response.status >= 500) return "stop";
+
+  const { message } = await response.json().catch(() => ({ message: response.statusText }));
+  await saveEntry({ ...entry, status: "conflict", conflict: message || `Rejected (${response.status})` });
+  return "conflict";
+}
+
+async function replayPending(): Promise<ReplayResult> {
+  let replayed = 0;
+  let conflicts = 0;
+  // Rows with an unresolved edit; their later entries wait so they do not land on top of it
+  const heldRows = new Set<string>();
+  for (const entry of await listQueued()) {
+    if (entry.status === "conflict" && entry.kind === "row-update") heldRows.add(entry.rowId);
+    if (entry.status !== "pending" || heldRows.has(entry.rowId)) continue;
+    try {
+      const outcome = await replayEntry(entry);
+      if (outcome === "stop") break;
+      if (outcome === "sent") replayed++;
+      else {
+        conflicts++;
+        if (entry.kind === "row-update") heldRows.add(entry.rowId);
+      }
+    } catch (error) {
+      if (isNetworkError(error)) break;
+      throw error;
+    } finally {
+      notify();
+    }
+  }
+  const remaining = (await listQueued()).length;
+  return { replayed, conflicts, remaining };
+}
+
+/**
+ * Sends queued writes oldest first. Row edits are checked against the server's
+ * current values first; entries that conflict are held for the user to resolve,
+ * along with every later entry for the same row.
+ */
+export function replayQueue(): Promise<ReplayResult> {
+  if (!replaying) {
+    replaying = replayPending().finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+}
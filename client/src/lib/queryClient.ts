@@ -49,9 +49,12 @@ export const queryClient = new QueryClient({
       refetchOnWindowFocus: false,
       staleTime: Infinity,
       retry: false,
+      // Still call fetch when the browser reports no connection, so the service worker can answer from its cache
+      networkMode: "offlineFirst",
     },
     mutations: {
       retry: false,
+      networkMode: "offlineFirst",
     },
   },
 });
@@ -0,0 +1,38 @@
+// Message the service worker posts when Background Sync fires (see client/public/sw.js)
+export const REPLAY_MESSAGE = "replay-offline-queue";
+
+/**
+ * Registers the offline service worker. Skipped in development, where it would
+ * cache Vite's modules and get in the way of hot reloading.
+ */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.error("Service worker registration failed:", error);
+    });
+  });
+}
+
+async function postToServiceWorker(message: Record<string, unknown>) {
+  if (!("serviceWorker" in navigator)) return;
+  const registration = await navigator.serviceWorker.getRegistration();
+  registration?.active?.postMessage(message);
+}
+
+/**
+ * Fetches images ahead of time so they show without a connection
+ */
+export function precacheUrls(urls: string[]) {
+  const remote = Array.from(new Set(urls.filter(url => /^(https?:)?\/\//.test(url) || url.startsWith("/"))));
+  if (remote.length > 0) {
+    postToServiceWorker({ type: "precache", urls: remote }).catch(() => {});
+  }
+}
+
+/**
+ * Drops cached API responses, so the next user on the device does not read them offline
+ */
+export function clearOfflineCache() {
+  postToServiceWorker({ type: "clear-api-cache" }).catch(() => {});
+}
@@ -0,0 +1,77 @@
+import Papa from "papaparse";
+import { readGeoFile } from "./geoFile";
+
+export interface SpreadsheetRecord {
+  sheetRow: number; // Row number in the file, counting the header as row 1
+  values: Record<string, string>;
+}
+
+export interface SpreadsheetData {
+  headers: string[];
+  records: SpreadsheetRecord[];
+}
+
+export const SPREADSHEET_ACCEPT = ".csv,.xlsx,.geojson,.json,.kml";
+
+const isBlank = (values: Record<string, string>) =>
+  Object.values(values).every(value => value.trim() === "");
+
+/**
+ * Read the first sheet of a CSV or XLSX file, using its first row as headers.
+ * Blank rows are skipped but keep their place in the row numbering.
+ * GeoJSON and KML point layers are read as one record per point.
+ */
+export async function readSpreadsheet(file: File): Promise<SpreadsheetData> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".csv")) return readCsv(file);
+  if (name.endsWith(".xlsx")) return readXlsx(file);
+  if (/\.(geojson|json|kml)$/.test(name)) return readGeoFile(file);
+  throw new Error("Choose a .csv, .xlsx, .geojson or .kml file");
+}
+
+function readCsv(file: File): Promise<SpreadsheetData> {
+  return new Promise((resolve, reject) => {
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      transformHeader: header => header.trim(),
+      complete: (results) => {
+        const records = results.data
+          .map((values, index) => ({ sheetRow: index + 2, values }))
+          .filter(record => !isBlank(record.values));
+        resolve({ headers: (results.meta.fields ?? []).filter(Boolean), records });
+      },
+      error: (error) => reject(error),
+    });
+  });
+}
+
+async function readXlsx(file: File): Promise<SpreadsheetData> {
+  // exceljs is large, so it is only loaded when a workbook is imported
+  const { Workbook } = await import("exceljs");
+  const workbook = new Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) {
+    throw new Error("The workbook has no sheets");
+  }
+
+  const headers: string[] = [];
+  sheet.getRow(1).eachCell({ includeEmpty: true }, (cell, columnNumber) => {
+    headers[columnNumber - 1] = cell.text.trim();
+  });
+
+  const records: SpreadsheetRecord[] = [];
+  sheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    const values: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      if (header) values[header] = row.getCell(index + 1).text;
+    });
+    if (!isBlank(values)) {
+      records.push({ sheetRow: rowNumber, values });
+    }
+  });
+
+  return { headers: headers.filter(Boolean), records };
+}
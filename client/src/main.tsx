@@ -1,6 +1,9 @@
 import { createRoot } from "react-dom/client";
 import App from "./App";
+import { registerServiceWorker } from "./lib/serviceWorker";
 import "./index.css";
 import "leaflet/dist/leaflet.css";
 
+registerServiceWorker();
+
 createRoot(document.getElementById("root")!).render(<App />);
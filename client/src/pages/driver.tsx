@@ -0,0 +1,350 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Camera, CheckCircle2, Loader2, MapPin, Navigation as NavigationIcon, SkipForward, Truck, X } from "lucide-react";
+import { PasswordPrompt } from "@/components/password-prompt";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useManifests, useStopCheckIns } from "@/hooks/use-manifests";
+import { useTableData } from "@/hooks/use-table-data";
+import { wasQueued } from "@/lib/offlineQueue";
+import { precacheUrls } from "@/lib/serviceWorker";
+import { todayIsoDate } from "@shared/deliverySchedule";
+import { isOpenManifest, latestCheckIns, manifestProgress } from "@shared/manifests";
+import type { ManifestStop, MediaWithCaption, StopCheckInStatus } from "@shared/schema";
+
+// Give up on a GPS fix after this long and check in without a position
+const GPS_TIMEOUT_MS = 10000;
+
+const STATUS_BADGES: Record<StopCheckInStatus, string> = {
+  arrived: "bg-blue-500/15 text-blue-600 dark:text-blue-400",
+  completed: "bg-green-500/15 text-green-600 dark:text-green-400",
+  skipped: "bg-amber-500/15 text-amber-600 dark:text-amber-400",
+};
+
+const fileToDataURL = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+};
+
+// Current position, or null when the device has no GPS or the driver declined
+const currentPosition = (): Promise<GeolocationPosition | null> => {
+  if (!("geolocation" in navigator)) return Promise.resolve(null);
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(resolve, () => resolve(null), {
+      enableHighAccuracy: true,
+      timeout: GPS_TIMEOUT_MS,
+      maximumAge: 60000,
+    });
+  });
+};
+
+const directionsLinks = (stop: ManifestStop) => {
+  if (!stop.latitude || !stop.longitude) return null;
+  const position = `${stop.latitude},${stop.longitude}`;
+  return {
+    google: `https://www.google.com/maps/dir/?api=1&destination=${position}`,
+    waze: `https://waze.com/ul?ll=${position}&navigate=yes`,
+  };
+};
+
+const formatTime = (value: Date | string) =>
+  new Date(value).toLocaleTimeString("en-MY", { hour: "2-digit", minute: "2-digit" });
+
+export default function DriverPage() {
+  const { user, isLoading: isLoadingUser, can } = useAuth();
+  const { toast } = useToast();
+  const [date, setDate] = useState(todayIsoDate());
+  const [pickedRoute, setPickedRoute] = useState("");
+  const [activeStopId, setActiveStopId] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+  const [photo, setPhoto] = useState<MediaWithCaption | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+
+  const canCheckIn = can("stops:check-in");
+  const { manifests, isLoading: isLoadingManifests } = useManifests(date, canCheckIn);
+
+  // Drivers work their assigned route; dispatchers can follow any open one
+  const lockedRoute = user?.role === "driver" ? user.assignedRoute ?? "" : "";
+  const openManifests = manifests.filter(isOpenManifest);
+  const route = lockedRoute || pickedRoute || openManifests[0]?.route || "";
+  const manifest = openManifests.find((candidate) => candidate.route === route);
+
+  const { checkIns, checkIn } = useStopCheckIns(manifest?.id);
+  const latest = useMemo(() => latestCheckIns(checkIns), [checkIns]);
+  const progress = manifest ? manifestProgress(manifest, checkIns) : null;
+  const { rows } = useTableData();
+
+  // Keep the route's photos and QR codes on the device for stretches without signal
+  useEffect(() => {
+    if (!manifest) return;
+    const stopIds = new Set(manifest.stops.map((stop) => stop.rowId));
+    const imageUrls = rows
+      .filter((row) => stopIds.has(row.id))
+      .flatMap((row) => (row.images ?? []).map((image) => image.url));
+    precacheUrls([...imageUrls, ...manifest.stops.map((stop) => stop.qrCode ?? "")]);
+  }, [manifest, rows]);
+
+  // Start a fresh note and photo whenever another stop is opened
+  useEffect(() => {
+    setNote("");
+    setPhoto(null);
+  }, [activeStopId]);
+
+  const handlePhotoSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      setPhoto({ url: await fileToDataURL(file), caption: "", type: "image", mimeType: file.type });
+    } catch {
+      toast({ title: "Error", description: "Failed to read the photo.", variant: "destructive" });
+    }
+  };
+
+  const handleCheckIn = async (stop: ManifestStop, status: StopCheckInStatus) => {
+    if (status === "skipped" && !note.trim()) {
+      toast({ title: "Note Required", description: "Say why the stop was skipped.", variant: "destructive" });
+      return;
+    }
+
+    setIsLocating(true);
+    const position = await currentPosition();
+    setIsLocating(false);
+
+    try {
+      const result = await checkIn.mutateAsync({
+        rowId: stop.rowId,
+        status,
+        latitude: position?.coords.latitude ?? null,
+        longitude: position?.coords.longitude ?? null,
+        accuracyMeters: position?.coords.accuracy ?? null,
+        note: note.trim() || undefined,
+        photo,
+        recordedAt: new Date(),
+      });
+      toast({
+        title: wasQueued(result) ? "Saved Offline" : "Checked In",
+        description: `${stop.code || stop.location} marked ${status}${position ? "" : " (no GPS fix)"}${wasQueued(result) ? ". It will sync when the connection returns." : "."}`,
+      });
+      setActiveStopId(status === "arrived" ? stop.rowId : null);
+      setNote("");
+      setPhoto(null);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to check in.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!isLoadingUser && !user) {
+    return (
+      <PasswordPrompt
+        open
+        onOpenChange={() => {}}
+        onSuccess={() => {}}
+        title="Driver Sign In"
+        description="Sign in to check in at the stops of your route."
+      />
+    );
+  }
+
+  const isBusy = isLocating || checkIn.isPending;
+
+  return (
+    <div className="mx-auto max-w-xl p-3 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <Link href="/">
+          <Button variant="ghost" size="sm" className="h-8 px-2" data-testid="link-back-to-table">
+            <ArrowLeft className="w-4 h-4 mr-1" /> Table
+          </Button>
+        </Link>
+        <h1 className="flex items-center gap-2 text-base font-semibold">
+          <Truck className="w-5 h-5 text-blue-500" /> Driver Mode
+        </h1>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 p-3 rounded-xl border border-blue-200/50 dark:border-blue-500/20">
+        <div>
+          <Label htmlFor="driver-date" style={{ fontSize: "10px" }}>Date</Label>
+          <Input
+            id="driver-date"
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="h-9 text-xs"
+            data-testid="input-driver-date"
+          />
+        </div>
+        <div>
+          <Label style={{ fontSize: "10px" }}>Route</Label>
+          {lockedRoute ? (
+            <p className="h-9 flex items-center text-sm font-medium" data-testid="text-driver-route">{lockedRoute}</p>
+          ) : (
+            <Select value={route} onValueChange={setPickedRoute}>
+              <SelectTrigger className="h-9 text-xs" data-testid="select-driver-route">
+                <SelectValue placeholder="Choose a route" />
+              </SelectTrigger>
+              <SelectContent>
+                {openManifests.map((candidate) => (
+                  <SelectItem key={candidate.id} value={candidate.route} className="text-xs">{candidate.route}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+        {progress && (
+          <p className="col-span-2 text-muted-foreground" style={{ fontSize: "10px" }} data-testid="text-driver-progress">
+            {progress.completed}/{progress.total} completed · {progress.skipped} skipped · manifest{" "}
+            {progress.manifestId.slice(0, 8).toUpperCase()} ({progress.status})
+          </p>
+        )}
+      </div>
+
+      {!canCheckIn ? (
+        <p className="text-xs text-muted-foreground">Your account cannot check in at stops.</p>
+      ) : isLoadingManifests ? (
+        <p className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="w-3 h-3 animate-spin" /> Loading...
+        </p>
+      ) : !manifest ? (
+        <p className="text-xs text-muted-foreground">
+          No open manifest{route ? ` for ${route}` : ""} on this day. Ask dispatch to generate one.
+        </p>
+      ) : (
+        <ol className="space-y-2">
+          {manifest.stops.map((stop) => {
+            const current = latest.get(stop.rowId);
+            const links = directionsLinks(stop);
+            const isActive = activeStopId === stop.rowId;
+            return (
+              <li
+                key={stop.rowId}
+                className="p-3 rounded-xl border border-white/20 dark:border-white/10 bg-white/20 dark:bg-black/20"
+                data-testid={`driver-stop-${stop.rowId}`}
+              >
+                <button
+                  className="w-full text-left"
+                  onClick={() => setActiveStopId(isActive ? null : stop.rowId)}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground text-xs">{stop.sequence}.</span>
+                    <span className="text-sm font-medium">{stop.code || "—"}</span>
+                    {current && (
+                      <Badge variant="secondary" className={STATUS_BADGES[current.status]} style={{ fontSize: "9px" }}>
+                        {current.status} {formatTime(current.recordedAt)}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-xs">{stop.location}</p>
+                  <p className="text-muted-foreground" style={{ fontSize: "10px" }}>
+                    {stop.windowStart || stop.windowEnd ? `${stop.windowStart ?? "—"}–${stop.windowEnd ?? "—"}` : "Any time"}
+                    {stop.info && ` · ${stop.info}`}
+                  </p>
+                </button>
+
+                {isActive && (
+                  <div className="mt-3 space-y-2 border-t border-border/20 pt-3">
+                    {links && (
+                      <div className="flex gap-2">
+                        <a href={links.google} target="_blank" rel="noopener noreferrer" className="flex-1">
+                          <Button variant="outline" size="sm" className="w-full h-9">
+                            <MapPin className="w-4 h-4 mr-1" /> Google Maps
+                          </Button>
+                        </a>
+                        <a href={links.waze} target="_blank" rel="noopener noreferrer" className="flex-1">
+                          <Button variant="outline" size="sm" className="w-full h-9">
+                            <NavigationIcon className="w-4 h-4 mr-1" /> Waze
+                          </Button>
+                        </a>
+                      </div>
+                    )}
+                    <Textarea
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      placeholder="Note (required when skipping)"
+                      maxLength={1000}
+                      className="text-xs min-h-[60px]"
+                      data-testid={`input-check-in-note-${stop.rowId}`}
+                    />
+                    <input
+                      ref={photoInputRef}
+                      type="file"
+                      accept="image/*"
+                      capture="environment"
+                      className="hidden"
+                      onChange={handlePhotoSelect}
+                    />
+                    {photo ? (
+                      <div className="relative w-24">
+                        <img src={photo.url} alt="Proof of delivery" className="w-24 h-24 object-cover rounded-lg" />
+                        <button
+                          className="absolute -top-2 -right-2 rounded-full bg-black/70 p-0.5 text-white"
+                          onClick={() => setPhoto(null)}
+                          title="Remove photo"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </div>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-9"
+                        onClick={() => photoInputRef.current?.click()}
+                        data-testid={`button-check-in-photo-${stop.rowId}`}
+                      >
+                        <Camera className="w-4 h-4 mr-1" /> Add Photo
+                      </Button>
+                    )}
+                    <div className="grid grid-cols-3 gap-2">
+                      <Button
+                        variant="outline"
+                        className="h-11"
+                        onClick={() => handleCheckIn(stop, "arrived")}
+                        disabled={isBusy}
+                        data-testid={`button-check-in-arrived-${stop.rowId}`}
+                      >
+                        <MapPin className="w-4 h-4 mr-1" /> Arrived
+                      </Button>
+                      <Button
+                        className="h-11 bg-green-600 hover:bg-green-700 text-white"
+                        onClick={() => handleCheckIn(stop, "completed")}
+                        disabled={isBusy}
+                        data-testid={`button-check-in-completed-${stop.rowId}`}
+                      >
+                        {isBusy ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <CheckCircle2 className="w-4 h-4 mr-1" />}
+                        Done
+                      </Button>
+                      <Button
+                        variant="outline"
+                        className="h-11"
+                        onClick={() => handleCheckIn(stop, "skipped")}
+                        disabled={isBusy}
+                        data-testid={`button-check-in-skipped-${stop.rowId}`}
+                      >
+                        <SkipForward className="w-4 h-4 mr-1" /> Skip
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
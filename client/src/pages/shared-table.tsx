@@ -3,16 +3,21 @@ import { useRoute } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { DataTable } from "@/components/data-table";
 import { useTableData } from "@/hooks/use-table-data";
+import { useDeliverySchedules } from "@/hooks/use-delivery-schedules";
 import { LoadingOverlay } from "@/components/skeleton-loader";
 import { Footer } from "@/components/footer";
 import { Database } from "lucide-react";
 import type { SharedTableState, TableColumn, TableRow } from "@shared/schema";
+import { rowSearchValues } from "@shared/customFields";
+import { isActiveRow } from "@shared/tableView";
+import { rowsDueOn } from "@shared/deliverySchedule";
 
 export default function SharedTablePage() {
   const [, params] = useRoute("/share/:shareId");
   const shareId = params?.shareId;
 
   const { rows, columns, isLoading } = useTableData();
+  const { schedules, holidays } = useDeliverySchedules();
 
   // Fetch shared table state
   const { data: sharedState, isLoading: isLoadingState, error } = useQuery<SharedTableState>({
@@ -28,13 +33,18 @@ export default function SharedTablePage() {
 
     const { filters, columnVisibility, columnOrder } = sharedState.tableState;
 
-    // Filter rows
-    let filtered = rows;
+    // Filter rows, keeping either the active or only the inactive sites
+    let filtered = rows.filter(row => isActiveRow(row) !== Boolean(filters.inactiveOnly));
+
+    // Apply due date filter
+    if (filters.dueDate) {
+      filtered = rowsDueOn(filtered, filters.dueDate, schedules, holidays);
+    }
     
     // Apply search filter
     if (filters.searchTerm) {
       filtered = filtered.filter(row => 
-        Object.values(row).some(value => 
+        rowSearchValues(row).some(value => 
           String(value).toLowerCase().includes(filters.searchTerm.toLowerCase())
         )
       );
@@ -58,7 +68,7 @@ export default function SharedTablePage() {
       .filter((col): col is TableColumn => col !== undefined);
 
     return { filteredRows: filtered, displayColumns: orderedCols };
-  }, [rows, columns, sharedState]);
+  }, [rows, columns, sharedState, schedules, holidays]);
 
   // Create no-op mutations for read-only mode
   const noOpMutation = useMutation({
@@ -1,4 +1,5 @@
 import { useState, useEffect, useMemo, useRef } from "react";
+import { useLocation } from "wouter";
 import { useTableData } from "@/hooks/use-table-data";
 import { DataTable } from "@/components/data-table";
 import { AddImageSection } from "@/components/add-image-section";
@@ -10,6 +11,12 @@ import { LoadingOverlay } from "@/components/skeleton-loader";
 import { RouteOptimizationModal } from "@/components/route-optimization-modal";
 import { ShareDialog } from "@/components/share-dialog";
 import { SavedLinksModal } from "@/components/saved-links-modal";
+import { DepotsModal } from "@/components/depots-modal";
+import { DeliverySchedulesModal } from "@/components/delivery-schedules-modal";
+import { ManifestsModal } from "@/components/manifests-modal";
+import { ManifestProgressStrip } from "@/components/manifest-progress";
+import { ImportRowsModal } from "@/components/import-rows-modal";
+import { TrashModal } from "@/components/trash-modal";
 import { Footer } from "@/components/footer";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -24,12 +31,21 @@ import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious
 import { Search, Filter, X, ChevronDown, ChevronUp, Edit3, Plus, Trash2, Pencil, Sun, Moon } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useTheme } from "@/components/theme-provider";
-import { TableColumn, type Page, type InsertPage } from "@shared/schema";
+import { TableColumn, type Page, type InsertPage, type PublicUser, type LayoutPreferences, type TableSorting, type ExportFormat, type ExportTableRequest } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { todayIsoDate } from "@shared/deliverySchedule";
 import { generateTngValues } from "@/utils/tng-generator";
 import { calculateDistance } from "@/utils/distance";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { getUserId } from "@/lib/utils";
+import { useAuth } from "@/hooks/use-auth";
+import { useDepots } from "@/hooks/use-depots";
+import { useDeliverySchedules } from "@/hooks/use-delivery-schedules";
+import { useRowRecovery } from "@/hooks/use-row-recovery";
+import { depotCoordinates } from "@shared/depots";
+import { rowSearchValues } from "@shared/customFields";
+import { sortTableRows, isActiveRow } from "@shared/tableView";
+import { downloadResponse } from "@/lib/download";
 
 interface DescriptionItem {
   term: string;
@@ -42,10 +58,12 @@ export default function TablePage() {
   const [searchTerm, setSearchTerm] = useState("");
   const [filterValue, setFilterValue] = useState<string[]>([]);
   const [deliveryFilterValue, setDeliveryFilterValue] = useState<string[]>([]);
+  const [inactiveOnly, setInactiveOnly] = useState(false);
+  const [dueDate, setDueDate] = useState(""); // "YYYY-MM-DD", or "" for every day
+  const [sorting, setSorting] = useState<TableSorting | null>(null);
   const [customizationModalOpen, setCustomizationModalOpen] = useState(false);
   const [visibleColumns, setVisibleColumns] = useState<string[]>([]);
   const [columnOrder, setColumnOrder] = useState<string[]>([]);
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [showPasswordPrompt, setShowPasswordPrompt] = useState(false);
   const [pendingAction, setPendingAction] = useState<'edit' | null>(null);
   const [showPositionDialog, setShowPositionDialog] = useState(false);
@@ -60,6 +78,11 @@ export default function TablePage() {
   const [showSaveConfirmation, setShowSaveConfirmation] = useState(false);
   const [shareDialogOpen, setShareDialogOpen] = useState(false);
   const [savedLinksModalOpen, setSavedLinksModalOpen] = useState(false);
+  const [depotsModalOpen, setDepotsModalOpen] = useState(false);
+  const [schedulesModalOpen, setSchedulesModalOpen] = useState(false);
+  const [manifestsModalOpen, setManifestsModalOpen] = useState(false);
+  const [importModalOpen, setImportModalOpen] = useState(false);
+  const [trashModalOpen, setTrashModalOpen] = useState(false);
   const [currentPageIndex, setCurrentPageIndex] = useState(0);
   const [showPageDialog, setShowPageDialog] = useState(false);
   const [editingPage, setEditingPage] = useState<Page | null>(null);
@@ -76,6 +99,11 @@ export default function TablePage() {
   const animationTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const { toast } = useToast();
   const { theme, toggleTheme } = useTheme();
+  const { user, logoutMutation, can } = useAuth();
+  const [, setLocation] = useLocation();
+  const { depots, routeDepots, getDepotForRoute } = useDepots();
+  const { getRowsDueOn } = useDeliverySchedules();
+  const isAuthenticated = !!user;
   
   const {
     rows,
@@ -92,6 +120,7 @@ export default function TablePage() {
     createColumn,
     deleteColumn,
   } = useTableData();
+  const { reorders, undoReorder } = useRowRecovery({ reorderHistory: editMode && can("rows:reorder") });
 
   // Fetch pages
   const { data: pages = [], isLoading: pagesLoading } = useQuery<Page[]>({
@@ -101,7 +130,8 @@ export default function TablePage() {
   // Create initial page if none exist (migration)
   useEffect(() => {
     const createInitialPage = async () => {
-      if (!pagesLoading && pages.length === 0) {
+      // Only users who can manage pages may create them
+      if (!pagesLoading && pages.length === 0 && can("pages:manage")) {
         await createPageMutation.mutateAsync({
           title: pageTitle,
           description: pageDescription,
@@ -111,7 +141,7 @@ export default function TablePage() {
     };
 
     createInitialPage();
-  }, [pages.length, pagesLoading]);
+  }, [pages.length, pagesLoading, isAuthenticated]);
 
   // Create page mutation
   const createPageMutation = useMutation({
@@ -178,41 +208,50 @@ export default function TablePage() {
     },
   });
 
-  // Load column preferences from database (fallback to localStorage)
+  // Load column preferences: signed-in users get their own layout (or the team
+  // default) from the database; anonymous visitors use localStorage, then the team default
   useEffect(() => {
+    const applyLayout = (visibleIds: string[], order: string[]) => {
+      const validVisibleColumnIds = visibleIds.filter(id => columns.some(col => col.id === id));
+      const validColumnOrder = order.filter(id => columns.some(col => col.id === id));
+      
+      // Always ensure Kilometer column is visible
+      const kilometerColumn = columns.find(col => col.dataKey === 'kilometer');
+      if (kilometerColumn && !validVisibleColumnIds.includes(kilometerColumn.id)) {
+        validVisibleColumnIds.push(kilometerColumn.id);
+      }
+      
+      if (validVisibleColumnIds.length > 0) {
+        setVisibleColumns(validVisibleColumnIds);
+      }
+      if (validColumnOrder.length > 0) {
+        setColumnOrder(validColumnOrder);
+      }
+    };
+
     const loadLayoutPreferences = async () => {
       if (columns.length === 0) return;
 
+      if (!isAuthenticated) {
+        try {
+          const stored = localStorage.getItem('tableColumnPreferences');
+          if (stored) {
+            const preferences = JSON.parse(stored);
+            applyLayout(preferences.visibleColumns || [], preferences.columnOrder || []);
+            return;
+          }
+        } catch (error) {
+          // Ignore malformed local preferences
+        }
+      }
+
       try {
-        // Try to load from database first
-        const userId = getUserId();
-        const res = await fetch(`/api/layout?userId=${encodeURIComponent(userId)}`);
+        const res = await fetch('/api/layout', { credentials: 'include' });
         if (res.ok) {
-          const layout = await res.json();
-          const validVisibleColumnIds = Object.keys(layout.columnVisibility).filter(id => 
-            layout.columnVisibility[id] && columns.some(col => col.id === id)
-          );
-          const validColumnOrder = layout.columnOrder.filter((id: string) => 
-            columns.some(col => col.id === id)
-          );
-          
-          // Always ensure Kilometer column is visible
-          const kilometerColumn = columns.find(col => col.dataKey === 'kilometer');
-          if (kilometerColumn && !validVisibleColumnIds.includes(kilometerColumn.id)) {
-            validVisibleColumnIds.push(kilometerColumn.id);
-          }
-          
-          if (validVisibleColumnIds.length > 0) {
-            setVisibleColumns(validVisibleColumnIds);
-          }
-          if (validColumnOrder.length > 0) {
-            setColumnOrder(validColumnOrder);
-          }
+          const layout: LayoutPreferences = await res.json();
+          const visibleIds = Object.keys(layout.columnVisibility).filter(id => layout.columnVisibility[id]);
+          applyLayout(visibleIds, layout.columnOrder);
           return; // Successfully loaded from database
-        } else if (res.status === 404) {
-          // No saved layout in database - clear localStorage and force use defaults
-          localStorage.removeItem('tableColumnPreferences');
-          // Skip to defaults below
         }
       } catch (error) {
         // Fall through to defaults
@@ -233,9 +272,9 @@ export default function TablePage() {
     };
 
     loadLayoutPreferences();
-  }, [columns]);
+  }, [columns, user?.id]);
 
-  // Save column preferences to localStorage
+  // Save column preferences to localStorage (used while signed out)
   const saveColumnPreferences = (visible: string[], order: string[]) => {
     const preferences = {
       visibleColumns: visible,
@@ -244,6 +283,14 @@ export default function TablePage() {
     localStorage.setItem('tableColumnPreferences', JSON.stringify(preferences));
   };
 
+  // Layout payload for /api/layout; the server keys it by the session user
+  const buildLayoutData = (visible: string[], order: string[]) => ({
+    columnOrder: order.filter(id => columns.some(col => col.id === id)),
+    columnVisibility: Object.fromEntries(
+      columns.map(col => [col.id, visible.includes(col.id)])
+    ),
+  });
+
   // Helper functions for description items
   const parseDescriptionItems = (text: string): DescriptionItem[] => {
     if (!text.trim()) return [];
@@ -436,15 +483,15 @@ export default function TablePage() {
 
   // Filter rows based on search term and dropdown selection
   const filteredRows = (() => {
-    const isFilterActive = filterValue.length > 0;
-    
-    // Get warehouse row (QL Kitchen) 
-    const warehouseRow = rows.find(row => row.location === "QL Kitchen");
+    // Inactive sites are hidden unless the "Inactive sites" filter shows only them
+    const shownRows = rows.filter(row => isActiveRow(row) !== inactiveOnly);
+    // With a date picked, keep only the stops whose delivery schedule falls on that day
+    const siteRows = dueDate ? getRowsDueOn(shownRows, dueDate) : shownRows;
     
     // Apply normal filtering
-    const normalFilteredRows = rows.filter((row) => {
+    const normalFilteredRows = siteRows.filter((row) => {
       const matchesSearch = searchTerm === "" || 
-        Object.values(row).some(value => 
+        rowSearchValues(row).some(value => 
           String(value).toLowerCase().includes(searchTerm.toLowerCase())
         );
       
@@ -459,66 +506,37 @@ export default function TablePage() {
       return matchesSearch && matchesFilter && matchesDeliveryFilter;
     });
     
-    // If filter is active and warehouse row exists, ensure it's at position 1
-    if (isFilterActive && warehouseRow) {
-      // Remove warehouse row from normal filtered results if it exists
-      const nonWarehouseRows = normalFilteredRows.filter(row => row.location !== "QL Kitchen");
-      
-      // Check if warehouse row matches search criteria
-      const warehouseMatchesSearch = searchTerm === "" || 
-        Object.values(warehouseRow).some(value => 
-          String(value).toLowerCase().includes(searchTerm.toLowerCase())
-        );
-      
-      // Add warehouse row at the beginning if it matches search
-      if (warehouseMatchesSearch) {
-        return [warehouseRow, ...nonWarehouseRows];
-      } else {
-        return nonWarehouseRows;
-      }
-    }
-    
     return normalFilteredRows;
   })();
 
-  // Calculate distances based on filter state
+  // Calculate distances based on filter state, measured from each row's route depot
   const rowsWithDistances = useMemo(() => {
-    // Always find QL Kitchen coordinates from the full rows collection (not filteredRows)
-    // This ensures QL Kitchen coordinates are available even when filtered out by search
-    const qlKitchenRow = rows.find(row => row.location === "QL Kitchen");
-    
-    if (!qlKitchenRow) {
-      // If no QL Kitchen found, return rows with no distances calculated
-      return filteredRows.map(row => ({ ...row, kilometer: "—", segmentDistance: 0 }));
-    }
-
-    // Check if QL Kitchen coordinates are missing before parsing
-    if (!qlKitchenRow.latitude || !qlKitchenRow.longitude) {
-      return filteredRows.map(row => ({ ...row, kilometer: "—", segmentDistance: 0 }));
-    }
-
-    const qlLat = parseFloat(qlKitchenRow.latitude);
-    const qlLng = parseFloat(qlKitchenRow.longitude);
-
-    // Use Number.isFinite to validate numeric coordinates
-    if (!Number.isFinite(qlLat) || !Number.isFinite(qlLng)) {
-      return filteredRows.map(row => ({ ...row, kilometer: "—", segmentDistance: 0 }));
-    }
+    // Depot coordinates for a route, or null when no usable depot is configured
+    const getOrigin = (route: string) => {
+      const depot = getDepotForRoute(route);
+      if (!depot) return null;
+      const { latitude, longitude } = depotCoordinates(depot);
+      // Use Number.isFinite to validate numeric coordinates
+      return Number.isFinite(latitude) && Number.isFinite(longitude) ? { latitude, longitude } : null;
+    };
 
     // Check if any filters are active
-    const hasActiveFilters = searchTerm !== "" || filterValue.length > 0 || deliveryFilterValue.length > 0;
+    const hasActiveFilters = searchTerm !== "" || filterValue.length > 0 || deliveryFilterValue.length > 0 || dueDate !== "";
 
     if (!hasActiveFilters) {
-      // NO FILTERS: Calculate direct distance from QL Kitchen to each route
+      // NO FILTERS: Calculate direct distance from the route's depot to each location
       return filteredRows.map((row) => {
-        // QL Kitchen row always shows 0 distance (it's the starting point)
-        if (row.location === "QL Kitchen") {
-          return { ...row, kilometer: 0, segmentDistance: 0 };
+        // Prefer the road distance saved by the toll calculation over the straight-line estimate
+        const roadDistance = row.kilometer !== null ? parseFloat(row.kilometer) : NaN;
+        if (Number.isFinite(roadDistance)) {
+          return { ...row, displayKilometer: roadDistance, segmentDistance: roadDistance, isRoadDistance: true };
         }
 
-        // Check if current row coordinates are missing before parsing
-        if (!row.latitude || !row.longitude) {
-          return { ...row, kilometer: "—", segmentDistance: 0 };
+        const origin = getOrigin(row.route);
+
+        // Check if depot or current row coordinates are missing before parsing
+        if (!origin || !row.latitude || !row.longitude) {
+          return { ...row, displayKilometer: "—", segmentDistance: 0 };
         }
 
         const currentLat = parseFloat(row.latitude);
@@ -526,32 +544,39 @@ export default function TablePage() {
 
         // Use Number.isFinite to validate numeric coordinates
         if (!Number.isFinite(currentLat) || !Number.isFinite(currentLng)) {
-          return { ...row, kilometer: "—", segmentDistance: 0 };
+          return { ...row, displayKilometer: "—", segmentDistance: 0 };
         }
 
-        // Calculate direct distance from QL Kitchen to this route location
-        const directDistance = calculateDistance(qlLat, qlLng, currentLat, currentLng);
+        // Calculate direct distance from the depot to this route location
+        const directDistance = calculateDistance(origin.latitude, origin.longitude, currentLat, currentLng);
 
-        return { ...row, kilometer: directDistance, segmentDistance: directDistance };
+        return { ...row, displayKilometer: directDistance, segmentDistance: directDistance };
       });
     } else {
-      // FILTERS ACTIVE: Calculate cumulative distance through the route sequence
+      // FILTERS ACTIVE: Calculate cumulative distance through the route sequence,
+      // restarting whenever the sequence moves to a route served by another depot
       let cumulativeDistance = 0;
-      let previousLat = qlLat;
-      let previousLng = qlLng;
+      let currentDepotId: string | undefined;
+      let previousLat = NaN;
+      let previousLng = NaN;
+      let fromDepot = true; // The next measured leg starts at the depot
 
-      return filteredRows.map((row, index) => {
-        // When encountering QL Kitchen row, reset everything and set kilometer = 0
-        if (row.location === "QL Kitchen") {
+      return filteredRows.map((row) => {
+        const depot = getDepotForRoute(row.route);
+        const origin = getOrigin(row.route);
+
+        // When the sequence moves to a route served by another depot, restart from that depot
+        if (depot?.id !== currentDepotId) {
+          currentDepotId = depot?.id;
           cumulativeDistance = 0;
-          previousLat = qlLat;
-          previousLng = qlLng;
-          return { ...row, kilometer: 0, segmentDistance: 0 };
+          previousLat = origin ? origin.latitude : NaN;
+          previousLng = origin ? origin.longitude : NaN;
+          fromDepot = true;
         }
 
-        // Check if current row coordinates are missing before parsing
-        if (!row.latitude || !row.longitude) {
-          return { ...row, kilometer: "—", segmentDistance: 0 };
+        // Check if depot or current row coordinates are missing before parsing
+        if (!origin || !row.latitude || !row.longitude) {
+          return { ...row, displayKilometer: "—", segmentDistance: 0 };
         }
 
         const currentLat = parseFloat(row.latitude);
@@ -559,31 +584,39 @@ export default function TablePage() {
 
         // Use Number.isFinite to validate numeric coordinates
         if (!Number.isFinite(currentLat) || !Number.isFinite(currentLng)) {
-          return { ...row, kilometer: "—", segmentDistance: 0 };
+          return { ...row, displayKilometer: "—", segmentDistance: 0 };
         }
 
-        // Calculate distance from previous location to current location
-        const segmentDistance = calculateDistance(previousLat, previousLng, currentLat, currentLng);
+        // The leg out of the depot is the row's stored road distance when it has one;
+        // only depot-to-row distances are stored, so later legs stay straight-line estimates
+        const roadDistance = row.kilometer !== null ? parseFloat(row.kilometer) : NaN;
+        const isRoadDistance = fromDepot && Number.isFinite(roadDistance);
+        const segmentDistance = isRoadDistance
+          ? roadDistance
+          : calculateDistance(previousLat, previousLng, currentLat, currentLng);
         cumulativeDistance += segmentDistance;
+        fromDepot = false;
 
         // Update previous coordinates for next iteration
         previousLat = currentLat;
         previousLng = currentLng;
 
-        return { ...row, kilometer: cumulativeDistance, segmentDistance };
+        return { ...row, displayKilometer: cumulativeDistance, segmentDistance, isRoadDistance };
       });
     }
-  }, [rows, filteredRows, searchTerm, filterValue, deliveryFilterValue]);
+  }, [filteredRows, searchTerm, filterValue, deliveryFilterValue, dueDate, depots, routeDepots]);
 
   // Clear all filters and reset sort order to default
   const clearAllFilters = async () => {
     setSearchTerm("");
     setFilterValue([]);
     setDeliveryFilterValue([]);
+    setInactiveOnly(false);
+    setDueDate("");
     
     // Reset all "no" values to match sortOrder (default state)
     const resetPromises = rows.map((row) => {
-      if (row.location !== "QL Kitchen" && row.no !== row.sortOrder) {
+      if (row.no !== row.sortOrder) {
         return updateRow.mutateAsync({
           id: row.id,
           updates: { no: row.sortOrder },
@@ -685,28 +718,13 @@ export default function TablePage() {
     setColumnOrder(newColumnOrder);
     saveColumnPreferences(newVisibleColumns, newColumnOrder);
     
-    // Also save to database
-    try {
-      const validColumnOrder = newColumnOrder.filter(id => columns.some(col => col.id === id));
-      const columnVisibilityMap = columns.reduce((acc, col) => {
-        acc[col.id] = newVisibleColumns.includes(col.id);
-        return acc;
-      }, {} as Record<string, boolean>);
-
-      const userId = getUserId();
-      await fetch('/api/layout', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          userId,
-          columnOrder: validColumnOrder,
-          columnVisibility: columnVisibilityMap,
-        }),
-      });
-    } catch (error) {
-      console.error('Failed to save layout to database:', error);
+    // Also save to the signed-in user's layout
+    if (isAuthenticated) {
+      try {
+        await apiRequest('POST', '/api/layout', buildLayoutData(newVisibleColumns, newColumnOrder));
+      } catch (error) {
+        console.error('Failed to save layout to database:', error);
+      }
     }
     
     toast({
@@ -715,6 +733,46 @@ export default function TablePage() {
     });
   };
 
+  const handleSaveTeamDefaultLayout = async (newVisibleColumns: string[], newColumnOrder: string[]) => {
+    try {
+      await apiRequest('PUT', '/api/layout/default', buildLayoutData(newVisibleColumns, newColumnOrder));
+      toast({
+        title: "Team Default Saved",
+        description: "Users without their own layout will now see these columns.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save team default layout.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleResetToTeamLayout = async () => {
+    try {
+      await apiRequest('DELETE', '/api/layout');
+      localStorage.removeItem('tableColumnPreferences');
+      const res = await fetch('/api/layout', { credentials: 'include' });
+      if (res.ok) {
+        const layout: LayoutPreferences = await res.json();
+        const visibleIds = Object.keys(layout.columnVisibility).filter(id => layout.columnVisibility[id]);
+        setVisibleColumns(visibleIds.filter(id => columns.some(col => col.id === id)));
+        setColumnOrder(layout.columnOrder.filter(id => columns.some(col => col.id === id)));
+      }
+      toast({
+        title: "Layout Reset",
+        description: "Your columns now follow the team default.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to reset layout.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleEditModeRequest = () => {
     if (editMode) {
       // Show confirmation before exiting edit mode
@@ -724,6 +782,12 @@ export default function TablePage() {
       if (!isAuthenticated) {
         setPendingAction('edit');
         setShowPasswordPrompt(true);
+      } else if (!can("rows:update-site")) {
+        toast({
+          title: "Access Denied",
+          description: "Your account has view-only access.",
+          variant: "destructive",
+        });
       } else {
         setEditMode(true);
         toast({
@@ -734,10 +798,60 @@ export default function TablePage() {
     }
   };
 
+  const handleUndoReorder = async () => {
+    const label = reorders[0]?.label;
+    try {
+      await undoReorder.mutateAsync();
+      toast({
+        title: "Reorder Undone",
+        description: label ? `Restored the order from before "${label}".` : "Restored the previous row order.",
+      });
+    } catch (error) {
+      toast({
+        title: "Undo Failed",
+        description: "Could not restore the previous order. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleShareTable = () => {
     setShareDialogOpen(true);
   };
 
+  // Download the rows and columns on screen, in their displayed order
+  const handleExport = async (format: ExportFormat) => {
+    const exportColumns = editMode ? displayColumns : displayColumns.filter(col => col.dataKey !== 'info');
+    const exportRows = sortTableRows(rowsWithDistances, sorting, columns);
+    const request: ExportTableRequest = {
+      rowIds: exportRows.map(row => row.id),
+      columnIds: exportColumns.map(col => col.id),
+      kilometers: Object.fromEntries(exportRows.map(row => [
+        row.id,
+        typeof row.displayKilometer === "number" ? row.displayKilometer : null,
+      ])),
+      filters: {
+        searchTerm,
+        routeFilters: filterValue,
+        deliveryFilters: deliveryFilterValue,
+        inactiveOnly,
+        dueDate: dueDate || undefined,
+      },
+      sorting,
+    };
+
+    try {
+      const response = await apiRequest('POST', `/api/export/${format}`, request);
+      await downloadResponse(response, `routes.${format}`);
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: "Could not export the table. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleConfirmExit = async () => {
     // Start loading state
     setExitingEditMode(true);
@@ -751,16 +865,7 @@ export default function TablePage() {
     
     // Auto-save layout preferences before exiting
     try {
-      const userId = getUserId();
-      const layoutData = {
-        userId,
-        columnVisibility: Object.fromEntries(
-          columns.map(col => [col.id, visibleColumns.includes(col.id)])
-        ),
-        columnOrder,
-      };
-      
-      await apiRequest('POST', '/api/layout', layoutData);
+      await apiRequest('POST', '/api/layout', buildLayoutData(visibleColumns, columnOrder));
     } catch (error) {
       console.error('Failed to auto-save layout:', error);
       // Continue with exit even if save fails
@@ -769,14 +874,18 @@ export default function TablePage() {
     // Small delay for loading effect
     await new Promise(resolve => setTimeout(resolve, 300));
     
-    // Exit edit mode and clear authentication
+    // Exit edit mode and end the server session
+    try {
+      await logoutMutation.mutateAsync();
+    } catch (error) {
+      console.error('Failed to sign out:', error);
+    }
     setEditMode(false);
-    setIsAuthenticated(false); // Auto-clear password
     setExitingEditMode(false);
     
     toast({
       title: "Edit Mode Disabled",
-      description: "Layout auto-saved. Edit mode has been turned off and password cleared.",
+      description: "Layout auto-saved. Edit mode has been turned off and you have been signed out.",
     });
   };
 
@@ -784,12 +893,13 @@ export default function TablePage() {
     setShowExitConfirmation(false);
   };
 
-  // Auto-clear authentication when edit mode is disabled (safeguard)
+  // Leave edit mode if the session ends or the role no longer allows editing
+  const canEnterEditMode = can("rows:update-site");
   useEffect(() => {
-    if (!editMode && isAuthenticated) {
-      setIsAuthenticated(false);
+    if (editMode && !canEnterEditMode) {
+      setEditMode(false);
     }
-  }, [editMode, isAuthenticated]);
+  }, [editMode, canEnterEditMode]);
 
   // Check localStorage for slide hints on mount
   useEffect(() => {
@@ -853,9 +963,13 @@ export default function TablePage() {
     localStorage.setItem('hasSlideCarousel', 'true');
   };
 
-  const handlePasswordSuccess = () => {
-    setIsAuthenticated(true);
-    if (pendingAction === 'edit') {
+  const handlePasswordSuccess = (signedInUser: PublicUser) => {
+    if (pendingAction === 'edit' && !hasPermission(signedInUser, "rows:update-site")) {
+      toast({
+        title: "Signed In",
+        description: "Your account has view-only access.",
+      });
+    } else if (pendingAction === 'edit') {
       setEditMode(true);
       toast({
         title: "Edit Mode Enabled",
@@ -866,10 +980,10 @@ export default function TablePage() {
   };
 
   const handleGenerateTngValues = async () => {
-    if (!editMode) {
+    if (!editMode || !can("rows:edit")) {
       toast({
         title: "Access Denied",
-        description: "Please enable Edit mode to generate TnG values.",
+        description: "Generating TnG values requires Edit mode and dispatcher access.",
         variant: "destructive",
       });
       return;
@@ -917,10 +1031,10 @@ export default function TablePage() {
   };
 
   const handleCalculateTolls = async () => {
-    if (!editMode) {
+    if (!editMode || !can("routes:optimize")) {
       toast({
         title: "Access Denied",
-        description: "Please enable Edit mode to calculate tolls.",
+        description: "Calculating tolls requires Edit mode and dispatcher access.",
         variant: "destructive",
       });
       return;
@@ -969,14 +1083,22 @@ export default function TablePage() {
         editMode={editMode}
         onEditModeRequest={handleEditModeRequest}
         onShowCustomization={() => setCustomizationModalOpen(true)}
-        onAddRow={handleAddRow}
+        onAddRow={can("rows:edit") ? handleAddRow : undefined}
         onSaveData={handleSaveData}
         onGenerateTng={handleGenerateTngValues}
         onOptimizeRoute={() => setOptimizationModalOpen(true)}
         onCalculateTolls={handleCalculateTolls}
         onSaveLayout={() => {}}
         onSavedLinks={() => setSavedLinksModalOpen(true)}
-        onAddColumn={async (columnData) => {
+        onManageDepots={can("routes:assign-depot") ? () => setDepotsModalOpen(true) : undefined}
+        onManageSchedules={can("schedules:manage") ? () => setSchedulesModalOpen(true) : undefined}
+        onShowManifests={can("manifests:manage") ? () => setManifestsModalOpen(true) : undefined}
+        onOpenDriverMode={can("stops:check-in") ? () => setLocation("/driver") : undefined}
+        onImportRows={can("rows:edit") ? () => setImportModalOpen(true) : undefined}
+        onUndoReorder={can("rows:reorder") && reorders.length > 0 ? handleUndoReorder : undefined}
+        undoReorderLabel={reorders[0]?.label}
+        onShowTrash={can("rows:edit") ? () => setTrashModalOpen(true) : undefined}
+        onAddColumn={!can("columns:manage") ? undefined : async (columnData) => {
           try {
             const newColumn = await createColumn.mutateAsync(columnData);
             
@@ -1085,7 +1207,7 @@ export default function TablePage() {
                               </svg>
                             </div>
                           )}
-                          {editMode && (
+                          {editMode && can("pages:manage") && (
                             <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
                               <Button
                                 size="sm"
@@ -1169,7 +1291,7 @@ export default function TablePage() {
                 </CarouselContent>
                   
                   {/* Add Page Button (in edit mode) */}
-                  {editMode && (
+                  {editMode && can("pages:manage") && (
                     <div className="px-6 pb-4 border-t border-blue-200/50 dark:border-blue-500/20">
                       <Button
                         onClick={handleAddPage}
@@ -1383,6 +1505,9 @@ export default function TablePage() {
         })()
       )}
 
+      {/* Driver progress on the day's open manifests */}
+      {can("manifests:manage") && <ManifestProgressStrip date={dueDate || todayIsoDate()} />}
+
       {/* Main Table */}
       <div ref={tableRef}>
         <DataTable
@@ -1409,9 +1534,11 @@ export default function TablePage() {
         onOptimizeRoute={() => setOptimizationModalOpen(true)}
         onShareTable={() => setShareDialogOpen(true)}
         onSavedLinks={() => setSavedLinksModalOpen(true)}
+        onSortStateChange={setSorting}
+        onExport={can("rows:export") ? handleExport : undefined}
         isAuthenticated={isAuthenticated}
         isLoading={exitingEditMode}
-        isFiltered={searchTerm !== "" || filterValue.length > 0 || deliveryFilterValue.length > 0}
+        isFiltered={searchTerm !== "" || filterValue.length > 0 || deliveryFilterValue.length > 0 || inactiveOnly || dueDate !== ""}
         // Search and filter props
         searchTerm={searchTerm}
         onSearchTermChange={setSearchTerm}
@@ -1419,6 +1546,11 @@ export default function TablePage() {
         onFilterValueChange={setFilterValue}
         deliveryFilterValue={deliveryFilterValue}
         onDeliveryFilterValueChange={setDeliveryFilterValue}
+        inactiveOnly={inactiveOnly}
+        onInactiveOnlyChange={setInactiveOnly}
+        inactiveRowsCount={rows.filter(row => !isActiveRow(row)).length}
+        dueDate={dueDate}
+        onDueDateChange={setDueDate}
         routeOptions={routeOptions}
         deliveryOptions={deliveryOptions}
         onClearAllFilters={clearAllFilters}
@@ -1434,6 +1566,8 @@ export default function TablePage() {
         columns={columns}
         visibleColumns={visibleColumns}
         onApplyChanges={handleApplyColumnCustomization}
+        onSaveAsTeamDefault={can("layout:team-default") ? handleSaveTeamDefaultLayout : undefined}
+        onResetToTeamDefault={isAuthenticated ? handleResetToTeamLayout : undefined}
         editMode={editMode}
       />
 
@@ -1492,7 +1626,7 @@ export default function TablePage() {
         }}
         onSuccess={handlePasswordSuccess}
         title="Authentication Required"
-        description="Please enter the password to access edit mode."
+        description="Please sign in with your account to access edit mode."
       />
 
       {/* Exit Confirmation Dialog */}
@@ -1506,7 +1640,7 @@ export default function TablePage() {
             </div>
             <DialogTitle className="text-center text-red-900 dark:text-red-100" style={{fontSize: '14px'}}>Exit Edit Mode</DialogTitle>
             <DialogDescription className="text-center text-gray-600 dark:text-gray-400" style={{fontSize: '11px'}}>
-              Are you sure you want to exit edit mode? Your authentication will be cleared and you'll need to enter the password again to re-enable edit mode.
+              Are you sure you want to exit edit mode? You will be signed out and need to sign in again to re-enable edit mode.
             </DialogDescription>
           </DialogHeader>
           
@@ -1652,6 +1786,8 @@ export default function TablePage() {
             searchTerm,
             routeFilters: filterValue,
             deliveryFilters: deliveryFilterValue,
+            inactiveOnly,
+            dueDate: dueDate || undefined,
           },
           sorting: null,
           columnVisibility: columns.reduce((acc, col) => {
@@ -1668,11 +1804,46 @@ export default function TablePage() {
         onOpenChange={setSavedLinksModalOpen}
       />
 
+      {/* Depots Modal */}
+      <DepotsModal
+        open={depotsModalOpen}
+        onOpenChange={setDepotsModalOpen}
+        routes={routeOptions}
+      />
+
+      {/* Delivery Schedules Modal */}
+      <DeliverySchedulesModal
+        open={schedulesModalOpen}
+        onOpenChange={setSchedulesModalOpen}
+        deliveries={deliveryOptions}
+      />
+
+      {/* Manifests Modal */}
+      <ManifestsModal
+        open={manifestsModalOpen}
+        onOpenChange={setManifestsModalOpen}
+        routes={routeOptions}
+        initialDate={dueDate || undefined}
+      />
+
+      {/* Import Rows Modal */}
+      <ImportRowsModal
+        open={importModalOpen}
+        onOpenChange={setImportModalOpen}
+        columns={columns}
+      />
+
+      {/* Trash Modal */}
+      <TrashModal
+        open={trashModalOpen}
+        onOpenChange={setTrashModalOpen}
+      />
+
         </div>
       </main>
       
       {/* Footer */}
-      <Footer editMode={editMode} />
+      <Footer editMode={editMode && can("settings:manage")} />
     </>
   );
 }
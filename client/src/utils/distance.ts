@@ -18,31 +18,22 @@ export function calculateDistance(
   return R * c;
 }
 
-// Calculate cumulative distances from QL Kitchen through the route
-export function calculateCumulativeDistances(rows: any[]): Map<string, number> {
+// Calculate cumulative distances from the route's depot through the route
+export function calculateCumulativeDistances(
+  rows: any[],
+  origin: { latitude: number; longitude: number }
+): Map<string, number> {
   const distances = new Map<string, number>();
-  
-  // Find QL Kitchen (warehouse) row
-  const qlKitchen = rows.find(row => row.route === "Warehouse" && row.sortOrder === -1);
-  
-  if (!qlKitchen || !qlKitchen.latitude || !qlKitchen.longitude) {
-    // If no QL Kitchen found, return empty distances
-    return distances;
-  }
-
-  // QL Kitchen has 0 distance
-  distances.set(qlKitchen.id, 0);
 
-  // Filter out QL Kitchen and sort remaining rows by their current order
+  // Skip rows without valid coordinates, keeping their current order
   const routeRows = rows
-    .filter(row => row.id !== qlKitchen.id)
     .filter(row => row.latitude && row.longitude && 
                    !isNaN(parseFloat(row.latitude)) && 
                    !isNaN(parseFloat(row.longitude)));
 
   let cumulativeDistance = 0;
-  let previousLat = parseFloat(qlKitchen.latitude);
-  let previousLon = parseFloat(qlKitchen.longitude);
+  let previousLat = origin.latitude;
+  let previousLon = origin.longitude;
 
   for (const row of routeRows) {
     const currentLat = parseFloat(row.latitude);
@@ -0,0 +1,11 @@
+exports.up = async function(knex) {
+  await knex.schema.alterTable('users', (t) => {
+    t.text('password_hash');
+  });
+};
+
+exports.down = async function(knex) {
+  await knex.schema.alterTable('users', (t) => {
+    t.dropColumn('password_hash');
+  });
+};
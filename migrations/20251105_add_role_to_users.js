@@ -0,0 +1,13 @@
+exports.up = async function(knex) {
+  await knex.schema.alterTable('users', (t) => {
+    t.text('role').notNullable().defaultTo('viewer');
+    t.text('assigned_route');
+  });
+};
+
+exports.down = async function(knex) {
+  await knex.schema.alterTable('users', (t) => {
+    t.dropColumn('assigned_route');
+    t.dropColumn('role');
+  });
+};
@@ -0,0 +1,118 @@
+import type { Request } from "express";
+import type { AuditEntityType, InsertAuditEntry, TableColumn, TableRow } from "@shared/schema";
+import { storage } from "./storage";
+
+// Fields the server maintains itself; changes to them are not edits worth recording
+const UNTRACKED_ROW_FIELDS = new Set(["id", "sortOrder", "kilometer", "driveMinutes", "distanceCalculatedAt", "deletedAt", "customFields"]);
+const UNTRACKED_COLUMN_FIELDS = new Set(["id", "sortOrder"]);
+
+export type Actor = Pick<InsertAuditEntry, "userId" | "userName">;
+
+export function requestActor(req: Request): Actor {
+  return req.user
+    ? { userId: req.user.id, userName: req.user.name || req.user.email }
+    : { userId: null, userName: null };
+}
+
+// Embedded files would bloat the log; their presence is enough to show in a timeline
+function auditValue(value: unknown): unknown {
+  if (typeof value === "string") return value.startsWith("data:") ? "(embedded file)" : value;
+  if (Array.isArray(value)) return value.map(auditValue);
+  if (value instanceof Date) return value.toISOString();
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, auditValue(item)]));
+  }
+  return value ?? null;
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+function fieldChanges(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  untracked: Set<string>,
+): { field: string; oldValue: unknown; newValue: unknown }[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(fields)
+    .filter(field => !untracked.has(field) && !sameValue(before[field], after[field]))
+    .map(field => ({ field, oldValue: auditValue(before[field]), newValue: auditValue(after[field]) }));
+}
+
+/**
+ * Entries for one row change: a snapshot on create or delete,
+ * otherwise one entry per changed field with custom column values keyed by their dataKey
+ */
+export function rowAuditEntries(before: TableRow | undefined, after: TableRow | undefined, actor: Actor): InsertAuditEntry[] {
+  const entityId = (after ?? before)?.id;
+  if (!entityId) return [];
+  if (!before) {
+    return [{ entityType: "row", entityId, action: "create", newValue: auditValue(after), ...actor }];
+  }
+  if (!after) {
+    return [{ entityType: "row", entityId, action: "delete", oldValue: auditValue(before), ...actor }];
+  }
+  return [
+    ...fieldChanges(before, after, UNTRACKED_ROW_FIELDS),
+    ...fieldChanges(before.customFields ?? {}, after.customFields ?? {}, new Set()),
+  ].map(change => ({ entityType: "row" as const, entityId, action: "update" as const, ...change, ...actor }));
+}
+
+// Restoring from the trash, or purging from it with a final snapshot of the row
+export function rowTrashAuditEntry(action: "restore" | "purge", row: TableRow, actor: Actor): InsertAuditEntry {
+  return {
+    entityType: "row",
+    entityId: row.id,
+    action,
+    ...(action === "purge" ? { oldValue: auditValue(row) } : {}),
+    ...actor,
+  };
+}
+
+export function columnAuditEntries(before: TableColumn | undefined, after: TableColumn | undefined, actor: Actor): InsertAuditEntry[] {
+  const entityId = (after ?? before)?.id;
+  if (!entityId) return [];
+  if (!before) {
+    return [{ entityType: "column", entityId, action: "create", newValue: auditValue(after), ...actor }];
+  }
+  if (!after) {
+    return [{ entityType: "column", entityId, action: "delete", oldValue: auditValue(before), ...actor }];
+  }
+  return fieldChanges(before, after, UNTRACKED_COLUMN_FIELDS)
+    .map(change => ({ entityType: "column" as const, entityId, action: "update" as const, ...change, ...actor }));
+}
+
+// One entry per record whose position moved
+export function reorderAuditEntries(
+  entityType: AuditEntityType,
+  before: { id: string; sortOrder: number }[],
+  after: { id: string; sortOrder: number }[],
+  actor: Actor,
+): InsertAuditEntry[] {
+  const previous = new Map(before.map(item => [item.id, item.sortOrder]));
+  return after
+    .filter(item => previous.has(item.id) && previous.get(item.id) !== item.sortOrder)
+    .map(item => ({
+      entityType,
+      entityId: item.id,
+      action: "reorder" as const,
+      field: "sortOrder",
+      oldValue: previous.get(item.id),
+      newValue: item.sortOrder,
+      ...actor,
+    }));
+}
+
+/**
+ * Append entries for a change that has already been written.
+ * A failure is logged rather than thrown so the caller's edit still succeeds.
+ */
+export async function recordAudit(
+  req: Request,
+  build: (actor: Actor) => InsertAuditEntry[],
+): Promise<void> {
+  try {
+    await storage.createAuditEntries(build(requestActor(req)));
+  } catch (error) {
+    console.error("Audit log error:", error);
+  }
+}
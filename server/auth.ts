@@ -0,0 +1,178 @@
+import type { Express } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { storage } from "./storage";
+import { loginSchema, registerUserSchema, type User, type PublicUser } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+/**
+ * Hash a password with a random salt using scrypt
+ * @returns String in the form "<hex hash>.<hex salt>"
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+/**
+ * Compare a supplied password against a stored scrypt hash in constant time
+ */
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+function toPublicUser(user: User): PublicUser {
+  const { passwordHash: _, ...publicUser } = user;
+  return publicUser;
+}
+
+/**
+ * Configure sessions, passport and the /api/login, /api/logout, /api/register and /api/user routes
+ */
+export function setupAuth(app: Express) {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error("SESSION_SECRET must be set to sign session cookies.");
+  }
+
+  const sessionSettings: session.SessionOptions = {
+    secret: process.env.SESSION_SECRET,
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 7 * 24 * 60 * 60 * 1000, // 1 week
+    },
+  };
+
+  app.set("trust proxy", 1);
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy({ usernameField: "email" }, async (email, password, done) => {
+      try {
+        const user = await storage.getUserByEmail(email.trim().toLowerCase());
+        if (!user || !user.passwordHash || !(await comparePasswords(password, user.passwordHash))) {
+          return done(null, false);
+        }
+        return done(null, toPublicUser(user));
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // Creating accounts is open only until the first user exists, who becomes
+  // the admin; after that only admins create them
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const existingUsers = await storage.countUsers();
+      const isBootstrap = existingUsers === 0;
+      if (!isBootstrap && !req.isAuthenticated()) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      if (!isBootstrap && !hasPermission(req.user, "users:manage")) {
+        return res.status(403).json({ message: "Your role does not allow this action" });
+      }
+
+      const { email, password, name, role, assignedRoute } = registerUserSchema.parse(req.body);
+      if (await storage.getUserByEmail(email)) {
+        return res.status(409).json({ message: "An account with this email already exists" });
+      }
+
+      const user = await storage.createUser({
+        email,
+        name: name || null,
+        passwordHash: await hashPassword(password),
+        role: isBootstrap ? "admin" : role ?? "viewer",
+        assignedRoute: assignedRoute || null,
+      });
+
+      // Bootstrap signs the first user in; later registrations keep the current session
+      if (req.isAuthenticated()) {
+        return res.status(201).json(toPublicUser(user));
+      }
+      req.login(toPublicUser(user), (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Register user error:", error);
+        res.status(500).json({ message: "Failed to create account" });
+      }
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    const validationResult = loginSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ message: "Invalid data", errors: validationResult.error.errors });
+    }
+    req.body = validationResult.data;
+
+    passport.authenticate("local", (err: unknown, user: Express.User | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid email or password" });
+      }
+      // passport regenerates the session id on login, preventing fixation
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.status(200).json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy((destroyErr) => {
+        if (destroyErr) return next(destroyErr);
+        res.clearCookie("connect.sid");
+        res.sendStatus(204);
+      });
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not signed in" });
+    }
+    res.json(req.user);
+  });
+}
@@ -0,0 +1,60 @@
+// Batch check: geocodes each row's address and lists rows whose coordinates are far from it.
+// Run with `npm run geocode:check` (add `-- --threshold=2` for a 2 km tolerance, `-- --route=<name>`
+// to check one route, `-- --provider=nominatim` to pick the geocoder). Nothing is changed; results
+// are cached, so running it again only asks the provider about new or edited addresses.
+import { geocodingProviders, type GeocodingProviderName } from "@shared/schema";
+import { storage } from "./storage";
+import { findCoordinateMismatches, resolveGeocodingProvider } from "./geocoding";
+
+// Value of a `--name=value` argument
+const option = (name: string) =>
+  process.argv.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+
+const thresholdKm = Number(option("threshold") ?? 1);
+const route = option("route");
+const provider = option("provider") as GeocodingProviderName | undefined;
+
+async function check() {
+  if (!Number.isFinite(thresholdKm) || thresholdKm <= 0) {
+    throw new Error(`--threshold must be a positive number of kilometres, got ${option("threshold")}`);
+  }
+  if (provider && !geocodingProviders.includes(provider)) {
+    throw new Error(`--provider must be one of ${geocodingProviders.join(", ")}, got ${provider}`);
+  }
+
+  const rows = (await storage.getTableRows()).filter(row => !route || row.route === route);
+  console.log(`Checking ${rows.length} row(s) with ${resolveGeocodingProvider(provider)}, flagging anything over ${thresholdKm} km...`);
+
+  const mismatches = await findCoordinateMismatches(rows, {
+    thresholdKm,
+    provider,
+    onProgress: (checked, total) => {
+      if (checked % 50 === 0 || checked === total) console.log(`  ${checked}/${total} geocoded`);
+    },
+  });
+
+  for (const { row, address, geocoded, distanceKm } of mismatches) {
+    const label = `${row.code || "-"} ${row.location} (${row.route})`;
+    if (!geocoded || distanceKm === null) {
+      console.log(`${label}: address not found: "${address}"`);
+    } else {
+      console.log(
+        `${label}: stored ${row.latitude}, ${row.longitude} is ${distanceKm.toFixed(1)} km from ` +
+        `"${geocoded.address}" at ${geocoded.latitude.toFixed(6)}, ${geocoded.longitude.toFixed(6)}`,
+      );
+    }
+  }
+
+  const notFound = mismatches.filter(mismatch => !mismatch.geocoded).length;
+  console.log(
+    `${mismatches.length - notFound} row(s) more than ${thresholdKm} km from their address; ` +
+    `${notFound} address(es) not found`,
+  );
+}
+
+check()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Geocode check failed:", error);
+    process.exit(1);
+  });
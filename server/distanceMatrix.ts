@@ -0,0 +1,255 @@
+import type { Coordinates, DistanceProviderName, InsertDistanceCacheEntry } from "@shared/schema";
+import { storage } from "./storage";
+import { computeRouteMatrix } from "./googleMaps";
+
+const AVERAGE_SPEED_KMH = 40; // Used to turn straight-line distances into durations
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000; // Road distances are re-queried after 30 days
+const MISS_TTL_MS = 24 * 60 * 60 * 1000; // Pairs without a route are retried the next day
+const GOOGLE_MAX_ELEMENTS = 625; // Routes API limit on origins × destinations per request
+const OSRM_MAX_POINTS = 100; // Keeps OSRM table URLs to a reasonable length
+const REQUEST_TIMEOUT_MS = 20_000; // A hung OSRM server counts as a failure and falls back to Haversine
+
+/**
+ * Distances and travel times between the points of one optimization run
+ */
+export interface DistanceMatrix {
+  provider: DistanceProviderName;
+  distanceKm(from: Coordinates, to: Coordinates): number;
+  durationMinutes(from: Coordinates, to: Coordinates): number;
+}
+
+interface PairResult {
+  from: Coordinates;
+  to: Coordinates;
+  distanceMeters: number;
+  durationSeconds: number;
+}
+
+/**
+ * A backend that can measure the road between pairs of points
+ * @returns One result per pair it found a route for; missing pairs fall back to Haversine
+ */
+interface DistanceProvider {
+  name: DistanceProviderName;
+  measure(origins: Coordinates[], destinations: Coordinates[]): Promise<PairResult[]>;
+}
+
+/**
+ * Calculate distance between two coordinates using Haversine formula
+ */
+export function haversineDistance(from: Coordinates, to: Coordinates): number {
+  const R = 6371; // Earth's radius in kilometers
+  const dLat = ((to.latitude - from.latitude) * Math.PI) / 180;
+  const dLon = ((to.longitude - from.longitude) * Math.PI) / 180;
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos((from.latitude * Math.PI) / 180) *
+      Math.cos((to.latitude * Math.PI) / 180) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// Straight-line distances; the default and the fallback for every other provider
+export const haversineMatrix: DistanceMatrix = {
+  provider: "haversine",
+  distanceKm: haversineDistance,
+  durationMinutes: (from, to) => (haversineDistance(from, to) / AVERAGE_SPEED_KMH) * 60,
+};
+
+// Cache key for a point, rounded to 5 decimals (about 1 m)
+function pointKey(point: Coordinates): string {
+  return `${point.latitude.toFixed(5)},${point.longitude.toFixed(5)}`;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+const googleProvider: DistanceProvider = {
+  name: "google",
+  async measure(origins, destinations) {
+    const results: PairResult[] = [];
+    const destinationBatchSize = Math.min(destinations.length, 25);
+    const originBatchSize = Math.max(1, Math.floor(GOOGLE_MAX_ELEMENTS / destinationBatchSize));
+
+    for (const originBatch of chunk(origins, originBatchSize)) {
+      for (const destinationBatch of chunk(destinations, destinationBatchSize)) {
+        const entries = await computeRouteMatrix(originBatch, destinationBatch);
+        for (const entry of entries) {
+          results.push({
+            from: originBatch[entry.originIndex],
+            to: destinationBatch[entry.destinationIndex],
+            distanceMeters: entry.distanceMeters,
+            durationSeconds: entry.durationSeconds,
+          });
+        }
+      }
+    }
+    return results;
+  },
+};
+
+interface OsrmTableResponse {
+  code: string;
+  message?: string;
+  distances?: (number | null)[][];
+  durations?: (number | null)[][];
+}
+
+// OSRM-compatible table service, e.g. a local osrm-routed serving a Malaysia extract
+const osrmProvider: DistanceProvider = {
+  name: "osrm",
+  async measure(origins, destinations) {
+    const baseUrl = process.env.OSRM_URL;
+    if (!baseUrl) {
+      throw new Error("OSRM_URL is not configured");
+    }
+
+    const results: PairResult[] = [];
+    const batchSize = Math.floor(OSRM_MAX_POINTS / 2);
+
+    for (const originBatch of chunk(origins, batchSize)) {
+      for (const destinationBatch of chunk(destinations, batchSize)) {
+        const points = [...originBatch, ...destinationBatch];
+        const coordinates = points.map(point => `${point.longitude},${point.latitude}`).join(";");
+        const sources = originBatch.map((_, i) => i).join(";");
+        const targets = destinationBatch.map((_, i) => originBatch.length + i).join(";");
+        const url = `${baseUrl.replace(/\/$/, "")}/table/v1/driving/${coordinates}` +
+          `?sources=${sources}&destinations=${targets}&annotations=distance,duration`;
+
+        const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+        const data: OsrmTableResponse = await response.json();
+        if (!response.ok || data.code !== "Ok" || !data.distances || !data.durations) {
+          throw new Error(`OSRM table error: ${data.code ?? response.status} ${data.message ?? ""}`.trim());
+        }
+
+        originBatch.forEach((from, i) => {
+          destinationBatch.forEach((to, j) => {
+            const distanceMeters = data.distances![i][j];
+            const durationSeconds = data.durations![i][j];
+            if (distanceMeters != null && durationSeconds != null) {
+              results.push({ from, to, distanceMeters, durationSeconds });
+            }
+          });
+        });
+      }
+    }
+    return results;
+  },
+};
+
+const providers: Record<Exclude<DistanceProviderName, "haversine">, DistanceProvider> = {
+  google: googleProvider,
+  osrm: osrmProvider,
+};
+
+/**
+ * Measure every ordered pair of points, serving what it can from the
+ * database cache and asking the provider only for the rest
+ */
+async function measureWithCache(provider: DistanceProvider, points: Coordinates[]): Promise<Map<string, PairResult>> {
+  const pointsByKey = new Map(points.map(point => [pointKey(point), point]));
+  const keys = Array.from(pointsByKey.keys());
+  const pairs = new Map<string, PairResult>();
+  // Pairs the provider recently found no route for; they fall back to Haversine without asking again
+  const unroutable = new Set<string>();
+
+  const cached = await storage.getCachedDistances(provider.name, keys, keys, new Date(Date.now() - CACHE_TTL_MS));
+  for (const entry of cached) {
+    const pairKey = `${entry.originKey}|${entry.destinationKey}`;
+    if (entry.distanceMeters === null || entry.durationSeconds === null) {
+      if (entry.updatedAt.getTime() >= Date.now() - MISS_TTL_MS) unroutable.add(pairKey);
+      continue;
+    }
+    pairs.set(pairKey, {
+      from: pointsByKey.get(entry.originKey)!,
+      to: pointsByKey.get(entry.destinationKey)!,
+      distanceMeters: entry.distanceMeters,
+      durationSeconds: entry.durationSeconds,
+    });
+  }
+
+  // Re-measure only points that are missing a pair
+  const known = (pairKey: string) => pairs.has(pairKey) || unroutable.has(pairKey);
+  const incomplete = keys.filter(origin =>
+    keys.some(destination => destination !== origin && !known(`${origin}|${destination}`))
+  );
+  if (incomplete.length === 0) return pairs;
+
+  const missingPoints = incomplete.map(key => pointsByKey.get(key)!);
+  const measured = await provider.measure(missingPoints, points);
+
+  const entries: InsertDistanceCacheEntry[] = [];
+  for (const result of measured) {
+    const originKey = pointKey(result.from);
+    const destinationKey = pointKey(result.to);
+    if (originKey === destinationKey) continue;
+    pairs.set(`${originKey}|${destinationKey}`, result);
+    entries.push({
+      provider: provider.name,
+      originKey,
+      destinationKey,
+      distanceMeters: Math.round(result.distanceMeters),
+      durationSeconds: Math.round(result.durationSeconds),
+    });
+  }
+  for (const originKey of incomplete) {
+    for (const destinationKey of keys) {
+      if (originKey === destinationKey || pairs.has(`${originKey}|${destinationKey}`)) continue;
+      entries.push({ provider: provider.name, originKey, destinationKey, distanceMeters: null, durationSeconds: null });
+    }
+  }
+  await storage.saveCachedDistances(entries);
+
+  return pairs;
+}
+
+/**
+ * Resolve the provider to use: the requested one, else DISTANCE_PROVIDER, else Haversine
+ */
+export function resolveDistanceProvider(requested?: DistanceProviderName): DistanceProviderName {
+  const configured = process.env.DISTANCE_PROVIDER;
+  if (requested) return requested;
+  if (configured === "google" || configured === "osrm") return configured;
+  return "haversine";
+}
+
+/**
+ * Build the distance matrix the optimizer uses for a set of points.
+ * Falls back to Haversine when the provider fails, and per pair when it has no route.
+ */
+export async function buildDistanceMatrix(
+  points: Coordinates[],
+  requested?: DistanceProviderName
+): Promise<DistanceMatrix> {
+  const name = resolveDistanceProvider(requested);
+  if (name === "haversine") return haversineMatrix;
+
+  let pairs: Map<string, PairResult>;
+  try {
+    pairs = await measureWithCache(providers[name], points);
+  } catch (error) {
+    console.warn(`Distance provider "${name}" failed, using straight-line distances:`, error);
+    return haversineMatrix;
+  }
+
+  const lookup = (from: Coordinates, to: Coordinates) => pairs.get(`${pointKey(from)}|${pointKey(to)}`);
+  return {
+    provider: name,
+    distanceKm: (from, to) => {
+      const pair = lookup(from, to);
+      return pair ? pair.distanceMeters / 1000 : haversineMatrix.distanceKm(from, to);
+    },
+    durationMinutes: (from, to) => {
+      const pair = lookup(from, to);
+      return pair ? pair.durationSeconds / 60 : haversineMatrix.durationMinutes(from, to);
+    },
+  };
+}
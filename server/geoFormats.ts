@@ -0,0 +1,135 @@
+import type { TableRow, VehicleRoute } from "@shared/schema";
+
+interface GeoPoint {
+  row: TableRow;
+  latitude: number;
+  longitude: number;
+}
+
+interface GpxRoute {
+  name: string;
+  rowIds: string[];
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&'"]/g, char => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", "'": "&apos;", '"': "&quot;" }[char]!));
+
+// Rows without usable coordinates cannot be placed on a map and are left out
+function toPoint(row: TableRow): GeoPoint | null {
+  const latitude = parseFloat(row.latitude || "");
+  const longitude = parseFloat(row.longitude || "");
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  return { row, latitude, longitude };
+}
+
+function toPoints(rows: TableRow[]): GeoPoint[] {
+  return rows.map(toPoint).filter((point): point is GeoPoint => point !== null);
+}
+
+const pointName = (row: TableRow) => [row.code, row.location].filter(Boolean).join(" · ") || row.id;
+
+/**
+ * GeoJSON FeatureCollection of the rows as points, in the order given
+ */
+export function rowsToGeoJson(rows: TableRow[]): string {
+  return JSON.stringify({
+    type: "FeatureCollection",
+    features: toPoints(rows).map(({ row, latitude, longitude }) => ({
+      type: "Feature",
+      id: row.id,
+      geometry: { type: "Point", coordinates: [longitude, latitude] },
+      properties: {
+        code: row.code,
+        location: row.location,
+        route: row.route,
+        delivery: row.delivery,
+      },
+    })),
+  }, null, 2);
+}
+
+/**
+ * KML document with one placemark per row, grouped into a folder per route
+ */
+export function rowsToKml(rows: TableRow[], name: string): string {
+  const folders = new Map<string, GeoPoint[]>();
+  for (const point of toPoints(rows)) {
+    const route = point.row.route || "No route";
+    folders.set(route, [...(folders.get(route) ?? []), point]);
+  }
+
+  const placemark = ({ row, latitude, longitude }: GeoPoint) => [
+    "      <Placemark>",
+    `        <name>${escapeXml(pointName(row))}</name>`,
+    "        <ExtendedData>",
+    ...(["code", "location", "route", "delivery"] as const).map(key =>
+      `          <Data name="${key}"><value>${escapeXml(row[key])}</value></Data>`
+    ),
+    "        </ExtendedData>",
+    `        <Point><coordinates>${longitude},${latitude}</coordinates></Point>`,
+    "      </Placemark>",
+  ].join("\n");
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "  <Document>",
+    `    <name>${escapeXml(name)}</name>`,
+    ...Array.from(folders, ([route, points]) => [
+      "    <Folder>",
+      `      <name>${escapeXml(route)}</name>`,
+      ...points.map(placemark),
+      "    </Folder>",
+    ].join("\n")),
+    "  </Document>",
+    "</kml>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * GPX with one ordered <rte> per route: a single one for a plain optimization,
+ * or one per vehicle when the stops were split across vehicles
+ */
+export function optimizationToGpx(
+  optimization: { optimizedOrder: string[]; vehicleRoutes?: VehicleRoute[] | null; createdAt: Date },
+  rows: TableRow[],
+): string {
+  const rowsById = new Map(rows.map(row => [row.id, row]));
+  const routes: GpxRoute[] = optimization.vehicleRoutes?.length
+    ? optimization.vehicleRoutes.map(route => ({ name: route.vehicle, rowIds: route.stops }))
+    : [{ name: "Optimized route", rowIds: optimization.optimizedOrder }];
+
+  const routePoint = (name: string, latitude: number, longitude: number, description?: string) => [
+    `    <rtept lat="${latitude}" lon="${longitude}">`,
+    `      <name>${escapeXml(name)}</name>`,
+    ...(description ? [`      <desc>${escapeXml(description)}</desc>`] : []),
+    "    </rtept>",
+  ].join("\n");
+
+  const rte = (route: GpxRoute) => {
+    const points = toPoints(
+      route.rowIds.map(id => rowsById.get(id)).filter((row): row is TableRow => row !== undefined)
+    );
+    // Stops are numbered like the table, from 1
+    return [
+      "  <rte>",
+      `    <name>${escapeXml(route.name)}</name>`,
+      ...points.map(({ row, latitude, longitude }, index) =>
+        routePoint(`${index + 1}. ${pointName(row)}`, latitude, longitude, row.route)
+      ),
+      "  </rte>",
+    ].join("\n");
+  };
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Route Optimizer" xmlns="http://www.topografix.com/GPX/1/1">',
+    "  <metadata>",
+    `    <time>${optimization.createdAt.toISOString()}</time>`,
+    "  </metadata>",
+    ...routes.map(rte),
+    "</gpx>",
+    "",
+  ].join("\n");
+}
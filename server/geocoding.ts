@@ -0,0 +1,231 @@
+import type { Coordinates, GeocodeResult, GeocodingProviderName, TableRow } from "@shared/schema";
+import { storage } from "./storage";
+import { haversineDistance } from "./distanceMatrix";
+
+const CACHE_TTL_MS = 90 * 24 * 60 * 60 * 1000; // Addresses rarely move; re-queried after 90 days
+const MISS_TTL_MS = 24 * 60 * 60 * 1000; // Addresses not found are retried the next day
+const PUBLIC_NOMINATIM_URL = "https://nominatim.openstreetmap.org";
+const PUBLIC_NOMINATIM_INTERVAL_MS = 1100; // The public server's usage policy allows one request per second
+const REQUEST_TIMEOUT_MS = 15_000; // A provider that does not answer fails the lookup instead of holding it open
+const USER_AGENT = "RouteTable-Geocoder/1.0"; // Nominatim rejects requests without an identifying User-Agent
+
+interface Place {
+  latitude: number;
+  longitude: number;
+  address: string;
+}
+
+/**
+ * A backend that turns addresses into coordinates and back
+ * @returns null when it found nothing; throws when the backend itself fails
+ */
+interface GeocodingProvider {
+  name: GeocodingProviderName;
+  geocode(address: string): Promise<Place | null>;
+  reverse(point: Coordinates): Promise<Place | null>;
+}
+
+interface GoogleGeocodeResponse {
+  status: string;
+  error_message?: string;
+  results: {
+    formatted_address: string;
+    geometry: { location: { lat: number; lng: number } };
+  }[];
+}
+
+async function googleRequest(params: Record<string, string>): Promise<Place | null> {
+  const apiKey = process.env.GOOGLE_API_KEY;
+  if (!apiKey) {
+    throw new Error("GOOGLE_API_KEY is not configured");
+  }
+
+  const url = new URL("https://maps.googleapis.com/maps/api/geocode/json");
+  for (const [name, value] of Object.entries({ ...params, key: apiKey })) {
+    url.searchParams.set(name, value);
+  }
+  const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  const data: GoogleGeocodeResponse = await response.json();
+  if (data.status === "ZERO_RESULTS") return null;
+  if (!response.ok || data.status !== "OK") {
+    throw new Error(`Google geocoding error: ${data.status ?? response.status} ${data.error_message ?? ""}`.trim());
+  }
+
+  const [first] = data.results;
+  return {
+    latitude: first.geometry.location.lat,
+    longitude: first.geometry.location.lng,
+    address: first.formatted_address,
+  };
+}
+
+const googleGeocoder: GeocodingProvider = {
+  name: "google",
+  geocode: (address) => googleRequest({
+    address,
+    // Biases ambiguous names towards one country, e.g. GEOCODING_REGION=my
+    ...(process.env.GEOCODING_REGION && { region: process.env.GEOCODING_REGION }),
+  }),
+  reverse: (point) => googleRequest({ latlng: `${point.latitude},${point.longitude}` }),
+};
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name: string;
+}
+
+// Requests to the public server are spaced out; a self-hosted instance (NOMINATIM_URL) is not throttled
+let nominatimSlot = Promise.resolve();
+function waitForNominatimSlot(): Promise<void> {
+  if (process.env.NOMINATIM_URL) return Promise.resolve();
+  const ready = nominatimSlot;
+  nominatimSlot = ready.then(() => new Promise(resolve => setTimeout(resolve, PUBLIC_NOMINATIM_INTERVAL_MS)));
+  return ready;
+}
+
+async function nominatimRequest(path: "search" | "reverse", params: Record<string, string>): Promise<NominatimPlace | null> {
+  await waitForNominatimSlot();
+  const url = new URL(`${(process.env.NOMINATIM_URL || PUBLIC_NOMINATIM_URL).replace(/\/$/, "")}/${path}`);
+  for (const [name, value] of Object.entries({ ...params, format: "jsonv2" })) {
+    url.searchParams.set(name, value);
+  }
+
+  const response = await fetch(url, {
+    headers: { "User-Agent": USER_AGENT },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Nominatim error: ${response.status} ${await response.text()}`.trim());
+  }
+  // Search answers with a list; reverse with one place, or { error } when there is none
+  const data: NominatimPlace[] | NominatimPlace | { error: string } = await response.json();
+  if (Array.isArray(data)) return data[0] ?? null;
+  return "error" in data ? null : data;
+}
+
+const toPlace = (place: NominatimPlace | null): Place | null => place && {
+  latitude: Number(place.lat),
+  longitude: Number(place.lon),
+  address: place.display_name,
+};
+
+// Nominatim-compatible search and reverse endpoints: the public OpenStreetMap server or a local instance
+const nominatimGeocoder: GeocodingProvider = {
+  name: "nominatim",
+  geocode: async (address) => toPlace(await nominatimRequest("search", {
+    q: address,
+    limit: "1",
+    ...(process.env.GEOCODING_REGION && { countrycodes: process.env.GEOCODING_REGION }),
+  })),
+  reverse: async (point) => toPlace(await nominatimRequest("reverse", {
+    lat: String(point.latitude),
+    lon: String(point.longitude),
+  })),
+};
+
+const providers: Record<GeocodingProviderName, GeocodingProvider> = {
+  google: googleGeocoder,
+  nominatim: nominatimGeocoder,
+};
+
+/**
+ * Resolve the provider to use: the requested one, else GEOCODING_PROVIDER,
+ * else Google when GOOGLE_API_KEY is set, else Nominatim
+ */
+export function resolveGeocodingProvider(requested?: GeocodingProviderName): GeocodingProviderName {
+  const configured = process.env.GEOCODING_PROVIDER;
+  if (requested) return requested;
+  if (configured === "google" || configured === "nominatim") return configured;
+  return process.env.GOOGLE_API_KEY ? "google" : "nominatim";
+}
+
+// Serves a lookup from the database cache, asking the provider only on a miss
+async function withCache(provider: GeocodingProvider, query: string, lookup: () => Promise<Place | null>): Promise<GeocodeResult | null> {
+  const cached = await storage.getCachedGeocode(provider.name, query, new Date(Date.now() - CACHE_TTL_MS));
+  const found = cached && cached.latitude !== null && cached.longitude !== null;
+  if (cached && (found || cached.updatedAt.getTime() >= Date.now() - MISS_TTL_MS)) {
+    return found
+      ? { latitude: Number(cached.latitude), longitude: Number(cached.longitude), address: cached.address ?? "", provider: provider.name }
+      : null;
+  }
+
+  const place = await lookup();
+  await storage.saveCachedGeocode({
+    provider: provider.name,
+    query,
+    latitude: place ? place.latitude.toFixed(8) : null,
+    longitude: place ? place.longitude.toFixed(8) : null,
+    address: place?.address ?? null,
+  });
+  return place && { ...place, provider: provider.name };
+}
+
+/**
+ * Coordinates for an address; null when the provider cannot find it
+ */
+export async function geocodeAddress(address: string, requested?: GeocodingProviderName): Promise<GeocodeResult | null> {
+  const provider = providers[resolveGeocodingProvider(requested)];
+  const query = `address:${address.trim().toLowerCase().replace(/\s+/g, " ")}`;
+  return withCache(provider, query, () => provider.geocode(address.trim()));
+}
+
+/**
+ * The address at a point; null when the provider has none there
+ */
+export async function reverseGeocode(point: Coordinates, requested?: GeocodingProviderName): Promise<GeocodeResult | null> {
+  const provider = providers[resolveGeocodingProvider(requested)];
+  const query = `reverse:${point.latitude.toFixed(5)},${point.longitude.toFixed(5)}`;
+  return withCache(provider, query, () => provider.reverse(point));
+}
+
+/**
+ * The text to geocode for a row: the full address from its info, else its location name
+ */
+export function rowAddress(row: Pick<TableRow, "info" | "location">): string {
+  const address = (row.info ?? "").split("|||DESCRIPTION|||")[0].trim();
+  return address || row.location.trim();
+}
+
+export interface CoordinateMismatch {
+  row: TableRow;
+  address: string;
+  geocoded: GeocodeResult | null; // null when the address could not be found
+  distanceKm: number | null;
+}
+
+/**
+ * Geocodes the address of every row that has coordinates and returns the rows whose
+ * coordinates are more than `thresholdKm` from it, or whose address cannot be found.
+ * Rows without coordinates (empty or 0,0) or without an address are skipped.
+ */
+export async function findCoordinateMismatches(
+  rows: TableRow[],
+  { thresholdKm, provider, onProgress = () => {} }: {
+    thresholdKm: number;
+    provider?: GeocodingProviderName;
+    onProgress?: (checked: number, total: number) => void;
+  },
+): Promise<CoordinateMismatch[]> {
+  const candidates = rows.filter(row => {
+    const latitude = parseFloat(row.latitude ?? "");
+    const longitude = parseFloat(row.longitude ?? "");
+    return !isNaN(latitude) && !isNaN(longitude) && !(latitude === 0 && longitude === 0) && rowAddress(row) !== "";
+  });
+
+  const mismatches: CoordinateMismatch[] = [];
+  for (let checked = 0; checked < candidates.length; checked++) {
+    const row = candidates[checked];
+    const address = rowAddress(row);
+    const geocoded = await geocodeAddress(address, provider);
+    const distanceKm = geocoded && haversineDistance(
+      { latitude: parseFloat(row.latitude!), longitude: parseFloat(row.longitude!) },
+      geocoded,
+    );
+    if (distanceKm === null || distanceKm > thresholdKm) {
+      mismatches.push({ row, address, geocoded, distanceKm });
+    }
+    onProgress(checked + 1, candidates.length);
+  }
+  return mismatches;
+}
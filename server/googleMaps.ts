@@ -1,10 +1,7 @@
-import type { TableRow } from "@shared/schema";
+import type { TableRow, Coordinates } from "@shared/schema";
 
 const GOOGLE_MAPS_API_KEY = process.env.GOOGLE_API_KEY;
-const QL_KITCHEN_LOCATION = {
-  latitude: 3.0738,
-  longitude: 101.5183,
-};
+const REQUEST_TIMEOUT_MS = 20_000; // Routes API calls that hang are aborted and treated as failures
 
 interface MoneyObject {
   currencyCode: string;
@@ -28,24 +25,26 @@ interface RouteResponse {
 
 interface RouteCalculationResult {
   distanceKm: number;
+  durationMinutes: number;
   tollPrice: number;
 }
 
 /**
- * Calculate route distance and toll price from QL Kitchen to a destination using Google Maps Routes API
+ * Calculate route distance and toll price from a depot to a destination using Google Maps Routes API
  * Optimized for lorry vehicle with shortest road routes
  * @param destination The destination row with latitude and longitude
- * @returns Object containing distance in kilometers and toll price in MYR
+ * @param origin Coordinates of the depot the route starts from
+ * @returns Object containing distance in kilometers, drive time in minutes and toll price in MYR
  */
-export async function calculateRouteForLorry(destination: TableRow): Promise<RouteCalculationResult> {
+export async function calculateRouteForLorry(destination: TableRow, origin: Coordinates): Promise<RouteCalculationResult> {
   if (!GOOGLE_MAPS_API_KEY) {
     console.warn("Google Maps API key not configured");
-    return { distanceKm: 0, tollPrice: 0 };
+    return { distanceKm: 0, durationMinutes: 0, tollPrice: 0 };
   }
 
   if (!destination.latitude || !destination.longitude) {
     console.warn(`No coordinates for destination: ${destination.location}`);
-    return { distanceKm: 0, tollPrice: 0 };
+    return { distanceKm: 0, durationMinutes: 0, tollPrice: 0 };
   }
 
   try {
@@ -55,8 +54,8 @@ export async function calculateRouteForLorry(destination: TableRow): Promise<Rou
       origin: {
         location: {
           latLng: {
-            latitude: QL_KITCHEN_LOCATION.latitude,
-            longitude: QL_KITCHEN_LOCATION.longitude,
+            latitude: origin.latitude,
+            longitude: origin.longitude,
           },
         },
       },
@@ -91,25 +90,29 @@ export async function calculateRouteForLorry(destination: TableRow): Promise<Rou
         "X-Goog-FieldMask": "routes.distanceMeters,routes.duration,routes.travelAdvisory.tollInfo",
       },
       body: JSON.stringify(requestBody),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
     });
 
     if (!response.ok) {
       const errorText = await response.text();
       console.error(`Google Maps API error: ${response.status} - ${errorText}`);
-      return { distanceKm: 0, tollPrice: 0 };
+      return { distanceKm: 0, durationMinutes: 0, tollPrice: 0 };
     }
 
     const data: RouteResponse = await response.json();
     
     if (!data.routes || data.routes.length === 0) {
       console.warn(`No route found for destination: ${destination.location}`);
-      return { distanceKm: 0, tollPrice: 0 };
+      return { distanceKm: 0, durationMinutes: 0, tollPrice: 0 };
     }
 
     const route = data.routes[0];
     
     // Extract distance in kilometers
     const distanceKm = route.distanceMeters ? Math.round((route.distanceMeters / 1000) * 10) / 10 : 0;
+
+    // Duration comes back as seconds, e.g. "1234s"
+    const durationMinutes = route.duration ? Math.round(parseFloat(route.duration) / 60) : 0;
     
     // Extract toll information
     const tollInfo = route.travelAdvisory?.tollInfo;
@@ -138,10 +141,10 @@ export async function calculateRouteForLorry(destination: TableRow): Promise<Rou
       }
     }
     
-    return { distanceKm, tollPrice };
+    return { distanceKm, durationMinutes, tollPrice };
   } catch (error) {
     console.error(`Error calculating route for ${destination.location}:`, error);
-    return { distanceKm: 0, tollPrice: 0 };
+    return { distanceKm: 0, durationMinutes: 0, tollPrice: 0 };
   }
 }
 
@@ -149,8 +152,8 @@ export async function calculateRouteForLorry(destination: TableRow): Promise<Rou
  * Legacy function for backward compatibility
  * @deprecated Use calculateRouteForLorry instead
  */
-export async function calculateTollPrice(destination: TableRow): Promise<number> {
-  const result = await calculateRouteForLorry(destination);
+export async function calculateTollPrice(destination: TableRow, origin: Coordinates): Promise<number> {
+  const result = await calculateRouteForLorry(destination, origin);
   return result.tollPrice;
 }
 
@@ -158,12 +161,15 @@ export async function calculateTollPrice(destination: TableRow): Promise<number>
  * Calculate routes (distance and toll prices) for multiple destinations in batch
  * Uses lorry-optimized routing with shortest road preference
  * @param destinations Array of destination rows
- * @returns Object with distances and toll prices for each destination
+ * @param getOrigin Depot coordinates each destination's route starts from
+ * @returns Object with distances, drive times and toll prices for each destination
  */
 export async function calculateRoutesForDestinations(
-  destinations: TableRow[]
-): Promise<{ distances: Record<string, number>; tollPrices: Record<string, number> }> {
+  destinations: TableRow[],
+  getOrigin: (destination: TableRow) => Coordinates
+): Promise<{ distances: Record<string, number>; durations: Record<string, number>; tollPrices: Record<string, number> }> {
   const distances: Record<string, number> = {};
+  const durations: Record<string, number> = {};
   const tollPrices: Record<string, number> = {};
 
   // Process destinations in parallel with rate limiting
@@ -172,13 +178,14 @@ export async function calculateRoutesForDestinations(
   for (let i = 0; i < destinations.length; i += batchSize) {
     const batch = destinations.slice(i, i + batchSize);
     const promises = batch.map(async (dest) => {
-      const result = await calculateRouteForLorry(dest);
-      return { id: dest.id, distanceKm: result.distanceKm, toll: result.tollPrice };
+      const result = await calculateRouteForLorry(dest, getOrigin(dest));
+      return { id: dest.id, distanceKm: result.distanceKm, durationMinutes: result.durationMinutes, toll: result.tollPrice };
     });
 
     const results = await Promise.all(promises);
-    results.forEach(({ id, distanceKm, toll }) => {
+    results.forEach(({ id, distanceKm, durationMinutes, toll }) => {
       distances[id] = distanceKm;
+      durations[id] = durationMinutes;
       tollPrices[id] = toll;
     });
 
@@ -188,7 +195,7 @@ export async function calculateRoutesForDestinations(
     }
   }
 
-  return { distances, tollPrices };
+  return { distances, durations, tollPrices };
 }
 
 /**
@@ -196,8 +203,72 @@ export async function calculateRoutesForDestinations(
  * @deprecated Use calculateRoutesForDestinations instead
  */
 export async function calculateTollPricesForDestinations(
-  destinations: TableRow[]
+  destinations: TableRow[],
+  getOrigin: (destination: TableRow) => Coordinates
 ): Promise<Record<string, number>> {
-  const result = await calculateRoutesForDestinations(destinations);
+  const result = await calculateRoutesForDestinations(destinations, getOrigin);
   return result.tollPrices;
 }
+
+interface RouteMatrixElement {
+  originIndex?: number;
+  destinationIndex?: number;
+  distanceMeters?: number;
+  duration?: string;
+  condition?: string;
+}
+
+export interface RouteMatrixEntry {
+  originIndex: number;
+  destinationIndex: number;
+  distanceMeters: number;
+  durationSeconds: number;
+}
+
+/**
+ * Road distances and durations between every origin and destination using the Routes API matrix endpoint
+ * Callers keep origins × destinations at or below 625 elements per request
+ * @returns One entry per pair that has a route; unroutable pairs are left out
+ * @throws When the API key is missing or the request fails, so callers can fall back
+ */
+export async function computeRouteMatrix(origins: Coordinates[], destinations: Coordinates[]): Promise<RouteMatrixEntry[]> {
+  if (!GOOGLE_MAPS_API_KEY) {
+    throw new Error("Google Maps API key not configured");
+  }
+
+  const toWaypoint = (point: Coordinates) => ({
+    waypoint: { location: { latLng: { latitude: point.latitude, longitude: point.longitude } } },
+  });
+
+  const response = await fetch("https://routes.googleapis.com/distanceMatrix/v2:computeRouteMatrix", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Goog-Api-Key": GOOGLE_MAPS_API_KEY,
+      "X-Goog-FieldMask": "originIndex,destinationIndex,distanceMeters,duration,condition",
+    },
+    body: JSON.stringify({
+      origins: origins.map(toWaypoint),
+      destinations: destinations.map(toWaypoint),
+      travelMode: "DRIVE",
+      routingPreference: "TRAFFIC_UNAWARE", // Stable values that are safe to cache
+      units: "METRIC",
+    }),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Google Routes matrix error: ${response.status} - ${errorText}`);
+  }
+
+  const elements: RouteMatrixElement[] = await response.json();
+  return elements
+    .filter(element => element.condition === "ROUTE_EXISTS" && element.distanceMeters !== undefined)
+    .map(element => ({
+      originIndex: element.originIndex ?? 0,
+      destinationIndex: element.destinationIndex ?? 0,
+      distanceMeters: element.distanceMeters!,
+      durationSeconds: parseFloat(element.duration || "0"), // e.g. "1234s"
+    }));
+}
@@ -3,8 +3,9 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
-app.use(express.json({ limit: '50mb' }));
-app.use(express.urlencoded({ extended: false, limit: '50mb' }));
+// Photos and videos go through POST /api/media; JSON bodies only carry the odd inline check-in photo
+app.use(express.json({ limit: '15mb' }));
+app.use(express.urlencoded({ extended: false, limit: '15mb' }));
 
 // Health check endpoint for deployment verification - responds immediately without database
 app.get('/health', (_req: Request, res: Response) => {
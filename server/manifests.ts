@@ -0,0 +1,130 @@
+import PDFDocument from "pdfkit";
+import type { DeliverySchedule, Manifest, ManifestStop, PublicHoliday, TableRow } from "@shared/schema";
+import { rowsDueOn } from "@shared/deliverySchedule";
+import { isActiveRow } from "@shared/tableView";
+
+interface ManifestPlan {
+  date: string;
+  route: string;
+  schedules: DeliverySchedule[];
+  holidays: PublicHoliday[];
+  optimizedOrder?: string[]; // Row ids in optimized order; stops it does not cover follow in table order
+}
+
+function toManifestStop(row: TableRow, sequence: number): ManifestStop {
+  return {
+    rowId: row.id,
+    sequence,
+    code: row.code,
+    location: row.location,
+    delivery: row.delivery,
+    info: row.info,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    windowStart: row.windowStart,
+    windowEnd: row.windowEnd,
+    serviceMinutes: row.serviceMinutes,
+    demand: row.demand,
+    qrCode: row.qrCode,
+  };
+}
+
+/**
+ * Active stops of the route that are due on the date, in table order
+ * or in the order of a saved optimization, numbered from 1
+ */
+export function planManifestStops(rows: TableRow[], plan: ManifestPlan): ManifestStop[] {
+  const routeRows = rows
+    .filter(row => row.route === plan.route && isActiveRow(row))
+    .sort((a, b) => a.sortOrder - b.sortOrder);
+  const due = rowsDueOn(routeRows, plan.date, plan.schedules, plan.holidays);
+
+  if (plan.optimizedOrder) {
+    const position = new Map(plan.optimizedOrder.map((id, index) => [id, index]));
+    // Array.prototype.sort is stable, so rows the optimization skipped keep their table order
+    due.sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity));
+  }
+  return due.map((row, index) => toManifestStop(row, index + 1));
+}
+
+const formatWindow = (stop: ManifestStop) =>
+  stop.windowStart || stop.windowEnd ? `${stop.windowStart ?? "—"}–${stop.windowEnd ?? "—"}` : "Any time";
+
+/**
+ * Printable manifest: one line per stop with a box for the driver to tick and sign
+ */
+export async function manifestToPdf(manifest: Manifest): Promise<Buffer> {
+  const doc = new PDFDocument({ size: "A4", margin: 36 });
+  const chunks: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<void>(resolve => doc.on("end", () => resolve()));
+
+  const left = doc.page.margins.left;
+  const right = doc.page.width - doc.page.margins.right;
+  const bottom = doc.page.height - doc.page.margins.bottom;
+  const table = [
+    { label: "Stop", width: 36 },
+    { label: "Code", width: 60 },
+    { label: "Location", width: 200 },
+    { label: "Window", width: 70 },
+    { label: "Notes", width: 90 },
+    { label: "Done / Sign", width: 67 },
+  ];
+
+  const drawHeaderRow = () => {
+    const top = doc.y;
+    let x = left;
+    doc.font("Helvetica-Bold").fontSize(9);
+    for (const cell of table) {
+      doc.text(cell.label, x, top, { width: cell.width, lineBreak: false });
+      x += cell.width;
+    }
+    doc.x = left;
+    doc.moveDown(0.6);
+    doc.moveTo(left, doc.y).lineTo(right, doc.y).strokeColor("#999999").stroke();
+    doc.moveDown(0.4);
+    doc.font("Helvetica").fontSize(9);
+  };
+
+  const date = new Date(`${manifest.date}T00:00:00Z`).toLocaleDateString("en-MY", { dateStyle: "full", timeZone: "UTC" });
+  doc.font("Helvetica-Bold").fontSize(16).text(`Manifest · ${manifest.route}`);
+  doc.font("Helvetica").fontSize(9).fillColor("#555555")
+    .text(`${date} · ${manifest.stops.length} stops · from ${manifest.depotName || "depot"} · ${manifest.orderSource === "optimization" ? "optimized order" : "table order"}`)
+    .text(`Manifest ${manifest.id.slice(0, 8).toUpperCase()} · ${manifest.status}`);
+  doc.fillColor("#000000").moveDown();
+  drawHeaderRow();
+
+  for (const stop of manifest.stops) {
+    const values = [String(stop.sequence), stop.code || "—", stop.location || "—", formatWindow(stop), stop.info || ""];
+    const rowHeight = Math.max(
+      ...values.map((value, index) => doc.heightOfString(value, { width: table[index].width - 6 })),
+      14,
+    ) + 8;
+    if (doc.y + rowHeight > bottom) {
+      doc.addPage();
+      drawHeaderRow();
+    }
+
+    const top = doc.y;
+    let x = left;
+    values.forEach((value, index) => {
+      doc.text(value, x, top, { width: table[index].width - 6 });
+      x += table[index].width;
+    });
+    doc.rect(x, top, 10, 10).strokeColor("#555555").stroke();
+
+    doc.y = top + rowHeight;
+    doc.moveTo(left, doc.y - 4).lineTo(right, doc.y - 4).strokeColor("#dddddd").stroke();
+  }
+
+  if (doc.y + 60 > bottom) doc.addPage();
+  doc.moveDown(2);
+  doc.font("Helvetica").fontSize(10)
+    .text("Driver: ______________________________", left)
+    .moveDown()
+    .text("Dispatcher: __________________________", left);
+
+  doc.end();
+  await finished;
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,396 @@
+import { createHash } from "crypto";
+import path from "path";
+import { Readable } from "stream";
+import sharp from "sharp";
+import exifr from "exifr";
+import { MAX_MEDIA_BYTES, MEDIA_URL_PREFIX, mediaVariantWidths, type MediaFile, type MediaUpload, type MediaVariant, type MediaVariantSize, type MediaWithCaption, type UploadedMedia } from "@shared/schema";
+import type { Actor } from "./audit";
+import { storage } from "./storage";
+import { mediaStore, type ByteRange } from "./mediaStore";
+
+// What can be uploaded; everything else is rejected before it reaches the store
+export const isAllowedMediaType = (mimeType: string) => /^(image|video)\/[\w.+-]+$/.test(mimeType);
+
+export const mediaUrl = (file: Pick<MediaFile, "id">) => `${MEDIA_URL_PREFIX}${file.id}`;
+
+// What the upload routes return for a stored file
+export const toUploadedMedia = (file: MediaFile, originalName: string): UploadedMedia => ({
+  id: file.id,
+  url: mediaUrl(file),
+  type: file.mimeType.startsWith("video/") ? "video" : "image",
+  mimeType: file.mimeType,
+  sizeBytes: file.sizeBytes,
+  originalName,
+  width: file.width,
+  height: file.height,
+  variants: file.variants,
+  gps: storedGps(file) ?? null,
+});
+
+// A photo's EXIF position as numbers, if it had one
+function storedGps(file: MediaFile): { latitude: number; longitude: number } | undefined {
+  if (file.gpsLatitude === null || file.gpsLongitude === null) return undefined;
+  return { latitude: Number(file.gpsLatitude), longitude: Number(file.gpsLongitude) };
+}
+
+// Extension for the stored object, from the upload's file name or its MIME type
+function extensionFor(originalName: string, mimeType: string): string {
+  const fromName = path.extname(originalName).toLowerCase();
+  if (/^\.[a-z0-9]{1,5}$/.test(fromName)) return fromName;
+  const subtype = mimeType.split("/")[1]?.replace("jpeg", "jpg").replace(/[^a-z0-9]/g, "");
+  return subtype ? `.${subtype.slice(0, 5)}` : "";
+}
+
+// Formats sharp decodes with its prebuilt binaries; other images are served as uploaded
+const RESIZABLE_TYPES = new Set(["image/jpeg", "image/png", "image/webp", "image/gif", "image/avif", "image/tiff"]);
+
+const needsDescription = (file: MediaFile) => RESIZABLE_TYPES.has(file.mimeType) && file.width === null;
+
+// Content-addressed keys, fanned out over 256 directories
+const contentKey = (sha256: string, originalName: string, mimeType: string) =>
+  `${sha256.slice(0, 2)}/${sha256}${extensionFor(originalName, mimeType)}`;
+
+// A repeat upload hands out the existing file again, so it and its variants restart the sweep's grace period
+async function reuseFile(file: MediaFile): Promise<MediaFile> {
+  await storage.touchMediaFiles([file.id, ...file.variants.map(variant => variant.url.slice(MEDIA_URL_PREFIX.length))]);
+  return file;
+}
+
+const recordFile = (storageKey: string, sha256: string, sizeBytes: number, mimeType: string, originalName: string, actor: Actor) =>
+  storage.createMediaFile({
+    storageKey,
+    mimeType,
+    sizeBytes,
+    originalName: originalName.slice(0, 255),
+    sha256,
+    ...actor,
+  });
+
+// Writes bytes under a content-addressed key, or returns the record of identical bytes
+async function storeFile(data: Buffer, mimeType: string, originalName: string, actor: Actor): Promise<MediaFile> {
+  const sha256 = createHash("sha256").update(data).digest("hex");
+  const existing = await storage.getMediaFileBySha256(sha256);
+  if (existing) return reuseFile(existing);
+
+  const storageKey = contentKey(sha256, originalName, mimeType);
+  await mediaStore.put(storageKey, data, mimeType);
+  return recordFile(storageKey, sha256, data.length, mimeType, originalName, actor);
+}
+
+// The EXIF GPS position of a photo; missing, out-of-range and 0,0 (an unset fix) positions are ignored
+async function readGps(data: Buffer): Promise<{ latitude: number; longitude: number } | undefined> {
+  const gps = await exifr.gps(data).catch(() => undefined);
+  if (!gps || !Number.isFinite(gps.latitude) || !Number.isFinite(gps.longitude)) return undefined;
+  if (Math.abs(gps.latitude) > 90 || Math.abs(gps.longitude) > 180) return undefined;
+  if (gps.latitude === 0 && gps.longitude === 0) return undefined;
+  return { latitude: gps.latitude, longitude: gps.longitude };
+}
+
+/**
+ * Records an image's upright size and GPS position and stores WebP thumbnail and medium copies of it.
+ * The copies are rotated by the EXIF orientation and carry no metadata; the original is kept as uploaded.
+ * Images that fail to decode are left without variants rather than failing the upload.
+ */
+async function describeImage(file: MediaFile, data: Buffer, actor: Actor): Promise<MediaFile> {
+  try {
+    const { autoOrient } = await sharp(data, { failOn: "none" }).metadata();
+    const variants: MediaVariant[] = [];
+    for (const [size, targetWidth] of Object.entries(mediaVariantWidths) as [MediaVariantSize, number][]) {
+      // Smaller images are already small enough to serve as they are
+      if (autoOrient.width <= targetWidth) continue;
+      const { data: resized, info } = await sharp(data, { failOn: "none" })
+        .autoOrient()
+        .resize({ width: targetWidth })
+        .webp({ quality: 80 })
+        .toBuffer({ resolveWithObject: true });
+      const stored = await storeFile(resized, "image/webp", `${size}.webp`, actor);
+      variants.push({ size, url: mediaUrl(stored), width: info.width, height: info.height });
+    }
+    const gps = await readGps(data);
+    return (await storage.updateMediaFile(file.id, {
+      width: autoOrient.width,
+      height: autoOrient.height,
+      variants,
+      gpsLatitude: gps ? gps.latitude.toFixed(8) : null,
+      gpsLongitude: gps ? gps.longitude.toFixed(8) : null,
+    })) ?? file;
+  } catch (error) {
+    console.error(`Image variants error for ${file.id}:`, error);
+    return file;
+  }
+}
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Saves bytes to the media store and records them. Identical content is stored once:
+ * a repeat upload returns the existing record. Images also get resized variants.
+ */
+export async function saveMedia(data: Buffer, mimeType: string, originalName: string, actor: Actor): Promise<MediaFile> {
+  const file = await storeFile(data, mimeType, originalName, actor);
+  return needsDescription(file) ? describeImage(file, data, actor) : file;
+}
+
+// Chunked uploads not completed within a day are abandoned
+const UPLOAD_EXPIRY_MS = 24 * 60 * 60 * 1000;
+
+const partKey = (uploadId: string, index: number) => `partials/${uploadId}/${index}`;
+
+// The size every part must have: all are chunkSize except the last, which holds the rest
+export const expectedPartSize = (upload: MediaUpload, index: number) =>
+  index < upload.totalChunks - 1 ? upload.chunkSize : upload.sizeBytes - upload.chunkSize * (upload.totalChunks - 1);
+
+export async function saveUploadPart(upload: MediaUpload, index: number, data: Buffer) {
+  await mediaStore.put(partKey(upload.id, index), data, "application/octet-stream");
+  await storage.addMediaUploadPart(upload.id, index, data.length);
+}
+
+/**
+ * Saves a file too large to buffer, read twice from `open`: once to hash it and once to store it.
+ * Identical content is stored once, as with saveMedia. Only images small enough for a single
+ * upload are read into memory to make their variants.
+ */
+export async function saveStreamedMedia(
+  open: () => Readable,
+  sizeBytes: number,
+  mimeType: string,
+  originalName: string,
+  actor: Actor,
+): Promise<MediaFile> {
+  const hash = createHash("sha256");
+  let readBytes = 0;
+  for await (const chunk of open()) {
+    hash.update(chunk);
+    readBytes += chunk.length;
+  }
+  if (readBytes !== sizeBytes) {
+    throw new Error(`${originalName || "Upload"} is ${readBytes} bytes, expected ${sizeBytes}`);
+  }
+
+  const sha256 = hash.digest("hex");
+  const existing = await storage.getMediaFileBySha256(sha256);
+  if (existing) return reuseFile(existing);
+
+  const storageKey = contentKey(sha256, originalName, mimeType);
+  await mediaStore.putStream(storageKey, open(), mimeType);
+  const file = await recordFile(storageKey, sha256, sizeBytes, mimeType, originalName, actor);
+  return needsDescription(file) && sizeBytes <= MAX_MEDIA_BYTES
+    ? describeImage(file, await readAll(await mediaStore.read(storageKey)), actor)
+    : file;
+}
+
+// The parts of a chunked upload as one stream, read from the store a part at a time
+const joinedParts = (upload: MediaUpload) => Readable.from((async function* () {
+  for (let index = 0; index < upload.totalChunks; index++) {
+    yield* await mediaStore.read(partKey(upload.id, index));
+  }
+})());
+
+/**
+ * Joins the parts of a finished chunked upload and stores the result like any other upload.
+ * The parts are streamed, so memory use does not grow with the file size.
+ */
+export async function completeUpload(upload: MediaUpload, actor: Actor): Promise<MediaFile> {
+  const file = await saveStreamedMedia(() => joinedParts(upload), upload.sizeBytes, upload.mimeType, upload.originalName, actor);
+  await discardUpload(upload);
+  return file;
+}
+
+// Removes a chunked upload's parts and its record
+export async function discardUpload(upload: MediaUpload) {
+  const received = await storage.getMediaUploadParts(upload.id);
+  await Promise.all(received.map(index => mediaStore.remove(partKey(upload.id, index))));
+  await storage.deleteMediaUpload(upload.id);
+}
+
+/**
+ * Discards chunked uploads started more than a day ago. Never throws: leftovers are retried next time.
+ */
+export async function purgeExpiredUploads() {
+  try {
+    const expired = await storage.getMediaUploadsCreatedBefore(new Date(Date.now() - UPLOAD_EXPIRY_MS));
+    for (const upload of expired) {
+      await discardUpload(upload);
+    }
+  } catch (error) {
+    console.error("Purge expired uploads error:", error);
+  }
+}
+
+// Uploads are kept this long after they were last uploaded before a sweep may delete them,
+// so a file uploaded for a row that has not been saved yet is not taken away
+const UNREFERENCED_MEDIA_GRACE_MS = 7 * 24 * 60 * 60 * 1000;
+// A sweep reads every row, so it runs at most once a day
+const MEDIA_SWEEP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+let lastMediaSweep = 0;
+
+/**
+ * Deletes stored files not uploaded for a week that no row, trashed row, manifest or check-in refers to.
+ * Variants are kept as long as their original. Runs at most once a day per process and never throws.
+ */
+export async function sweepUnreferencedMedia() {
+  if (Date.now() - lastMediaSweep < MEDIA_SWEEP_INTERVAL_MS) return;
+  lastMediaSweep = Date.now();
+  try {
+    const candidates = await storage.getMediaFilesUnusedSince(new Date(Date.now() - UNREFERENCED_MEDIA_GRACE_MS));
+    if (candidates.length === 0) return;
+
+    // Media URLs can sit in images, QR codes, image columns, manifest stops and check-in photos; search them all
+    const manifests = await storage.getManifests({});
+    const holders = JSON.stringify([
+      await storage.getTableRows(),
+      await storage.getDeletedTableRows(),
+      manifests,
+      await storage.getStopCheckIns(manifests.map(manifest => manifest.id)),
+    ]);
+    const referenced = new Set<string>();
+    const mediaUrlPattern = /\/api\/media\/([0-9a-f-]{36})/gi;
+    for (let match = mediaUrlPattern.exec(holders); match; match = mediaUrlPattern.exec(holders)) {
+      referenced.add(match[1].toLowerCase());
+    }
+    for (const file of candidates) {
+      if (!referenced.has(file.id)) continue;
+      file.variants.forEach(variant => referenced.add(variant.url.slice(MEDIA_URL_PREFIX.length)));
+    }
+
+    let deleted = 0;
+    for (const file of candidates) {
+      if (referenced.has(file.id)) continue;
+      await mediaStore.remove(file.storageKey);
+      await storage.deleteMediaFile(file.id);
+      deleted++;
+    }
+    if (deleted > 0) console.log(`Deleted ${deleted} unreferenced media file(s)`);
+  } catch (error) {
+    console.error("Sweep unreferenced media error:", error);
+  }
+}
+
+// The stored file behind a /api/media/:id URL, if the URL is one
+async function storedFileFor(url: string): Promise<MediaFile | undefined> {
+  if (!url.startsWith(MEDIA_URL_PREFIX)) return undefined;
+  const id = url.slice(MEDIA_URL_PREFIX.length);
+  if (!/^[0-9a-f-]{36}$/i.test(id)) return undefined;
+  return storage.getMediaFile(id);
+}
+
+/**
+ * The bytes behind a /api/media/:id URL; undefined when the URL is not one, the file
+ * is gone, or it is larger than `maxBytes`
+ */
+export async function readStoredMedia(url: string, maxBytes: number): Promise<Buffer | undefined> {
+  const file = await storedFileFor(url);
+  if (!file || file.sizeBytes > maxBytes) return undefined;
+  return readAll(await mediaStore.read(file.storageKey));
+}
+
+/**
+ * Copies a stored image's size, variants and GPS position onto a row image. Files stored
+ * before variants existed get them now, read back from the media store.
+ */
+async function describeStoredImage(image: MediaWithCaption, actor: Actor): Promise<MediaWithCaption> {
+  if (image.type !== "image" || (image.width && image.variants)) return image;
+  let file = await storedFileFor(image.url);
+  if (!file) return image;
+  if (needsDescription(file)) {
+    file = await describeImage(file, await readAll(await mediaStore.read(file.storageKey)), actor);
+  }
+  if (file.width === null || file.height === null) return image;
+  const gps = storedGps(file);
+  return {
+    ...image,
+    mimeType: image.mimeType ?? file.mimeType,
+    width: file.width,
+    height: file.height,
+    variants: file.variants,
+    ...(gps && { gps }),
+  };
+}
+
+/**
+ * Decodes a base64 data URL such as those media-upload-modal used to embed
+ */
+export function parseDataUrl(url: string): { mimeType: string; data: Buffer } | null {
+  const match = /^data:([^;,]+)?((?:;[^;,]+)*?);base64,/.exec(url);
+  if (!match) return null;
+  return {
+    mimeType: match[1] || "application/octet-stream",
+    data: Buffer.from(url.slice(match[0].length), "base64"),
+  };
+}
+
+/**
+ * Moves a data URL into the media store and returns its served URL; other URLs pass through
+ */
+export async function extractDataUrl(url: string, actor: Actor, originalName = ""): Promise<string> {
+  const parsed = parseDataUrl(url);
+  if (!parsed || !isAllowedMediaType(parsed.mimeType)) return url;
+  const file = await saveMedia(parsed.data, parsed.mimeType, originalName, actor);
+  return mediaUrl(file);
+}
+
+/**
+ * Replaces embedded images, videos and video thumbnails with media store URLs,
+ * and fills in the size and variants of stored images
+ * @returns The images to store, and how many files were extracted
+ */
+export async function extractInlineMedia(
+  images: MediaWithCaption[],
+  actor: Actor,
+): Promise<{ images: MediaWithCaption[]; extracted: number }> {
+  let extracted = 0;
+  const extract = async (url: string, name: string) => {
+    const stored = await extractDataUrl(url, actor, name);
+    if (stored !== url) extracted++;
+    return stored;
+  };
+
+  const result: MediaWithCaption[] = [];
+  for (const image of images) {
+    result.push(await describeStoredImage({
+      ...image,
+      url: await extract(image.url, image.caption),
+      ...(image.thumbnail ? { thumbnail: await extract(image.thumbnail, "") } : {}),
+    }, actor));
+  }
+  return { images: result, extracted };
+}
+
+/**
+ * Parses a single-range "bytes=" header against a file size; null means serve the whole file
+ * @returns "unsatisfiable" when the range lies outside the file
+ */
+export function parseByteRange(header: string | undefined, size: number): ByteRange | null | "unsatisfiable" {
+  const match = header ? /^bytes=(\d*)-(\d*)$/.exec(header.trim()) : null;
+  if (!match || (match[1] === "" && match[2] === "")) return null;
+
+  let start: number;
+  let end: number;
+  if (match[1] === "") {
+    // "bytes=-500" is the last 500 bytes
+    start = Math.max(0, size - Number(match[2]));
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === "" ? size - 1 : Math.min(Number(match[2]), size - 1);
+  }
+  return start > end || start >= size ? "unsatisfiable" : { start, end };
+}
+
+/**
+ * Moves embedded files in a row create/update body (images and QR code) into the media store
+ */
+export async function extractRowMedia<T extends { images?: unknown; qrCode?: string | null }>(fields: T, actor: Actor): Promise<T> {
+  const result = { ...fields };
+  if (Array.isArray(result.images)) {
+    result.images = (await extractInlineMedia(result.images as MediaWithCaption[], actor)).images as T["images"];
+  }
+  if (result.qrCode) {
+    result.qrCode = await extractDataUrl(result.qrCode, actor, "qr-code");
+  }
+  return result;
+}
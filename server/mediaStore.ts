@@ -0,0 +1,221 @@
+import { createHash, createHmac } from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import { mkdir, rename, rm, writeFile } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+
+// Inclusive byte range, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Where uploaded media bytes are kept. Keys are relative paths such as "ab/ab12….jpg".
+ */
+export interface MediaStore {
+  name: "local" | "s3";
+  put(key: string, data: Buffer, mimeType: string): Promise<void>;
+  // Writes a stream without holding it in memory; for files too large to buffer
+  putStream(key: string, data: Readable, mimeType: string): Promise<void>;
+  read(key: string, range?: ByteRange): Promise<Readable>;
+  remove(key: string): Promise<void>;
+}
+
+// Files under MEDIA_DIR (default ./uploads); the default store
+function localStore(root: string): MediaStore {
+  const resolve = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(path.resolve(root) + path.sep)) {
+      throw new Error(`Invalid media key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    name: "local",
+    async put(key, data) {
+      const filePath = resolve(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+    },
+    async putStream(key, data) {
+      const filePath = resolve(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      // Written under a temporary name and renamed, so an interrupted write is never served
+      const partialPath = `${filePath}.partial`;
+      try {
+        await pipeline(data, createWriteStream(partialPath));
+        await rename(partialPath, filePath);
+      } catch (error) {
+        await rm(partialPath, { force: true });
+        throw error;
+      }
+    },
+    async read(key, range) {
+      return createReadStream(resolve(key), range ? { start: range.start, end: range.end } : undefined);
+    },
+    async remove(key) {
+      await rm(resolve(key), { force: true });
+    },
+  };
+}
+
+interface S3Config {
+  endpoint: string; // e.g. https://s3.ap-southeast-1.amazonaws.com or a MinIO/R2 URL
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+// Size of each part of a multipart upload; S3 needs at least 5 MB for all but the last
+const S3_PART_BYTES = 8 * 1024 * 1024;
+
+const sha256Hex = (data: string | Buffer) => createHash("sha256").update(data).digest("hex");
+const hmac = (key: string | Buffer, data: string) => createHmac("sha256", key).update(data).digest();
+
+// S3-compatible object storage with path-style URLs, signed with AWS Signature V4
+function s3Store(config: S3Config): MediaStore {
+  const objectUrl = (key: string) =>
+    new URL(`${config.endpoint.replace(/\/$/, "")}/${config.bucket}/${key.split("/").map(encodeURIComponent).join("/")}`);
+
+  const send = async (method: string, key: string, headers: Record<string, string> = {}, body?: Buffer, query: Record<string, string> = {}) => {
+    const url = objectUrl(key);
+    // Sorted and percent-encoded the same way in the URL and the signature
+    const canonicalQuery = Object.keys(query).sort()
+      .map(name => `${encodeURIComponent(name)}=${encodeURIComponent(query[name])}`)
+      .join("&");
+    url.search = canonicalQuery;
+    const payloadHash = sha256Hex(body ?? "");
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const day = amzDate.slice(0, 8);
+    const signed: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+      ...Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])),
+    };
+    const names = Object.keys(signed).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      canonicalQuery,
+      names.map(name => `${name}:${signed[name].trim()}\n`).join(""),
+      names.join(";"),
+      payloadHash,
+    ].join("\n");
+    const scope = `${day}/${config.region}/s3/aws4_request`;
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, day), config.region), "s3"), "aws4_request");
+    const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+    const { host: _host, ...requestHeaders } = signed;
+    return fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${names.join(";")}, Signature=${signature}`,
+      },
+      body,
+    });
+  };
+
+  return {
+    name: "s3",
+    async put(key, data, mimeType) {
+      const response = await send("PUT", key, { "content-type": mimeType }, data);
+      if (!response.ok) {
+        throw new Error(`S3 upload failed: ${response.status} ${await response.text()}`);
+      }
+    },
+    // A multipart upload, sent S3_PART_BYTES at a time
+    async putStream(key, data, mimeType) {
+      const started = await send("POST", key, { "content-type": mimeType }, undefined, { uploads: "" });
+      const uploadId = started.ok ? /<UploadId>([^<]+)<\/UploadId>/.exec(await started.text())?.[1] : undefined;
+      if (!uploadId) {
+        throw new Error(`S3 multipart upload failed to start: ${started.status}`);
+      }
+
+      const etags: string[] = [];
+      const sendPart = async (body: Buffer) => {
+        const response = await send("PUT", key, {}, body, { partNumber: String(etags.length + 1), uploadId });
+        const etag = response.headers.get("etag");
+        if (!response.ok || !etag) {
+          throw new Error(`S3 part upload failed: ${response.status} ${await response.text()}`);
+        }
+        etags.push(etag);
+      };
+
+      try {
+        let pending: Buffer[] = [];
+        let pendingBytes = 0;
+        for await (const chunk of data) {
+          pending.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+          pendingBytes += chunk.length;
+          if (pendingBytes >= S3_PART_BYTES) {
+            await sendPart(Buffer.concat(pending));
+            pending = [];
+            pendingBytes = 0;
+          }
+        }
+        if (pendingBytes > 0 || etags.length === 0) await sendPart(Buffer.concat(pending));
+
+        const parts = etags.map((etag, index) => `<Part><PartNumber>${index + 1}</PartNumber><ETag>${etag}</ETag></Part>`);
+        const completed = await send(
+          "POST", key, { "content-type": "application/xml" },
+          Buffer.from(`<CompleteMultipartUpload>${parts.join("")}</CompleteMultipartUpload>`),
+          { uploadId },
+        );
+        // S3 may answer 200 and still report an error in the body
+        const result = await completed.text();
+        if (!completed.ok || result.includes("<Error>")) {
+          throw new Error(`S3 multipart upload failed to complete: ${completed.status} ${result}`);
+        }
+      } catch (error) {
+        // Frees the parts already stored
+        await send("DELETE", key, {}, undefined, { uploadId }).catch(() => {});
+        throw error;
+      }
+    },
+    async read(key, range) {
+      const response = await send("GET", key, range ? { range: `bytes=${range.start}-${range.end}` } : {});
+      if (!response.ok || !response.body) {
+        throw new Error(`S3 download failed: ${response.status}`);
+      }
+      return Readable.fromWeb(response.body as WebReadableStream<Uint8Array>);
+    },
+    async remove(key) {
+      const response = await send("DELETE", key);
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`S3 delete failed: ${response.status}`);
+      }
+    },
+  };
+}
+
+/**
+ * The configured store: S3 when MEDIA_STORE=s3 (with S3_BUCKET, S3_ENDPOINT, S3_REGION,
+ * S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY), otherwise the local disk
+ */
+function createMediaStore(): MediaStore {
+  if (process.env.MEDIA_STORE === "s3") {
+    const { S3_BUCKET, S3_ENDPOINT, S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error("MEDIA_STORE=s3 needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY");
+    }
+    const region = S3_REGION || "us-east-1";
+    return s3Store({
+      endpoint: S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+      bucket: S3_BUCKET,
+      region,
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+    });
+  }
+  return localStore(process.env.MEDIA_DIR || path.resolve("uploads"));
+}
+
+export const mediaStore = createMediaStore();
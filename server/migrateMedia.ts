@@ -0,0 +1,82 @@
+// One-off migration: moves base64 data URLs out of tableRows.images and qrCode into the media store,
+// and gives stored images their size and resized variants.
+// Run with `npm run media:migrate` (add `-- --dry-run` to only count what would change).
+// Safe to run again: rows with nothing to do are left alone and identical files are stored once.
+import { MEDIA_URL_PREFIX, type MediaWithCaption } from "@shared/schema";
+import { storage } from "./storage";
+import { extractInlineMedia, extractDataUrl } from "./media";
+import type { Actor } from "./audit";
+
+const dryRun = process.argv.includes("--dry-run");
+const actor: Actor = { userId: null, userName: "media migration" };
+
+const isDataUrl = (value: string | null | undefined) => Boolean(value?.startsWith("data:"));
+// Stored images uploaded before variants were generated
+const isUndescribed = (image: MediaWithCaption) =>
+  image.type === "image" && image.url.startsWith(MEDIA_URL_PREFIX) && !image.variants;
+
+async function migrate() {
+  const rows = await storage.getTableRows();
+  let migratedRows = 0;
+  let extractedFiles = 0;
+  let bytesBefore = 0;
+  let bytesAfter = 0;
+  let describedRows = 0;
+
+  for (const row of rows) {
+    const undescribed = row.images.filter(isUndescribed).length;
+    const embedded = row.images.filter(image => isDataUrl(image.url) || isDataUrl(image.thumbnail)).length
+      + (isDataUrl(row.qrCode) ? 1 : 0);
+    if (embedded === 0 && undescribed === 0) continue;
+    if (embedded === 0) {
+      if (!dryRun) {
+        const { images } = await extractInlineMedia(row.images, actor);
+        await storage.updateTableRow(row.id, { images });
+      }
+      describedRows++;
+      continue;
+    }
+
+    const before = JSON.stringify({ images: row.images, qrCode: row.qrCode }).length;
+    if (dryRun) {
+      console.log(`Would move ${embedded} file(s) out of ${row.code || row.location} (${(before / 1024).toFixed(0)} KB)`);
+      migratedRows++;
+      extractedFiles += embedded;
+      bytesBefore += before;
+      continue;
+    }
+
+    const { images, extracted } = await extractInlineMedia(row.images, actor);
+    const qrCode = row.qrCode ? await extractDataUrl(row.qrCode, actor, "qr-code") : row.qrCode;
+    await storage.updateTableRow(row.id, { images, qrCode });
+
+    const after = JSON.stringify({ images, qrCode }).length;
+    console.log(`Moved ${extracted + (qrCode !== row.qrCode ? 1 : 0)} file(s) out of ${row.code || row.location}`);
+    migratedRows++;
+    extractedFiles += extracted + (qrCode !== row.qrCode ? 1 : 0);
+    bytesBefore += before;
+    bytesAfter += after;
+  }
+
+  // The storage layer only updates rows in the table; trashed rows keep their files until restored and migrated again
+  const trashed = (await storage.getDeletedTableRows())
+    .filter(row => row.images.some(image => isDataUrl(image.url) || isDataUrl(image.thumbnail)) || isDataUrl(row.qrCode));
+
+  console.log(
+    `${dryRun ? "Dry run: " : ""}${extractedFiles} file(s) from ${migratedRows} row(s); ` +
+    `embedded data ${(bytesBefore / 1024 / 1024).toFixed(1)} MB${dryRun ? "" : ` → ${(bytesAfter / 1024).toFixed(0)} KB`}`,
+  );
+  if (describedRows > 0) {
+    console.log(`${dryRun ? "Would add" : "Added"} sizes and variants to stored images in ${describedRows} more row(s)`);
+  }
+  if (trashed.length > 0) {
+    console.log(`${trashed.length} row(s) in the trash still embed files; restore them and run the migration again to move those too.`);
+  }
+}
+
+migrate()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Media migration failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,134 @@
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import { hasPermission, canEditRowFields, type Permission } from "@shared/permissions";
+import { storage } from "./storage";
+
+/**
+ * Require a signed-in user holding the given permission.
+ * Responds 401 to anonymous callers and 403 to users whose role is too low.
+ */
+export function authorize(permission: Permission): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (!hasPermission(req.user, permission)) {
+      return res.status(403).json({ message: "Your role does not allow this action" });
+    }
+    next();
+  };
+}
+
+/**
+ * Guard for endpoints that change fields on a single row (`:id`).
+ * Drivers pass only for their own route and only for site fields.
+ */
+function authorizeRowFields(getFields: (req: Request) => string[]): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (hasPermission(req.user, "rows:edit")) {
+      return next();
+    }
+    if (!hasPermission(req.user, "rows:update-site")) {
+      return res.status(403).json({ message: "Your role does not allow this action" });
+    }
+
+    try {
+      const row = await storage.getTableRow(req.params.id);
+      // Let the route handler produce its own 400/404 responses
+      if (!row) return next();
+
+      if (!canEditRowFields(req.user, row, getFields(req))) {
+        return res.status(403).json({ message: "Drivers may only update info, QR code and images on their own route" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Same snake_case to camelCase normalization PATCH /api/table-rows/:id applies to its body
+const bodyFields = (req: Request) =>
+  Object.keys(req.body ?? {}).map(key => key.replace(/_([a-z])/g, (_match, letter) => letter.toUpperCase()));
+
+/**
+ * Register permission guards for every mutating API route.
+ * Must run before registerRoutes adds the handlers so each guard sees the request first.
+ */
+export function registerPermissions(app: Express) {
+  // Table rows
+  app.post("/api/table-rows", authorize("rows:edit"));
+  app.patch("/api/table-rows/:id", authorizeRowFields(bodyFields));
+  app.delete("/api/table-rows/:id", authorize("rows:edit"));
+  app.post("/api/table-rows/reorder", authorize("rows:reorder"));
+  app.get("/api/table-rows/reorder-history", authorize("rows:reorder"));
+  app.post("/api/table-rows/reorder/undo", authorize("rows:reorder"));
+  app.get("/api/table-rows/trash", authorize("rows:edit"));
+  app.post("/api/table-rows/:id/restore", authorize("rows:edit"));
+  app.delete("/api/table-rows/:id/purge", authorize("rows:purge"));
+  app.post("/api/table-rows/import", authorize("rows:edit"));
+  app.post("/api/export/:format", authorize("rows:export"));
+  app.post("/api/table-rows/:id/images", authorizeRowFields(() => ["images"]));
+  app.patch("/api/table-rows/:id/images/:imageIndex", authorizeRowFields(() => ["images"]));
+  app.delete("/api/table-rows/:id/images/:imageIndex?", authorizeRowFields(() => ["images"]));
+  app.get("/api/audit-log", authorize("audit:view"));
+  app.post("/api/media", authorize("media:upload"));
+  app.post("/api/media/uploads", authorize("media:upload"));
+  app.get("/api/media/uploads/:id", authorize("media:upload"));
+  app.put("/api/media/uploads/:id/parts/:index", authorize("media:upload"));
+  app.post("/api/media/uploads/:id/complete", authorize("media:upload"));
+  app.delete("/api/media/uploads/:id", authorize("media:upload"));
+
+  // Table columns
+  app.post("/api/table-columns", authorize("columns:manage"));
+  app.patch("/api/table-columns/:id", authorize("columns:manage"));
+  app.post("/api/table-columns/reorder", authorize("columns:manage"));
+  app.delete("/api/table-columns/:id", authorize("columns:manage"));
+
+  // Route planning
+  app.post("/api/calculate-tolls", authorize("routes:optimize"));
+  app.post("/api/optimize-route", authorize("routes:optimize"));
+  // Geocoding fills in coordinates and may cost per request, so only coordinate editors use it
+  app.get("/api/geocode", authorize("rows:edit"));
+  app.get("/api/reverse-geocode", authorize("rows:edit"));
+  app.post("/api/save-route", authorize("routes:optimize"));
+  app.delete("/api/saved-routes/:id", authorize("routes:optimize"));
+  app.put("/api/route-depots/:route", authorize("routes:assign-depot"));
+
+  // Delivery schedules and public holidays
+  app.put("/api/delivery-schedules/:delivery", authorize("schedules:manage"));
+  app.delete("/api/delivery-schedules/:delivery", authorize("schedules:manage"));
+  app.post("/api/public-holidays", authorize("schedules:manage"));
+  app.delete("/api/public-holidays/:date", authorize("schedules:manage"));
+
+  // Dispatch manifests
+  app.post("/api/manifests", authorize("manifests:manage"));
+  app.patch("/api/manifests/:id/status", authorize("manifests:manage"));
+  app.post("/api/manifests/:id/check-ins", authorize("stops:check-in"));
+
+  // Depots
+  app.post("/api/depots", authorize("depots:manage"));
+  app.patch("/api/depots/:id", authorize("depots:manage"));
+  app.delete("/api/depots/:id", authorize("depots:manage"));
+
+  // Per-user layout and sharing
+  app.post("/api/layout", authorize("layout:save"));
+  app.delete("/api/layout", authorize("layout:save"));
+  app.put("/api/layout/default", authorize("layout:team-default"));
+  app.post("/api/share-table", authorize("share:manage"));
+  app.post("/api/saved-share-links", authorize("share:manage"));
+  app.patch("/api/saved-share-links/:id/remark", authorize("share:manage"));
+  app.delete("/api/saved-share-links/:id", authorize("share:manage"));
+
+  // Header pages and global settings
+  app.post("/api/pages", authorize("pages:manage"));
+  app.patch("/api/pages/:id", authorize("pages:manage"));
+  app.delete("/api/pages/:id", authorize("pages:manage"));
+  app.post("/api/global-settings", authorize("settings:manage"));
+
+  // User management
+  app.get("/api/users", authorize("users:manage"));
+  app.patch("/api/users/:id", authorize("users:manage"));
+}
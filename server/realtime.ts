@@ -0,0 +1,45 @@
+import type { Request, Response } from "express";
+import type { RealtimeEvent } from "@shared/realtime";
+
+// Proxies drop idle connections; a comment line every so often keeps the stream open
+const HEARTBEAT_MS = 25000;
+
+const subscribers = new Set<Response>();
+
+/**
+ * Holds a GET request open as a Server-Sent Events stream until the browser leaves
+ */
+export function subscribeToEvents(req: Request, res: Response) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  // Tell EventSource how long to wait before reconnecting after a drop
+  res.write("retry: 5000\n\n");
+  subscribers.add(res);
+
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    subscribers.delete(res);
+  });
+}
+
+/**
+ * Sends a change to every open browser. Never throws: a failed push only
+ * means other tables see the change on their next refetch.
+ */
+export function broadcast(event: RealtimeEvent) {
+  if (subscribers.size === 0) return;
+  const message = `data: ${JSON.stringify(event)}\n\n`;
+  subscribers.forEach(res => {
+    try {
+      res.write(message);
+    } catch (error) {
+      console.error("Realtime broadcast error:", error);
+      subscribers.delete(res);
+    }
+  });
+}
@@ -1,14 +1,12 @@
-import type { TableRow } from "@shared/schema";
-
-// Default QL Kitchen location
-const QL_KITCHEN_LOCATION = {
-  latitude: 3.0738,
-  longitude: 101.5183,
-};
+import type { TableRow, Coordinates, StopEta, Vehicle, VehicleRoute } from "@shared/schema";
+import { haversineMatrix, type DistanceMatrix } from "./distanceMatrix";
 
 // Constants for calculations
 const AVERAGE_SPEED_KMH = 40; // Average driving speed in KL
 const FUEL_CONSUMPTION_PER_KM = 0.12; // Liters per km for 1 ton refrigerated lorry (diesel)
+const DEFAULT_DEPARTURE_TIME = "08:00"; // Depot departure when a time-window request gives none
+const MINUTES_PER_DAY = 24 * 60;
+const RELOCATE_TIME_LIMIT_MS = 2000; // Relocate search keeps its best route so far once this runs out
 
 interface Location {
   id: string;
@@ -16,57 +14,30 @@ interface Location {
   longitude: number;
   name: string;
   trip?: string;
+  windowStart?: number | null; // Minutes after midnight
+  windowEnd?: number | null; // Minutes after midnight, past 24:00 for overnight windows
+  serviceMinutes?: number;
+  demand?: number; // Load the stop takes from the vehicle
 }
 
-/**
- * Calculate distance between two coordinates using Haversine formula
- */
-function calculateDistance(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const R = 6371; // Earth's radius in kilometers
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLon = ((lon2 - lon1) * Math.PI) / 180;
-
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos((lat1 * Math.PI) / 180) *
-      Math.cos((lat2 * Math.PI) / 180) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  const distance = R * c;
-
-  return distance;
-}
+type Algorithm = "nearest_neighbor" | "genetic" | "simulated_annealing" | "time_windows";
 
 /**
  * Calculate total distance for a route
  */
 function calculateRouteDistance(
   locations: Location[],
-  startLocation: { latitude: number; longitude: number }
+  startLocation: Coordinates,
+  matrix: DistanceMatrix
 ): number {
   if (locations.length === 0) return 0;
 
   let totalDistance = 0;
-  let currentLat = startLocation.latitude;
-  let currentLon = startLocation.longitude;
+  let current: Coordinates = startLocation;
 
   for (const location of locations) {
-    const distance = calculateDistance(
-      currentLat,
-      currentLon,
-      location.latitude,
-      location.longitude
-    );
-    totalDistance += distance;
-    currentLat = location.latitude;
-    currentLon = location.longitude;
+    totalDistance += matrix.distanceKm(current, location);
+    current = location;
   }
 
   return totalDistance;
@@ -78,27 +49,22 @@ function calculateRouteDistance(
  */
 function nearestNeighborOptimization(
   locations: Location[],
-  startLocation: { latitude: number; longitude: number },
+  startLocation: Coordinates,
+  matrix: DistanceMatrix,
   prioritizeTrip: boolean = false
 ): Location[] {
   if (locations.length === 0) return [];
 
   const unvisited = [...locations];
   const route: Location[] = [];
-  let currentLat = startLocation.latitude;
-  let currentLon = startLocation.longitude;
+  let current: Coordinates = startLocation;
 
   while (unvisited.length > 0) {
     let nearestIndex = 0;
     let nearestDistance = Infinity;
 
     for (let i = 0; i < unvisited.length; i++) {
-      const distance = calculateDistance(
-        currentLat,
-        currentLon,
-        unvisited[i].latitude,
-        unvisited[i].longitude
-      );
+      const distance = matrix.distanceKm(current, unvisited[i]);
 
       // Apply trip priority bonus
       let adjustedDistance = distance;
@@ -115,8 +81,7 @@ function nearestNeighborOptimization(
 
     const nearest = unvisited.splice(nearestIndex, 1)[0];
     route.push(nearest);
-    currentLat = nearest.latitude;
-    currentLon = nearest.longitude;
+    current = nearest;
   }
 
   return route;
@@ -126,7 +91,7 @@ function nearestNeighborOptimization(
  * 2-Opt Algorithm - Local search optimization
  * Improves route by eliminating crossing paths
  */
-function twoOptOptimization(route: Location[]): Location[] {
+function twoOptOptimization(route: Location[], matrix: DistanceMatrix): Location[] {
   if (route.length < 4) return route;
 
   let improved = true;
@@ -140,36 +105,16 @@ function twoOptOptimization(route: Location[]): Location[] {
         // Calculate current distance
         const currentDistance =
           (i > 0
-            ? calculateDistance(
-                optimizedRoute[i - 1].latitude,
-                optimizedRoute[i - 1].longitude,
-                optimizedRoute[i].latitude,
-                optimizedRoute[i].longitude
-              )
+            ? matrix.distanceKm(optimizedRoute[i - 1], optimizedRoute[i])
             : 0) +
-          calculateDistance(
-            optimizedRoute[j - 1].latitude,
-            optimizedRoute[j - 1].longitude,
-            optimizedRoute[j].latitude,
-            optimizedRoute[j].longitude
-          );
+          matrix.distanceKm(optimizedRoute[j - 1], optimizedRoute[j]);
 
         // Calculate new distance after swap
         const newDistance =
           (i > 0
-            ? calculateDistance(
-                optimizedRoute[i - 1].latitude,
-                optimizedRoute[i - 1].longitude,
-                optimizedRoute[j - 1].latitude,
-                optimizedRoute[j - 1].longitude
-              )
+            ? matrix.distanceKm(optimizedRoute[i - 1], optimizedRoute[j - 1])
             : 0) +
-          calculateDistance(
-            optimizedRoute[i].latitude,
-            optimizedRoute[i].longitude,
-            optimizedRoute[j].latitude,
-            optimizedRoute[j].longitude
-          );
+          matrix.distanceKm(optimizedRoute[i], optimizedRoute[j]);
 
         if (newDistance < currentDistance) {
           // Reverse the segment between i and j-1
@@ -187,12 +132,198 @@ function twoOptOptimization(route: Location[]): Location[] {
   return optimizedRoute;
 }
 
+/**
+ * Parse "HH:MM" into minutes after midnight
+ */
+function parseTimeOfDay(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+/**
+ * Format minutes after midnight as "HH:MM", wrapping past midnight
+ */
+function formatTimeOfDay(minutes: number): string {
+  const wrapped = ((Math.round(minutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(wrapped / 60);
+  const mins = wrapped % 60;
+  return `${hours.toString().padStart(2, "0")}:${mins.toString().padStart(2, "0")}`;
+}
+
+interface ScheduledStop {
+  location: Location;
+  arrival: number;
+  serviceStart: number;
+  departure: number;
+  waitMinutes: number;
+  lateMinutes: number;
+  windowCloses: number | null; // End of the window the stop was scheduled into
+}
+
+/**
+ * When the vehicle reaches a stop at `arrival`: it waits for the window to
+ * open, and is late by however far service starts after the window closes.
+ * An overnight window is also open from midnight until it closes, so an early
+ * morning arrival inside it is served straight away
+ */
+function scheduleStop(location: Location, arrival: number): ScheduledStop {
+  const { windowStart, windowEnd } = location;
+  const inEarlyPart = windowStart != null && windowEnd != null &&
+    windowEnd > MINUTES_PER_DAY && arrival <= windowEnd - MINUTES_PER_DAY;
+  const opens = inEarlyPart ? windowStart! - MINUTES_PER_DAY : windowStart;
+  const closes = inEarlyPart ? windowEnd! - MINUTES_PER_DAY : windowEnd;
+  const serviceStart = opens != null ? Math.max(arrival, opens) : arrival;
+  const lateMinutes = closes != null ? Math.max(0, serviceStart - closes) : 0;
+  return {
+    location,
+    arrival,
+    serviceStart,
+    departure: serviceStart + (location.serviceMinutes || 0),
+    waitMinutes: serviceStart - arrival,
+    lateMinutes,
+    windowCloses: closes ?? null,
+  };
+}
+
+/**
+ * Drive a route from the start location, leaving at `departure` minutes after midnight
+ */
+function simulateSchedule(
+  route: Location[],
+  startLocation: Coordinates,
+  matrix: DistanceMatrix,
+  departure: number
+): ScheduledStop[] {
+  const stops: ScheduledStop[] = [];
+  let position: Coordinates = startLocation;
+  let clock = departure;
+
+  for (const location of route) {
+    const stop = scheduleStop(location, clock + matrix.durationMinutes(position, location));
+    stops.push(stop);
+    position = location;
+    clock = stop.departure;
+  }
+
+  return stops;
+}
+
+interface ScheduleScore {
+  lateCount: number;
+  lateness: number;
+  distance: number;
+}
+
+/**
+ * Score a route driven from the start location, leaving at `departure`
+ */
+function scoreSchedule(
+  route: Location[],
+  startLocation: Coordinates,
+  matrix: DistanceMatrix,
+  departure: number
+): ScheduleScore {
+  const stops = simulateSchedule(route, startLocation, matrix, departure);
+  return {
+    lateCount: stops.filter(stop => stop.lateMinutes > 0).length,
+    lateness: stops.reduce((sum, stop) => sum + stop.lateMinutes, 0),
+    distance: calculateRouteDistance(route, startLocation, matrix),
+  };
+}
+
+/**
+ * Rank schedules: fewest late stops, then least total lateness, then shortest distance
+ */
+function compareScores(a: ScheduleScore, b: ScheduleScore): number {
+  if (a.lateCount !== b.lateCount) return a.lateCount - b.lateCount;
+  if (Math.abs(a.lateness - b.lateness) > 0.01) return a.lateness - b.lateness;
+  return a.distance - b.distance;
+}
+
+/**
+ * Time Window Algorithm - Greedy construction plus relocate local search
+ * Visits the stop whose window can be met soonest (weighing how close its
+ * window is to closing), serves unreachable stops last, then moves single
+ * stops while that reduces late stops, lateness or distance, for at most
+ * RELOCATE_TIME_LIMIT_MS so long routes do not hold up the server
+ */
+function timeWindowOptimization(
+  locations: Location[],
+  startLocation: Coordinates,
+  matrix: DistanceMatrix,
+  departure: number
+): Location[] {
+  if (locations.length === 0) return [];
+
+  const unvisited = [...locations];
+  let route: Location[] = [];
+  let position: Coordinates = startLocation;
+  let clock = departure;
+
+  while (unvisited.length > 0) {
+    let bestIndex = 0;
+    let bestScore = Infinity;
+
+    for (let i = 0; i < unvisited.length; i++) {
+      const stop = scheduleStop(unvisited[i], clock + matrix.durationMinutes(position, unvisited[i]));
+      // Late stops rank behind every stop that can still be served on time
+      const slack = stop.windowCloses != null ? stop.windowCloses - stop.serviceStart : MINUTES_PER_DAY;
+      const score = stop.lateMinutes > 0
+        ? MINUTES_PER_DAY * 2 + stop.lateMinutes
+        : (stop.serviceStart - clock) + 0.5 * Math.min(slack, MINUTES_PER_DAY);
+
+      if (score < bestScore) {
+        bestScore = score;
+        bestIndex = i;
+      }
+    }
+
+    const next = unvisited.splice(bestIndex, 1)[0];
+    const stop = scheduleStop(next, clock + matrix.durationMinutes(position, next));
+    route.push(next);
+    position = next;
+    clock = stop.departure;
+  }
+
+  // Relocate: try moving each stop to every other position
+  const maxPasses = 20;
+  const deadline = Date.now() + RELOCATE_TIME_LIMIT_MS;
+  let routeScore = scoreSchedule(route, startLocation, matrix, departure);
+  for (let pass = 0; pass < maxPasses; pass++) {
+    let improved = false;
+
+    for (let from = 0; from < route.length; from++) {
+      if (Date.now() > deadline) return route;
+      for (let to = 0; to < route.length; to++) {
+        if (from === to) continue;
+        const candidate = [...route];
+        const [moved] = candidate.splice(from, 1);
+        candidate.splice(to, 0, moved);
+
+        const candidateScore = scoreSchedule(candidate, startLocation, matrix, departure);
+        if (compareScores(candidateScore, routeScore) < -0.001) {
+          route = candidate;
+          routeScore = candidateScore;
+          improved = true;
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  return route;
+}
+
 /**
  * Genetic Algorithm - Population-based optimization
  */
 function geneticAlgorithmOptimization(
   locations: Location[],
-  startLocation: { latitude: number; longitude: number },
+  startLocation: Coordinates,
+  matrix: DistanceMatrix,
   prioritizeTrip: boolean = false
 ): Location[] {
   if (locations.length === 0) return [];
@@ -201,9 +332,10 @@ function geneticAlgorithmOptimization(
     const initial = nearestNeighborOptimization(
       locations,
       startLocation,
+      matrix,
       prioritizeTrip
     );
-    return twoOptOptimization(initial);
+    return twoOptOptimization(initial, matrix);
   }
 
   const POPULATION_SIZE = 50;
@@ -216,7 +348,7 @@ function geneticAlgorithmOptimization(
 
   // Add nearest neighbor solution as seed
   population.push(
-    nearestNeighborOptimization(locations, startLocation, prioritizeTrip)
+    nearestNeighborOptimization(locations, startLocation, matrix, prioritizeTrip)
   );
 
   // Generate random solutions
@@ -229,7 +361,7 @@ function geneticAlgorithmOptimization(
   for (let gen = 0; gen < GENERATIONS; gen++) {
     // Calculate fitness (inverse of distance)
     const fitness = population.map((route) => {
-      const distance = calculateRouteDistance(route, startLocation);
+      const distance = calculateRouteDistance(route, startLocation, matrix);
       return 1 / (distance + 1);
     });
 
@@ -273,7 +405,7 @@ function geneticAlgorithmOptimization(
 
   // Return best solution
   const finalFitness = population.map((route) => {
-    const distance = calculateRouteDistance(route, startLocation);
+    const distance = calculateRouteDistance(route, startLocation, matrix);
     return 1 / (distance + 1);
   });
 
@@ -325,7 +457,8 @@ function swapMutation(route: Location[]): void {
  */
 function simulatedAnnealingOptimization(
   locations: Location[],
-  startLocation: { latitude: number; longitude: number },
+  startLocation: Coordinates,
+  matrix: DistanceMatrix,
   prioritizeTrip: boolean = false
 ): Location[] {
   if (locations.length === 0) return [];
@@ -334,9 +467,10 @@ function simulatedAnnealingOptimization(
   let currentRoute = nearestNeighborOptimization(
     locations,
     startLocation,
+    matrix,
     prioritizeTrip
   );
-  let currentDistance = calculateRouteDistance(currentRoute, startLocation);
+  let currentDistance = calculateRouteDistance(currentRoute, startLocation, matrix);
 
   let bestRoute = [...currentRoute];
   let bestDistance = currentDistance;
@@ -353,7 +487,7 @@ function simulatedAnnealingOptimization(
     const j = Math.floor(Math.random() * newRoute.length);
     [newRoute[i], newRoute[j]] = [newRoute[j], newRoute[i]];
 
-    const newDistance = calculateRouteDistance(newRoute, startLocation);
+    const newDistance = calculateRouteDistance(newRoute, startLocation, matrix);
     const delta = newDistance - currentDistance;
 
     // Accept better solutions or worse solutions with probability
@@ -373,14 +507,134 @@ function simulatedAnnealingOptimization(
   return bestRoute;
 }
 
+/**
+ * Order locations with the selected algorithm
+ */
+function sequenceLocations(
+  locations: Location[],
+  algorithm: Algorithm,
+  startLocation: Coordinates,
+  matrix: DistanceMatrix,
+  prioritizeTrip: boolean,
+  departure: number
+): Location[] {
+  switch (algorithm) {
+    case "time_windows":
+      return timeWindowOptimization(locations, startLocation, matrix, departure);
+    case "genetic":
+      return geneticAlgorithmOptimization(locations, startLocation, matrix, prioritizeTrip);
+    case "simulated_annealing":
+      return simulatedAnnealingOptimization(locations, startLocation, matrix, prioritizeTrip);
+    case "nearest_neighbor":
+    default:
+      return twoOptOptimization(
+        nearestNeighborOptimization(locations, startLocation, matrix, prioritizeTrip),
+        matrix
+      );
+  }
+}
+
+function toStopEtas(stops: ScheduledStop[]): StopEta[] {
+  return stops.map((stop) => ({
+    rowId: stop.location.id,
+    arrival: formatTimeOfDay(stop.arrival),
+    serviceStart: formatTimeOfDay(stop.serviceStart),
+    departure: formatTimeOfDay(stop.departure),
+    waitMinutes: Math.round(stop.waitMinutes),
+    lateMinutes: Math.ceil(stop.lateMinutes),
+  }));
+}
+
+/**
+ * Minutes from leaving the depot until the vehicle is back, including
+ * service time and any wait for a window to open
+ */
+function shiftMinutes(
+  route: Location[],
+  startLocation: Coordinates,
+  matrix: DistanceMatrix,
+  departure: number
+): number {
+  if (route.length === 0) return 0;
+  const stops = simulateSchedule(route, startLocation, matrix, departure);
+  const last = stops[stops.length - 1];
+  return last.departure + matrix.durationMinutes(last.location, startLocation) - departure;
+}
+
+/**
+ * Split stops across vehicles (capacitated VRP, sequential construction)
+ * Each vehicle in turn takes the nearest unassigned stop that still fits
+ * its capacity and shift, then its stops are ordered with the selected
+ * algorithm; stops that push the ordered route past the shift go back to
+ * the pool for the next vehicle. Stops no vehicle can take are returned
+ * as unassigned.
+ */
+function splitAcrossVehicles(
+  locations: Location[],
+  vehicles: Vehicle[],
+  algorithm: Algorithm,
+  startLocation: Coordinates,
+  matrix: DistanceMatrix,
+  prioritizeTrip: boolean,
+  departure: number
+): { routes: { vehicle: Vehicle; locations: Location[] }[]; unassigned: Location[] } {
+  let pool = [...locations];
+  const routes: { vehicle: Vehicle; locations: Location[] }[] = [];
+
+  for (const vehicle of vehicles) {
+    const maxShift = vehicle.maxShiftMinutes ?? Infinity;
+    let assigned: Location[] = [];
+    let load = 0;
+
+    while (true) {
+      const last = assigned[assigned.length - 1];
+      const position = last ?? startLocation;
+      let nearestIndex = -1;
+      let nearestDistance = Infinity;
+
+      for (let i = 0; i < pool.length; i++) {
+        if (load + (pool[i].demand || 0) > vehicle.capacity) continue;
+        const distance = matrix.distanceKm(position, pool[i]);
+        if (distance < nearestDistance) {
+          nearestDistance = distance;
+          nearestIndex = i;
+        }
+      }
+      if (nearestIndex === -1) break;
+
+      const candidate = [...assigned, pool[nearestIndex]];
+      if (shiftMinutes(candidate, startLocation, matrix, departure) > maxShift) break;
+
+      assigned = candidate;
+      load += pool[nearestIndex].demand || 0;
+      pool.splice(nearestIndex, 1);
+    }
+
+    let ordered = sequenceLocations(assigned, algorithm, startLocation, matrix, prioritizeTrip, departure);
+    while (ordered.length > 0 && shiftMinutes(ordered, startLocation, matrix, departure) > maxShift) {
+      pool.push(ordered.pop()!);
+    }
+
+    routes.push({ vehicle, locations: ordered });
+  }
+
+  return { routes, unassigned: pool };
+}
+
 /**
  * Main optimization function
+ * @param startLocation Coordinates of the depot the route departs from
+ * @param vehicles When given, split the stops across these vehicles instead of one sequence
+ * @param matrix Road or straight-line distances between the depot and the rows
  */
 export function optimizeRoute(
   rows: TableRow[],
-  algorithm: "nearest_neighbor" | "genetic" | "simulated_annealing" = "nearest_neighbor",
-  startLocation: { latitude: number; longitude: number } = QL_KITCHEN_LOCATION,
-  prioritizeTrip: boolean = false
+  algorithm: Algorithm = "nearest_neighbor",
+  startLocation: Coordinates,
+  prioritizeTrip: boolean = false,
+  departureTime: string = DEFAULT_DEPARTURE_TIME,
+  vehicles?: Vehicle[],
+  matrix: DistanceMatrix = haversineMatrix
 ) {
   // Filter rows with valid coordinates
   const locationsWithData = rows
@@ -391,57 +645,89 @@ export function optimizeRoute(
         parseFloat(row.latitude) !== 0 &&
         parseFloat(row.longitude) !== 0
     )
-    .map((row) => ({
-      id: row.id,
-      latitude: parseFloat(row.latitude!),
-      longitude: parseFloat(row.longitude!),
-      name: row.location || "Unknown",
-      trip: row.delivery,
-    }));
+    .map((row) => {
+      const windowStart = parseTimeOfDay(row.windowStart);
+      let windowEnd = parseTimeOfDay(row.windowEnd);
+      // A window that closes before it opens runs past midnight
+      if (windowStart != null && windowEnd != null && windowEnd <= windowStart) {
+        windowEnd += MINUTES_PER_DAY;
+      }
+      return {
+        id: row.id,
+        latitude: parseFloat(row.latitude!),
+        longitude: parseFloat(row.longitude!),
+        name: row.location || "Unknown",
+        trip: row.delivery,
+        windowStart,
+        windowEnd,
+        serviceMinutes: row.serviceMinutes || 0,
+        demand: parseFloat(row.demand) || 0,
+      };
+    });
 
   if (locationsWithData.length === 0) {
     throw new Error("No valid locations with coordinates found");
   }
 
-  // Calculate original order distance
-  const originalDistance = calculateRouteDistance(
-    locationsWithData,
-    startLocation
-  );
+  const departure = parseTimeOfDay(departureTime) ?? parseTimeOfDay(DEFAULT_DEPARTURE_TIME)!;
 
-  // Run optimization based on selected algorithm
+  // Run optimization based on selected algorithm, per vehicle when splitting
   let optimizedLocations: Location[];
+  let optimizedDistance: number;
+  let vehicleRoutes: VehicleRoute[] | undefined;
+  let unassignedStops: string[] | undefined;
+
+  if (vehicles && vehicles.length > 0) {
+    const split = splitAcrossVehicles(
+      locationsWithData,
+      vehicles,
+      algorithm,
+      startLocation,
+      matrix,
+      prioritizeTrip,
+      departure
+    );
 
-  switch (algorithm) {
-    case "genetic":
-      optimizedLocations = geneticAlgorithmOptimization(
-        locationsWithData,
-        startLocation,
-        prioritizeTrip
-      );
-      break;
-    case "simulated_annealing":
-      optimizedLocations = simulatedAnnealingOptimization(
-        locationsWithData,
-        startLocation,
-        prioritizeTrip
-      );
-      break;
-    case "nearest_neighbor":
-    default:
-      const initial = nearestNeighborOptimization(
-        locationsWithData,
-        startLocation,
-        prioritizeTrip
-      );
-      optimizedLocations = twoOptOptimization(initial);
-      break;
+    vehicleRoutes = split.routes.map(({ vehicle, locations }) => ({
+      vehicle: vehicle.name,
+      capacity: vehicle.capacity,
+      load: parseFloat(locations.reduce((sum, l) => sum + (l.demand || 0), 0).toFixed(2)),
+      stops: locations.map((l) => l.id),
+      distance: parseFloat(calculateRouteDistance(locations, startLocation, matrix).toFixed(2)),
+      durationMinutes: Math.round(shiftMinutes(locations, startLocation, matrix, departure)),
+      ...(algorithm === "time_windows"
+        ? { schedule: toStopEtas(simulateSchedule(locations, startLocation, matrix, departure)) }
+        : {}),
+    }));
+    unassignedStops = split.unassigned.map((l) => l.id);
+    optimizedLocations = split.routes.flatMap((route) => route.locations);
+    optimizedDistance = split.routes.reduce(
+      (sum, route) => sum + calculateRouteDistance(route.locations, startLocation, matrix),
+      0
+    );
+  } else {
+    optimizedLocations = sequenceLocations(
+      locationsWithData,
+      algorithm,
+      startLocation,
+      matrix,
+      prioritizeTrip,
+      departure
+    );
+    optimizedDistance = calculateRouteDistance(
+      optimizedLocations,
+      startLocation,
+      matrix
+    );
   }
 
-  // Calculate optimized distance
-  const optimizedDistance = calculateRouteDistance(
-    optimizedLocations,
-    startLocation
+  // Calculate original order distance over the stops that were routed, so stops
+  // no vehicle could take are reported as unassigned rather than as savings
+  const routedIds = new Set(optimizedLocations.map((l) => l.id));
+  const originalDistance = calculateRouteDistance(
+    locationsWithData.filter((l) => routedIds.has(l.id)),
+    startLocation,
+    matrix
   );
 
   // Calculate savings
@@ -449,6 +735,14 @@ export function optimizeRoute(
   const timeSaved = (distanceSaved / AVERAGE_SPEED_KMH) * 60; // in minutes
   const fuelSaved = distanceSaved * FUEL_CONSUMPTION_PER_KM; // in liters
 
+  // ETAs are only meaningful when the order was built around the windows
+  let schedule: StopEta[] | undefined;
+  if (algorithm === "time_windows") {
+    schedule = vehicleRoutes
+      ? vehicleRoutes.flatMap((route) => route.schedule ?? [])
+      : toStopEtas(simulateSchedule(optimizedLocations, startLocation, matrix, departure));
+  }
+
   return {
     originalOrder: locationsWithData.map((l) => l.id),
     optimizedOrder: optimizedLocations.map((l) => l.id),
@@ -458,9 +752,14 @@ export function optimizeRoute(
     timeSaved: parseFloat(timeSaved.toFixed(2)),
     fuelSaved: parseFloat(fuelSaved.toFixed(2)),
     algorithm,
+    ...(schedule ? {
+      schedule,
+      lateStops: schedule.filter((stop) => stop.lateMinutes > 0).map((stop) => stop.rowId),
+    } : {}),
+    ...(vehicleRoutes ? { vehicleRoutes, unassignedStops } : {}),
     optimizationFactors: {
       distanceReduction: parseFloat(
-        ((distanceSaved / originalDistance) * 100).toFixed(2)
+        (originalDistance > 0 ? (distanceSaved / originalDistance) * 100 : 0).toFixed(2)
       ),
       timeEfficiency: parseFloat(timeSaved.toFixed(2)),
       fuelEfficiency: parseFloat(fuelSaved.toFixed(2)),
@@ -1,15 +1,55 @@
-import type { Express } from "express";
+import express, { type Express, type Request } from "express";
 import { createServer, type Server } from "http";
+import { createReadStream } from "fs";
+import { rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import multer from "multer";
 import { storage } from "./storage";
-import { insertTableRowSchema, insertTableColumnSchema, insertRouteOptimizationSchema, insertLayoutPreferencesSchema, insertPageSchema, insertSharedTableStateSchema, insertSavedShareLinkSchema, type RouteOptimizationRequest } from "@shared/schema";
+import { insertTableRowSchema, insertTableColumnSchema, insertRouteOptimizationSchema, insertLayoutPreferencesSchema, insertPageSchema, insertSharedTableStateSchema, insertSavedShareLinkSchema, updateUserSchema, insertDepotSchema, assignRouteDepotSchema, vehicleSchema, importRowsSchema, exportFormats, exportTableSchema, auditLogQuerySchema, reorderRowsSchema, insertDeliveryScheduleSchema, insertPublicHolidaySchema, dueRowsQuerySchema, isoDateSchema, generateManifestSchema, manifestQuerySchema, updateManifestStatusSchema, createStopCheckInSchema, manifestProgressQuerySchema, MAX_MEDIA_BYTES, MEDIA_UPLOAD_CHUNK_BYTES, createMediaUploadSchema, geocodeQuerySchema, reverseGeocodeQuerySchema, type UploadedMedia, type MediaUpload, type MediaUploadStatus, type TableRow, type TableColumn, distanceProviders, TEAM_DEFAULT_LAYOUT_USER_ID, type RouteOptimizationRequest } from "@shared/schema";
+import { resolveDepotForRoute, depotCoordinates } from "@shared/depots";
+import { customFieldsSchema, mergeCustomFields } from "@shared/customFields";
+import { isActiveRow } from "@shared/tableView";
+import { rowsDueOn } from "@shared/deliverySchedule";
+import { canChangeManifestStatus, isOpenManifest, acceptsCheckIns, manifestProgress } from "@shared/manifests";
+import { hasPermission } from "@shared/permissions";
+import { normalizeRowKeys, validateRowFields } from "./rowValidation";
+import { planRowImport } from "./rowImport";
+import { exportTable } from "./tableExport";
+import { optimizationToGpx } from "./geoFormats";
+import { planManifestStops, manifestToPdf } from "./manifests";
+import { recordAudit, requestActor, rowAuditEntries, rowTrashAuditEntry, columnAuditEntries, reorderAuditEntries } from "./audit";
 import { z } from "zod";
 import { optimizeRoute } from "./routeOptimizer";
+import { buildDistanceMatrix } from "./distanceMatrix";
 import { calculateTollPrice, calculateRoutesForDestinations } from "./googleMaps";
+import { setupAuth } from "./auth";
+import { registerPermissions } from "./permissions";
+import { subscribeToEvents, broadcast } from "./realtime";
+import { saveStreamedMedia, sweepUnreferencedMedia, toUploadedMedia, isAllowedMediaType, extractDataUrl, extractInlineMedia, extractRowMedia, parseByteRange, expectedPartSize, saveUploadPart, completeUpload, discardUpload, purgeExpiredUploads } from "./media";
+import { mediaStore } from "./mediaStore";
+import { geocodeAddress, reverseGeocode } from "./geocoding";
 
 // UUID validation schema
 const uuidSchema = z.string().uuid();
 
+// Multipart uploads for POST /api/media, spooled to temporary files and streamed into the media store
+const upload = multer({
+  dest: path.join(os.tmpdir(), "media-uploads"),
+  limits: { fileSize: MAX_MEDIA_BYTES, files: 20 },
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions and /api/login, /api/logout, /api/register, /api/user
+  setupAuth(app);
+  // Role checks for every mutating route; registered ahead of the handlers below
+  registerPermissions(app);
+
+  // Server-Sent Events stream of row, column, page and settings changes
+  app.get("/api/events", (req, res) => {
+    subscribeToEvents(req, res);
+  });
+
   // Table rows routes
   app.get("/api/table-rows", async (req, res) => {
     try {
@@ -20,6 +60,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Rows in the trash; registered before /:id so "trash" is not read as a row ID
+  app.get("/api/table-rows/trash", async (req, res) => {
+    try {
+      const rows = await storage.getDeletedTableRows();
+      res.json(rows);
+    } catch (error) {
+      console.error("Get deleted rows error:", error);
+      res.status(500).json({ message: "Failed to fetch deleted rows" });
+    }
+  });
+
+  // Active rows with a delivery on the given day (?date=YYYY-MM-DD), in table order
+  app.get("/api/table-rows/due", async (req, res) => {
+    try {
+      const { date } = dueRowsQuerySchema.parse(req.query);
+      const [rows, schedules, holidays] = await Promise.all([
+        storage.getTableRows(),
+        storage.getDeliverySchedules(),
+        storage.getPublicHolidays(),
+      ]);
+      res.json(rowsDueOn(rows.filter(isActiveRow), date, schedules, holidays));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid query", errors: error.errors });
+      } else {
+        console.error("Get due rows error:", error);
+        res.status(500).json({ message: "Failed to fetch due rows" });
+      }
+    }
+  });
+
+  // Reorders that can be undone, newest first
+  app.get("/api/table-rows/reorder-history", async (req, res) => {
+    try {
+      const snapshots = await storage.getRowOrderSnapshots();
+      res.json(snapshots.map(({ sortOrders, ...snapshot }) => snapshot));
+    } catch (error) {
+      console.error("Get reorder history error:", error);
+      res.status(500).json({ message: "Failed to fetch reorder history" });
+    }
+  });
+
   app.get("/api/table-rows/:id", async (req, res) => {
     try {
       // Validate UUID parameter
@@ -38,22 +120,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/ql-kitchen", async (req, res) => {
-    try {
-      const row = await storage.getQlKitchenRow();
-      if (!row) {
-        return res.status(404).json({ message: "QL Kitchen row not found" });
-      }
-      res.json(row);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch QL Kitchen row" });
-    }
-  });
-
   app.post("/api/table-rows", async (req, res) => {
     try {
-      const validatedData = insertTableRowSchema.parse(req.body);
+      const { customFields, ...fields } = req.body;
+      const validatedData = await extractRowMedia(insertTableRowSchema.parse(fields), requestActor(req));
+      if (customFields !== undefined) {
+        const columns = await storage.getTableColumns();
+        validatedData.customFields = mergeCustomFields({}, customFieldsSchema(columns).parse(customFields));
+      }
       const row = await storage.createTableRow(validatedData);
+      await recordAudit(req, actor => rowAuditEntries(undefined, row, actor));
+      broadcast({ type: "rows:upserted", rows: [row] });
       res.status(201).json(row);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -72,34 +149,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid row ID format" });
       }
       
-      // Normalize snake_case keys to camelCase for consistency
-      const normalizedBody = Object.fromEntries(
-        Object.entries(req.body).map(([key, value]) => {
-          const camelKey = key.replace(/_([a-z])/g, (match, letter) => letter.toUpperCase());
-          return [camelKey, value];
-        })
-      );
+      const normalizedBody = normalizeRowKeys(req.body);
+      const fieldError = validateRowFields(normalizedBody);
+      if (fieldError) {
+        return res.status(400).json(fieldError);
+      }
 
-      // Special validation for currency field (tngRoute)
-      if (normalizedBody.tngRoute !== undefined) {
-        const currencyValue = String(normalizedBody.tngRoute);
-        if (currencyValue !== "" && isNaN(Number(currencyValue))) {
-          return res.status(400).json({ 
-            message: "Invalid currency value", 
-            details: "Currency value must be a number" 
-          });
-        }
-        // Format currency as decimal string with 2 decimal places if it's a number
-        if (currencyValue !== "" && !isNaN(Number(currencyValue))) {
-          normalizedBody.tngRoute = Number(currencyValue).toFixed(2);
-        }
+      const { customFields, ...fields } = normalizedBody;
+      const updates = await extractRowMedia(insertTableRowSchema.partial().parse(fields), requestActor(req));
+
+      const existingRow = await storage.getTableRow(req.params.id);
+      if (!existingRow) {
+        return res.status(404).json({ message: "Row not found" });
       }
-      
-      const updates = insertTableRowSchema.partial().parse(normalizedBody);
+
+      // Custom column values are validated against their column and merged into the stored map
+      if (customFields !== undefined) {
+        const columns = await storage.getTableColumns();
+        updates.customFields = mergeCustomFields(existingRow.customFields, customFieldsSchema(columns).parse(customFields));
+      }
+
       const row = await storage.updateTableRow(req.params.id, updates);
       if (!row) {
         return res.status(404).json({ message: "Row not found" });
       }
+      await recordAudit(req, actor => rowAuditEntries(existingRow, row, actor));
+      broadcast({ type: "rows:upserted", rows: [row] });
       res.json(row);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -119,34 +194,186 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid row ID format" });
       }
       
-      const success = await storage.deleteTableRow(req.params.id);
+      const existingRow = await storage.getTableRow(req.params.id);
+      const success = existingRow ? await storage.deleteTableRow(req.params.id) : false;
       if (!success) {
         return res.status(404).json({ message: "Row not found" });
       }
+      await recordAudit(req, actor => rowAuditEntries(existingRow, undefined, actor));
+      broadcast({ type: "rows:deleted", ids: [req.params.id] });
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ message: "Failed to delete table row" });
     }
   });
 
-  app.post("/api/table-rows/reorder", async (req, res) => {
+  // Move a row from the trash back into the table
+  app.post("/api/table-rows/:id/restore", async (req, res) => {
     try {
-      const { rowIds } = req.body;
-      if (!Array.isArray(rowIds)) {
-        return res.status(400).json({ message: "rowIds must be an array" });
+      const validationResult = uuidSchema.safeParse(req.params.id);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid row ID format" });
       }
-      
-      // Validate all IDs are UUIDs
-      for (const id of rowIds) {
-        const validationResult = uuidSchema.safeParse(id);
-        if (!validationResult.success) {
-          return res.status(400).json({ message: "All row IDs must be valid UUIDs" });
-        }
+
+      const row = await storage.restoreTableRow(req.params.id);
+      if (!row) {
+        return res.status(404).json({ message: "Row not found in trash" });
+      }
+      await recordAudit(req, actor => [rowTrashAuditEntry("restore", row, actor)]);
+      broadcast({ type: "rows:upserted", rows: [row] });
+      res.json(row);
+    } catch (error) {
+      console.error("Restore row error:", error);
+      res.status(500).json({ message: "Failed to restore table row" });
+    }
+  });
+
+  // Permanently delete a row that is already in the trash
+  app.delete("/api/table-rows/:id/purge", async (req, res) => {
+    try {
+      const validationResult = uuidSchema.safeParse(req.params.id);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid row ID format" });
+      }
+
+      const deletedRows = await storage.getDeletedTableRows();
+      const row = deletedRows.find(deletedRow => deletedRow.id === req.params.id);
+      const success = row ? await storage.purgeTableRow(req.params.id) : false;
+      if (!row || !success) {
+        return res.status(404).json({ message: "Row not found in trash" });
       }
+      await recordAudit(req, actor => [rowTrashAuditEntry("purge", row, actor)]);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Purge row error:", error);
+      res.status(500).json({ message: "Failed to permanently delete table row" });
+    }
+  });
+
+  // Snapshots the current order first so the reorder can be undone
+  app.post("/api/table-rows/reorder", async (req, res) => {
+    try {
+      const { rowIds, label } = reorderRowsSchema.parse(req.body);
+      const previousRows = await storage.getTableRows();
+      await storage.saveRowOrderSnapshot({
+        label,
+        sortOrders: Object.fromEntries(previousRows.map(row => [row.id, row.sortOrder])),
+        ...requestActor(req),
+      });
       const rows = await storage.reorderTableRows(rowIds);
+      await recordAudit(req, actor => reorderAuditEntries("row", previousRows, rows, actor));
+      broadcast({ type: "rows:reordered", sortOrders: Object.fromEntries(rows.map(row => [row.id, row.sortOrder])) });
+      res.json(rows);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to reorder table rows" });
+      }
+    }
+  });
+
+  // Put back the order from before the most recent reorder
+  app.post("/api/table-rows/reorder/undo", async (req, res) => {
+    try {
+      const previousRows = await storage.getTableRows();
+      const snapshot = await storage.undoLastReorder();
+      if (!snapshot) {
+        return res.status(404).json({ message: "There is no reorder to undo" });
+      }
+      const rows = await storage.getTableRows();
+      await recordAudit(req, actor => reorderAuditEntries("row", previousRows, rows, actor));
+      broadcast({ type: "rows:reordered", sortOrders: Object.fromEntries(rows.map(row => [row.id, row.sortOrder])) });
       res.json(rows);
     } catch (error) {
-      res.status(500).json({ message: "Failed to reorder table rows" });
+      console.error("Undo reorder error:", error);
+      res.status(500).json({ message: "Failed to undo reorder" });
+    }
+  });
+
+  // Spreadsheet import; dryRun returns the preview without writing
+  app.post("/api/table-rows/import", async (req, res) => {
+    try {
+      const { rows: records, dryRun } = importRowsSchema.parse(req.body);
+      const [existingRows, columns] = await Promise.all([
+        storage.getTableRows(),
+        storage.getTableColumns(),
+      ]);
+      const plan = planRowImport(records, existingRows, columns);
+
+      if (dryRun) {
+        return res.json(plan.preview);
+      }
+      if (plan.preview.errors > 0) {
+        return res.status(400).json({
+          message: "Fix the rows with errors before importing",
+          preview: plan.preview,
+        });
+      }
+
+      const written = await storage.importTableRows(plan.inserts, plan.updates);
+      const existingById = new Map(existingRows.map(row => [row.id, row]));
+      await recordAudit(req, actor => written.flatMap(row => rowAuditEntries(existingById.get(row.id), row, actor)));
+      broadcast({ type: "rows:upserted", rows: written });
+      res.json(plan.preview);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Row import error:", error);
+        res.status(500).json({ message: "Failed to import table rows" });
+      }
+    }
+  });
+
+  // Export the table as displayed; the client sends the rows and columns it shows, in order
+  app.post("/api/export/:format", async (req, res) => {
+    try {
+      const format = z.enum(exportFormats).parse(req.params.format);
+      const request = exportTableSchema.parse(req.body);
+      const [allRows, allColumns] = await Promise.all([
+        storage.getTableRows(),
+        storage.getTableColumns(),
+      ]);
+      const rowsById = new Map(allRows.map(row => [row.id, row]));
+      const columnsById = new Map(allColumns.map(column => [column.id, column]));
+
+      const file = await exportTable(format, {
+        rows: request.rowIds.map(id => rowsById.get(id)).filter((row): row is TableRow => row !== undefined),
+        columns: request.columnIds.map(id => columnsById.get(id)).filter((column): column is TableColumn => column !== undefined),
+        kilometers: request.kilometers ?? {},
+        filters: request.filters,
+        sorting: request.sorting,
+      });
+
+      res.set({
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.fileName}"`,
+      });
+      res.send(file.body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Table export error:", error);
+        res.status(500).json({ message: "Failed to export table" });
+      }
+    }
+  });
+
+  // Change history, newest first; filter by record and/or time range
+  app.get("/api/audit-log", async (req, res) => {
+    try {
+      const query = auditLogQuerySchema.parse(req.query);
+      const entries = await storage.getAuditEntries(query);
+      res.json(entries);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Audit log query error:", error);
+        res.status(500).json({ message: "Failed to fetch audit log" });
+      }
     }
   });
 
@@ -164,6 +391,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const validatedData = insertTableColumnSchema.parse(req.body);
       const column = await storage.createTableColumn(validatedData);
+      await recordAudit(req, actor => columnAuditEntries(undefined, column, actor));
+      broadcast({ type: "columns:upserted", columns: [column] });
       res.status(201).json(column);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -183,10 +412,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const updates = insertTableColumnSchema.partial().parse(req.body);
-      const column = await storage.updateTableColumn(req.params.id, updates);
+      const existingColumn = await storage.getTableColumn(req.params.id);
+      const column = existingColumn ? await storage.updateTableColumn(req.params.id, updates) : undefined;
       if (!column) {
         return res.status(404).json({ message: "Column not found" });
       }
+      await recordAudit(req, actor => columnAuditEntries(existingColumn, column, actor));
+      broadcast({ type: "columns:upserted", columns: [column] });
       res.json(column);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -211,7 +443,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(400).json({ message: "All column IDs must be valid UUIDs" });
         }
       }
+      const previousColumns = await storage.getTableColumns();
       const columns = await storage.reorderTableColumns(columnIds);
+      await recordAudit(req, actor => reorderAuditEntries("column", previousColumns, columns, actor));
+      broadcast({ type: "columns:reordered", sortOrders: Object.fromEntries(columns.map(column => [column.id, column.sortOrder])) });
       res.json(columns);
     } catch (error) {
       res.status(500).json({ message: "Failed to reorder table columns" });
@@ -226,10 +461,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid column ID format" });
       }
       
-      const success = await storage.deleteTableColumn(req.params.id);
+      const existingColumn = await storage.getTableColumn(req.params.id);
+      const success = existingColumn ? await storage.deleteTableColumn(req.params.id) : false;
       if (!success) {
         return res.status(404).json({ message: "Column not found" });
       }
+      await recordAudit(req, actor => columnAuditEntries(existingColumn, undefined, actor));
+      broadcast({ type: "columns:deleted", ids: [req.params.id] });
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ message: "Failed to delete table column" });
@@ -245,10 +483,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid row ID format" });
       }
       
-      const { imageUrl, caption } = req.body;
-      if (!imageUrl || typeof imageUrl !== 'string') {
+      const { caption } = req.body;
+      if (!req.body.imageUrl || typeof req.body.imageUrl !== 'string') {
         return res.status(400).json({ message: "imageUrl is required" });
       }
+      // Embedded files go to the media store; the row keeps only the URL
+      const imageUrl = await extractDataUrl(req.body.imageUrl, requestActor(req), caption);
 
       const row = await storage.getTableRow(req.params.id);
       if (!row) {
@@ -261,13 +501,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Image URL already exists for this row" });
       }
 
-      const newImage = {
+      // Stored images carry their size and resized variants
+      const { images: [newImage] } = await extractInlineMedia([{
         url: imageUrl,
         caption: caption && typeof caption === 'string' ? caption : "",
         type: "image" as const,
-      };
+      }], requestActor(req));
       const updatedImages = [...row.images, newImage];
       const updatedRow = await storage.updateTableRow(req.params.id, { images: updatedImages });
+      if (updatedRow) {
+        await recordAudit(req, actor => rowAuditEntries(row, updatedRow, actor));
+        broadcast({ type: "rows:upserted", rows: [updatedRow] });
+      }
       res.json(updatedRow);
     } catch (error) {
       res.status(500).json({ message: "Failed to add image to row" });
@@ -283,7 +528,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid row ID format" });
       }
       
-      const { imageUrl, caption } = req.body;
+      const { caption } = req.body;
+      const imageUrl = typeof req.body.imageUrl === "string"
+        ? await extractDataUrl(req.body.imageUrl, requestActor(req), caption)
+        : req.body.imageUrl;
       const imageIndex = parseInt(req.params.imageIndex);
       
       // Validate imageIndex is a valid integer
@@ -309,14 +557,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const updatedImages = [...row.images];
+      const current = updatedImages[imageIndex];
+      const replaced = imageUrl !== undefined && imageUrl !== current.url;
       updatedImages[imageIndex] = {
-        url: imageUrl !== undefined ? imageUrl : updatedImages[imageIndex].url,
-        caption: caption !== undefined ? caption : updatedImages[imageIndex].caption,
-        type: updatedImages[imageIndex].type || "image",
-        thumbnail: updatedImages[imageIndex].thumbnail
+        url: imageUrl !== undefined ? imageUrl : current.url,
+        caption: caption !== undefined ? caption : current.caption,
+        type: current.type || "image",
+        thumbnail: current.thumbnail,
+        // A new URL is a different file; its size and variants are looked up again
+        ...(!replaced && { mimeType: current.mimeType, width: current.width, height: current.height, variants: current.variants }),
       };
+      if (replaced) {
+        updatedImages[imageIndex] = (await extractInlineMedia([updatedImages[imageIndex]], requestActor(req))).images[0];
+      }
       
       const updatedRow = await storage.updateTableRow(req.params.id, { images: updatedImages });
+      if (updatedRow) {
+        await recordAudit(req, actor => rowAuditEntries(row, updatedRow, actor));
+        broadcast({ type: "rows:upserted", rows: [updatedRow] });
+      }
       res.json(updatedRow);
     } catch (error) {
       res.status(500).json({ message: "Failed to update image" });
@@ -357,12 +616,256 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const updatedRow = await storage.updateTableRow(req.params.id, { images: updatedImages });
+      if (updatedRow) {
+        await recordAudit(req, actor => rowAuditEntries(row, updatedRow, actor));
+        broadcast({ type: "rows:upserted", rows: [updatedRow] });
+      }
       res.json(updatedRow);
     } catch (error) {
       res.status(500).json({ message: "Failed to delete image(s)" });
     }
   });
 
+  // Upload photos and videos (multipart field "files"); the returned URLs go into row images
+  app.post("/api/media", (req, res, next) => {
+    upload.array("files")(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        const tooLarge = error.code === "LIMIT_FILE_SIZE";
+        return res.status(tooLarge ? 413 : 400).json({
+          message: tooLarge ? `Files may be at most ${MAX_MEDIA_BYTES / 1024 / 1024} MB` : error.message,
+        });
+      }
+      next(error);
+    });
+  }, async (req, res) => {
+    const files = (req.files ?? []) as Express.Multer.File[];
+    try {
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No files were uploaded" });
+      }
+      const rejected = files.find(file => !isAllowedMediaType(file.mimetype));
+      if (rejected) {
+        return res.status(415).json({ message: `${rejected.originalname} is not an image or video` });
+      }
+
+      const uploaded: UploadedMedia[] = [];
+      for (const file of files) {
+        const stored = await saveStreamedMedia(() => createReadStream(file.path), file.size, file.mimetype, file.originalname, requestActor(req));
+        uploaded.push(toUploadedMedia(stored, file.originalname));
+      }
+      res.status(201).json(uploaded);
+      // Uploads never attached to a row are deleted once they are a week old
+      void sweepUnreferencedMedia();
+    } catch (error) {
+      console.error("Media upload error:", error);
+      res.status(500).json({ message: "Failed to upload media" });
+    } finally {
+      await Promise.all(files.map(file => rm(file.path, { force: true })));
+    }
+  });
+
+  // Chunked uploads for large videos: start one, send its parts in any order (retrying freely),
+  // then complete it. GET reports the parts received so an interrupted upload can resume.
+  const ownUpload = async (req: Request) => {
+    if (!uuidSchema.safeParse(req.params.id).success) return undefined;
+    const upload = await storage.getMediaUpload(req.params.id);
+    // Another user's upload is treated as missing
+    return upload && upload.userId === requestActor(req).userId ? upload : undefined;
+  };
+  const uploadStatus = async (upload: MediaUpload): Promise<MediaUploadStatus> => ({
+    id: upload.id,
+    sizeBytes: upload.sizeBytes,
+    chunkSize: upload.chunkSize,
+    totalChunks: upload.totalChunks,
+    receivedParts: await storage.getMediaUploadParts(upload.id),
+  });
+
+  app.post("/api/media/uploads", async (req, res) => {
+    try {
+      const validatedData = createMediaUploadSchema.parse(req.body);
+      if (!isAllowedMediaType(validatedData.mimeType)) {
+        return res.status(415).json({ message: `${validatedData.originalName || "The file"} is not an image or video` });
+      }
+
+      await purgeExpiredUploads();
+      const upload = await storage.createMediaUpload({
+        ...validatedData,
+        chunkSize: MEDIA_UPLOAD_CHUNK_BYTES,
+        totalChunks: Math.ceil(validatedData.sizeBytes / MEDIA_UPLOAD_CHUNK_BYTES),
+        ...requestActor(req),
+      });
+      res.status(201).json(await uploadStatus(upload));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Start upload error:", error);
+        res.status(500).json({ message: "Failed to start upload" });
+      }
+    }
+  });
+
+  app.get("/api/media/uploads/:id", async (req, res) => {
+    try {
+      const upload = await ownUpload(req);
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      res.json(await uploadStatus(upload));
+    } catch (error) {
+      console.error("Get upload error:", error);
+      res.status(500).json({ message: "Failed to fetch upload" });
+    }
+  });
+
+  app.put(
+    "/api/media/uploads/:id/parts/:index",
+    express.raw({ type: "application/octet-stream", limit: MEDIA_UPLOAD_CHUNK_BYTES }),
+    async (req, res) => {
+      try {
+        const upload = await ownUpload(req);
+        if (!upload) {
+          return res.status(404).json({ message: "Upload not found" });
+        }
+        const index = Number(req.params.index);
+        if (!Number.isInteger(index) || index < 0 || index >= upload.totalChunks) {
+          return res.status(400).json({ message: `Part index must be between 0 and ${upload.totalChunks - 1}` });
+        }
+        const data: unknown = req.body;
+        if (!Buffer.isBuffer(data) || data.length !== expectedPartSize(upload, index)) {
+          return res.status(400).json({ message: `Part ${index} must be ${expectedPartSize(upload, index)} bytes of application/octet-stream` });
+        }
+
+        await saveUploadPart(upload, index, data);
+        res.status(204).end();
+      } catch (error) {
+        console.error("Upload part error:", error);
+        res.status(500).json({ message: "Failed to store upload part" });
+      }
+    },
+  );
+
+  app.post("/api/media/uploads/:id/complete", async (req, res) => {
+    try {
+      const upload = await ownUpload(req);
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      const received = new Set(await storage.getMediaUploadParts(upload.id));
+      const missingParts = Array.from({ length: upload.totalChunks }, (_, index) => index).filter(index => !received.has(index));
+      if (missingParts.length > 0) {
+        return res.status(409).json({ message: `${missingParts.length} part(s) have not been received`, missingParts });
+      }
+
+      const stored = await completeUpload(upload, requestActor(req));
+      res.status(201).json(toUploadedMedia(stored, upload.originalName));
+      void sweepUnreferencedMedia();
+    } catch (error) {
+      console.error("Complete upload error:", error);
+      res.status(500).json({ message: "Failed to complete upload" });
+    }
+  });
+
+  app.delete("/api/media/uploads/:id", async (req, res) => {
+    try {
+      const upload = await ownUpload(req);
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      await discardUpload(upload);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Abort upload error:", error);
+      res.status(500).json({ message: "Failed to abort upload" });
+    }
+  });
+
+  // Serve a stored file; supports Range requests so videos can seek
+  app.get("/api/media/:id", async (req, res) => {
+    try {
+      const validationResult = uuidSchema.safeParse(req.params.id);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid media ID format" });
+      }
+
+      const file = await storage.getMediaFile(req.params.id);
+      if (!file) {
+        return res.status(404).json({ message: "Media not found" });
+      }
+
+      // Stored files never change, so the content hash is a permanent ETag
+      const etag = `"${file.sha256}"`;
+      res.setHeader("ETag", etag);
+      res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+      res.setHeader("Accept-Ranges", "bytes");
+      if (req.headers["if-none-match"] === etag) {
+        return res.status(304).end();
+      }
+
+      const range = parseByteRange(req.headers.range, file.sizeBytes);
+      if (range === "unsatisfiable") {
+        res.setHeader("Content-Range", `bytes */${file.sizeBytes}`);
+        return res.status(416).end();
+      }
+
+      const stream = await mediaStore.read(file.storageKey, range ?? undefined);
+      res.setHeader("Content-Type", file.mimeType);
+      if (range) {
+        res.status(206);
+        res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${file.sizeBytes}`);
+        res.setHeader("Content-Length", range.end - range.start + 1);
+      } else {
+        res.setHeader("Content-Length", file.sizeBytes);
+      }
+      stream.on("error", (error) => {
+        console.error("Media stream error:", error);
+        res.destroy(error);
+      });
+      stream.pipe(res);
+    } catch (error) {
+      console.error("Get media error:", error);
+      res.status(500).json({ message: "Failed to fetch media" });
+    }
+  });
+
+  // Coordinates for an address, from the configured geocoding provider
+  app.get("/api/geocode", async (req, res) => {
+    try {
+      const { address, provider } = geocodeQuerySchema.parse(req.query);
+      const result = await geocodeAddress(address, provider);
+      if (!result) {
+        return res.status(404).json({ message: "No place found for that address" });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Geocode error:", error);
+        res.status(500).json({ message: "Failed to geocode address" });
+      }
+    }
+  });
+
+  // The address at a pair of coordinates
+  app.get("/api/reverse-geocode", async (req, res) => {
+    try {
+      const { latitude, longitude, provider } = reverseGeocodeQuerySchema.parse(req.query);
+      const result = await reverseGeocode({ latitude, longitude }, provider);
+      if (!result) {
+        return res.status(404).json({ message: "No address found at those coordinates" });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Reverse geocode error:", error);
+        res.status(500).json({ message: "Failed to look up address" });
+      }
+    }
+  });
+
   // QR Image Proxy to handle CORS issues
   app.get("/api/proxy-image", async (req, res) => {
     try {
@@ -445,33 +948,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
         rows = allRows.filter(row => validatedData.rowIds!.includes(row.id));
       } else {
         rows = await storage.getTableRows();
-        // Filter out the QL Kitchen row (sortOrder -1)
-        rows = rows.filter(row => row.sortOrder !== -1);
+      }
+      // Inactive sites are not visited
+      rows = rows.filter(isActiveRow);
+
+      // Each row's route starts from its assigned depot (or the default depot)
+      const [allDepots, assignments] = await Promise.all([storage.getDepots(), storage.getRouteDepots()]);
+      if (allDepots.length === 0) {
+        return res.status(400).json({ message: "No depot configured to calculate routes from" });
       }
 
       // Calculate distances and toll prices for lorry-optimized routes
-      const routeData = await calculateRoutesForDestinations(rows);
+      const routeData = await calculateRoutesForDestinations(rows, (row) =>
+        depotCoordinates(resolveDepotForRoute(row.route, allDepots, assignments)!)
+      );
 
-      // Update rows with distances and toll prices
+      // Save road distance, drive time and toll price; a 0 km result means Google had no route
+      const updatedRows: TableRow[] = [];
       for (const row of rows) {
-        const updates: any = {};
-        
-        if (routeData.distances[row.id] !== undefined) {
-          updates.kilometer = routeData.distances[row.id].toString();
-        }
-        
-        if (routeData.tollPrices[row.id] !== undefined) {
-          updates.tollPrice = routeData.tollPrices[row.id].toFixed(2);
-        }
-        
-        if (Object.keys(updates).length > 0) {
-          await storage.updateTableRow(row.id, updates);
-        }
+        const distanceKm = routeData.distances[row.id];
+        if (!distanceKm) continue;
+
+        const updatedRow = await storage.setRowRouteMetrics(row.id, {
+          kilometer: distanceKm.toFixed(2),
+          driveMinutes: routeData.durations[row.id] ?? null,
+          tollPrice: (routeData.tollPrices[row.id] ?? 0).toFixed(2),
+        });
+        if (updatedRow) updatedRows.push(updatedRow);
       }
+      broadcast({ type: "rows:upserted", rows: updatedRows });
 
       res.json({ 
         success: true, 
         distances: routeData.distances,
+        durations: routeData.durations,
         tollPrices: routeData.tollPrices,
         message: `Updated distances and toll prices for ${Object.keys(routeData.tollPrices).length} destinations`
       });
@@ -494,8 +1004,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           latitude: z.number(),
           longitude: z.number(),
         }).optional(),
-        algorithm: z.enum(['nearest_neighbor', 'genetic', 'simulated_annealing']).optional(),
+        depotId: z.string().uuid().optional(),
+        algorithm: z.enum(['nearest_neighbor', 'genetic', 'simulated_annealing', 'time_windows']).optional(),
         prioritizeTrip: z.boolean().optional(),
+        departureTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Departure time must be in HH:MM (24-hour) format").optional(),
+        vehicles: z.array(vehicleSchema).max(20).optional(),
+        distanceProvider: z.enum(distanceProviders).optional(),
         maxDistance: z.number().optional(),
         vehicleSpecs: z.object({
           type: z.string(),
@@ -513,9 +1027,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         rows = allRows.filter(row => validatedData.rowIds!.includes(row.id));
       } else {
         rows = await storage.getTableRows();
-        // Filter out the QL Kitchen row (sortOrder -1)
-        rows = rows.filter(row => row.sortOrder !== -1);
       }
+      // Inactive sites are not visited
+      rows = rows.filter(isActiveRow);
 
       // Filter to only rows with valid coordinates
       const validRows = rows.filter(row => 
@@ -533,15 +1047,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      // Start from an explicit location, the requested depot, or the depot of the rows' route
+      let startLocation = validatedData.startLocation;
+      let depotId = validatedData.depotId;
+      if (!startLocation) {
+        const [allDepots, assignments] = await Promise.all([storage.getDepots(), storage.getRouteDepots()]);
+        let depot;
+        if (depotId) {
+          depot = allDepots.find(d => d.id === depotId);
+          if (!depot) {
+            return res.status(404).json({ message: "Depot not found" });
+          }
+        } else {
+          const routeDepotIds = new Set(
+            validRows.map(row => resolveDepotForRoute(row.route, allDepots, assignments)?.id)
+          );
+          if (routeDepotIds.size > 1) {
+            return res.status(400).json({
+              message: "The selected rows belong to routes served by different depots. Choose a depot to optimize from."
+            });
+          }
+          depot = resolveDepotForRoute(validRows[0].route, allDepots, assignments);
+          if (!depot) {
+            return res.status(400).json({ message: "No depot configured to optimize from" });
+          }
+        }
+        depotId = depot.id;
+        startLocation = depotCoordinates(depot);
+      }
+
+      // Road distances between the depot and every stop, cached per provider
+      const matrix = await buildDistanceMatrix(
+        [
+          startLocation,
+          ...validRows.map(row => ({ latitude: parseFloat(row.latitude!), longitude: parseFloat(row.longitude!) })),
+        ],
+        validatedData.distanceProvider
+      );
+
       // Run optimization on valid rows only
       const result = optimizeRoute(
         validRows,
         validatedData.algorithm || 'nearest_neighbor',
-        validatedData.startLocation,
-        validatedData.prioritizeDelivery || false
+        startLocation,
+        validatedData.prioritizeDelivery || false,
+        validatedData.departureTime,
+        validatedData.vehicles,
+        matrix
       );
 
-      res.json(result);
+      res.json({ ...result, depotId, distanceProvider: matrix.provider });
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid request data", errors: error.errors });
@@ -600,6 +1155,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Download a saved route as GPX, one ordered route per vehicle
+  app.get("/api/saved-routes/:id/gpx", async (req, res) => {
+    try {
+      const validationResult = uuidSchema.safeParse(req.params.id);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid route ID format" });
+      }
+
+      const savedRoute = await storage.getSavedRoute(req.params.id);
+      if (!savedRoute) {
+        return res.status(404).json({ message: "Saved route not found" });
+      }
+      const rows = await storage.getTableRows();
+      const date = savedRoute.createdAt.toISOString().slice(0, 10);
+
+      res.set({
+        "Content-Type": "application/gpx+xml",
+        "Content-Disposition": `attachment; filename="route-${date}.gpx"`,
+      });
+      res.send(optimizationToGpx(savedRoute, rows));
+    } catch (error) {
+      console.error("Saved route GPX error:", error);
+      res.status(500).json({ message: "Failed to export saved route" });
+    }
+  });
+
   // Delete a saved route
   app.delete("/api/saved-routes/:id", async (req, res) => {
     try {
@@ -620,20 +1201,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Layout preferences routes
+  // Signed-in users get their own layout, falling back to the team default
   app.get("/api/layout", async (req, res) => {
     try {
-      const userIdSchema = z.string().min(1, "userId cannot be empty");
-      const validationResult = userIdSchema.safeParse(req.query.userId);
-      
-      if (!validationResult.success) {
-        return res.status(400).json({ 
-          message: "userId is required",
-          errors: validationResult.error.errors 
-        });
-      }
-      
-      const userId = validationResult.data;
-      const layout = await storage.getLayoutPreferences(userId);
+      const ownLayout = req.isAuthenticated()
+        ? await storage.getLayoutPreferences(String(req.user.id))
+        : undefined;
+      const layout = ownLayout ?? await storage.getLayoutPreferences(TEAM_DEFAULT_LAYOUT_USER_ID);
       
       if (!layout) {
         return res.status(404).json({ message: "No saved layout found" });
@@ -648,27 +1222,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/layout", async (req, res) => {
     try {
-      const userIdSchema = z.string().min(1, "userId cannot be empty");
-      const userIdValidation = userIdSchema.safeParse(req.body.userId);
+      // The layout always belongs to the session user; a userId in the body is ignored
+      const { userId: _, ...layoutData } = req.body;
+      const validatedData = insertLayoutPreferencesSchema.parse(layoutData);
+      const layout = await storage.saveLayoutPreferences(String(req.user!.id), validatedData);
+      res.status(200).json(layout);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Save layout preferences error:", error);
+        res.status(500).json({ message: "Failed to save layout preferences" });
+      }
+    }
+  });
+
+  // Drop the user's own layout so they inherit the team default again
+  app.delete("/api/layout", async (req, res) => {
+    try {
+      await storage.deleteLayoutPreferences(String(req.user!.id));
+      res.status(204).send();
+    } catch (error) {
+      console.error("Reset layout preferences error:", error);
+      res.status(500).json({ message: "Failed to reset layout preferences" });
+    }
+  });
+
+  app.get("/api/layout/default", async (req, res) => {
+    try {
+      const layout = await storage.getLayoutPreferences(TEAM_DEFAULT_LAYOUT_USER_ID);
       
-      if (!userIdValidation.success) {
-        return res.status(400).json({ 
-          message: "userId is required",
-          errors: userIdValidation.error.errors 
-        });
+      if (!layout) {
+        return res.status(404).json({ message: "No team default layout found" });
       }
       
-      const userId = userIdValidation.data;
+      res.json(layout);
+    } catch (error) {
+      console.error("Get team default layout error:", error);
+      res.status(500).json({ message: "Failed to fetch team default layout" });
+    }
+  });
+
+  app.put("/api/layout/default", async (req, res) => {
+    try {
       const { userId: _, ...layoutData } = req.body;
       const validatedData = insertLayoutPreferencesSchema.parse(layoutData);
-      const layout = await storage.saveLayoutPreferences(userId, validatedData);
+      const layout = await storage.saveLayoutPreferences(TEAM_DEFAULT_LAYOUT_USER_ID, validatedData);
       res.status(200).json(layout);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
       } else {
-        console.error("Save layout preferences error:", error);
-        res.status(500).json({ message: "Failed to save layout preferences" });
+        console.error("Save team default layout error:", error);
+        res.status(500).json({ message: "Failed to save team default layout" });
       }
     }
   });
@@ -706,6 +1312,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const validatedData = insertPageSchema.parse(req.body);
       const page = await storage.createPage(validatedData);
+      broadcast({ type: "invalidate", queryKey: ["/api/pages"] });
       res.status(201).json(page);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -729,6 +1336,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!page) {
         return res.status(404).json({ message: "Page not found" });
       }
+      broadcast({ type: "invalidate", queryKey: ["/api/pages"] });
       res.json(page);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -751,6 +1359,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!success) {
         return res.status(404).json({ message: "Page not found" });
       }
+      broadcast({ type: "invalidate", queryKey: ["/api/pages"] });
       res.status(204).send();
     } catch (error) {
       console.error("Delete page error:", error);
@@ -785,6 +1394,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       const { key, value } = schema.parse(req.body);
       const setting = await storage.setGlobalSetting(key, value);
+      broadcast({ type: "invalidate", queryKey: ["/api/global-settings", key] });
       res.json(setting);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -886,6 +1496,501 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Depot routes
+
+  // Where each route departs from, as coordinates, for comparing before and after a depot change
+  const routeOrigins = async () => {
+    const [allDepots, assignments] = await Promise.all([storage.getDepots(), storage.getRouteDepots()]);
+    return (route: string) => {
+      const depot = resolveDepotForRoute(route, allDepots, assignments);
+      return depot ? `${depot.latitude},${depot.longitude}` : "";
+    };
+  };
+
+  // Road distances were measured from the old origin; clearing them makes the table fall back to the estimate
+  const clearMetricsOfMovedRoutes = async (before: (route: string) => string) => {
+    const after = await routeOrigins();
+    const rows = [...await storage.getTableRows(), ...await storage.getDeletedTableRows()];
+    const moved = Array.from(new Set(rows.map(row => row.route))).filter(route => before(route) !== after(route));
+    const cleared = await storage.clearRouteMetrics(moved);
+    if (cleared.length > 0) broadcast({ type: "rows:upserted", rows: cleared });
+  };
+
+  app.get("/api/depots", async (req, res) => {
+    try {
+      const depots = await storage.getDepots();
+      res.json(depots);
+    } catch (error) {
+      console.error("Get depots error:", error);
+      res.status(500).json({ message: "Failed to fetch depots" });
+    }
+  });
+
+  app.post("/api/depots", async (req, res) => {
+    try {
+      const validatedData = insertDepotSchema.parse(req.body);
+      const before = await routeOrigins();
+      const depot = await storage.createDepot(validatedData);
+      await clearMetricsOfMovedRoutes(before);
+      res.status(201).json(depot);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Create depot error:", error);
+        res.status(500).json({ message: "Failed to create depot" });
+      }
+    }
+  });
+
+  app.patch("/api/depots/:id", async (req, res) => {
+    try {
+      const validationResult = uuidSchema.safeParse(req.params.id);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid depot ID format" });
+      }
+
+      const updates = insertDepotSchema.partial().parse(req.body);
+      // Unsetting the default would leave unassigned routes without a depot; mark another depot default instead
+      if (updates.isDefault === false) {
+        const existing = await storage.getDepot(req.params.id);
+        if (existing?.isDefault) {
+          return res.status(400).json({ message: "Mark another depot as default instead" });
+        }
+      }
+
+      const before = await routeOrigins();
+      const depot = await storage.updateDepot(req.params.id, updates);
+      if (!depot) {
+        return res.status(404).json({ message: "Depot not found" });
+      }
+      await clearMetricsOfMovedRoutes(before);
+      res.json(depot);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Update depot error:", error);
+        res.status(500).json({ message: "Failed to update depot" });
+      }
+    }
+  });
+
+  app.delete("/api/depots/:id", async (req, res) => {
+    try {
+      const validationResult = uuidSchema.safeParse(req.params.id);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid depot ID format" });
+      }
+
+      const depot = await storage.getDepot(req.params.id);
+      if (!depot) {
+        return res.status(404).json({ message: "Depot not found" });
+      }
+      if (depot.isDefault) {
+        return res.status(400).json({ message: "The default depot cannot be deleted" });
+      }
+
+      // Routes assigned to this depot fall back to the default depot
+      const before = await routeOrigins();
+      await storage.deleteDepot(req.params.id);
+      await clearMetricsOfMovedRoutes(before);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete depot error:", error);
+      res.status(500).json({ message: "Failed to delete depot" });
+    }
+  });
+
+  app.get("/api/route-depots", async (req, res) => {
+    try {
+      const assignments = await storage.getRouteDepots();
+      res.json(assignments);
+    } catch (error) {
+      console.error("Get route depots error:", error);
+      res.status(500).json({ message: "Failed to fetch route depots" });
+    }
+  });
+
+  // Assign a route to a depot; a null depotId returns the route to the default depot
+  app.put("/api/route-depots/:route", async (req, res) => {
+    try {
+      const { depotId } = assignRouteDepotSchema.parse(req.body);
+      if (depotId && !(await storage.getDepot(depotId))) {
+        return res.status(404).json({ message: "Depot not found" });
+      }
+
+      const before = await routeOrigins();
+      const assignment = await storage.setRouteDepot(req.params.route, depotId);
+      await clearMetricsOfMovedRoutes(before);
+      res.json(assignment ?? { route: req.params.route, depotId: null });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Assign route depot error:", error);
+        res.status(500).json({ message: "Failed to assign route depot" });
+      }
+    }
+  });
+
+  // Delivery schedule routes
+  app.get("/api/delivery-schedules", async (req, res) => {
+    try {
+      const schedules = await storage.getDeliverySchedules();
+      res.json(schedules);
+    } catch (error) {
+      console.error("Get delivery schedules error:", error);
+      res.status(500).json({ message: "Failed to fetch delivery schedules" });
+    }
+  });
+
+  // Create or replace the schedule for a delivery label
+  app.put("/api/delivery-schedules/:delivery", async (req, res) => {
+    try {
+      const delivery = req.params.delivery.trim();
+      if (!delivery) {
+        return res.status(400).json({ message: "Delivery label is required" });
+      }
+
+      const validatedData = insertDeliveryScheduleSchema.parse(req.body);
+      const schedule = await storage.setDeliverySchedule(delivery, validatedData);
+      res.json(schedule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Save delivery schedule error:", error);
+        res.status(500).json({ message: "Failed to save delivery schedule" });
+      }
+    }
+  });
+
+  // Rows keep their label; without a schedule they are simply never due
+  app.delete("/api/delivery-schedules/:delivery", async (req, res) => {
+    try {
+      const deleted = await storage.deleteDeliverySchedule(req.params.delivery);
+      if (!deleted) {
+        return res.status(404).json({ message: "Delivery schedule not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete delivery schedule error:", error);
+      res.status(500).json({ message: "Failed to delete delivery schedule" });
+    }
+  });
+
+  app.get("/api/public-holidays", async (req, res) => {
+    try {
+      const holidays = await storage.getPublicHolidays();
+      res.json(holidays);
+    } catch (error) {
+      console.error("Get public holidays error:", error);
+      res.status(500).json({ message: "Failed to fetch public holidays" });
+    }
+  });
+
+  // Adding a date that is already a holiday renames it
+  app.post("/api/public-holidays", async (req, res) => {
+    try {
+      const validatedData = insertPublicHolidaySchema.parse(req.body);
+      const holiday = await storage.setPublicHoliday(validatedData);
+      res.status(201).json(holiday);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Create public holiday error:", error);
+        res.status(500).json({ message: "Failed to save public holiday" });
+      }
+    }
+  });
+
+  app.delete("/api/public-holidays/:date", async (req, res) => {
+    try {
+      const validationResult = isoDateSchema.safeParse(req.params.date);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid date format" });
+      }
+
+      const deleted = await storage.deletePublicHoliday(req.params.date);
+      if (!deleted) {
+        return res.status(404).json({ message: "Public holiday not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete public holiday error:", error);
+      res.status(500).json({ message: "Failed to delete public holiday" });
+    }
+  });
+
+  // Dispatch manifest routes
+  app.get("/api/manifests", async (req, res) => {
+    try {
+      const query = manifestQuerySchema.parse(req.query);
+      const manifests = await storage.getManifests(query);
+      res.json(manifests);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid query", errors: error.errors });
+      } else {
+        console.error("Get manifests error:", error);
+        res.status(500).json({ message: "Failed to fetch manifests" });
+      }
+    }
+  });
+
+  // Check-in progress of a day's open manifests, one entry per route; registered before /:id
+  app.get("/api/manifests/progress", async (req, res) => {
+    try {
+      const { date } = manifestProgressQuerySchema.parse(req.query);
+      const manifests = (await storage.getManifests({ date })).filter(isOpenManifest);
+      const checkIns = await storage.getStopCheckIns(manifests.map(manifest => manifest.id));
+      res.json(manifests.map(manifest =>
+        manifestProgress(manifest, checkIns.filter(checkIn => checkIn.manifestId === manifest.id))
+      ));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid query", errors: error.errors });
+      } else {
+        console.error("Get manifest progress error:", error);
+        res.status(500).json({ message: "Failed to fetch manifest progress" });
+      }
+    }
+  });
+
+  app.get("/api/manifests/:id", async (req, res) => {
+    try {
+      const validationResult = uuidSchema.safeParse(req.params.id);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid manifest ID format" });
+      }
+
+      const manifest = await storage.getManifest(req.params.id);
+      if (!manifest) {
+        return res.status(404).json({ message: "Manifest not found" });
+      }
+      res.json(manifest);
+    } catch (error) {
+      console.error("Get manifest error:", error);
+      res.status(500).json({ message: "Failed to fetch manifest" });
+    }
+  });
+
+  // Printable manifest for the driver
+  app.get("/api/manifests/:id/pdf", async (req, res) => {
+    try {
+      const validationResult = uuidSchema.safeParse(req.params.id);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid manifest ID format" });
+      }
+
+      const manifest = await storage.getManifest(req.params.id);
+      if (!manifest) {
+        return res.status(404).json({ message: "Manifest not found" });
+      }
+      const pdf = await manifestToPdf(manifest);
+      const fileRoute = manifest.route.replace(/[^\w-]+/g, "-");
+
+      res.set({
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="manifest-${fileRoute}-${manifest.date}.pdf"`,
+      });
+      res.send(pdf);
+    } catch (error) {
+      console.error("Manifest PDF error:", error);
+      res.status(500).json({ message: "Failed to print manifest" });
+    }
+  });
+
+  // Freeze the stops of a route that are due on a date; one open manifest per date and route
+  app.post("/api/manifests", async (req, res) => {
+    try {
+      const { date, route, optimizationId } = generateManifestSchema.parse(req.body);
+
+      const existing = await storage.getManifests({ date, route });
+      if (existing.some(isOpenManifest)) {
+        return res.status(409).json({ message: `A manifest for ${route} on ${date} already exists. Cancel it to generate a new one.` });
+      }
+
+      let optimizedOrder: string[] | undefined;
+      if (optimizationId) {
+        const savedRoute = await storage.getSavedRoute(optimizationId);
+        if (!savedRoute) {
+          return res.status(404).json({ message: "Saved route not found" });
+        }
+        optimizedOrder = savedRoute.optimizedOrder;
+      }
+
+      const [rows, schedules, holidays, allDepots, assignments] = await Promise.all([
+        storage.getTableRows(),
+        storage.getDeliverySchedules(),
+        storage.getPublicHolidays(),
+        storage.getDepots(),
+        storage.getRouteDepots(),
+      ]);
+      const stops = planManifestStops(rows, { date, route, schedules, holidays, optimizedOrder });
+      if (stops.length === 0) {
+        return res.status(400).json({ message: `No stops on ${route} are due on ${date}` });
+      }
+
+      const manifest = await storage.createManifest({
+        date,
+        route,
+        orderSource: optimizedOrder ? "optimization" : "table",
+        optimizationId: optimizationId ?? null,
+        depotName: resolveDepotForRoute(route, allDepots, assignments)?.name ?? "",
+        stops,
+        ...requestActor(req),
+      });
+      broadcast({ type: "invalidate", queryKey: ["/api/manifests"] });
+      res.status(201).json(manifest);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Generate manifest error:", error);
+        res.status(500).json({ message: "Failed to generate manifest" });
+      }
+    }
+  });
+
+  app.get("/api/manifests/:id/check-ins", async (req, res) => {
+    try {
+      const validationResult = uuidSchema.safeParse(req.params.id);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid manifest ID format" });
+      }
+
+      const checkIns = await storage.getStopCheckIns([req.params.id]);
+      res.json(checkIns);
+    } catch (error) {
+      console.error("Get check-ins error:", error);
+      res.status(500).json({ message: "Failed to fetch check-ins" });
+    }
+  });
+
+  // Record a driver arriving at, completing or skipping a manifest stop
+  app.post("/api/manifests/:id/check-ins", async (req, res) => {
+    try {
+      const validationResult = uuidSchema.safeParse(req.params.id);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid manifest ID format" });
+      }
+
+      const validatedData = createStopCheckInSchema.parse(req.body);
+      const manifest = await storage.getManifest(req.params.id);
+      if (!manifest) {
+        return res.status(404).json({ message: "Manifest not found" });
+      }
+      if (!hasPermission(req.user, "rows:edit") && req.user?.assignedRoute !== manifest.route) {
+        return res.status(403).json({ message: "Drivers may only check in on their own route" });
+      }
+      if (!acceptsCheckIns(manifest)) {
+        return res.status(409).json({ message: `The manifest is ${manifest.status} and no longer takes check-ins` });
+      }
+      if (!manifest.stops.some(stop => stop.rowId === validatedData.rowId)) {
+        return res.status(400).json({ message: "The stop is not on this manifest" });
+      }
+
+      // A device clock running ahead must not date a check-in in the future
+      const now = new Date();
+      const recordedAt = validatedData.recordedAt && validatedData.recordedAt < now ? validatedData.recordedAt : now;
+      // Photos taken offline arrive inline; keep only the media store URL
+      const photo = validatedData.photo
+        ? (await extractInlineMedia([validatedData.photo], requestActor(req))).images[0]
+        : validatedData.photo;
+      const checkIn = await storage.createStopCheckIn({
+        manifestId: manifest.id,
+        ...validatedData,
+        photo,
+        note: validatedData.note ?? "",
+        recordedAt,
+        ...requestActor(req),
+      });
+      broadcast({ type: "invalidate", queryKey: ["/api/manifests", manifest.id, "check-ins"] });
+      broadcast({ type: "invalidate", queryKey: ["/api/manifests/progress"] });
+      res.status(201).json(checkIn);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Create check-in error:", error);
+        res.status(500).json({ message: "Failed to record check-in" });
+      }
+    }
+  });
+
+  app.patch("/api/manifests/:id/status", async (req, res) => {
+    try {
+      const validationResult = uuidSchema.safeParse(req.params.id);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid manifest ID format" });
+      }
+
+      const { status } = updateManifestStatusSchema.parse(req.body);
+      const manifest = await storage.getManifest(req.params.id);
+      if (!manifest) {
+        return res.status(404).json({ message: "Manifest not found" });
+      }
+      if (!canChangeManifestStatus(manifest.status, status)) {
+        return res.status(400).json({ message: `A ${manifest.status} manifest cannot be marked ${status}` });
+      }
+
+      const updated = await storage.updateManifestStatus(req.params.id, status);
+      broadcast({ type: "invalidate", queryKey: ["/api/manifests"] });
+      broadcast({ type: "invalidate", queryKey: ["/api/manifests/progress"] });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Update manifest status error:", error);
+        res.status(500).json({ message: "Failed to update manifest" });
+      }
+    }
+  });
+
+  // User management routes
+  app.get("/api/users", async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(({ passwordHash: _, ...user }) => user));
+    } catch (error) {
+      console.error("Get users error:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.patch("/api/users/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid user ID format" });
+      }
+
+      const updates = updateUserSchema.parse(req.body);
+      // Admins cannot demote themselves and lock everyone out of user management
+      if (id === req.user!.id && updates.role !== undefined && updates.role !== "admin") {
+        return res.status(400).json({ message: "You cannot change your own role" });
+      }
+
+      const user = await storage.updateUser(id, updates);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const { passwordHash: _, ...publicUser } = user;
+      res.json(publicUser);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Update user error:", error);
+        res.status(500).json({ message: "Failed to update user" });
+      }
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,171 @@
+import {
+  insertTableRowSchema,
+  nonImportableKeys,
+  type ImportPreview,
+  type ImportRowResult,
+  type InsertTableRow,
+  type TableColumn,
+  type TableRow,
+} from "@shared/schema";
+import { customFieldsSchema, isCustomColumn, mergeCustomFields } from "@shared/customFields";
+import type { z } from "zod";
+import { validateRowFields } from "./rowValidation";
+
+// Spreadsheet cells arrive as text; integer row fields are converted before validation
+const INTEGER_FIELDS = new Set(["no"]);
+
+export interface RowUpdate {
+  id: string;
+  updates: Partial<InsertTableRow>;
+}
+
+export interface RowImportPlan {
+  preview: ImportPreview;
+  inserts: InsertTableRow[];
+  updates: RowUpdate[];
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.errors.map(issue =>
+    issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+  );
+}
+
+// Compare stored and imported values, treating "3.1" and "3.10000000" as the same number
+function sameValue(stored: unknown, imported: unknown): boolean {
+  if (stored === imported) return true;
+  if (typeof stored === "object" || typeof imported === "object") {
+    return JSON.stringify(stored ?? null) === JSON.stringify(imported ?? null);
+  }
+  const storedText = String(stored ?? "");
+  const importedText = String(imported ?? "");
+  if (storedText !== "" && importedText !== "" && !isNaN(Number(storedText)) && !isNaN(Number(importedText))) {
+    return Number(storedText) === Number(importedText);
+  }
+  return storedText === importedText;
+}
+
+/**
+ * Work out which records insert, update or leave rows alone, matching on `code`.
+ * Records are validated like PATCH /api/table-rows/:id; empty cells leave stored values untouched.
+ */
+export function planRowImport(
+  records: Record<string, unknown>[],
+  existingRows: TableRow[],
+  columns: TableColumn[],
+): RowImportPlan {
+  const importableColumns = new Map(
+    columns
+      .filter(column => !nonImportableKeys.includes(column.dataKey))
+      .map(column => [column.dataKey, column])
+  );
+  const existingByCode = new Map<string, TableRow>();
+  for (const row of existingRows) {
+    if (row.code && !existingByCode.has(row.code)) {
+      existingByCode.set(row.code, row);
+    }
+  }
+  const customSchema = customFieldsSchema(columns);
+  const seenCodes = new Set<string>();
+
+  const results: ImportRowResult[] = [];
+  const inserts: InsertTableRow[] = [];
+  const updates: RowUpdate[] = [];
+
+  records.forEach((record, index) => {
+    const errors: string[] = [];
+    const fields: Record<string, unknown> = {};
+    const customValues: Record<string, unknown> = {};
+
+    for (const [key, rawValue] of Object.entries(record)) {
+      const value = typeof rawValue === "string" ? rawValue.trim() : rawValue;
+      if (value === undefined || value === null || value === "") continue;
+
+      const column = importableColumns.get(key);
+      if (!column) {
+        errors.push(`${key}: not an importable column`);
+      } else if (isCustomColumn(column)) {
+        customValues[key] = value;
+      } else {
+        fields[key] = INTEGER_FIELDS.has(key) ? Number(value) : value;
+      }
+    }
+
+    const code = String(fields.code ?? "");
+    if (!code) {
+      errors.push("code: required to match rows");
+    } else if (seenCodes.has(code)) {
+      errors.push("code: appears more than once in the import");
+    } else {
+      seenCodes.add(code);
+    }
+
+    const fieldError = validateRowFields(fields);
+    if (fieldError) {
+      errors.push(fieldError.details);
+    }
+
+    const parsedFields = insertTableRowSchema.partial().safeParse(fields);
+    if (!parsedFields.success) {
+      errors.push(...formatIssues(parsedFields.error));
+    }
+    const parsedCustom = customSchema.safeParse(customValues);
+    if (!parsedCustom.success) {
+      errors.push(...formatIssues(parsedCustom.error));
+    }
+
+    if (errors.length > 0 || !parsedFields.success || !parsedCustom.success) {
+      results.push({ index, code, action: "error", changes: [], errors });
+      return;
+    }
+
+    const existing = existingByCode.get(code);
+    if (!existing) {
+      inserts.push({
+        ...parsedFields.data,
+        customFields: mergeCustomFields({}, parsedCustom.data),
+      } as InsertTableRow);
+      results.push({
+        index,
+        code,
+        action: "insert",
+        changes: [...Object.keys(parsedFields.data), ...Object.keys(parsedCustom.data)],
+        errors,
+      });
+      return;
+    }
+
+    const changedFields = Object.fromEntries(
+      Object.entries(parsedFields.data).filter(([key, value]) =>
+        !sameValue(existing[key as keyof TableRow], value)
+      )
+    ) as Partial<InsertTableRow>;
+    const changedCustom = Object.keys(parsedCustom.data).filter(key =>
+      !sameValue(existing.customFields?.[key], parsedCustom.data[key])
+    );
+    if (changedCustom.length > 0) {
+      changedFields.customFields = mergeCustomFields(existing.customFields, parsedCustom.data);
+    }
+
+    const changes = [...Object.keys(changedFields).filter(key => key !== "customFields"), ...changedCustom];
+    if (changes.length === 0) {
+      results.push({ index, code, action: "unchanged", changes, errors });
+      return;
+    }
+    updates.push({ id: existing.id, updates: changedFields });
+    results.push({ index, code, action: "update", changes, errors });
+  });
+
+  const count = (action: ImportRowResult["action"]) => results.filter(result => result.action === action).length;
+  return {
+    preview: {
+      inserts: count("insert"),
+      updates: count("update"),
+      unchanged: count("unchanged"),
+      errors: count("error"),
+      results,
+    },
+    inserts,
+    updates,
+  };
+}
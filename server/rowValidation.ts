@@ -0,0 +1,59 @@
+// Field checks shared by PATCH /api/table-rows/:id and the spreadsheet import
+
+export interface RowFieldError {
+  message: string;
+  details: string;
+}
+
+const COORDINATE_RANGES = [
+  { field: "latitude", label: "Latitude", limit: 90 },
+  { field: "longitude", label: "Longitude", limit: 180 },
+] as const;
+
+// Normalize snake_case keys to camelCase for consistency
+export function normalizeRowKeys(body: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(body).map(([key, value]) => {
+      const camelKey = key.replace(/_([a-z])/g, (_match, letter) => letter.toUpperCase());
+      return [camelKey, value];
+    })
+  );
+}
+
+/**
+ * Validate and normalize currency and coordinate fields in place.
+ * @returns The first problem found, or null when the fields can be saved
+ */
+export function validateRowFields(fields: Record<string, unknown>): RowFieldError | null {
+  // Special validation for currency field (tngRoute)
+  if (fields.tngRoute !== undefined) {
+    const currencyValue = String(fields.tngRoute);
+    if (currencyValue !== "" && isNaN(Number(currencyValue))) {
+      return { message: "Invalid currency value", details: "Currency value must be a number" };
+    }
+    // Format currency as decimal string with 2 decimal places if it's a number
+    if (currencyValue !== "") {
+      fields.tngRoute = Number(currencyValue).toFixed(2);
+    }
+  }
+
+  // Coordinates must be decimal degrees; an empty value clears them
+  for (const { field, label, limit } of COORDINATE_RANGES) {
+    const value = fields[field];
+    if (value === undefined || value === null) continue;
+    if (String(value).trim() === "") {
+      fields[field] = null;
+      continue;
+    }
+    const degrees = Number(value);
+    if (!Number.isFinite(degrees) || Math.abs(degrees) > limit) {
+      return {
+        message: "Invalid coordinates",
+        details: `${label} must be a number between -${limit} and ${limit}`,
+      };
+    }
+    fields[field] = String(degrees);
+  }
+
+  return null;
+}
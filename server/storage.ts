@@ -1,6 +1,7 @@
 import {
   type TableRow,
   type InsertTableRow,
+  type RowRouteMetrics,
   type TableColumn,
   type InsertTableColumn,
   type ImageWithCaption,
@@ -16,6 +17,35 @@ import {
   type InsertSharedTableState,
   type SavedShareLink,
   type InsertSavedShareLink,
+  type User,
+  type InsertUser,
+  type UpdateUser,
+  type Depot,
+  type InsertDepot,
+  type RouteDepot,
+  type DeliverySchedule,
+  type InsertDeliverySchedule,
+  type PublicHoliday,
+  type InsertPublicHoliday,
+  type Manifest,
+  type InsertManifest,
+  type ManifestQuery,
+  type ManifestStatus,
+  type StopCheckIn,
+  type InsertStopCheckIn,
+  type MediaFile,
+  type InsertMediaFile,
+  type MediaUpload,
+  type InsertMediaUpload,
+  type DistanceCacheEntry,
+  type InsertDistanceCacheEntry,
+  type GeocodeCacheEntry,
+  type InsertGeocodeCacheEntry,
+  type RowOrderSnapshot,
+  type InsertRowOrderSnapshot,
+  type AuditEntry,
+  type InsertAuditEntry,
+  type AuditLogQuery,
   tableRows,
   tableColumns,
   routeOptimizationResult,
@@ -24,23 +54,102 @@ import {
   globalSettings,
   sharedTableStates,
   savedShareLinks,
+  users,
+  depots,
+  routeDepots,
+  deliverySchedules,
+  publicHolidays,
+  manifests,
+  stopCheckIns,
+  mediaFiles,
+  mediaUploads,
+  mediaUploadParts,
+  distanceCache,
+  geocodeCache,
+  rowOrderSnapshots,
+  auditLog,
 } from "@shared/schema";
 import { randomUUID } from "crypto";
-import { db } from "./db";
-import { eq, asc, desc } from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { db, pool } from "./db";
+import { sql, eq, asc, desc, count, and, ne, gte, lte, inArray, notInArray, isNull, isNotNull, or } from "drizzle-orm";
+
+const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
+
+// Seeded when no depots exist; the kitchen every route started from before depots were configurable
+const DEFAULT_DEPOT: InsertDepot = {
+  name: "QL Kitchen",
+  address: "",
+  latitude: "3.0738",
+  longitude: "101.5183",
+  isDefault: true,
+};
+
+// Where the warehouse row was seeded before depots existed
+const SEEDED_WAREHOUSE_POSITION = { latitude: "3.139003", longitude: "101.686855" };
+
+// Seeded when no schedules exist: the delivery labels the table has always used.
+// Alt 1 and Alt 2 run in alternating weeks, anchored on consecutive Mondays.
+const DEFAULT_DELIVERY_SCHEDULES: DeliverySchedule[] = [
+  { delivery: "Daily", weekdays: [0, 1, 2, 3, 4, 5, 6], intervalWeeks: 1, anchorDate: null, skipHolidays: false },
+  { delivery: "Weekday", weekdays: [1, 2, 3, 4, 5], intervalWeeks: 1, anchorDate: null, skipHolidays: true },
+  { delivery: "Alt 1", weekdays: [1, 2, 3, 4, 5], intervalWeeks: 2, anchorDate: "2025-01-06", skipHolidays: true },
+  { delivery: "Alt 2", weekdays: [1, 2, 3, 4, 5], intervalWeeks: 2, anchorDate: "2025-01-13", skipHolidays: true },
+];
+
+// Road distance fields reset when a row's coordinates change or it moves to another route
+const CLEARED_ROUTE_METRICS = { kilometer: null, driveMinutes: null, distanceCalculatedAt: null };
+
+// Whether an update invalidates the row's road distance from its depot
+const invalidatesRouteMetrics = (updates: Partial<InsertTableRow>, existing?: TableRow) =>
+  updates.latitude !== undefined ||
+  updates.longitude !== undefined ||
+  (updates.route !== undefined && updates.route !== existing?.route);
+
+// Reorders that can be undone; older snapshots are discarded
+export const REORDER_UNDO_LIMIT = 10;
 
 export interface IStorage {
+  // Session store backing express-session
+  sessionStore: session.Store;
+
+  // Users
+  getUser(id: number): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
+  countUsers(): Promise<number>;
+  createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, updates: UpdateUser): Promise<User | undefined>;
+
   // Table rows
   getTableRows(): Promise<TableRow[]>;
   getTableRow(id: string): Promise<TableRow | undefined>;
-  getQlKitchenRow(): Promise<TableRow | undefined>;
   createTableRow(row: InsertTableRow): Promise<TableRow>;
   updateTableRow(
     id: string,
     updates: Partial<InsertTableRow>,
   ): Promise<TableRow | undefined>;
-  deleteTableRow(id: string): Promise<boolean>;
+  deleteTableRow(id: string): Promise<boolean>; // Moves the row to the trash
+  getDeletedTableRows(): Promise<TableRow[]>; // Rows in the trash, most recently deleted first
+  restoreTableRow(id: string): Promise<TableRow | undefined>;
+  purgeTableRow(id: string): Promise<boolean>; // Permanently removes a row that is in the trash
+  setRowRouteMetrics(id: string, metrics: RowRouteMetrics): Promise<TableRow | undefined>;
+  clearRouteMetrics(routes: string[]): Promise<TableRow[]>; // For rows whose depot moved or changed; returns the rows changed
   reorderTableRows(rowIds: string[]): Promise<TableRow[]>;
+  // Row order before recent reorders, newest first; saving one discards all but the last REORDER_UNDO_LIMIT
+  getRowOrderSnapshots(): Promise<RowOrderSnapshot[]>;
+  saveRowOrderSnapshot(snapshot: InsertRowOrderSnapshot): Promise<RowOrderSnapshot>;
+  // Put back the order from the newest snapshot and discard it; rows the snapshot does not list
+  // (created or restored since) keep their relative order after it. Undefined when there is nothing to undo
+  undoLastReorder(): Promise<RowOrderSnapshot | undefined>;
+  // Apply a spreadsheet import; all rows are written or none are
+  importTableRows(
+    inserts: InsertTableRow[],
+    updates: { id: string; updates: Partial<InsertTableRow> }[],
+  ): Promise<TableRow[]>;
 
   // Table columns
   getTableColumns(): Promise<TableColumn[]>;
@@ -62,6 +171,7 @@ export interface IStorage {
   // Layout preferences
   getLayoutPreferences(userId: string): Promise<LayoutPreferences | undefined>;
   saveLayoutPreferences(userId: string, layout: InsertLayoutPreferences): Promise<LayoutPreferences>;
+  deleteLayoutPreferences(userId: string): Promise<boolean>;
 
   // Pages
   getPages(): Promise<Page[]>;
@@ -84,23 +194,125 @@ export interface IStorage {
   createSavedShareLink(link: InsertSavedShareLink): Promise<SavedShareLink>;
   updateSavedShareLinkRemark(id: string, remark: string): Promise<SavedShareLink | undefined>;
   deleteSavedShareLink(id: string): Promise<boolean>;
+
+  // Depots and route assignments
+  getDepots(): Promise<Depot[]>;
+  getDepot(id: string): Promise<Depot | undefined>;
+  createDepot(depot: InsertDepot): Promise<Depot>;
+  updateDepot(id: string, updates: Partial<InsertDepot>): Promise<Depot | undefined>;
+  deleteDepot(id: string): Promise<boolean>;
+  getRouteDepots(): Promise<RouteDepot[]>;
+  setRouteDepot(route: string, depotId: string | null): Promise<RouteDepot | undefined>;
+
+  // Delivery schedules, keyed by delivery label, and the public holidays they may skip
+  getDeliverySchedules(): Promise<DeliverySchedule[]>;
+  setDeliverySchedule(delivery: string, schedule: InsertDeliverySchedule): Promise<DeliverySchedule>;
+  deleteDeliverySchedule(delivery: string): Promise<boolean>;
+  getPublicHolidays(): Promise<PublicHoliday[]>;
+  setPublicHoliday(holiday: InsertPublicHoliday): Promise<PublicHoliday>;
+  deletePublicHoliday(date: string): Promise<boolean>;
+
+  // Dispatch manifests, newest first
+  getManifests(query: ManifestQuery): Promise<Manifest[]>;
+  getManifest(id: string): Promise<Manifest | undefined>;
+  createManifest(manifest: InsertManifest): Promise<Manifest>;
+  updateManifestStatus(id: string, status: ManifestStatus): Promise<Manifest | undefined>;
+
+  // Driver check-ins on manifest stops, oldest first
+  getStopCheckIns(manifestIds: string[]): Promise<StopCheckIn[]>;
+  createStopCheckIn(checkIn: InsertStopCheckIn): Promise<StopCheckIn>;
+
+  // Uploaded media metadata; the bytes are in the media store
+  getMediaFile(id: string): Promise<MediaFile | undefined>;
+  getMediaFileBySha256(sha256: string): Promise<MediaFile | undefined>;
+  createMediaFile(file: InsertMediaFile): Promise<MediaFile>;
+  updateMediaFile(id: string, updates: Pick<InsertMediaFile, "width" | "height" | "variants" | "gpsLatitude" | "gpsLongitude">): Promise<MediaFile | undefined>;
+  getMediaFilesUnusedSince(date: Date): Promise<MediaFile[]>; // Not uploaded, or uploaded again, since the date
+  touchMediaFiles(ids: string[]): Promise<void>; // Marks files as just uploaded again
+  deleteMediaFile(id: string): Promise<void>;
+  createMediaUpload(upload: InsertMediaUpload): Promise<MediaUpload>;
+  getMediaUpload(id: string): Promise<MediaUpload | undefined>;
+  getMediaUploadParts(uploadId: string): Promise<number[]>; // Indexes of the parts received, ascending
+  addMediaUploadPart(uploadId: string, index: number, sizeBytes: number): Promise<void>;
+  deleteMediaUpload(id: string): Promise<void>;
+  getMediaUploadsCreatedBefore(date: Date): Promise<MediaUpload[]>;
+
+  // Road distance cache
+  getCachedDistances(
+    provider: string,
+    originKeys: string[],
+    destinationKeys: string[],
+    since: Date,
+  ): Promise<DistanceCacheEntry[]>;
+  saveCachedDistances(entries: InsertDistanceCacheEntry[]): Promise<void>;
+
+  // Geocoding cache
+  getCachedGeocode(provider: string, query: string, since: Date): Promise<GeocodeCacheEntry | undefined>;
+  saveCachedGeocode(entry: InsertGeocodeCacheEntry): Promise<void>;
+
+  // Audit log (append-only), newest entries first
+  createAuditEntries(entries: InsertAuditEntry[]): Promise<void>;
+  getAuditEntries(query: AuditLogQuery): Promise<AuditEntry[]>;
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+  private users: Map<number, User>;
+  private nextUserId: number;
   private tableRows: Map<string, TableRow>;
   private tableColumns: Map<string, TableColumn>;
   private savedRoutes: Map<string, RouteOptimizationResult>;
   private layoutPrefs: Map<string, LayoutPreferences>;
   private pages: Map<string, Page>;
   private sharedStates: Map<string, SharedTableState>;
+  private depots: Map<string, Depot>;
+  private routeDepots: Map<string, RouteDepot>;
+  private deliverySchedules: Map<string, DeliverySchedule>;
+  private publicHolidays: Map<string, PublicHoliday>;
+  private manifests: Map<string, Manifest>;
+  private stopCheckIns: StopCheckIn[];
+  private mediaFiles: Map<string, MediaFile>;
+  private mediaUploads: Map<string, MediaUpload>;
+  private mediaUploadParts: Map<string, Map<number, number>>; // uploadId -> part index -> size
+  private distanceCache: Map<string, DistanceCacheEntry>;
+  private geocodeCache: Map<string, GeocodeCacheEntry>;
+  private auditEntries: AuditEntry[];
+  private rowOrderSnapshots: RowOrderSnapshot[];
 
   constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired entries every 24h
+    });
+    this.users = new Map();
+    this.nextUserId = 1;
     this.tableRows = new Map();
     this.tableColumns = new Map();
     this.savedRoutes = new Map();
     this.layoutPrefs = new Map();
     this.pages = new Map();
     this.sharedStates = new Map();
+    this.depots = new Map();
+    this.routeDepots = new Map();
+    this.deliverySchedules = new Map(DEFAULT_DELIVERY_SCHEDULES.map(schedule => [schedule.delivery, schedule]));
+    this.publicHolidays = new Map();
+    this.manifests = new Map();
+    this.stopCheckIns = [];
+    this.mediaFiles = new Map();
+    this.mediaUploads = new Map();
+    this.mediaUploadParts = new Map();
+    this.distanceCache = new Map();
+    this.geocodeCache = new Map();
+    this.auditEntries = [];
+    this.rowOrderSnapshots = [];
+
+    const defaultDepotId = randomUUID();
+    this.depots.set(defaultDepotId, {
+      ...DEFAULT_DEPOT,
+      id: defaultDepotId,
+      address: DEFAULT_DEPOT.address ?? "",
+      isDefault: true,
+      createdAt: new Date(),
+    });
 
     // Initialize with sample data
     this.initializeData();
@@ -246,25 +458,6 @@ export class MemStorage implements IStorage {
 
     // Initialize sample rows
     const defaultRows: TableRow[] = [
-      {
-        id: randomUUID(),
-        no: 999,
-        route: "Warehouse",
-        code: "QL001",
-        location: "QL Kitchen",
-        delivery: "Daily",
-        info: "Special QL Kitchen warehouse route",
-        tngSite: "QL Central",
-        tngRoute: "0.00",
-        destination: "0.00",
-        tollPrice: "0.00",
-        latitude: "3.139003",
-        longitude: "101.686855",
-        images: [],
-        qrCode: "",
-        sortOrder: -1,
-        active: true,
-      },
       {
         id: randomUUID(),
         no: 1,
@@ -294,6 +487,15 @@ export class MemStorage implements IStorage {
         qrCode: "",
         sortOrder: 0,
         active: true,
+        windowStart: null,
+        windowEnd: null,
+        serviceMinutes: 0,
+        demand: "0",
+        customFields: {},
+        kilometer: null,
+        driveMinutes: null,
+        distanceCalculatedAt: null,
+        deletedAt: null,
       },
       {
         id: randomUUID(),
@@ -319,6 +521,15 @@ export class MemStorage implements IStorage {
         qrCode: "",
         sortOrder: 1,
         active: true,
+        windowStart: null,
+        windowEnd: null,
+        serviceMinutes: 0,
+        demand: "0",
+        customFields: {},
+        kilometer: null,
+        driveMinutes: null,
+        distanceCalculatedAt: null,
+        deletedAt: null,
       },
       {
         id: randomUUID(),
@@ -338,6 +549,15 @@ export class MemStorage implements IStorage {
         qrCode: "",
         sortOrder: 2,
         active: true,
+        windowStart: null,
+        windowEnd: null,
+        serviceMinutes: 0,
+        demand: "0",
+        customFields: {},
+        kilometer: null,
+        driveMinutes: null,
+        distanceCalculatedAt: null,
+        deletedAt: null,
       },
       {
         id: randomUUID(),
@@ -363,6 +583,15 @@ export class MemStorage implements IStorage {
         qrCode: "",
         sortOrder: 3,
         active: true,
+        windowStart: null,
+        windowEnd: null,
+        serviceMinutes: 0,
+        demand: "0",
+        customFields: {},
+        kilometer: null,
+        driveMinutes: null,
+        distanceCalculatedAt: null,
+        deletedAt: null,
       },
       {
         id: randomUUID(),
@@ -382,6 +611,15 @@ export class MemStorage implements IStorage {
         qrCode: "",
         sortOrder: 4,
         active: true,
+        windowStart: null,
+        windowEnd: null,
+        serviceMinutes: 0,
+        demand: "0",
+        customFields: {},
+        kilometer: null,
+        driveMinutes: null,
+        distanceCalculatedAt: null,
+        deletedAt: null,
       },
     ];
 
@@ -450,13 +688,55 @@ export class MemStorage implements IStorage {
     }
   }
 
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      user => user.email.toLowerCase() === email.toLowerCase()
+    );
+  }
+
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async countUsers(): Promise<number> {
+    return this.users.size;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = this.nextUserId++;
+    const user: User = {
+      id,
+      email: insertUser.email,
+      name: insertUser.name ?? null,
+      passwordHash: insertUser.passwordHash ?? null,
+      role: insertUser.role ?? "viewer",
+      assignedRoute: insertUser.assignedRoute ?? null,
+      createdAt: new Date(),
+    };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async updateUser(id: number, updates: UpdateUser): Promise<User | undefined> {
+    const existingUser = this.users.get(id);
+    if (!existingUser) return undefined;
+
+    const filteredUpdates = Object.fromEntries(
+      Object.entries(updates).filter(([_, value]) => value !== undefined)
+    );
+    const updatedUser = { ...existingUser, ...filteredUpdates } as User;
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
   // Table rows methods
   async getTableRows(): Promise<TableRow[]> {
-    return Array.from(this.tableRows.values()).sort((a, b) => {
-      // QL Kitchen always at top
-      if (a.sortOrder === -1) return -1;
-      if (b.sortOrder === -1) return 1;
-      
+    return Array.from(this.tableRows.values()).filter(row => !row.deletedAt).sort((a, b) => {
       // Sort by code numerically
       const codeA = parseInt(a.code || "0") || 0;
       const codeB = parseInt(b.code || "0") || 0;
@@ -465,13 +745,8 @@ export class MemStorage implements IStorage {
   }
 
   async getTableRow(id: string): Promise<TableRow | undefined> {
-    return this.tableRows.get(id);
-  }
-
-  async getQlKitchenRow(): Promise<TableRow | undefined> {
-    return Array.from(this.tableRows.values()).find(
-      row => row.location === "QL Kitchen" && row.sortOrder === -1
-    );
+    const row = this.tableRows.get(id);
+    return row && !row.deletedAt ? row : undefined;
   }
 
   async createTableRow(insertRow: InsertTableRow): Promise<TableRow> {
@@ -498,6 +773,15 @@ export class MemStorage implements IStorage {
       id,
       sortOrder: maxSortOrder + 1,
       active: insertRow.active !== undefined ? insertRow.active : true,
+      windowStart: insertRow.windowStart || null,
+      windowEnd: insertRow.windowEnd || null,
+      serviceMinutes: insertRow.serviceMinutes || 0,
+      demand: insertRow.demand || "0",
+      customFields: insertRow.customFields || {},
+      kilometer: null,
+      driveMinutes: null,
+      distanceCalculatedAt: null,
+      deletedAt: null,
     };
     this.tableRows.set(id, row);
     return row;
@@ -507,18 +791,79 @@ export class MemStorage implements IStorage {
     id: string,
     updates: Partial<InsertTableRow>,
   ): Promise<TableRow | undefined> {
-    const existingRow = this.tableRows.get(id);
+    const existingRow = await this.getTableRow(id);
     if (!existingRow) return undefined;
 
     const updatedRow = { ...existingRow, ...updates } as TableRow;
+    if (invalidatesRouteMetrics(updates, existingRow)) {
+      Object.assign(updatedRow, CLEARED_ROUTE_METRICS);
+    }
+    this.tableRows.set(id, updatedRow);
+    return updatedRow;
+  }
+
+  async setRowRouteMetrics(id: string, metrics: RowRouteMetrics): Promise<TableRow | undefined> {
+    const existingRow = this.tableRows.get(id);
+    if (!existingRow) return undefined;
+
+    const updatedRow: TableRow = { ...existingRow, ...metrics, distanceCalculatedAt: new Date() };
     this.tableRows.set(id, updatedRow);
     return updatedRow;
   }
 
+  async clearRouteMetrics(routes: string[]): Promise<TableRow[]> {
+    const cleared: TableRow[] = [];
+    this.tableRows.forEach((row, id) => {
+      if (!routes.includes(row.route) || (row.kilometer === null && row.driveMinutes === null)) return;
+      const updatedRow = { ...row, ...CLEARED_ROUTE_METRICS };
+      this.tableRows.set(id, updatedRow);
+      if (!row.deletedAt) cleared.push(updatedRow);
+    });
+    return cleared;
+  }
+
   async deleteTableRow(id: string): Promise<boolean> {
+    const row = await this.getTableRow(id);
+    if (!row) return false;
+    this.tableRows.set(id, { ...row, deletedAt: new Date() });
+    return true;
+  }
+
+  async getDeletedTableRows(): Promise<TableRow[]> {
+    return Array.from(this.tableRows.values())
+      .filter(row => row.deletedAt)
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+  }
+
+  async restoreTableRow(id: string): Promise<TableRow | undefined> {
+    const row = this.tableRows.get(id);
+    if (!row?.deletedAt) return undefined;
+    const restoredRow = { ...row, deletedAt: null };
+    this.tableRows.set(id, restoredRow);
+    return restoredRow;
+  }
+
+  async purgeTableRow(id: string): Promise<boolean> {
+    const row = this.tableRows.get(id);
+    if (!row?.deletedAt) return false;
     return this.tableRows.delete(id);
   }
 
+  async importTableRows(
+    inserts: InsertTableRow[],
+    updates: { id: string; updates: Partial<InsertTableRow> }[],
+  ): Promise<TableRow[]> {
+    const written: TableRow[] = [];
+    for (const insertRow of inserts) {
+      written.push(await this.createTableRow(insertRow));
+    }
+    for (const { id, updates: rowUpdates } of updates) {
+      const row = await this.updateTableRow(id, rowUpdates);
+      if (row) written.push(row);
+    }
+    return written;
+  }
+
   async reorderTableRows(rowIds: string[]): Promise<TableRow[]> {
     rowIds.forEach((id, index) => {
       const row = this.tableRows.get(id);
@@ -530,6 +875,35 @@ export class MemStorage implements IStorage {
     return this.getTableRows();
   }
 
+  async getRowOrderSnapshots(): Promise<RowOrderSnapshot[]> {
+    return [...this.rowOrderSnapshots].reverse();
+  }
+
+  async saveRowOrderSnapshot(insertSnapshot: InsertRowOrderSnapshot): Promise<RowOrderSnapshot> {
+    const snapshot: RowOrderSnapshot = {
+      id: randomUUID(),
+      userId: null,
+      userName: null,
+      ...insertSnapshot,
+      createdAt: new Date(),
+    };
+    this.rowOrderSnapshots = [...this.rowOrderSnapshots, snapshot].slice(-REORDER_UNDO_LIMIT);
+    return snapshot;
+  }
+
+  async undoLastReorder(): Promise<RowOrderSnapshot | undefined> {
+    const snapshot = this.rowOrderSnapshots.pop();
+    if (!snapshot) return undefined;
+    const unlisted = (await this.getTableRows()).filter(row => !(row.id in snapshot.sortOrders));
+    for (const [id, sortOrder] of Object.entries(snapshot.sortOrders)) {
+      const row = this.tableRows.get(id);
+      if (row) this.tableRows.set(id, { ...row, sortOrder });
+    }
+    const next = Math.max(...Object.values(snapshot.sortOrders), -1) + 1;
+    unlisted.forEach((row, index) => this.tableRows.set(row.id, { ...row, sortOrder: next + index }));
+    return snapshot;
+  }
+
   // Table columns methods
   async getTableColumns(): Promise<TableColumn[]> {
     return Array.from(this.tableColumns.values()).sort(
@@ -630,6 +1004,8 @@ export class MemStorage implements IStorage {
       originalOrder: [...route.originalOrder] as string[],
       optimizedOrder: [...route.optimizedOrder] as string[],
       algorithm: route.algorithm || "nearest_neighbor",
+      vehicleRoutes: route.vehicleRoutes ?? null,
+      unassignedStops: route.unassignedStops ?? null,
       createdAt: new Date(),
     };
     this.savedRoutes.set(id, savedRoute);
@@ -661,6 +1037,10 @@ export class MemStorage implements IStorage {
     return savedLayout;
   }
 
+  async deleteLayoutPreferences(userId: string): Promise<boolean> {
+    return this.layoutPrefs.delete(userId);
+  }
+
   // Pages methods
   async getPages(): Promise<Page[]> {
     return Array.from(this.pages.values()).sort((a, b) => a.sortOrder - b.sortOrder);
@@ -732,6 +1112,8 @@ export class MemStorage implements IStorage {
           searchTerm: state.tableState.filters.searchTerm,
           routeFilters: Array.from(state.tableState.filters.routeFilters) as string[],
           deliveryFilters: Array.from(state.tableState.filters.deliveryFilters) as string[],
+          inactiveOnly: state.tableState.filters.inactiveOnly as boolean | undefined,
+          dueDate: state.tableState.filters.dueDate as string | undefined,
         },
         sorting: state.tableState.sorting,
         columnVisibility: { ...state.tableState.columnVisibility },
@@ -787,11 +1169,347 @@ export class MemStorage implements IStorage {
   async deleteSavedShareLink(id: string): Promise<boolean> {
     return this.savedLinks.delete(id);
   }
+
+  // Depot methods
+  async getDepots(): Promise<Depot[]> {
+    return Array.from(this.depots.values()).sort((a, b) =>
+      a.createdAt.getTime() - b.createdAt.getTime()
+    );
+  }
+
+  async getDepot(id: string): Promise<Depot | undefined> {
+    return this.depots.get(id);
+  }
+
+  // Only one depot may be the default
+  private clearDefaultDepot(exceptId: string) {
+    this.depots.forEach((depot, id) => {
+      if (id !== exceptId && depot.isDefault) {
+        this.depots.set(id, { ...depot, isDefault: false });
+      }
+    });
+  }
+
+  async createDepot(insertDepot: InsertDepot): Promise<Depot> {
+    const id = randomUUID();
+    const depot: Depot = {
+      id,
+      name: insertDepot.name,
+      address: insertDepot.address ?? "",
+      latitude: insertDepot.latitude,
+      longitude: insertDepot.longitude,
+      isDefault: insertDepot.isDefault ?? false,
+      createdAt: new Date(),
+    };
+    if (depot.isDefault) this.clearDefaultDepot(id);
+    this.depots.set(id, depot);
+    return depot;
+  }
+
+  async updateDepot(id: string, updates: Partial<InsertDepot>): Promise<Depot | undefined> {
+    const existingDepot = this.depots.get(id);
+    if (!existingDepot) return undefined;
+
+    const filteredUpdates = Object.fromEntries(
+      Object.entries(updates).filter(([_, value]) => value !== undefined)
+    );
+    const updatedDepot = { ...existingDepot, ...filteredUpdates } as Depot;
+    if (updatedDepot.isDefault) this.clearDefaultDepot(id);
+    this.depots.set(id, updatedDepot);
+    return updatedDepot;
+  }
+
+  async deleteDepot(id: string): Promise<boolean> {
+    const deleted = this.depots.delete(id);
+    if (deleted) {
+      // Mirror the ON DELETE CASCADE of route_depots.depot_id
+      this.routeDepots.forEach((assignment, route) => {
+        if (assignment.depotId === id) this.routeDepots.delete(route);
+      });
+    }
+    return deleted;
+  }
+
+  async getRouteDepots(): Promise<RouteDepot[]> {
+    return Array.from(this.routeDepots.values());
+  }
+
+  async setRouteDepot(route: string, depotId: string | null): Promise<RouteDepot | undefined> {
+    if (depotId === null) {
+      this.routeDepots.delete(route);
+      return undefined;
+    }
+    const assignment: RouteDepot = { route, depotId };
+    this.routeDepots.set(route, assignment);
+    return assignment;
+  }
+
+  // Delivery schedule methods
+  async getDeliverySchedules(): Promise<DeliverySchedule[]> {
+    return Array.from(this.deliverySchedules.values()).sort((a, b) => a.delivery.localeCompare(b.delivery));
+  }
+
+  async setDeliverySchedule(delivery: string, schedule: InsertDeliverySchedule): Promise<DeliverySchedule> {
+    const saved: DeliverySchedule = {
+      delivery,
+      weekdays: schedule.weekdays,
+      intervalWeeks: schedule.intervalWeeks ?? 1,
+      anchorDate: schedule.anchorDate ?? null,
+      skipHolidays: schedule.skipHolidays ?? true,
+    };
+    this.deliverySchedules.set(delivery, saved);
+    return saved;
+  }
+
+  async deleteDeliverySchedule(delivery: string): Promise<boolean> {
+    return this.deliverySchedules.delete(delivery);
+  }
+
+  async getPublicHolidays(): Promise<PublicHoliday[]> {
+    return Array.from(this.publicHolidays.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async setPublicHoliday(holiday: InsertPublicHoliday): Promise<PublicHoliday> {
+    const saved: PublicHoliday = { date: holiday.date, name: holiday.name ?? "" };
+    this.publicHolidays.set(holiday.date, saved);
+    return saved;
+  }
+
+  async deletePublicHoliday(date: string): Promise<boolean> {
+    return this.publicHolidays.delete(date);
+  }
+
+  // Manifest methods
+  async getManifests(query: ManifestQuery): Promise<Manifest[]> {
+    return Array.from(this.manifests.values())
+      .filter(manifest =>
+        (!query.date || manifest.date === query.date) &&
+        (!query.route || manifest.route === query.route)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getManifest(id: string): Promise<Manifest | undefined> {
+    return this.manifests.get(id);
+  }
+
+  async createManifest(insertManifest: InsertManifest): Promise<Manifest> {
+    const now = new Date();
+    const manifest: Manifest = {
+      id: randomUUID(),
+      status: "draft",
+      orderSource: "table",
+      optimizationId: null,
+      depotName: "",
+      userId: null,
+      userName: null,
+      ...insertManifest,
+      createdAt: now,
+      statusChangedAt: now,
+    };
+    this.manifests.set(manifest.id, manifest);
+    return manifest;
+  }
+
+  async updateManifestStatus(id: string, status: ManifestStatus): Promise<Manifest | undefined> {
+    const existing = this.manifests.get(id);
+    if (!existing) return undefined;
+    const updated: Manifest = { ...existing, status, statusChangedAt: new Date() };
+    this.manifests.set(id, updated);
+    return updated;
+  }
+
+  // Stop check-in methods
+  async getStopCheckIns(manifestIds: string[]): Promise<StopCheckIn[]> {
+    const ids = new Set(manifestIds);
+    return this.stopCheckIns
+      .filter(checkIn => ids.has(checkIn.manifestId))
+      .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  }
+
+  async createStopCheckIn(insertCheckIn: InsertStopCheckIn): Promise<StopCheckIn> {
+    const checkIn: StopCheckIn = {
+      id: randomUUID(),
+      latitude: null,
+      longitude: null,
+      accuracyMeters: null,
+      note: "",
+      photo: null,
+      userId: null,
+      userName: null,
+      ...insertCheckIn,
+      createdAt: new Date(),
+    };
+    this.stopCheckIns.push(checkIn);
+    return checkIn;
+  }
+
+  // Media file methods
+  async getMediaFile(id: string): Promise<MediaFile | undefined> {
+    return this.mediaFiles.get(id);
+  }
+
+  async getMediaFileBySha256(sha256: string): Promise<MediaFile | undefined> {
+    return Array.from(this.mediaFiles.values()).find(file => file.sha256 === sha256);
+  }
+
+  async createMediaFile(insertFile: InsertMediaFile): Promise<MediaFile> {
+    const file: MediaFile = {
+      id: randomUUID(),
+      originalName: "",
+      width: null,
+      height: null,
+      variants: [],
+      gpsLatitude: null,
+      gpsLongitude: null,
+      userId: null,
+      userName: null,
+      ...insertFile,
+      createdAt: new Date(),
+      lastUsedAt: new Date(),
+    };
+    this.mediaFiles.set(file.id, file);
+    return file;
+  }
+
+  async updateMediaFile(id: string, updates: Pick<InsertMediaFile, "width" | "height" | "variants" | "gpsLatitude" | "gpsLongitude">): Promise<MediaFile | undefined> {
+    const file = this.mediaFiles.get(id);
+    if (!file) return undefined;
+    const updated = { ...file, ...updates };
+    this.mediaFiles.set(id, updated);
+    return updated;
+  }
+
+  async getMediaFilesUnusedSince(date: Date): Promise<MediaFile[]> {
+    return Array.from(this.mediaFiles.values()).filter(file => file.lastUsedAt < date);
+  }
+
+  async touchMediaFiles(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      const file = this.mediaFiles.get(id);
+      if (file) this.mediaFiles.set(id, { ...file, lastUsedAt: new Date() });
+    }
+  }
+
+  async deleteMediaFile(id: string): Promise<void> {
+    this.mediaFiles.delete(id);
+  }
+
+  async createMediaUpload(insertUpload: InsertMediaUpload): Promise<MediaUpload> {
+    const upload: MediaUpload = {
+      id: randomUUID(),
+      originalName: "",
+      userId: null,
+      userName: null,
+      ...insertUpload,
+      createdAt: new Date(),
+    };
+    this.mediaUploads.set(upload.id, upload);
+    this.mediaUploadParts.set(upload.id, new Map());
+    return upload;
+  }
+
+  async getMediaUpload(id: string): Promise<MediaUpload | undefined> {
+    return this.mediaUploads.get(id);
+  }
+
+  async getMediaUploadParts(uploadId: string): Promise<number[]> {
+    return Array.from(this.mediaUploadParts.get(uploadId)?.keys() ?? []).sort((a, b) => a - b);
+  }
+
+  async addMediaUploadPart(uploadId: string, index: number, sizeBytes: number): Promise<void> {
+    this.mediaUploadParts.get(uploadId)?.set(index, sizeBytes);
+  }
+
+  async deleteMediaUpload(id: string): Promise<void> {
+    this.mediaUploads.delete(id);
+    this.mediaUploadParts.delete(id);
+  }
+
+  async getMediaUploadsCreatedBefore(date: Date): Promise<MediaUpload[]> {
+    return Array.from(this.mediaUploads.values()).filter(upload => upload.createdAt < date);
+  }
+
+  // Road distance cache methods
+  async getCachedDistances(
+    provider: string,
+    originKeys: string[],
+    destinationKeys: string[],
+    since: Date,
+  ): Promise<DistanceCacheEntry[]> {
+    const origins = new Set(originKeys);
+    const destinations = new Set(destinationKeys);
+    return Array.from(this.distanceCache.values()).filter(entry =>
+      entry.provider === provider &&
+      origins.has(entry.originKey) &&
+      destinations.has(entry.destinationKey) &&
+      entry.updatedAt >= since
+    );
+  }
+
+  async saveCachedDistances(entries: InsertDistanceCacheEntry[]): Promise<void> {
+    for (const entry of entries) {
+      const key = `${entry.provider}|${entry.originKey}|${entry.destinationKey}`;
+      this.distanceCache.set(key, { distanceMeters: null, durationSeconds: null, ...entry, updatedAt: new Date() });
+    }
+  }
+
+  // Geocoding cache methods
+  async getCachedGeocode(provider: string, query: string, since: Date): Promise<GeocodeCacheEntry | undefined> {
+    const entry = this.geocodeCache.get(`${provider}|${query}`);
+    return entry && entry.updatedAt >= since ? entry : undefined;
+  }
+
+  async saveCachedGeocode(entry: InsertGeocodeCacheEntry): Promise<void> {
+    this.geocodeCache.set(`${entry.provider}|${entry.query}`, {
+      latitude: null,
+      longitude: null,
+      address: null,
+      ...entry,
+      updatedAt: new Date(),
+    });
+  }
+
+  // Audit log methods
+  async createAuditEntries(entries: InsertAuditEntry[]): Promise<void> {
+    const createdAt = new Date();
+    for (const entry of entries) {
+      this.auditEntries.push({
+        id: randomUUID(),
+        field: null,
+        oldValue: null,
+        newValue: null,
+        userId: null,
+        userName: null,
+        ...entry,
+        createdAt,
+      });
+    }
+  }
+
+  async getAuditEntries(query: AuditLogQuery): Promise<AuditEntry[]> {
+    return this.auditEntries
+      .filter(entry =>
+        (!query.entityType || entry.entityType === query.entityType) &&
+        (!query.entityId || entry.entityId === query.entityId) &&
+        (!query.from || entry.createdAt >= query.from) &&
+        (!query.to || entry.createdAt <= query.to)
+      )
+      .reverse()
+      .slice(0, query.limit);
+  }
 }
 
 // Database Storage Implementation
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
   constructor() {
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+    });
+
     // Initialize with sample data if tables are empty
     this.initializeData().catch(console.error);
     this.ensureCoreColumns().catch(console.error);
@@ -927,38 +1645,42 @@ export class DatabaseStorage implements IStorage {
         await db.insert(tableColumns).values(columnsWithOrder);
       }
 
-      // Always ensure QL Kitchen row exists
-      const qlKitchenExists = existingRows.some(row => 
-        row.route === "Warehouse" && row.location === "QL Kitchen" && row.sortOrder === -1
-      );
+      // Routes need a depot to start from
+      const existingDepots = await db.select().from(depots).limit(1);
+      if (existingDepots.length === 0) {
+        await db.insert(depots).values(DEFAULT_DEPOT);
+      }
 
-      if (!qlKitchenExists) {
-        try {
-          // Add QL Kitchen row
-          await db.insert(tableRows).values({
-            no: 999,
-            route: "Warehouse",
-            code: "QL001",
-            location: "QL Kitchen",
-            delivery: "Daily",
-            info: "Special QL Kitchen warehouse route",
-            tngSite: "QL Central",
-            tngRoute: "0.00",
-            destination: "0.00",
-            tollPrice: "0.00",
-            latitude: "3.139003",
-            longitude: "101.686855",
-            images: [],
-            qrCode: "",
-            sortOrder: -1,
-            active: true,
-          });
-        } catch (error: any) {
-          // If constraint error for duplicate sort_order, ignore it as the row already exists
-          if (error.code !== '23505' || !error.detail?.includes('sort_order')) {
-            throw error;
+      // Delivery labels need schedules before the due-date filter can match them
+      const existingSchedules = await db.select().from(deliverySchedules).limit(1);
+      if (existingSchedules.length === 0) {
+        await db.insert(deliverySchedules).values(DEFAULT_DELIVERY_SCHEDULES);
+      }
+
+      // The warehouse used to be a table row pinned at sortOrder -1 as the start of every route.
+      // Depots replaced it: if the row was moved from where it was seeded and the default depot
+      // was not, the depot takes the row's position. The row then goes to the trash with an
+      // ordinary sortOrder, so restoring it brings back a normal stop.
+      const warehouseRow = existingRows.find(row => row.sortOrder === -1 && !row.deletedAt);
+      if (warehouseRow) {
+        const samePoint = (latitude: string | null, longitude: string | null, point: { latitude: string; longitude: string }) =>
+          parseFloat(latitude ?? "") === parseFloat(point.latitude) && parseFloat(longitude ?? "") === parseFloat(point.longitude);
+        await db.transaction(async (tx) => {
+          const [defaultDepot] = await tx.select().from(depots).where(eq(depots.isDefault, true));
+          const depotUntouched = defaultDepot && samePoint(defaultDepot.latitude, defaultDepot.longitude, DEFAULT_DEPOT);
+          const { latitude, longitude } = warehouseRow;
+          if (depotUntouched && latitude && longitude && !samePoint(latitude, longitude, SEEDED_WAREHOUSE_POSITION)) {
+            await tx
+              .update(depots)
+              .set({ latitude, longitude })
+              .where(eq(depots.id, defaultDepot.id));
           }
-        }
+          const maxSortOrder = Math.max(...existingRows.map(row => row.sortOrder), -1);
+          await tx
+            .update(tableRows)
+            .set({ deletedAt: new Date(), sortOrder: maxSortOrder + 1 })
+            .where(eq(tableRows.id, warehouseRow.id));
+        });
       }
 
       if (existingRows.length === 0) {
@@ -991,6 +1713,15 @@ export class DatabaseStorage implements IStorage {
             ],
             qrCode: "https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=https://maps.google.com/?q=3.139003,101.686855",
             active: true,
+            windowStart: null,
+            windowEnd: null,
+            serviceMinutes: 0,
+            demand: "0",
+            customFields: {},
+            kilometer: null,
+            driveMinutes: null,
+            distanceCalculatedAt: null,
+            deletedAt: null,
           },
           {
             no: 2,
@@ -1014,6 +1745,15 @@ export class DatabaseStorage implements IStorage {
             ],
             qrCode: "https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=https://maps.google.com/?q=3.085602,101.532303",
             active: true,
+            windowStart: null,
+            windowEnd: null,
+            serviceMinutes: 0,
+            demand: "0",
+            customFields: {},
+            kilometer: null,
+            driveMinutes: null,
+            distanceCalculatedAt: null,
+            deletedAt: null,
           },
           {
             no: 3,
@@ -1031,6 +1771,15 @@ export class DatabaseStorage implements IStorage {
             images: [],
             qrCode: "https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=https://fmvending.web.app/location/JB-03",
             active: true,
+            windowStart: null,
+            windowEnd: null,
+            serviceMinutes: 0,
+            demand: "0",
+            customFields: {},
+            kilometer: null,
+            driveMinutes: null,
+            distanceCalculatedAt: null,
+            deletedAt: null,
           },
           {
             no: 4,
@@ -1054,6 +1803,15 @@ export class DatabaseStorage implements IStorage {
             ],
             qrCode: "",
             active: true,
+            windowStart: null,
+            windowEnd: null,
+            serviceMinutes: 0,
+            demand: "0",
+            customFields: {},
+            kilometer: null,
+            driveMinutes: null,
+            distanceCalculatedAt: null,
+            deletedAt: null,
           },
           {
             no: 5,
@@ -1071,13 +1829,21 @@ export class DatabaseStorage implements IStorage {
             images: [],
             qrCode: "",
             active: true,
+            windowStart: null,
+            windowEnd: null,
+            serviceMinutes: 0,
+            demand: "0",
+            customFields: {},
+            kilometer: null,
+            driveMinutes: null,
+            distanceCalculatedAt: null,
+            deletedAt: null,
           },
         ];
 
         for (let i = 0; i < defaultRows.length; i++) {
           const row = defaultRows[i];
-          // Give QL Kitchen special sortOrder to always appear at top
-          const sortOrder = row.location === "QL Kitchen" ? -1 : i - 1;
+          const sortOrder = i;
           await db.insert(tableRows).values({
             no: row.no,
             route: row.route,
@@ -1163,18 +1929,68 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user || undefined;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, email.toLowerCase()))
+      .limit(1);
+    return user || undefined;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(asc(users.id));
+  }
+
+  async countUsers(): Promise<number> {
+    const [result] = await db.select({ value: count() }).from(users);
+    return result?.value ?? 0;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await db
+      .insert(users)
+      .values({ ...insertUser, email: insertUser.email.toLowerCase() })
+      .returning();
+    return user;
+  }
+
+  async updateUser(id: number, updates: UpdateUser): Promise<User | undefined> {
+    const filteredUpdates = Object.fromEntries(
+      Object.entries(updates).filter(([_, value]) => value !== undefined)
+    );
+    if (Object.keys(filteredUpdates).length === 0) {
+      return this.getUser(id);
+    }
+
+    const [user] = await db
+      .update(users)
+      .set(filteredUpdates)
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
   // Table rows methods
   async getTableRows(): Promise<TableRow[]> {
-    return await db.select().from(tableRows).orderBy(asc(tableRows.sortOrder));
+    return await db
+      .select()
+      .from(tableRows)
+      .where(isNull(tableRows.deletedAt))
+      .orderBy(asc(tableRows.sortOrder));
   }
 
   async getTableRow(id: string): Promise<TableRow | undefined> {
-    const [row] = await db.select().from(tableRows).where(eq(tableRows.id, id));
-    return row || undefined;
-  }
-
-  async getQlKitchenRow(): Promise<TableRow | undefined> {
-    const [row] = await db.select().from(tableRows).where(eq(tableRows.sortOrder, -1));
+    const [row] = await db
+      .select()
+      .from(tableRows)
+      .where(and(eq(tableRows.id, id), isNull(tableRows.deletedAt)));
     return row || undefined;
   }
 
@@ -1197,6 +2013,12 @@ export class DatabaseStorage implements IStorage {
         latitude: insertRow.latitude || null,
         longitude: insertRow.longitude || null,
         images: (insertRow.images as ImageWithCaption[]) || [],
+        active: insertRow.active ?? true,
+        windowStart: insertRow.windowStart || null,
+        windowEnd: insertRow.windowEnd || null,
+        serviceMinutes: insertRow.serviceMinutes || 0,
+        demand: insertRow.demand ?? "0",
+        customFields: insertRow.customFields || {},
         sortOrder: maxSortOrder + 1,
       })
       .returning();
@@ -1217,9 +2039,9 @@ export class DatabaseStorage implements IStorage {
       Object.entries(updates).filter(([_, value]) => value !== undefined)
     );
 
-    // Prevent any row from being set to sortOrder -1 except QL Kitchen
-    if (filteredUpdates.sortOrder === -1 && existingRow.location !== "QL Kitchen") {
-      throw new Error("Only QL Kitchen row can have sortOrder -1");
+    // Moving a row, or sending it from another route's depot, invalidates its road distance
+    if (invalidatesRouteMetrics(filteredUpdates, existingRow)) {
+      Object.assign(filteredUpdates, CLEARED_ROUTE_METRICS);
     }
 
     // If no valid updates after filtering, return the existing row
@@ -1237,22 +2059,105 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteTableRow(id: string): Promise<boolean> {
-    const result = await db.delete(tableRows).where(eq(tableRows.id, id));
+    const result = await db
+      .update(tableRows)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(tableRows.id, id), isNull(tableRows.deletedAt)));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  async getDeletedTableRows(): Promise<TableRow[]> {
+    return await db
+      .select()
+      .from(tableRows)
+      .where(isNotNull(tableRows.deletedAt))
+      .orderBy(desc(tableRows.deletedAt));
+  }
+
+  async restoreTableRow(id: string): Promise<TableRow | undefined> {
+    const [row] = await db
+      .update(tableRows)
+      .set({ deletedAt: null })
+      .where(and(eq(tableRows.id, id), isNotNull(tableRows.deletedAt)))
+      .returning();
+    return row || undefined;
+  }
+
+  async purgeTableRow(id: string): Promise<boolean> {
+    const result = await db
+      .delete(tableRows)
+      .where(and(eq(tableRows.id, id), isNotNull(tableRows.deletedAt)));
     return result.rowCount ? result.rowCount > 0 : false;
   }
 
+  async importTableRows(
+    inserts: InsertTableRow[],
+    updates: { id: string; updates: Partial<InsertTableRow> }[],
+  ): Promise<TableRow[]> {
+    return await db.transaction(async (tx) => {
+      const written: TableRow[] = [];
+      const [{ maxSortOrder }] = await tx
+        .select({ maxSortOrder: sql<number>`coalesce(max(${tableRows.sortOrder}), -1)` })
+        .from(tableRows);
+
+      let sortOrder = Number(maxSortOrder);
+      for (const insertRow of inserts) {
+        sortOrder += 1;
+        const [row] = await tx
+          .insert(tableRows)
+          .values({
+            ...insertRow,
+            images: (insertRow.images as ImageWithCaption[]) || [],
+            sortOrder,
+          })
+          .returning();
+        written.push(row);
+      }
+
+      for (const { id, updates: rowUpdates } of updates) {
+        const changes: Record<string, unknown> = { ...rowUpdates };
+        // Imported updates hold only changed fields, so a route here is a new route
+        if (invalidatesRouteMetrics(rowUpdates)) {
+          Object.assign(changes, CLEARED_ROUTE_METRICS);
+        }
+        const [row] = await tx
+          .update(tableRows)
+          .set(changes)
+          .where(eq(tableRows.id, id))
+          .returning();
+        if (row) written.push(row);
+      }
+
+      return written;
+    });
+  }
+
+  async setRowRouteMetrics(id: string, metrics: RowRouteMetrics): Promise<TableRow | undefined> {
+    const [updatedRow] = await db
+      .update(tableRows)
+      .set({ ...metrics, distanceCalculatedAt: new Date() })
+      .where(eq(tableRows.id, id))
+      .returning();
+    return updatedRow || undefined;
+  }
+
+  async clearRouteMetrics(routes: string[]): Promise<TableRow[]> {
+    if (routes.length === 0) return [];
+    const cleared = await db
+      .update(tableRows)
+      .set(CLEARED_ROUTE_METRICS)
+      .where(and(
+        inArray(tableRows.route, routes),
+        or(isNotNull(tableRows.kilometer), isNotNull(tableRows.driveMinutes)),
+      ))
+      .returning();
+    return cleared.filter(row => !row.deletedAt);
+  }
+
   async reorderTableRows(rowIds: string[]): Promise<TableRow[]> {
-    // Get the QL Kitchen row to preserve its -1 sortOrder
-    const qlKitchenRow = await this.getQlKitchenRow();
-    
-    // Filter out the QL Kitchen row from reordering if it exists
-    const filteredRowIds = qlKitchenRow 
-      ? rowIds.filter(id => id !== qlKitchenRow.id)
-      : rowIds;
-    
     // Batch update all rows in parallel for better performance
     await Promise.all(
-      filteredRowIds.map((id, index) =>
+      rowIds.map((id, index) =>
         db
           .update(tableRows)
           .set({ sortOrder: index })
@@ -1263,6 +2168,55 @@ export class DatabaseStorage implements IStorage {
     return this.getTableRows();
   }
 
+  async getRowOrderSnapshots(): Promise<RowOrderSnapshot[]> {
+    return await db
+      .select()
+      .from(rowOrderSnapshots)
+      .orderBy(desc(rowOrderSnapshots.createdAt));
+  }
+
+  async saveRowOrderSnapshot(insertSnapshot: InsertRowOrderSnapshot): Promise<RowOrderSnapshot> {
+    return await db.transaction(async (tx) => {
+      const [snapshot] = await tx.insert(rowOrderSnapshots).values(insertSnapshot).returning();
+      const kept = await tx
+        .select({ id: rowOrderSnapshots.id })
+        .from(rowOrderSnapshots)
+        .orderBy(desc(rowOrderSnapshots.createdAt))
+        .limit(REORDER_UNDO_LIMIT);
+      await tx.delete(rowOrderSnapshots).where(notInArray(rowOrderSnapshots.id, kept.map(row => row.id)));
+      return snapshot;
+    });
+  }
+
+  async undoLastReorder(): Promise<RowOrderSnapshot | undefined> {
+    return await db.transaction(async (tx) => {
+      const [snapshot] = await tx
+        .select()
+        .from(rowOrderSnapshots)
+        .orderBy(desc(rowOrderSnapshots.createdAt))
+        .limit(1);
+      if (!snapshot) return undefined;
+
+      const listed = Object.keys(snapshot.sortOrders);
+      const unlisted = await tx
+        .select({ id: tableRows.id })
+        .from(tableRows)
+        .where(listed.length > 0
+          ? and(isNull(tableRows.deletedAt), notInArray(tableRows.id, listed))
+          : isNull(tableRows.deletedAt))
+        .orderBy(asc(tableRows.sortOrder));
+      for (const [id, sortOrder] of Object.entries(snapshot.sortOrders)) {
+        await tx.update(tableRows).set({ sortOrder }).where(eq(tableRows.id, id));
+      }
+      const next = Math.max(...Object.values(snapshot.sortOrders), -1) + 1;
+      for (let index = 0; index < unlisted.length; index++) {
+        await tx.update(tableRows).set({ sortOrder: next + index }).where(eq(tableRows.id, unlisted[index].id));
+      }
+      await tx.delete(rowOrderSnapshots).where(eq(rowOrderSnapshots.id, snapshot.id));
+      return snapshot;
+    });
+  }
+
   // Table columns methods
   async getTableColumns(): Promise<TableColumn[]> {
     return await db
@@ -1439,6 +2393,13 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async deleteLayoutPreferences(userId: string): Promise<boolean> {
+    const result = await db
+      .delete(layoutPreferences)
+      .where(eq(layoutPreferences.userId, userId));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
   // Pages methods
   async getPages(): Promise<Page[]> {
     return await db
@@ -1570,6 +2531,313 @@ export class DatabaseStorage implements IStorage {
       .where(eq(savedShareLinks.id, id));
     return result.rowCount ? result.rowCount > 0 : false;
   }
+
+  // Depot methods
+  async getDepots(): Promise<Depot[]> {
+    return await db.select().from(depots).orderBy(asc(depots.createdAt));
+  }
+
+  async getDepot(id: string): Promise<Depot | undefined> {
+    const [depot] = await db.select().from(depots).where(eq(depots.id, id));
+    return depot || undefined;
+  }
+
+  async createDepot(insertDepot: InsertDepot): Promise<Depot> {
+    return await db.transaction(async (tx) => {
+      // Only one depot may be the default (enforced by ux_one_default_depot)
+      if (insertDepot.isDefault) {
+        await tx.update(depots).set({ isDefault: false }).where(eq(depots.isDefault, true));
+      }
+      const [depot] = await tx.insert(depots).values(insertDepot).returning();
+      return depot;
+    });
+  }
+
+  async updateDepot(id: string, updates: Partial<InsertDepot>): Promise<Depot | undefined> {
+    const filteredUpdates = Object.fromEntries(
+      Object.entries(updates).filter(([_, value]) => value !== undefined)
+    );
+    if (Object.keys(filteredUpdates).length === 0) {
+      return this.getDepot(id);
+    }
+
+    return await db.transaction(async (tx) => {
+      if (filteredUpdates.isDefault) {
+        await tx
+          .update(depots)
+          .set({ isDefault: false })
+          .where(and(eq(depots.isDefault, true), ne(depots.id, id)));
+      }
+      const [depot] = await tx
+        .update(depots)
+        .set(filteredUpdates)
+        .where(eq(depots.id, id))
+        .returning();
+      return depot || undefined;
+    });
+  }
+
+  async deleteDepot(id: string): Promise<boolean> {
+    const result = await db.delete(depots).where(eq(depots.id, id));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  async getRouteDepots(): Promise<RouteDepot[]> {
+    return await db.select().from(routeDepots);
+  }
+
+  async setRouteDepot(route: string, depotId: string | null): Promise<RouteDepot | undefined> {
+    if (depotId === null) {
+      await db.delete(routeDepots).where(eq(routeDepots.route, route));
+      return undefined;
+    }
+
+    const [assignment] = await db
+      .insert(routeDepots)
+      .values({ route, depotId })
+      .onConflictDoUpdate({ target: routeDepots.route, set: { depotId } })
+      .returning();
+    return assignment;
+  }
+
+  // Delivery schedule methods
+  async getDeliverySchedules(): Promise<DeliverySchedule[]> {
+    return await db.select().from(deliverySchedules).orderBy(asc(deliverySchedules.delivery));
+  }
+
+  async setDeliverySchedule(delivery: string, schedule: InsertDeliverySchedule): Promise<DeliverySchedule> {
+    const values = {
+      weekdays: schedule.weekdays,
+      intervalWeeks: schedule.intervalWeeks ?? 1,
+      anchorDate: schedule.anchorDate ?? null,
+      skipHolidays: schedule.skipHolidays ?? true,
+    };
+    const [saved] = await db
+      .insert(deliverySchedules)
+      .values({ delivery, ...values })
+      .onConflictDoUpdate({ target: deliverySchedules.delivery, set: values })
+      .returning();
+    return saved;
+  }
+
+  async deleteDeliverySchedule(delivery: string): Promise<boolean> {
+    const result = await db.delete(deliverySchedules).where(eq(deliverySchedules.delivery, delivery));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  async getPublicHolidays(): Promise<PublicHoliday[]> {
+    return await db.select().from(publicHolidays).orderBy(asc(publicHolidays.date));
+  }
+
+  async setPublicHoliday(holiday: InsertPublicHoliday): Promise<PublicHoliday> {
+    const name = holiday.name ?? "";
+    const [saved] = await db
+      .insert(publicHolidays)
+      .values({ date: holiday.date, name })
+      .onConflictDoUpdate({ target: publicHolidays.date, set: { name } })
+      .returning();
+    return saved;
+  }
+
+  async deletePublicHoliday(date: string): Promise<boolean> {
+    const result = await db.delete(publicHolidays).where(eq(publicHolidays.date, date));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  // Manifest methods
+  async getManifests(query: ManifestQuery): Promise<Manifest[]> {
+    const conditions = [
+      query.date ? eq(manifests.date, query.date) : undefined,
+      query.route ? eq(manifests.route, query.route) : undefined,
+    ];
+    return await db
+      .select()
+      .from(manifests)
+      .where(and(...conditions))
+      .orderBy(desc(manifests.createdAt));
+  }
+
+  async getManifest(id: string): Promise<Manifest | undefined> {
+    const [manifest] = await db.select().from(manifests).where(eq(manifests.id, id));
+    return manifest || undefined;
+  }
+
+  async createManifest(insertManifest: InsertManifest): Promise<Manifest> {
+    const [manifest] = await db.insert(manifests).values(insertManifest).returning();
+    return manifest;
+  }
+
+  async updateManifestStatus(id: string, status: ManifestStatus): Promise<Manifest | undefined> {
+    const [manifest] = await db
+      .update(manifests)
+      .set({ status, statusChangedAt: new Date() })
+      .where(eq(manifests.id, id))
+      .returning();
+    return manifest || undefined;
+  }
+
+  // Stop check-in methods
+  async getStopCheckIns(manifestIds: string[]): Promise<StopCheckIn[]> {
+    if (manifestIds.length === 0) return [];
+    return await db
+      .select()
+      .from(stopCheckIns)
+      .where(inArray(stopCheckIns.manifestId, manifestIds))
+      .orderBy(asc(stopCheckIns.recordedAt));
+  }
+
+  async createStopCheckIn(insertCheckIn: InsertStopCheckIn): Promise<StopCheckIn> {
+    const [checkIn] = await db.insert(stopCheckIns).values(insertCheckIn).returning();
+    return checkIn;
+  }
+
+  // Media file methods
+  async getMediaFile(id: string): Promise<MediaFile | undefined> {
+    const [file] = await db.select().from(mediaFiles).where(eq(mediaFiles.id, id));
+    return file || undefined;
+  }
+
+  async getMediaFileBySha256(sha256: string): Promise<MediaFile | undefined> {
+    const [file] = await db.select().from(mediaFiles).where(eq(mediaFiles.sha256, sha256)).limit(1);
+    return file || undefined;
+  }
+
+  async createMediaFile(insertFile: InsertMediaFile): Promise<MediaFile> {
+    const [file] = await db.insert(mediaFiles).values(insertFile).returning();
+    return file;
+  }
+
+  async updateMediaFile(id: string, updates: Pick<InsertMediaFile, "width" | "height" | "variants" | "gpsLatitude" | "gpsLongitude">): Promise<MediaFile | undefined> {
+    const [file] = await db.update(mediaFiles).set(updates).where(eq(mediaFiles.id, id)).returning();
+    return file || undefined;
+  }
+
+  async getMediaFilesUnusedSince(date: Date): Promise<MediaFile[]> {
+    return db.select().from(mediaFiles).where(lte(mediaFiles.lastUsedAt, date));
+  }
+
+  async touchMediaFiles(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.update(mediaFiles).set({ lastUsedAt: new Date() }).where(inArray(mediaFiles.id, ids));
+  }
+
+  async deleteMediaFile(id: string): Promise<void> {
+    await db.delete(mediaFiles).where(eq(mediaFiles.id, id));
+  }
+
+  async createMediaUpload(insertUpload: InsertMediaUpload): Promise<MediaUpload> {
+    const [upload] = await db.insert(mediaUploads).values(insertUpload).returning();
+    return upload;
+  }
+
+  async getMediaUpload(id: string): Promise<MediaUpload | undefined> {
+    const [upload] = await db.select().from(mediaUploads).where(eq(mediaUploads.id, id));
+    return upload || undefined;
+  }
+
+  async getMediaUploadParts(uploadId: string): Promise<number[]> {
+    const parts = await db.select({ index: mediaUploadParts.index }).from(mediaUploadParts)
+      .where(eq(mediaUploadParts.uploadId, uploadId))
+      .orderBy(asc(mediaUploadParts.index));
+    return parts.map(part => part.index);
+  }
+
+  async addMediaUploadPart(uploadId: string, index: number, sizeBytes: number): Promise<void> {
+    // Parts may arrive concurrently and be retried; the composite key keeps one row per part
+    await db.insert(mediaUploadParts).values({ uploadId, index, sizeBytes })
+      .onConflictDoUpdate({ target: [mediaUploadParts.uploadId, mediaUploadParts.index], set: { sizeBytes } });
+  }
+
+  async deleteMediaUpload(id: string): Promise<void> {
+    await db.delete(mediaUploads).where(eq(mediaUploads.id, id));
+  }
+
+  async getMediaUploadsCreatedBefore(date: Date): Promise<MediaUpload[]> {
+    return db.select().from(mediaUploads).where(lte(mediaUploads.createdAt, date));
+  }
+
+  // Road distance cache methods
+  async getCachedDistances(
+    provider: string,
+    originKeys: string[],
+    destinationKeys: string[],
+    since: Date,
+  ): Promise<DistanceCacheEntry[]> {
+    if (originKeys.length === 0 || destinationKeys.length === 0) return [];
+    return await db
+      .select()
+      .from(distanceCache)
+      .where(and(
+        eq(distanceCache.provider, provider),
+        inArray(distanceCache.originKey, originKeys),
+        inArray(distanceCache.destinationKey, destinationKeys),
+        gte(distanceCache.updatedAt, since),
+      ));
+  }
+
+  async saveCachedDistances(entries: InsertDistanceCacheEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await db
+      .insert(distanceCache)
+      .values(entries)
+      .onConflictDoUpdate({
+        target: [distanceCache.provider, distanceCache.originKey, distanceCache.destinationKey],
+        set: {
+          distanceMeters: sql`excluded.distance_meters`,
+          durationSeconds: sql`excluded.duration_seconds`,
+          updatedAt: sql`now()`,
+        },
+      });
+  }
+
+  // Geocoding cache methods
+  async getCachedGeocode(provider: string, query: string, since: Date): Promise<GeocodeCacheEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(geocodeCache)
+      .where(and(
+        eq(geocodeCache.provider, provider),
+        eq(geocodeCache.query, query),
+        gte(geocodeCache.updatedAt, since),
+      ));
+    return entry || undefined;
+  }
+
+  async saveCachedGeocode(entry: InsertGeocodeCacheEntry): Promise<void> {
+    await db
+      .insert(geocodeCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: [geocodeCache.provider, geocodeCache.query],
+        set: {
+          latitude: entry.latitude ?? null,
+          longitude: entry.longitude ?? null,
+          address: entry.address ?? null,
+          updatedAt: sql`now()`,
+        },
+      });
+  }
+
+  // Audit log methods
+  async createAuditEntries(entries: InsertAuditEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await db.insert(auditLog).values(entries);
+  }
+
+  async getAuditEntries(query: AuditLogQuery): Promise<AuditEntry[]> {
+    const conditions = [
+      query.entityType ? eq(auditLog.entityType, query.entityType) : undefined,
+      query.entityId ? eq(auditLog.entityId, query.entityId) : undefined,
+      query.from ? gte(auditLog.createdAt, query.from) : undefined,
+      query.to ? lte(auditLog.createdAt, query.to) : undefined,
+    ];
+    return await db
+      .select()
+      .from(auditLog)
+      .where(and(...conditions))
+      .orderBy(desc(auditLog.createdAt))
+      .limit(query.limit);
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,280 @@
+import ExcelJS from "exceljs";
+import PDFDocument from "pdfkit";
+import { MEDIA_URL_PREFIX, type ExportFormat, type TableColumn, type TableFilters, type TableRow, type TableSorting } from "@shared/schema";
+import { getCustomFieldValue, isCustomColumn } from "@shared/customFields";
+import { columnTotal } from "@shared/tableView";
+import { rowsToGeoJson, rowsToKml } from "./geoFormats";
+import { readStoredMedia } from "./media";
+
+const QR_FETCH_TIMEOUT_MS = 5000;
+const QR_FETCH_BATCH = 8; // QR images fetched in parallel for the run sheet
+const QR_MAX_BYTES = 2 * 1024 * 1024;
+
+export interface TableExportView {
+  rows: TableRow[];
+  columns: TableColumn[];
+  kilometers: Record<string, number | null>;
+  filters: TableFilters;
+  sorting: TableSorting | null;
+}
+
+export interface ExportFile {
+  contentType: string;
+  fileName: string;
+  body: Buffer;
+}
+
+type CellValue = string | number | null;
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-MY", { style: "currency", currency: "MYR", currencyDisplay: "symbol" })
+    .format(amount || 0)
+    .replace("MYR", "RM");
+
+// Stop numbers as the table shows them, counting from 1
+function stopNumbers(rows: TableRow[]): Map<string, number> {
+  return new Map(rows.map((row, index) => [row.id, index + 1]));
+}
+
+function cellValue(row: TableRow, column: TableColumn, view: TableExportView, stops: Map<string, number>): CellValue {
+  switch (column.dataKey) {
+    case "id":
+      return row.id.slice(0, 8).toUpperCase();
+    case "no":
+      return stops.get(row.id) ?? null;
+    case "kilometer": {
+      const km = view.kilometers[row.id];
+      return km === undefined || km === null ? null : Math.round(km * 100) / 100;
+    }
+    case "images":
+      return row.images.length;
+  }
+
+  const value = isCustomColumn(column)
+    ? getCustomFieldValue(row, column.dataKey)
+    : (row as Record<string, unknown>)[column.dataKey];
+  if (value === undefined || value === null || value === "") return null;
+  if (Array.isArray(value)) return value.length;
+  if (column.type === "currency" || column.type === "number") {
+    const amount = Number(value);
+    return Number.isFinite(amount) ? amount : String(value);
+  }
+  return String(value);
+}
+
+function csvField(value: CellValue, column: TableColumn): string {
+  if (value === null) return "";
+  const text = typeof value === "number" && column.type === "currency" ? value.toFixed(2) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function exportCsv(view: TableExportView): string {
+  const stops = stopNumbers(view.rows);
+  const lines = [
+    view.columns.map(column => csvField(column.name, column)).join(","),
+    ...view.rows.map(row =>
+      view.columns.map(column => csvField(cellValue(row, column, view, stops), column)).join(",")
+    ),
+    view.columns.map((column, index) =>
+      index === 0 ? "Totals" : csvField(columnTotal(view.rows, column), column)
+    ).join(","),
+  ];
+  // BOM so Excel opens the file as UTF-8
+  return "\uFEFF" + lines.join("\r\n") + "\r\n";
+}
+
+async function exportXlsx(view: TableExportView): Promise<Buffer> {
+  const stops = stopNumbers(view.rows);
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet("Routes");
+
+  sheet.columns = view.columns.map(column => ({
+    header: column.name,
+    key: column.dataKey,
+    width: column.dataKey === "location" ? 36 : 14,
+    style: column.type === "currency" ? { numFmt: '"RM" #,##0.00' } : {},
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: "frozen", ySplit: 1 }];
+
+  for (const row of view.rows) {
+    sheet.addRow(view.columns.map(column => cellValue(row, column, view, stops)));
+  }
+  const totals = sheet.addRow(view.columns.map((column, index) =>
+    index === 0 ? "Totals" : columnTotal(view.rows, column)
+  ));
+  totals.font = { bold: true };
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+// QR images are stored as media store URLs, other URLs or data URLs; PDFKit can embed PNG and JPEG
+async function loadQrImage(source: string | null): Promise<Buffer | null> {
+  if (!source) return null;
+  try {
+    let image: Buffer;
+    if (source.startsWith("data:image/")) {
+      image = Buffer.from(source.slice(source.indexOf(",") + 1), "base64");
+    } else if (source.startsWith(MEDIA_URL_PREFIX)) {
+      const stored = await readStoredMedia(source, QR_MAX_BYTES);
+      if (!stored) return null;
+      image = stored;
+    } else if (/^https?:\/\//.test(source)) {
+      const response = await fetch(source, { signal: AbortSignal.timeout(QR_FETCH_TIMEOUT_MS) });
+      if (!response.ok) return null;
+      image = Buffer.from(await response.arrayBuffer());
+    } else {
+      return null;
+    }
+    const isPng = image.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    const isJpeg = image[0] === 0xff && image[1] === 0xd8;
+    return (isPng || isJpeg) && image.length <= QR_MAX_BYTES ? image : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+async function loadQrImages(rows: TableRow[]): Promise<Map<string, Buffer | null>> {
+  const images = new Map<string, Buffer | null>();
+  for (let i = 0; i < rows.length; i += QR_FETCH_BATCH) {
+    const batch = rows.slice(i, i + QR_FETCH_BATCH);
+    const loaded = await Promise.all(batch.map(row => loadQrImage(row.qrCode)));
+    batch.forEach((row, index) => images.set(row.id, loaded[index]));
+  }
+  return images;
+}
+
+// One-line summary of the filters and sort behind the exported view
+function describeView(filters: TableFilters, sorting: TableSorting | null): string {
+  const parts: string[] = [];
+  if (filters.dueDate) parts.push(`Due ${filters.dueDate}`);
+  if (filters.inactiveOnly) parts.push("Inactive sites");
+  if (filters.routeFilters.length > 0) parts.push(`Routes: ${filters.routeFilters.join(", ")}`);
+  if (filters.deliveryFilters.length > 0) parts.push(`Hidden: ${filters.deliveryFilters.join(", ")}`);
+  if (filters.searchTerm) parts.push(`Search: "${filters.searchTerm}"`);
+  if (sorting) parts.push(`Sorted by ${sorting.column} (${sorting.direction})`);
+  return parts.length > 0 ? parts.join(" · ") : "All rows";
+}
+
+/**
+ * Printable driver run sheet: one line per stop with its QR image, and the
+ * TnG and toll totals from the table footer at the end
+ */
+async function exportRunSheet(view: TableExportView): Promise<Buffer> {
+  const stops = stopNumbers(view.rows);
+  const qrImages = await loadQrImages(view.rows);
+  const doc = new PDFDocument({ size: "A4", margin: 36 });
+  const chunks: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<void>(resolve => doc.on("end", () => resolve()));
+
+  const left = doc.page.margins.left;
+  const right = doc.page.width - doc.page.margins.right;
+  const bottom = doc.page.height - doc.page.margins.bottom;
+  const table = [
+    { label: "Stop", width: 36 },
+    { label: "Code", width: 60 },
+    { label: "Location", width: 230 },
+    { label: "Delivery", width: 85 },
+    { label: "QR", width: 112 },
+  ];
+  const qrSize = 48;
+
+  const drawHeaderRow = () => {
+    const top = doc.y;
+    let x = left;
+    doc.font("Helvetica-Bold").fontSize(9);
+    for (const cell of table) {
+      doc.text(cell.label, x, top, { width: cell.width, lineBreak: false });
+      x += cell.width;
+    }
+    doc.x = left;
+    doc.moveDown(0.6);
+    doc.moveTo(left, doc.y).lineTo(right, doc.y).strokeColor("#999999").stroke();
+    doc.moveDown(0.4);
+    doc.font("Helvetica").fontSize(9);
+  };
+
+  doc.font("Helvetica-Bold").fontSize(16).text("Run Sheet");
+  doc.font("Helvetica").fontSize(9).fillColor("#555555")
+    .text(`${new Date().toLocaleDateString("en-MY", { dateStyle: "full" })} · ${describeView(view.filters, view.sorting)}`);
+  doc.fillColor("#000000").moveDown();
+  drawHeaderRow();
+
+  for (const row of view.rows) {
+    const qrImage = qrImages.get(row.id);
+    const rowHeight = Math.max(
+      qrImage ? qrSize : 0,
+      doc.heightOfString(row.location || "—", { width: table[2].width - 6 }),
+    ) + 8;
+    if (doc.y + rowHeight > bottom) {
+      doc.addPage();
+      drawHeaderRow();
+    }
+
+    const top = doc.y;
+    const values = [String(stops.get(row.id) ?? ""), row.code || "—", row.location || "—", row.delivery || "—"];
+    let x = left;
+    values.forEach((value, index) => {
+      doc.text(value, x, top, { width: table[index].width - 6 });
+      x += table[index].width;
+    });
+    if (qrImage) {
+      doc.image(qrImage, x, top, { fit: [qrSize, qrSize] });
+    } else {
+      doc.text("—", x, top, { width: table[4].width });
+    }
+
+    doc.y = top + rowHeight;
+    doc.moveTo(left, doc.y - 4).lineTo(right, doc.y - 4).strokeColor("#dddddd").stroke();
+  }
+
+  const tngTotal = columnTotal(view.rows, { dataKey: "tngRoute", type: "currency" }) ?? 0;
+  const tollTotal = columnTotal(view.rows, { dataKey: "tollPrice", type: "currency" }) ?? 0;
+  if (doc.y + 40 > bottom) doc.addPage();
+  doc.moveDown();
+  doc.font("Helvetica-Bold").fontSize(10)
+    .text(`Stops: ${view.rows.length}`, left)
+    .text(`TnG total: ${formatCurrency(tngTotal)}`, left)
+    .text(`Toll total: ${formatCurrency(tollTotal)}`, left);
+
+  doc.end();
+  await finished;
+  return Buffer.concat(chunks);
+}
+
+export async function exportTable(format: ExportFormat, view: TableExportView): Promise<ExportFile> {
+  const date = new Date().toISOString().slice(0, 10);
+  switch (format) {
+    case "csv":
+      return {
+        contentType: "text/csv; charset=utf-8",
+        fileName: `routes-${date}.csv`,
+        body: Buffer.from(exportCsv(view), "utf8"),
+      };
+    case "xlsx":
+      return {
+        contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        fileName: `routes-${date}.xlsx`,
+        body: await exportXlsx(view),
+      };
+    case "pdf":
+      return {
+        contentType: "application/pdf",
+        fileName: `run-sheet-${date}.pdf`,
+        body: await exportRunSheet(view),
+      };
+    case "geojson":
+      return {
+        contentType: "application/geo+json",
+        fileName: `routes-${date}.geojson`,
+        body: Buffer.from(rowsToGeoJson(view.rows), "utf8"),
+      };
+    case "kml":
+      return {
+        contentType: "application/vnd.google-earth.kml+xml",
+        fileName: `routes-${date}.kml`,
+        body: Buffer.from(rowsToKml(view.rows, `Routes ${date}`), "utf8"),
+      };
+  }
+}
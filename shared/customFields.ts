@@ -0,0 +1,78 @@
+import { getTableColumns } from "drizzle-orm";
+import { z } from "zod";
+import { tableRows, mediaSchema, type CustomFieldValue, type TableColumn, type TableRow } from "./schema";
+
+// Columns whose dataKey names a real tableRows field; every other column stores its value in customFields
+const ROW_FIELDS = new Set(Object.keys(getTableColumns(tableRows)));
+
+export function isCustomColumn(column: Pick<TableColumn, "dataKey">): boolean {
+  return !ROW_FIELDS.has(column.dataKey);
+}
+
+const finiteNumber = z.coerce.number().refine(Number.isFinite, "Value must be a number");
+
+function valueSchemaFor(column: TableColumn): z.ZodTypeAny {
+  switch (column.type) {
+    case "number":
+      return finiteNumber;
+    case "currency":
+      return finiteNumber.transform(value => Math.round(value * 100) / 100);
+    case "select": {
+      const options = column.options ?? [];
+      return z.string().refine(value => options.includes(value), {
+        message: `Value must be one of: ${options.join(", ")}`,
+      });
+    }
+    case "images":
+      return z.array(mediaSchema);
+    default:
+      return z.string();
+  }
+}
+
+/**
+ * Schema for a partial customFields update, checked against the columns it targets.
+ * Unknown keys are rejected; null (or "" for non-text columns) clears a value.
+ */
+export function customFieldsSchema(columns: TableColumn[]) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const column of columns.filter(isCustomColumn)) {
+    const clearsOnEmpty = column.type !== "text";
+    shape[column.dataKey] = z
+      .preprocess(value => (clearsOnEmpty && value === "" ? null : value), valueSchemaFor(column).nullable())
+      .optional();
+  }
+  return z.object(shape).strict();
+}
+
+export type CustomFieldsUpdate = Record<string, CustomFieldValue | null | undefined>;
+
+/**
+ * Apply a validated update to a row's stored values; null removes the key
+ */
+export function mergeCustomFields(
+  current: Record<string, CustomFieldValue> | null | undefined,
+  updates: CustomFieldsUpdate,
+): Record<string, CustomFieldValue> {
+  const merged = { ...(current ?? {}) };
+  for (const [key, value] of Object.entries(updates)) {
+    if (value === null) {
+      delete merged[key];
+    } else if (value !== undefined) {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+export function getCustomFieldValue(row: Pick<TableRow, "customFields">, dataKey: string): CustomFieldValue | undefined {
+  return row.customFields?.[dataKey];
+}
+
+/**
+ * Every value of a row that free-text search should look at, custom fields included
+ */
+export function rowSearchValues(row: TableRow): unknown[] {
+  const { customFields, ...fields } = row;
+  return [...Object.values(fields), ...Object.values(customFields ?? {})];
+}
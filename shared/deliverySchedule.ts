@@ -0,0 +1,90 @@
+import type { DeliverySchedule, PublicHoliday, TableRow } from "./schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+type ScheduleRule = Pick<DeliverySchedule, "weekdays" | "intervalWeeks" | "anchorDate" | "skipHolidays">;
+
+// Dates are calendar days with no time zone; work in UTC so DST never shifts a day
+function dayNumber(date: string): number {
+  return Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+export function dayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+export function todayIsoDate(now = new Date()): string {
+  const local = new Date(now.getTime() - now.getTimezoneOffset() * 60 * 1000);
+  return local.toISOString().slice(0, 10);
+}
+
+// Weeks start on Monday, so an alternate week runs Monday to Sunday
+function weekNumber(date: string): number {
+  const monday = dayNumber(date) - ((dayOfWeek(date) + 6) % 7);
+  return Math.floor(monday / 7);
+}
+
+/**
+ * Whether a schedule has a delivery on the given day: one of its weekdays,
+ * in a week that is a whole number of intervals from the anchor week,
+ * and not a public holiday unless the schedule runs through them
+ */
+export function isScheduledOn(schedule: ScheduleRule, date: string, holidays: ReadonlySet<string>): boolean {
+  if (!schedule.weekdays.includes(dayOfWeek(date))) return false;
+  if (schedule.skipHolidays && holidays.has(date)) return false;
+
+  if (schedule.intervalWeeks > 1) {
+    if (!schedule.anchorDate) return false;
+    const weeks = weekNumber(date) - weekNumber(schedule.anchorDate);
+    if (((weeks % schedule.intervalWeeks) + schedule.intervalWeeks) % schedule.intervalWeeks !== 0) return false;
+  }
+  return true;
+}
+
+/**
+ * Rows with a delivery on the given day, in their current order.
+ * Rows whose label has no schedule are never due.
+ */
+export function rowsDueOn<T extends TableRow>(
+  rows: T[],
+  date: string,
+  schedules: DeliverySchedule[],
+  holidays: PublicHoliday[],
+): T[] {
+  const schedulesByLabel = new Map(schedules.map(schedule => [schedule.delivery, schedule]));
+  const holidayDates = new Set(holidays.map(holiday => holiday.date));
+  return rows.filter(row => {
+    const schedule = schedulesByLabel.get(row.delivery);
+    return schedule ? isScheduledOn(schedule, date, holidayDates) : false;
+  });
+}
+
+/**
+ * The next days, starting from `from`, on which a schedule has a delivery
+ */
+export function nextDeliveryDates(schedule: ScheduleRule, from: string, count: number, holidays: PublicHoliday[]): string[] {
+  const holidayDates = new Set(holidays.map(holiday => holiday.date));
+  const dates: string[] = [];
+  const start = dayNumber(from);
+  // A year ahead is enough for any supported interval
+  for (let day = start; dates.length < count && day < start + 366; day++) {
+    const date = new Date(day * DAY_MS).toISOString().slice(0, 10);
+    if (isScheduledOn(schedule, date, holidayDates)) dates.push(date);
+  }
+  return dates;
+}
+
+// Short human-readable rule, e.g. "Mon–Fri · every 2 weeks · skips holidays"
+export function describeSchedule(schedule: ScheduleRule): string {
+  const days = [...schedule.weekdays].sort();
+  const isRange = days.length > 2 && days.every((day, index) => index === 0 || day === days[index - 1] + 1);
+  const parts = [
+    days.length === 7 ? "Every day" : isRange
+      ? `${WEEKDAY_NAMES[days[0]]}–${WEEKDAY_NAMES[days[days.length - 1]]}`
+      : days.map(day => WEEKDAY_NAMES[day]).join(", "),
+  ];
+  if (schedule.intervalWeeks > 1) parts.push(`every ${schedule.intervalWeeks} weeks`);
+  parts.push(schedule.skipHolidays ? "skips holidays" : "runs on holidays");
+  return parts.join(" · ");
+}
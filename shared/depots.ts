@@ -0,0 +1,22 @@
+import type { Coordinates, Depot, RouteDepot } from "./schema";
+
+/**
+ * Depot a route departs from: its assigned depot, otherwise the default depot.
+ * Falls back to the first depot when none is marked default.
+ */
+export function resolveDepotForRoute(
+  route: string,
+  depots: Depot[],
+  routeDepots: RouteDepot[],
+): Depot | undefined {
+  const assignment = routeDepots.find(entry => entry.route === route);
+  const assigned = assignment && depots.find(depot => depot.id === assignment.depotId);
+  return assigned ?? depots.find(depot => depot.isDefault) ?? depots[0];
+}
+
+export function depotCoordinates(depot: Depot): Coordinates {
+  return {
+    latitude: parseFloat(depot.latitude),
+    longitude: parseFloat(depot.longitude),
+  };
+}
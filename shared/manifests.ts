@@ -0,0 +1,62 @@
+import type { Manifest, ManifestProgress, ManifestStatus, StopCheckIn } from "./schema";
+
+// Statuses a manifest may move to from each status; completed and cancelled are final
+const MANIFEST_TRANSITIONS: Record<ManifestStatus, readonly ManifestStatus[]> = {
+  draft: ["dispatched", "cancelled"],
+  dispatched: ["completed", "cancelled"],
+  completed: [],
+  cancelled: [],
+};
+
+export function canChangeManifestStatus(from: ManifestStatus, to: ManifestStatus): boolean {
+  return MANIFEST_TRANSITIONS[from].includes(to);
+}
+
+export function nextManifestStatuses(status: ManifestStatus): readonly ManifestStatus[] {
+  return MANIFEST_TRANSITIONS[status];
+}
+
+// A cancelled manifest frees its date and route for a new one
+export function isOpenManifest(manifest: { status: ManifestStatus }): boolean {
+  return manifest.status !== "cancelled";
+}
+
+// Drivers check in while a manifest is being prepared or is out on the road
+export function acceptsCheckIns(manifest: { status: ManifestStatus }): boolean {
+  return manifest.status === "draft" || manifest.status === "dispatched";
+}
+
+/**
+ * Current state of each stop: its most recent check-in, keyed by row id
+ */
+export function latestCheckIns(checkIns: StopCheckIn[]): Map<string, StopCheckIn> {
+  const latest = new Map<string, StopCheckIn>();
+  for (const checkIn of checkIns) {
+    const current = latest.get(checkIn.rowId);
+    if (!current || new Date(checkIn.recordedAt) >= new Date(current.recordedAt)) {
+      latest.set(checkIn.rowId, checkIn);
+    }
+  }
+  return latest;
+}
+
+export function manifestProgress(manifest: Manifest, checkIns: StopCheckIn[]): ManifestProgress {
+  const stopIds = new Set(manifest.stops.map(stop => stop.rowId));
+  const latest = Array.from(latestCheckIns(checkIns).values()).filter(checkIn => stopIds.has(checkIn.rowId));
+  const count = (status: StopCheckIn["status"]) => latest.filter(checkIn => checkIn.status === status).length;
+  const lastCheckIn = latest.reduce<Date | null>((last, checkIn) => {
+    const recordedAt = new Date(checkIn.recordedAt);
+    return !last || recordedAt > last ? recordedAt : last;
+  }, null);
+
+  return {
+    manifestId: manifest.id,
+    route: manifest.route,
+    status: manifest.status,
+    total: manifest.stops.length,
+    arrived: count("arrived"),
+    completed: count("completed"),
+    skipped: count("skipped"),
+    lastCheckInAt: lastCheckIn ? lastCheckIn.toISOString() : null,
+  };
+}
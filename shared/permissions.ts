@@ -0,0 +1,56 @@
+import type { UserRole } from "./schema";
+
+// Rank of each role; a role holds every permission of the roles below it
+const ROLE_RANK: Record<UserRole, number> = {
+  viewer: 0,
+  driver: 1,
+  dispatcher: 2,
+  admin: 3,
+};
+
+// Minimum role required for each capability
+export const permissions = {
+  "layout:save": "viewer",
+  "share:manage": "viewer",
+  "rows:export": "viewer",
+  "rows:update-site": "driver",
+  "stops:check-in": "driver",
+  "media:upload": "driver",
+  "rows:edit": "dispatcher",
+  "rows:reorder": "dispatcher",
+  "routes:optimize": "dispatcher",
+  "routes:assign-depot": "dispatcher",
+  "schedules:manage": "dispatcher",
+  "manifests:manage": "dispatcher",
+  "audit:view": "dispatcher",
+  "layout:team-default": "admin",
+  "rows:purge": "admin",
+  "columns:manage": "admin",
+  "depots:manage": "admin",
+  "pages:manage": "admin",
+  "settings:manage": "admin",
+  "users:manage": "admin",
+} as const satisfies Record<string, UserRole>;
+
+export type Permission = keyof typeof permissions;
+
+// Row fields a driver may change on stops in their own route
+export const DRIVER_EDITABLE_FIELDS = ["info", "qrCode", "images"] as const;
+
+type RoleHolder = { role: UserRole; assignedRoute?: string | null } | null | undefined;
+
+export function hasPermission(user: RoleHolder, permission: Permission): boolean {
+  if (!user) return false;
+  return ROLE_RANK[user.role] >= ROLE_RANK[permissions[permission]];
+}
+
+/**
+ * Whether a user may change the given fields on a row.
+ * Dispatchers and admins may change any field; drivers only the site fields on their own route.
+ */
+export function canEditRowFields(user: RoleHolder, row: { route: string }, fields: string[]): boolean {
+  if (hasPermission(user, "rows:edit")) return true;
+  if (!user || !hasPermission(user, "rows:update-site")) return false;
+  if (!user.assignedRoute || user.assignedRoute !== row.route) return false;
+  return fields.every(field => (DRIVER_EDITABLE_FIELDS as readonly string[]).includes(field));
+}
@@ -0,0 +1,58 @@
+import type { TableColumn, TableRow } from "./schema";
+
+// Changes the server pushes to every open browser over GET /api/events.
+// Rows and columns carry the changed records so clients can patch their caches;
+// everything else names the queries to refetch.
+export type RealtimeEvent =
+  | { type: "rows:upserted"; rows: TableRow[] }
+  | { type: "rows:deleted"; ids: string[] }
+  | { type: "rows:reordered"; sortOrders: Record<string, number> }
+  | { type: "columns:upserted"; columns: TableColumn[] }
+  | { type: "columns:deleted"; ids: string[] }
+  | { type: "columns:reordered"; sortOrders: Record<string, number> }
+  | { type: "invalidate"; queryKey: string[] };
+
+export type RowEvent = Extract<RealtimeEvent, { type: `rows:${string}` }>;
+export type ColumnEvent = Extract<RealtimeEvent, { type: `columns:${string}` }>;
+
+type Ordered = { id: string; sortOrder: number };
+
+function upsert<T extends Ordered>(records: T[], changed: T[]): T[] {
+  const byId = new Map(changed.map(record => [record.id, record]));
+  const kept = records.map(record => byId.get(record.id) ?? record);
+  const known = new Set(records.map(record => record.id));
+  return [...kept, ...changed.filter(record => !known.has(record.id))];
+}
+
+function reorder<T extends Ordered>(records: T[], sortOrders: Record<string, number>): T[] {
+  return records.map(record =>
+    sortOrders[record.id] === undefined || sortOrders[record.id] === record.sortOrder
+      ? record
+      : { ...record, sortOrder: sortOrders[record.id] },
+  );
+}
+
+// The API lists rows and columns by sortOrder; keep cached lists that way
+const bySortOrder = <T extends Ordered>(records: T[]) => [...records].sort((a, b) => a.sortOrder - b.sortOrder);
+
+export function applyRowEvent(rows: TableRow[], event: RowEvent): TableRow[] {
+  switch (event.type) {
+    case "rows:upserted":
+      return bySortOrder(upsert(rows, event.rows));
+    case "rows:deleted":
+      return rows.filter(row => !event.ids.includes(row.id));
+    case "rows:reordered":
+      return bySortOrder(reorder(rows, event.sortOrders));
+  }
+}
+
+export function applyColumnEvent(columns: TableColumn[], event: ColumnEvent): TableColumn[] {
+  switch (event.type) {
+    case "columns:upserted":
+      return bySortOrder(upsert(columns, event.columns));
+    case "columns:deleted":
+      return columns.filter(column => !event.ids.includes(column.id));
+    case "columns:reordered":
+      return bySortOrder(reorder(columns, event.sortOrders));
+  }
+}
@@ -1,8 +1,21 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, decimal, jsonb, integer, uniqueIndex, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, decimal, jsonb, integer, serial, index, uniqueIndex, primaryKey, timestamp, boolean } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Downscaled copies the server makes of uploaded images, by target width in pixels
+export const mediaVariantWidths = { thumbnail: 160, medium: 960 } as const;
+export type MediaVariantSize = keyof typeof mediaVariantWidths;
+
+export const mediaVariantSchema = z.object({
+  size: z.enum(["thumbnail", "medium"]),
+  url: z.string(),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+});
+
+export type MediaVariant = z.infer<typeof mediaVariantSchema>;
+
 // Media type with caption and type support (images and videos)
 export const mediaSchema = z.object({
   url: z.string(),
@@ -10,10 +23,19 @@ export const mediaSchema = z.object({
   type: z.enum(["image", "video"]).default("image"),
   thumbnail: z.string().optional(), // For video thumbnails
   mimeType: z.string().optional(), // MIME type for uploaded files
+  width: z.number().int().positive().optional(), // Upright pixel size of uploaded images
+  height: z.number().int().positive().optional(),
+  variants: z.array(mediaVariantSchema).optional(), // Smaller copies, smallest first
+  gps: z.object({ latitude: z.number(), longitude: z.number() }).optional(), // Where a photo was taken, from its EXIF
+  gpsDismissed: z.boolean().optional(), // The photo's position was rejected as the row's coordinates
 });
 
 export type MediaWithCaption = z.infer<typeof mediaSchema>;
 
+// Value stored for a user-defined column: text/select as string, number/currency as number, images as media
+export const customFieldValueSchema = z.union([z.string(), z.number(), z.array(mediaSchema)]);
+export type CustomFieldValue = z.infer<typeof customFieldValueSchema>;
+
 // Keep backward compatibility
 export const imageSchema = mediaSchema;
 export type ImageWithCaption = MediaWithCaption;
@@ -36,9 +58,16 @@ export const tableRows = pgTable("table_rows", {
   qrCode: text("qr_code").default(""),
   sortOrder: integer("sort_order").notNull().default(0),
   active: boolean("active").notNull().default(true),
-}, (table) => ({
-  uniqueSpecialSort: uniqueIndex("ux_one_special_sortorder").on(table.sortOrder).where(sql`${table.sortOrder} = -1`)
-}));
+  windowStart: text("window_start"), // "HH:MM" the site opens for deliveries, null when always open
+  windowEnd: text("window_end"), // "HH:MM" the site stops accepting deliveries; earlier than windowStart for overnight windows
+  serviceMinutes: integer("service_minutes").notNull().default(0), // Time spent on site per delivery
+  demand: decimal("demand", { precision: 10, scale: 2 }).notNull().default("0"), // Load the delivery takes on a vehicle
+  kilometer: decimal("kilometer", { precision: 8, scale: 2 }), // Road distance from the route's depot
+  driveMinutes: integer("drive_minutes"), // Drive time from the route's depot
+  distanceCalculatedAt: timestamp("distance_calculated_at"), // When kilometer/driveMinutes were last calculated
+  customFields: jsonb("custom_fields").$type<Record<string, CustomFieldValue>>().notNull().default({}), // Values of user-defined columns, keyed by dataKey
+  deletedAt: timestamp("deleted_at"), // Set when the row is moved to the trash; cleared on restore
+});
 
 export const tableColumns = pgTable("table_columns", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -50,9 +79,26 @@ export const tableColumns = pgTable("table_columns", {
   options: jsonb("options").$type<string[]>().default([]),
 });
 
+// 24-hour "HH:MM"; an empty string clears the window
+const timeOfDaySchema = z.union([
+  z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:MM (24-hour) format"),
+  z.literal("").transform(() => null),
+]);
+
+// Road distance fields are written only by the toll/distance calculation
 export const insertTableRowSchema = createInsertSchema(tableRows).omit({
   id: true,
   sortOrder: true,
+  kilometer: true,
+  driveMinutes: true,
+  distanceCalculatedAt: true,
+  deletedAt: true,
+}).extend({
+  windowStart: timeOfDaySchema.nullable().optional(),
+  windowEnd: timeOfDaySchema.nullable().optional(),
+  serviceMinutes: z.coerce.number().int().min(0).max(24 * 60).optional(),
+  demand: z.coerce.number().min(0).transform(String).optional(),
+  customFields: z.record(customFieldValueSchema).optional(),
 });
 
 export const insertTableColumnSchema = createInsertSchema(tableColumns).omit({
@@ -60,6 +106,161 @@ export const insertTableColumnSchema = createInsertSchema(tableColumns).omit({
   sortOrder: true,
 });
 
+// Depots (kitchens/warehouses) that delivery routes start from
+export const depots = pgTable("depots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  address: text("address").notNull().default(""),
+  latitude: decimal("latitude", { precision: 10, scale: 8 }).notNull(),
+  longitude: decimal("longitude", { precision: 11, scale: 8 }).notNull(),
+  isDefault: boolean("is_default").notNull().default(false), // Used by routes without an assignment
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueDefault: uniqueIndex("ux_one_default_depot").on(table.isDefault).where(sql`${table.isDefault} = true`)
+}));
+
+// Depot each route departs from, keyed by the route name used in tableRows.route
+export const routeDepots = pgTable("route_depots", {
+  route: text("route").primaryKey(),
+  depotId: varchar("depot_id").notNull().references(() => depots.id, { onDelete: "cascade" }),
+});
+
+// Coordinates arrive from forms as strings or numbers; stored as decimal strings
+const coordinateSchema = (min: number, max: number) =>
+  z.coerce.number().min(min).max(max).transform(String);
+
+export const insertDepotSchema = createInsertSchema(depots).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Depot name is required"),
+  latitude: coordinateSchema(-90, 90),
+  longitude: coordinateSchema(-180, 180),
+});
+
+export const assignRouteDepotSchema = z.object({
+  depotId: z.string().uuid().nullable(),
+});
+
+// Calendar date as "YYYY-MM-DD"
+export const isoDateSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/, "Date must be in YYYY-MM-DD format");
+
+// Recurrence behind each delivery label in tableRows.delivery; see shared/deliverySchedule.ts
+export const deliverySchedules = pgTable("delivery_schedules", {
+  delivery: text("delivery").primaryKey(), // Label as stored in tableRows.delivery, e.g. "Weekday"
+  weekdays: jsonb("weekdays").$type<number[]>().notNull().default([]), // Days of the week it runs, 0 = Sunday
+  intervalWeeks: integer("interval_weeks").notNull().default(1), // 2 for alternating weeks
+  anchorDate: text("anchor_date"), // "YYYY-MM-DD" in a week the schedule runs; required when intervalWeeks > 1
+  skipHolidays: boolean("skip_holidays").notNull().default(true), // No delivery on public holidays
+});
+
+export const insertDeliveryScheduleSchema = createInsertSchema(deliverySchedules).omit({
+  delivery: true,
+}).extend({
+  weekdays: z.array(z.number().int().min(0).max(6)).min(1, "Choose at least one day").transform(days => Array.from(new Set(days)).sort()),
+  intervalWeeks: z.number().int().min(1).max(8).optional(),
+  anchorDate: isoDateSchema.nullable().optional(),
+}).refine(schedule => (schedule.intervalWeeks ?? 1) === 1 || Boolean(schedule.anchorDate), {
+  message: "Schedules repeating every few weeks need an anchor date",
+  path: ["anchorDate"],
+});
+
+export const publicHolidays = pgTable("public_holidays", {
+  date: text("date").primaryKey(), // "YYYY-MM-DD"
+  name: text("name").notNull().default(""),
+});
+
+export const insertPublicHolidaySchema = createInsertSchema(publicHolidays).extend({
+  date: isoDateSchema,
+  name: z.string().trim().max(100).optional(),
+});
+
+export const dueRowsQuerySchema = z.object({
+  date: isoDateSchema,
+});
+
+// Backends that can supply road distances to the optimizer
+export const distanceProviders = ["haversine", "google", "osrm"] as const;
+export type DistanceProviderName = typeof distanceProviders[number];
+
+// Road distance/duration between two points as returned by a distance provider.
+// Points are keyed as "lat,lng" rounded to 5 decimals (about 1 m). Pairs the provider
+// had no route for are cached too, with null distance and duration.
+export const distanceCache = pgTable("distance_cache", {
+  provider: text("provider").notNull(),
+  originKey: text("origin_key").notNull(),
+  destinationKey: text("destination_key").notNull(),
+  distanceMeters: integer("distance_meters"),
+  durationSeconds: integer("duration_seconds"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.provider, table.originKey, table.destinationKey] }),
+}));
+
+// Backends that turn addresses into coordinates and back
+export const geocodingProviders = ["google", "nominatim"] as const;
+export type GeocodingProviderName = typeof geocodingProviders[number];
+
+// Geocoder answers by provider and normalized query: "address:<lowercased text>" or "reverse:<lat,lng>"
+// with 5 decimals. Lookups that found nothing are cached too, with null coordinates.
+export const geocodeCache = pgTable("geocode_cache", {
+  provider: text("provider").notNull(),
+  query: text("query").notNull(),
+  latitude: decimal("latitude", { precision: 10, scale: 8 }),
+  longitude: decimal("longitude", { precision: 11, scale: 8 }),
+  address: text("address"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.provider, table.query] }),
+}));
+
+export const geocodeQuerySchema = z.object({
+  address: z.string().trim().min(1, "Address is required").max(500),
+  provider: z.enum(geocodingProviders).optional(),
+});
+
+export const reverseGeocodeQuerySchema = z.object({
+  latitude: z.coerce.number().min(-90).max(90),
+  longitude: z.coerce.number().min(-180).max(180),
+  provider: z.enum(geocodingProviders).optional(),
+});
+
+// A place as returned by the geocoding routes
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  address: string; // The provider's formatted address
+  provider: GeocodingProviderName;
+}
+
+// A vehicle available for multi-vehicle optimization
+export const vehicleSchema = z.object({
+  name: z.string().trim().min(1, "Vehicle name is required"),
+  capacity: z.number().positive(), // Same unit as tableRows.demand
+  maxShiftMinutes: z.number().positive().optional(), // Depot to depot, including service time
+});
+
+// Estimated timing of one stop along an optimized route (times are "HH:MM")
+export const stopEtaSchema = z.object({
+  rowId: z.string(),
+  arrival: z.string(),
+  serviceStart: z.string(), // Later than arrival when the driver waits for the window to open
+  departure: z.string(),
+  waitMinutes: z.number(),
+  lateMinutes: z.number(), // Minutes past windowEnd that service starts, 0 when on time
+});
+
+// Stops one vehicle serves, in order
+export const vehicleRouteSchema = z.object({
+  vehicle: z.string(),
+  capacity: z.number(),
+  load: z.number(),
+  stops: z.array(z.string()),
+  distance: z.number(), // km from the depot through the last stop
+  durationMinutes: z.number(), // Depot to depot
+  schedule: z.array(stopEtaSchema).optional(),
+});
+
 // Route Optimization Schema
 export const routeOptimizationResult = pgTable("route_optimization_result", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -70,18 +271,26 @@ export const routeOptimizationResult = pgTable("route_optimization_result", {
   timeSaved: decimal("time_saved", { precision: 8, scale: 2 }).notNull(),
   fuelSaved: decimal("fuel_saved", { precision: 8, scale: 2 }).notNull(),
   algorithm: text("algorithm").notNull().default("nearest_neighbor"),
+  vehicleRoutes: jsonb("vehicle_routes").$type<VehicleRoute[]>(), // Set when the stops were split across vehicles
+  unassignedStops: jsonb("unassigned_stops").$type<string[]>(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const insertRouteOptimizationSchema = createInsertSchema(routeOptimizationResult).omit({
   id: true,
   createdAt: true,
+}).extend({
+  vehicleRoutes: z.array(vehicleRouteSchema).nullable().optional(),
+  unassignedStops: z.array(z.string()).nullable().optional(),
 });
 
+// userId of the team default layout that users without their own layout inherit
+export const TEAM_DEFAULT_LAYOUT_USER_ID = "default";
+
 // Layout preferences for saving column visibility and order (per-user)
 export const layoutPreferences = pgTable("layout_preferences", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: text("user_id").notNull().default("default"),
+  userId: text("user_id").notNull().default(TEAM_DEFAULT_LAYOUT_USER_ID), // users.id as text, or the team default
   columnOrder: jsonb("column_order").$type<string[]>().notNull().default([]),
   columnVisibility: jsonb("column_visibility").$type<Record<string, boolean>>().notNull().default({}),
   creatorName: text("creator_name").notNull().default("Somebody"),
@@ -121,20 +330,27 @@ export const insertGlobalSettingsSchema = createInsertSchema(globalSettings).omi
   updatedAt: true,
 });
 
+// Route/delivery filters and search term applied to the table
+export const tableFiltersSchema = z.object({
+  searchTerm: z.string(),
+  routeFilters: z.array(z.string()),
+  deliveryFilters: z.array(z.string()), // Delivery types hidden from the view
+  inactiveOnly: z.boolean().optional(), // Show only the inactive sites instead of the active ones
+  dueDate: isoDateSchema.optional(), // Show only the stops due on this day
+});
+
+export const tableSortingSchema = z.object({
+  column: z.string(),
+  direction: z.enum(['asc', 'desc']),
+});
+
 // Shared table states for shareable view-only URLs
 export const sharedTableStates = pgTable("shared_table_states", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   shareId: text("share_id").notNull().unique(),
   tableState: jsonb("table_state").$type<{
-    filters: {
-      searchTerm: string;
-      routeFilters: string[];
-      deliveryFilters: string[];
-    };
-    sorting: {
-      column: string;
-      direction: 'asc' | 'desc';
-    } | null;
+    filters: TableFilters;
+    sorting: TableSorting | null;
     columnVisibility: Record<string, boolean>;
     columnOrder: string[];
   }>().notNull(),
@@ -161,10 +377,330 @@ export const insertSavedShareLinkSchema = createInsertSchema(savedShareLinks).om
   createdAt: true,
 });
 
+// Roles in ascending order of capability; see shared/permissions.ts
+export const userRoles = ["viewer", "driver", "dispatcher", "admin"] as const;
+export type UserRole = typeof userRoles[number];
+
+// Accounts used to sign in to edit mode (table created by migrations/20251021_create_users_table.js)
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  email: varchar("email", { length: 255 }).notNull().unique(),
+  name: varchar("name", { length: 255 }),
+  passwordHash: text("password_hash"),
+  role: text("role").$type<UserRole>().notNull().default("viewer"),
+  assignedRoute: text("assigned_route"), // Route a driver may update, e.g. "KL 1"
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const loginSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const registerUserSchema = loginSchema.extend({
+  name: z.string().trim().optional(),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  role: z.enum(userRoles).optional(),
+  assignedRoute: z.string().trim().nullable().optional(),
+});
+
+export const updateUserSchema = z.object({
+  name: z.string().trim().nullable().optional(),
+  role: z.enum(userRoles).optional(),
+  assignedRoute: z.string().trim().nullable().optional(),
+});
+
+// Append-only history of row and column changes; entries are never updated or deleted
+export const auditEntityTypes = ["row", "column"] as const;
+export type AuditEntityType = typeof auditEntityTypes[number];
+export const auditActions = ["create", "update", "delete", "restore", "purge", "reorder"] as const;
+export type AuditAction = typeof auditActions[number];
+
+export const auditLog = pgTable("audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  entityType: text("entity_type").$type<AuditEntityType>().notNull(),
+  entityId: varchar("entity_id").notNull(),
+  action: text("action").$type<AuditAction>().notNull(),
+  field: text("field"), // Row field or custom column dataKey; null for create and delete
+  oldValue: jsonb("old_value").$type<unknown>(), // Whole record on delete and purge
+  newValue: jsonb("new_value").$type<unknown>(), // Whole record on create
+  userId: integer("user_id"), // null for changes made without a signed-in user
+  userName: text("user_name"), // Kept so entries stay readable after the account changes
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  entityIdx: index("audit_log_entity_idx").on(table.entityType, table.entityId, table.createdAt),
+  createdAtIdx: index("audit_log_created_at_idx").on(table.createdAt),
+}));
+
+export const auditLogQuerySchema = z.object({
+  entityType: z.enum(auditEntityTypes).optional(),
+  entityId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(200),
+});
+
+// Row order before a reorder, kept so the most recent reorders can be undone
+export const rowOrderSnapshots = pgTable("row_order_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  label: text("label").notNull(), // The reorder that replaced this order, e.g. "Route optimization"
+  sortOrders: jsonb("sort_orders").$type<Record<string, number>>().notNull(), // sortOrder by row id
+  userId: integer("user_id"),
+  userName: text("user_name"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const reorderRowsSchema = z.object({
+  rowIds: z.array(z.string().uuid("All row IDs must be valid UUIDs")),
+  label: z.string().trim().min(1).max(100).optional().default("Reorder"),
+});
+
+// Spreadsheet import: records keyed by column dataKey, matched to existing rows on `code`
+export const nonImportableKeys = ["id", "images", "kilometer"]; // Computed or uploaded, never typed into a sheet
+export const importRowsSchema = z.object({
+  rows: z.array(z.record(z.unknown())).min(1).max(5000),
+  dryRun: z.boolean().optional().default(false), // Return the preview without writing anything
+});
+
+// Export of the table as displayed; rows and columns arrive already filtered, sorted and ordered
+export const exportFormats = ["csv", "xlsx", "pdf", "geojson", "kml"] as const;
+export type ExportFormat = typeof exportFormats[number];
+
+export const exportTableSchema = z.object({
+  rowIds: z.array(z.string()).max(10000),
+  columnIds: z.array(z.string()).min(1),
+  kilometers: z.record(z.number().nullable()).optional(), // Kilometer column as displayed, keyed by row id
+  filters: tableFiltersSchema,
+  sorting: tableSortingSchema.nullable(),
+});
+
+export type ExportTableRequest = z.infer<typeof exportTableSchema>;
+
+// Dispatch manifests: the stops due on one day for one route, frozen when generated.
+// Stops are copied rather than referenced so later edits to the table do not change what was planned.
+export const manifestStatuses = ["draft", "dispatched", "completed", "cancelled"] as const;
+export type ManifestStatus = typeof manifestStatuses[number];
+export const manifestOrderSources = ["table", "optimization"] as const;
+export type ManifestOrderSource = typeof manifestOrderSources[number];
+
+export const manifestStopSchema = z.object({
+  rowId: z.string(),
+  sequence: z.number().int(), // 1-based stop number on the manifest
+  code: z.string(),
+  location: z.string(),
+  delivery: z.string(),
+  info: z.string(),
+  latitude: z.string().nullable(),
+  longitude: z.string().nullable(),
+  windowStart: z.string().nullable(),
+  windowEnd: z.string().nullable(),
+  serviceMinutes: z.number().int(),
+  demand: z.string(),
+  qrCode: z.string().nullable(),
+});
+
+export const manifests = pgTable("manifests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  date: text("date").notNull(), // "YYYY-MM-DD" the manifest is for
+  route: text("route").notNull(),
+  status: text("status").$type<ManifestStatus>().notNull().default("draft"),
+  orderSource: text("order_source").$type<ManifestOrderSource>().notNull().default("table"),
+  optimizationId: varchar("optimization_id"), // Saved optimization the stop order came from
+  depotName: text("depot_name").notNull().default(""), // Depot the route left from when generated
+  stops: jsonb("stops").$type<ManifestStop[]>().notNull(),
+  userId: integer("user_id"),
+  userName: text("user_name"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  statusChangedAt: timestamp("status_changed_at").defaultNow().notNull(),
+}, (table) => ({
+  dateRouteIdx: index("manifests_date_route_idx").on(table.date, table.route),
+}));
+
+export const generateManifestSchema = z.object({
+  date: isoDateSchema,
+  route: z.string().trim().min(1, "Route is required"),
+  optimizationId: z.string().uuid().optional(), // Use this saved optimization's order instead of the table's
+});
+
+export const manifestQuerySchema = z.object({
+  date: isoDateSchema.optional(),
+  route: z.string().optional(),
+});
+
+export const updateManifestStatusSchema = z.object({
+  status: z.enum(manifestStatuses),
+});
+
+// Driver check-ins against manifest stops; append-only, the latest one per stop is its current state
+export const stopCheckInStatuses = ["arrived", "completed", "skipped"] as const;
+export type StopCheckInStatus = typeof stopCheckInStatuses[number];
+
+export const stopCheckIns = pgTable("stop_check_ins", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  manifestId: varchar("manifest_id").notNull().references(() => manifests.id, { onDelete: "cascade" }),
+  rowId: varchar("row_id").notNull(), // Manifest stop the check-in is for
+  status: text("status").$type<StopCheckInStatus>().notNull(),
+  latitude: decimal("latitude", { precision: 10, scale: 8 }), // Driver position, when the device shared it
+  longitude: decimal("longitude", { precision: 11, scale: 8 }),
+  accuracyMeters: integer("accuracy_meters"),
+  note: text("note").notNull().default(""),
+  photo: jsonb("photo").$type<MediaWithCaption>(), // Proof of delivery
+  userId: integer("user_id"),
+  userName: text("user_name"),
+  recordedAt: timestamp("recorded_at").notNull(), // When the driver checked in, which may precede upload
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  manifestIdx: index("stop_check_ins_manifest_idx").on(table.manifestId, table.recordedAt),
+}));
+
+export const createStopCheckInSchema = z.object({
+  rowId: z.string().uuid(),
+  status: z.enum(stopCheckInStatuses),
+  latitude: z.number().min(-90).max(90).transform(String).nullable().optional(),
+  longitude: z.number().min(-180).max(180).transform(String).nullable().optional(),
+  accuracyMeters: z.number().min(0).transform(Math.round).nullable().optional(),
+  note: z.string().trim().max(1000).optional(),
+  photo: mediaSchema.nullable().optional(),
+  recordedAt: z.coerce.date().optional(),
+}).refine(checkIn => checkIn.status !== "skipped" || Boolean(checkIn.note), {
+  message: "Say why the stop was skipped",
+  path: ["note"],
+});
+
+export const manifestProgressQuerySchema = z.object({
+  date: isoDateSchema,
+});
+
+// Uploaded photos and videos; the bytes live in the media store, rows only hold the URL
+export const MEDIA_URL_PREFIX = "/api/media/";
+export const MAX_MEDIA_BYTES = 100 * 1024 * 1024;
+
+export const mediaFiles = pgTable("media_files", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  storageKey: text("storage_key").notNull(), // Object key in the media store, e.g. "2025/01/<id>.jpg"
+  mimeType: text("mime_type").notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  originalName: text("original_name").notNull().default(""),
+  sha256: text("sha256").notNull(), // Identical uploads share one stored file
+  width: integer("width"), // Upright size of images the server could decode; null for videos
+  height: integer("height"),
+  variants: jsonb("variants").$type<MediaVariant[]>().notNull().default([]),
+  gpsLatitude: decimal("gps_latitude", { precision: 10, scale: 8 }), // EXIF GPS position of photos that have one
+  gpsLongitude: decimal("gps_longitude", { precision: 11, scale: 8 }),
+  userId: integer("user_id"),
+  userName: text("user_name"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastUsedAt: timestamp("last_used_at").defaultNow().notNull(), // Moved on when identical bytes are uploaded again
+}, (table) => ({
+  sha256Idx: index("media_files_sha256_idx").on(table.sha256),
+}));
+
+// Large files are sent in parts of this size and joined on the server
+export const MEDIA_UPLOAD_CHUNK_BYTES = 5 * 1024 * 1024;
+// The parts are streamed into one file when the upload completes; the limit bounds disk use and upload time
+export const MAX_CHUNKED_MEDIA_BYTES = 500 * 1024 * 1024;
+
+// A chunked upload in progress; its parts wait in the media store under "partials/<id>/"
+export const mediaUploads = pgTable("media_uploads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  originalName: text("original_name").notNull().default(""),
+  mimeType: text("mime_type").notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  chunkSize: integer("chunk_size").notNull(),
+  totalChunks: integer("total_chunks").notNull(),
+  userId: integer("user_id"),
+  userName: text("user_name"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Parts received so far; a part sent twice (a retry) is recorded once
+export const mediaUploadParts = pgTable("media_upload_parts", {
+  uploadId: varchar("upload_id").notNull().references(() => mediaUploads.id, { onDelete: "cascade" }),
+  index: integer("part_index").notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.uploadId, table.index] }),
+}));
+
+export const createMediaUploadSchema = z.object({
+  originalName: z.string().trim().max(255).default(""),
+  mimeType: z.string().min(1),
+  sizeBytes: z.number().int().positive().max(MAX_CHUNKED_MEDIA_BYTES, `Files may be at most ${MAX_CHUNKED_MEDIA_BYTES / 1024 / 1024} MB`),
+});
+
 export type InsertTableRow = z.infer<typeof insertTableRowSchema>;
+export type TableFilters = z.infer<typeof tableFiltersSchema>;
+export type TableSorting = z.infer<typeof tableSortingSchema>;
+export type ImportRowsRequest = z.input<typeof importRowsSchema>;
 export type TableRow = typeof tableRows.$inferSelect;
+export type RowRouteMetrics = Pick<TableRow, "kilometer" | "driveMinutes" | "tollPrice">;
 export type InsertTableColumn = z.infer<typeof insertTableColumnSchema>;
 export type TableColumn = typeof tableColumns.$inferSelect;
+export type Depot = typeof depots.$inferSelect;
+export type InsertDepot = z.infer<typeof insertDepotSchema>;
+export type RouteDepot = typeof routeDepots.$inferSelect;
+export type DeliverySchedule = typeof deliverySchedules.$inferSelect;
+export type InsertDeliverySchedule = z.infer<typeof insertDeliveryScheduleSchema>;
+export type PublicHoliday = typeof publicHolidays.$inferSelect;
+export type InsertPublicHoliday = z.infer<typeof insertPublicHolidaySchema>;
+export type StopEta = z.infer<typeof stopEtaSchema>;
+export type Vehicle = z.infer<typeof vehicleSchema>;
+export type VehicleRoute = z.infer<typeof vehicleRouteSchema>;
+export type DistanceCacheEntry = typeof distanceCache.$inferSelect;
+export type RowOrderSnapshot = typeof rowOrderSnapshots.$inferSelect;
+export type RowOrderSnapshotSummary = Omit<RowOrderSnapshot, "sortOrders">; // As listed by GET /api/table-rows/reorder-history
+export type InsertRowOrderSnapshot = typeof rowOrderSnapshots.$inferInsert;
+export type AuditEntry = typeof auditLog.$inferSelect;
+export type InsertAuditEntry = typeof auditLog.$inferInsert;
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+export type ManifestStop = z.infer<typeof manifestStopSchema>;
+export type Manifest = typeof manifests.$inferSelect;
+export type InsertManifest = typeof manifests.$inferInsert;
+export type GenerateManifestRequest = z.infer<typeof generateManifestSchema>;
+export type ManifestQuery = z.infer<typeof manifestQuerySchema>;
+export type StopCheckIn = typeof stopCheckIns.$inferSelect;
+export type InsertStopCheckIn = typeof stopCheckIns.$inferInsert;
+export type CreateStopCheckInRequest = z.input<typeof createStopCheckInSchema>;
+// Per-route progress of a day's manifests, as returned by GET /api/manifests/progress
+export interface ManifestProgress {
+  manifestId: string;
+  route: string;
+  status: ManifestStatus;
+  total: number;
+  arrived: number;
+  completed: number;
+  skipped: number;
+  lastCheckInAt: string | null;
+}
+export type MediaFile = typeof mediaFiles.$inferSelect;
+export type InsertMediaFile = typeof mediaFiles.$inferInsert;
+// One stored file as returned by POST /api/media
+export interface UploadedMedia {
+  id: string;
+  url: string;
+  type: "image" | "video";
+  mimeType: string;
+  sizeBytes: number;
+  originalName: string;
+  width: number | null;
+  height: number | null;
+  variants: MediaVariant[];
+  gps: { latitude: number; longitude: number } | null;
+}
+export type MediaUpload = typeof mediaUploads.$inferSelect;
+export type InsertMediaUpload = typeof mediaUploads.$inferInsert;
+export type CreateMediaUpload = z.infer<typeof createMediaUploadSchema>;
+// A chunked upload as returned by its init and status routes; the client sends the missing parts
+export interface MediaUploadStatus {
+  id: string;
+  sizeBytes: number;
+  chunkSize: number;
+  totalChunks: number;
+  receivedParts: number[];
+}
+export type InsertDistanceCacheEntry = typeof distanceCache.$inferInsert;
+export type GeocodeCacheEntry = typeof geocodeCache.$inferSelect;
+export type InsertGeocodeCacheEntry = typeof geocodeCache.$inferInsert;
 export type RouteOptimizationResult = typeof routeOptimizationResult.$inferSelect;
 export type InsertRouteOptimizationResult = z.infer<typeof insertRouteOptimizationSchema>;
 export type LayoutPreferences = typeof layoutPreferences.$inferSelect;
@@ -177,13 +713,28 @@ export type SharedTableState = typeof sharedTableStates.$inferSelect;
 export type InsertSharedTableState = z.infer<typeof insertSharedTableStateSchema>;
 export type SavedShareLink = typeof savedShareLinks.$inferSelect;
 export type InsertSavedShareLink = z.infer<typeof insertSavedShareLinkSchema>;
+export type User = typeof users.$inferSelect;
+export type InsertUser = typeof users.$inferInsert;
+export type PublicUser = Omit<User, "passwordHash">;
+export type LoginCredentials = z.infer<typeof loginSchema>;
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
 
 // Route Optimization Types
 export interface RouteOptimizationRequest {
   rowIds?: string[];
-  startLocation?: { latitude: number; longitude: number };
-  algorithm?: 'nearest_neighbor' | 'genetic' | 'simulated_annealing';
+  startLocation?: Coordinates;
+  depotId?: string; // Start from this depot; defaults to the depot of the rows' route
+  algorithm?: 'nearest_neighbor' | 'genetic' | 'simulated_annealing' | 'time_windows';
   prioritizeDelivery?: boolean;
+  departureTime?: string; // "HH:MM" the vehicle leaves the depot, used by 'time_windows'
+  vehicles?: Vehicle[]; // Split the stops across these vehicles, one sequence each
+  distanceProvider?: DistanceProviderName; // Defaults to the server's DISTANCE_PROVIDER
   maxDistance?: number;
   vehicleSpecs?: {
     type: string; // e.g., "lorry refrigerator 1 ton"
@@ -195,15 +746,39 @@ export interface RouteOptimizationRequest {
 export interface RouteOptimizationResponse {
   originalOrder: string[];
   optimizedOrder: string[];
-  originalDistance: number;
+  originalDistance: number; // Routed stops in their current order; unassignedStops are left out
   optimizedDistance: number;
   timeSaved: number; // in minutes
   fuelSaved: number; // in liters
   distanceSaved: number;
   algorithm: string;
+  depotId?: string; // Depot the route was optimized from, when one was used
+  schedule?: StopEta[]; // Per-stop ETAs, returned by 'time_windows'
+  lateStops?: string[]; // Row IDs that cannot be served inside their window
+  vehicleRoutes?: VehicleRoute[]; // One sequence per vehicle, when vehicles were requested
+  unassignedStops?: string[]; // Row IDs no vehicle had capacity or shift time for
+  distanceProvider?: DistanceProviderName; // Provider the distances came from, after any fallback
   optimizationFactors: {
     distanceReduction: number;
     timeEfficiency: number;
     fuelEfficiency: number;
   };
 }
+
+export type ImportRowAction = "insert" | "update" | "unchanged" | "error";
+
+export interface ImportRowResult {
+  index: number; // Position of the record in the submitted rows
+  code: string;
+  action: ImportRowAction;
+  changes: string[]; // dataKeys that will be written
+  errors: string[];
+}
+
+export interface ImportPreview {
+  inserts: number;
+  updates: number;
+  unchanged: number;
+  errors: number;
+  results: ImportRowResult[];
+}
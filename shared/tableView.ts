@@ -0,0 +1,99 @@
+import type { TableColumn, TableRow, TableSorting } from "./schema";
+import { getCustomFieldValue, isCustomColumn } from "./customFields";
+
+// Built-in currency fields whose totals show in the table footer
+const CURRENCY_FIELDS = ["tngRoute", "destination", "tollPrice"] as const;
+
+// A row as the table shows it, with the distance column worked out on the client
+export type DisplayRow = TableRow & {
+  displayKilometer?: number | string;
+  segmentDistance?: number; // Distance from the previous stop, or from the depot
+  isRoadDistance?: boolean; // displayKilometer is the stored road distance, not a straight-line estimate
+};
+
+// Inactive sites stay in the table but are left out of the default view, routing and totals
+export function isActiveRow(row: Pick<TableRow, "active">): boolean {
+  return row.active !== false;
+}
+
+export function compareCustomField(a: TableRow, b: TableRow, column: TableColumn): number {
+  const valueA = getCustomFieldValue(a, column.dataKey);
+  const valueB = getCustomFieldValue(b, column.dataKey);
+  if (column.type === "number" || column.type === "currency") {
+    return (Number(valueA) || 0) - (Number(valueB) || 0);
+  }
+  return String(valueA ?? "").localeCompare(String(valueB ?? ""));
+}
+
+function compareRows(a: DisplayRow, b: DisplayRow, sorting: TableSorting, columns: TableColumn[]): number {
+  const direction = sorting.direction === 'asc' ? 1 : -1;
+
+  switch (sorting.column) {
+    case 'code': {
+      const numA = parseInt(a.code || "") || 0;
+      const numB = parseInt(b.code || "") || 0;
+      return (numA - numB) * direction;
+    }
+    case 'route':
+      return (a.route || "").localeCompare(b.route || "") * direction;
+    case 'location':
+      return (a.location || "").localeCompare(b.location || "") * direction;
+    case 'delivery':
+      return (a.delivery || "").localeCompare(b.delivery || "") * direction;
+    case 'kilometer': {
+      const kmA = parseFloat(String(a.displayKilometer)) || 0;
+      const kmB = parseFloat(String(b.displayKilometer)) || 0;
+      return (kmA - kmB) * direction;
+    }
+    case 'order':
+      return ((a.no || 0) - (b.no || 0)) * direction;
+    default: {
+      const customColumn = columns.find(column =>
+        column.dataKey === sorting.column && isCustomColumn(column) && column.type !== "images"
+      );
+      return customColumn ? compareCustomField(a, b, customColumn) * direction : 0;
+    }
+  }
+}
+
+/**
+ * Order rows the way the table displays them: inactive rows last,
+ * then by the chosen sort
+ */
+export function sortTableRows<T extends DisplayRow>(
+  rows: T[],
+  sorting: TableSorting | null,
+  columns: TableColumn[],
+): T[] {
+  if (!sorting) {
+    // Even without sorting, put inactive rows at the bottom
+    const activeRows = rows.filter(isActiveRow);
+    const inactiveRows = rows.filter(row => !isActiveRow(row));
+    return [...activeRows, ...inactiveRows];
+  }
+
+  return [...rows].sort((a, b) => {
+    // Always put inactive rows at the bottom
+    const activeA = isActiveRow(a);
+    const activeB = isActiveRow(b);
+    if (activeA !== activeB) {
+      return activeA ? -1 : 1;
+    }
+    return compareRows(a, b, sorting, columns);
+  });
+}
+
+/**
+ * Footer total for a column over the active rows, or null when the column is not summed
+ */
+export function columnTotal(allRows: TableRow[], column: Pick<TableColumn, "dataKey" | "type">): number | null {
+  const rows = allRows.filter(isActiveRow);
+  if (column.type === "currency" && (CURRENCY_FIELDS as readonly string[]).includes(column.dataKey)) {
+    const field = column.dataKey as typeof CURRENCY_FIELDS[number];
+    return rows.reduce((sum, row) => sum + (parseFloat(row[field] || "0") || 0), 0);
+  }
+  if ((column.type === "currency" || column.type === "number") && isCustomColumn(column)) {
+    return rows.reduce((sum, row) => sum + (Number(getCustomFieldValue(row, column.dataKey)) || 0), 0);
+  }
+  return null;
+}